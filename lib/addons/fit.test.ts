@@ -7,6 +7,7 @@
  */
 
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { EventEmitter } from '../event-emitter';
 import { FitAddon } from './fit';
 
 // ============================================================================
@@ -20,6 +21,8 @@ class MockTerminal {
   public renderer = {
     getMetrics: () => ({ width: 9, height: 16, baseline: 12 }),
   };
+  public fontChangeEmitter = new EventEmitter<void>();
+  public onFontChange = this.fontChangeEmitter.event;
 
   public resize(cols: number, rows: number): void {
     this.cols = cols;
@@ -108,6 +111,27 @@ describe('FitAddon', () => {
     expect(() => addon.observeResize()).not.toThrow();
   });
 
+  test('fits again when the font changes, once fitted', () => {
+    addon.activate(terminal as any);
+    let fits = 0;
+    const fit = addon.fit.bind(addon);
+    addon.fit = () => {
+      fits++;
+      fit();
+    };
+
+    terminal.fontChangeEmitter.fire();
+    expect(fits).toBe(0);
+
+    addon.fit();
+    terminal.fontChangeEmitter.fire();
+    expect(fits).toBe(2);
+
+    addon.dispose();
+    terminal.fontChangeEmitter.fire();
+    expect(fits).toBe(2);
+  });
+
   // ==========================================================================
   // Integration Tests
   // ==========================================================================
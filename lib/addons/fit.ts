@@ -11,9 +11,12 @@
  * fitAddon.fit();              // Manual fit
  * fitAddon.observeResize();    // Auto-fit on resize
  * ```
+ *
+ * Once fitted, the terminal is fitted again whenever its cell size changes
+ * (font options changed or a web font finished loading).
  */
 
-import type { ITerminalAddon, ITerminalCore } from '../interfaces';
+import type { IDisposable, ITerminalAddon, ITerminalCore } from '../interfaces';
 
 // ============================================================================
 // Constants
@@ -44,12 +47,17 @@ export class FitAddon implements ITerminalAddon {
   private _lastCols?: number;
   private _lastRows?: number;
   private _isResizing: boolean = false;
+  private _hasFitted: boolean = false;
+  private _fontChangeListener?: IDisposable;
 
   /**
    * Activate the addon (called by Terminal.loadAddon)
    */
   public activate(terminal: ITerminalCore): void {
     this._terminal = terminal;
+    this._fontChangeListener = terminal.onFontChange?.(() => {
+      if (this._hasFitted) this.fit();
+    });
   }
 
   /**
@@ -68,6 +76,11 @@ export class FitAddon implements ITerminalAddon {
       this._resizeDebounceTimer = undefined;
     }
 
+    // Stop re-fitting on font changes
+    this._fontChangeListener?.dispose();
+    this._fontChangeListener = undefined;
+    this._hasFitted = false;
+
     // Clear stored dimensions
     this._lastCols = undefined;
     this._lastRows = undefined;
@@ -87,6 +100,7 @@ export class FitAddon implements ITerminalAddon {
       return;
     }
 
+    this._hasFitted = true;
     const dims = this.proposeDimensions();
     if (!dims || !this._terminal) {
       return;
@@ -0,0 +1,265 @@
+/**
+ * Tests for SearchAddon
+ *
+ * Searches run against a mock terminal, so these tests don't require WASM.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { EventEmitter } from '../event-emitter';
+import type { CellHighlight } from '../renderer';
+import { type GhosttyCell, createCell } from '../types';
+import { type ISearchResultChangeEvent, SearchAddon } from './search';
+
+// ============================================================================
+// Mock Terminal Implementation
+// ============================================================================
+
+function toCells(text: string, cols: number): GhosttyCell[] {
+  const cells: GhosttyCell[] = [];
+  for (const char of text) {
+    const wide = char.codePointAt(0)! >= 0x1100;
+    cells.push(createCell(char, { width: wide ? 2 : 1 }));
+    if (wide) cells.push(createCell('', { width: 0 }));
+  }
+  while (cells.length < cols) cells.push(createCell());
+  return cells;
+}
+
+/**
+ * Terminal with the given lines (scrollback first). Lines starting with '>'
+ * continue the previous line (soft-wrapped).
+ */
+class MockTerminal {
+  public cols = 10;
+  public rows: number;
+  public viewportY = 0;
+  public highlights: CellHighlight[] = [];
+  public renderer = {
+    setHighlights: (highlights: CellHighlight[]) => {
+      this.highlights = highlights;
+    },
+  };
+  public wasmTerm: {
+    getLine(row: number): GhosttyCell[] | null;
+    isRowWrapped(row: number): boolean;
+    isScrollbackRowWrapped(offset: number): boolean;
+    getRowsPruned(): number;
+  };
+
+  private lines: { cells: GhosttyCell[]; wrapped: boolean }[];
+  private rowsPruned = 0;
+  private writeParsed = new EventEmitter<void>();
+  public onWriteParsed = this.writeParsed.event;
+
+  constructor(lines: string[], rows: number) {
+    this.rows = rows;
+    this.lines = lines.map((line) => {
+      const wrapped = line.startsWith('>');
+      return { cells: toCells(wrapped ? line.slice(1) : line, this.cols), wrapped };
+    });
+    const scrollback = () => this.getScrollbackLength();
+    this.wasmTerm = {
+      getLine: (row) => this.lines[scrollback() + row]?.cells ?? null,
+      isRowWrapped: (row) => this.lines[scrollback() + row]?.wrapped ?? false,
+      isScrollbackRowWrapped: (offset) => this.lines[offset]?.wrapped ?? false,
+      getRowsPruned: () => this.rowsPruned,
+    };
+  }
+
+  /** Append a line, pruning the oldest one like a full scrollback */
+  public writeLine(text: string): void {
+    this.lines.push({ cells: toCells(text, this.cols), wrapped: false });
+    this.lines.shift();
+    this.rowsPruned++;
+    this.writeParsed.fire();
+  }
+
+  public getScrollbackLength(): number {
+    return this.lines.length - this.rows;
+  }
+
+  public getScrollbackLine(offset: number): GhosttyCell[] | null {
+    return this.lines[offset]?.cells ?? null;
+  }
+
+  public getViewportY(): number {
+    return this.viewportY;
+  }
+
+  public scrollToLine(line: number): void {
+    this.viewportY = Math.max(0, Math.min(this.getScrollbackLength(), line));
+  }
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('SearchAddon', () => {
+  let addon: SearchAddon;
+  let results: ISearchResultChangeEvent[];
+
+  function load(lines: string[], rows = lines.length): MockTerminal {
+    const terminal = new MockTerminal(lines, rows);
+    addon.activate(terminal as any);
+    return terminal;
+  }
+
+  beforeEach(() => {
+    addon = new SearchAddon();
+    results = [];
+    addon.onDidChangeResults((event) => results.push(event));
+  });
+
+  afterEach(() => {
+    addon.dispose();
+  });
+
+  test('returns false before activation', () => {
+    expect(addon.findNext('foo')).toBe(false);
+  });
+
+  test('cycles through matches and reports the result index', () => {
+    load(['foo bar', 'bar foo', 'foo']);
+
+    expect(addon.findNext('foo')).toBe(true);
+    addon.findNext('foo');
+    addon.findNext('foo');
+    addon.findNext('foo');
+
+    expect(results.map((r) => r.resultIndex)).toEqual([0, 1, 2, 0]);
+    expect(results.every((r) => r.resultCount === 3)).toBe(true);
+  });
+
+  test('findPrevious moves backwards and wraps around', () => {
+    load(['foo', 'foo', 'foo']);
+
+    addon.findPrevious('foo');
+    addon.findPrevious('foo');
+    addon.findNext('foo');
+
+    expect(results.map((r) => r.resultIndex)).toEqual([2, 1, 2]);
+  });
+
+  test('reports no results', () => {
+    load(['hello']);
+
+    expect(addon.findNext('bye')).toBe(false);
+    expect(results).toEqual([{ resultIndex: -1, resultCount: 0 }]);
+  });
+
+  test('is case-insensitive unless caseSensitive is set', () => {
+    load(['Foo foo']);
+
+    addon.findNext('foo');
+    addon.findNext('foo', { caseSensitive: true });
+
+    expect(results.map((r) => r.resultCount)).toEqual([2, 1]);
+  });
+
+  test('supports regular expressions and whole words', () => {
+    load(['cat cats', 'a1 b22']);
+
+    addon.findNext('[a-z]\\d+', { regex: true });
+    addon.findNext('cat', { wholeWord: true });
+    addon.findNext('(', { regex: true });
+
+    expect(results.map((r) => r.resultCount)).toEqual([2, 1, 0]);
+  });
+
+  test('finds matches across soft-wrapped rows', () => {
+    const terminal = load(['abcdefghij', '>klmno']);
+
+    expect(addon.findNext('ijkl')).toBe(true);
+    expect(terminal.highlights.slice(-2)).toEqual([
+      { row: 0, startCol: 8, endCol: 10, color: '#d18616' },
+      { row: 1, startCol: 0, endCol: 2, color: '#d18616' },
+    ]);
+  });
+
+  test('maps matches after wide characters to cell columns', () => {
+    const terminal = load(['日本 go']);
+
+    addon.findNext('go', { decorations: { activeMatchBackground: 'red' } });
+
+    expect(terminal.highlights.at(-1)).toEqual({ row: 0, startCol: 5, endCol: 7, color: 'red' });
+  });
+
+  test('highlights all matches and draws the active match last', () => {
+    const terminal = load(['ab ab']);
+
+    addon.findNext('ab', {
+      decorations: { matchBackground: 'blue', activeMatchBackground: 'red' },
+    });
+
+    expect(terminal.highlights).toEqual([
+      { row: 0, startCol: 0, endCol: 2, color: 'blue' },
+      { row: 0, startCol: 3, endCol: 5, color: 'blue' },
+      { row: 0, startCol: 0, endCol: 2, color: 'red' },
+    ]);
+  });
+
+  test('starts a new search from the top of the viewport', () => {
+    const terminal = load(['foo', 'x', 'foo', 'foo'], 2);
+
+    addon.findNext('foo');
+
+    // Viewport shows rows 2-3: the first match at or below the top is row 2
+    expect(results[0].resultIndex).toBe(1);
+    expect(terminal.viewportY).toBe(0);
+  });
+
+  test('scrolls matches outside the viewport into view', () => {
+    const terminal = load(['foo', 'x', 'y', 'z', 'w'], 2);
+
+    addon.findNext('foo');
+
+    expect(terminal.viewportY).toBe(3);
+  });
+
+  test('incremental search keeps the current match while it still matches', () => {
+    load(['foo', 'foobar']);
+
+    addon.findNext('foo');
+    addon.findNext('foob', { incremental: true });
+    addon.findNext('fo', { incremental: true });
+
+    expect(results.map((r) => r.resultIndex)).toEqual([0, 0, 1]);
+  });
+
+  test('keeps highlights on their lines and refreshes them after output', async () => {
+    const terminal = load(['foo', 'bar', 'foo'], 1);
+
+    addon.findNext('foo');
+    expect(terminal.highlights.map((h) => h.row)).toEqual([0, 2, 2]);
+
+    // The first line is pruned: the remaining matches keep their absolute rows
+    terminal.writeLine('foo');
+    expect(terminal.highlights.map((h) => h.row)).toEqual([0, 2, 2]);
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    expect(terminal.highlights.map((h) => h.row)).toEqual([2, 3, 2]);
+    expect(results.pop()).toEqual({ resultIndex: 0, resultCount: 2 });
+  });
+
+  test('stops refreshing once decorations are cleared', async () => {
+    const terminal = load(['foo', 'bar', 'foo'], 1);
+
+    addon.findNext('foo');
+    addon.clearDecorations();
+    terminal.writeLine('foo');
+    await new Promise((resolve) => setTimeout(resolve, 250));
+
+    expect(terminal.highlights).toEqual([]);
+    expect(results).toHaveLength(1);
+  });
+
+  test('clearDecorations removes highlights', () => {
+    const terminal = load(['foo']);
+
+    addon.findNext('foo');
+    addon.clearDecorations();
+
+    expect(terminal.highlights).toEqual([]);
+  });
+});
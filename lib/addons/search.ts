@@ -0,0 +1,460 @@
+/**
+ * SearchAddon - Find text in the terminal buffer
+ *
+ * Searches scrollback and screen lines, joining soft-wrapped rows so that
+ * matches can span line wraps. Matches are highlighted by the renderer and
+ * navigating to a match scrolls it into view. While a search is active, the
+ * matches are refreshed as output is written.
+ * Compatible with xterm.js SearchAddon API.
+ *
+ * Usage:
+ * ```typescript
+ * const searchAddon = new SearchAddon();
+ * term.loadAddon(searchAddon);
+ * searchAddon.onDidChangeResults(({ resultIndex, resultCount }) => { ... });
+ * searchAddon.findNext('error', { caseSensitive: true });
+ * searchAddon.findPrevious('error', { caseSensitive: true });
+ * searchAddon.clearDecorations();
+ * ```
+ */
+
+import { EventEmitter } from '../event-emitter';
+import type { IGhosttyTerminal } from '../ghostty';
+import type { IDisposable, IEvent, ITerminalAddon, ITerminalCore } from '../interfaces';
+import type { CellHighlight, IRenderer } from '../renderer';
+import type { GhosttyCell } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_MATCH_BACKGROUND = '#7a5c00';
+const DEFAULT_ACTIVE_MATCH_BACKGROUND = '#d18616';
+const HIGHLIGHT_LIMIT = 1000; // Matches beyond this are counted but not highlighted
+const REFRESH_DELAY = 200; // Delay before matches are refreshed after output (ms)
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ISearchDecorationOptions {
+  /** Background of matches (default: dark yellow) */
+  matchBackground?: string;
+  /** Background of the current match (default: orange) */
+  activeMatchBackground?: string;
+}
+
+export interface ISearchOptions {
+  /** Treat the search term as a regular expression */
+  regex?: boolean;
+  /** Match case (default: case-insensitive) */
+  caseSensitive?: boolean;
+  /** Only match whole words */
+  wholeWord?: boolean;
+  /** Stay on the current match if it still matches (for search-as-you-type) */
+  incremental?: boolean;
+  decorations?: ISearchDecorationOptions;
+}
+
+export interface ISearchResultChangeEvent {
+  /** Index of the current match, or -1 if there is none */
+  resultIndex: number;
+  resultCount: number;
+}
+
+/**
+ * A match in absolute rows, which count the rows pruned from the scrollback so
+ * that a match keeps its row while old lines are dropped. The end column is
+ * exclusive.
+ */
+interface SearchMatch {
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+}
+
+/**
+ * Soft-wrapped rows joined into one string
+ */
+interface LogicalLine {
+  text: string;
+  /** Buffer row (0 = oldest scrollback line) */
+  firstRow: number;
+  /** Cell offset from the start of the first row where each UTF-16 unit of text starts */
+  starts: number[];
+  /** Cell offset where each UTF-16 unit of text ends (exclusive) */
+  ends: number[];
+}
+
+/**
+ * Terminal members the addon uses
+ */
+type SearchableTerminal = ITerminalCore & {
+  wasmTerm?: IGhosttyTerminal;
+  renderer?: Pick<IRenderer, 'setHighlights'>;
+  onWriteParsed?: IEvent<void>;
+  getScrollbackLength(): number;
+  getScrollbackLine(offset: number): GhosttyCell[] | null;
+  getViewportY(): number;
+  scrollToLine(line: number): void;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function compareMatchStart(a: SearchMatch, b: SearchMatch): number {
+  return a.startRow - b.startRow || a.startCol - b.startCol;
+}
+
+function isSameMatch(a: SearchMatch, b: SearchMatch): boolean {
+  return compareMatchStart(a, b) === 0 && a.endRow === b.endRow && a.endCol === b.endCol;
+}
+
+/**
+ * Build the regular expression for a search, or null if the term is invalid
+ */
+function createPattern(term: string, options: ISearchOptions): RegExp | null {
+  let source = options.regex ? term : escapeRegExp(term);
+  if (options.wholeWord) {
+    source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  }
+  try {
+    return new RegExp(source, options.caseSensitive ? 'gu' : 'giu');
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// SearchAddon Class
+// ============================================================================
+
+export class SearchAddon implements ITerminalAddon {
+  private _terminal?: SearchableTerminal;
+  private _activeMatch?: SearchMatch;
+  private _lastSearchKey?: string;
+  private _lastSearch?: { term: string; options: ISearchOptions };
+  private _hasHighlights = false;
+  private _writeListener?: IDisposable;
+  private _refreshTimer?: ReturnType<typeof setTimeout>;
+  private _onDidChangeResults = new EventEmitter<ISearchResultChangeEvent>();
+
+  public readonly onDidChangeResults: IEvent<ISearchResultChangeEvent> =
+    this._onDidChangeResults.event;
+
+  /**
+   * Activate the addon (called by Terminal.loadAddon)
+   */
+  public activate(terminal: ITerminalCore): void {
+    this._terminal = terminal as SearchableTerminal;
+    this._writeListener = this._terminal.onWriteParsed?.(() => this.scheduleRefresh());
+  }
+
+  /**
+   * Dispose the addon and clean up resources
+   */
+  public dispose(): void {
+    this.clearDecorations();
+    this._writeListener?.dispose();
+    this._writeListener = undefined;
+    this._onDidChangeResults.dispose();
+    this._terminal = undefined;
+  }
+
+  /**
+   * Find the next match after the current one (or from the top of the viewport
+   * for a new search), wrapping around at the end of the buffer.
+   * @returns Whether a match was found
+   */
+  public findNext(term: string, options: ISearchOptions = {}): boolean {
+    return this.find(term, options, 'next');
+  }
+
+  /**
+   * Find the previous match before the current one (or from the bottom of the
+   * viewport for a new search), wrapping around at the start of the buffer.
+   * @returns Whether a match was found
+   */
+  public findPrevious(term: string, options: ISearchOptions = {}): boolean {
+    return this.find(term, options, 'previous');
+  }
+
+  /**
+   * Remove match highlights and forget the current match
+   */
+  public clearDecorations(): void {
+    this._activeMatch = undefined;
+    this._lastSearchKey = undefined;
+    this._lastSearch = undefined;
+    if (this._refreshTimer) {
+      clearTimeout(this._refreshTimer);
+      this._refreshTimer = undefined;
+    }
+    if (this._hasHighlights) {
+      this._hasHighlights = false;
+      this._terminal?.renderer?.setHighlights([]);
+    }
+  }
+
+  // ==========================================================================
+  // Searching
+  // ==========================================================================
+
+  private find(term: string, options: ISearchOptions, direction: 'next' | 'previous'): boolean {
+    if (!this._terminal?.wasmTerm) return false;
+
+    if (!term) {
+      this.clearDecorations();
+      this._onDidChangeResults.fire({ resultIndex: -1, resultCount: 0 });
+      return false;
+    }
+
+    const matches = this.findMatches(term, options);
+    const searchKey = JSON.stringify([
+      term,
+      !!options.regex,
+      !!options.caseSensitive,
+      !!options.wholeWord,
+    ]);
+    // Incremental searches continue from the current match even when the term changes
+    const continues = searchKey === this._lastSearchKey || !!options.incremental;
+    const index = this.selectMatch(
+      matches,
+      direction,
+      continues ? this._activeMatch : undefined,
+      !!options.incremental
+    );
+
+    this._lastSearchKey = searchKey;
+    this._lastSearch = { term, options };
+    this._activeMatch = index === -1 ? undefined : matches[index];
+    this.updateHighlights(matches, index, options.decorations);
+    if (this._activeMatch) {
+      this.scrollToMatch(this._activeMatch);
+    }
+
+    this._onDidChangeResults.fire({ resultIndex: index, resultCount: matches.length });
+    return index !== -1;
+  }
+
+  /**
+   * Refresh the matches shortly after output is written, while a search is active
+   */
+  private scheduleRefresh(): void {
+    if (!this._lastSearch || this._refreshTimer) return;
+    this._refreshTimer = setTimeout(() => {
+      this._refreshTimer = undefined;
+      this.refreshMatches();
+    }, REFRESH_DELAY);
+  }
+
+  /**
+   * Search again for the last term without moving or scrolling. The current
+   * match stays current if it still matches, e.g. it wasn't pruned or overwritten.
+   */
+  private refreshMatches(): void {
+    const search = this._lastSearch;
+    if (!search || !this._terminal?.wasmTerm) return;
+
+    const matches = this.findMatches(search.term, search.options);
+    const active = this._activeMatch;
+    const index = active ? matches.findIndex((match) => isSameMatch(match, active)) : -1;
+    this._activeMatch = index === -1 ? undefined : matches[index];
+    this.updateHighlights(matches, index, search.options.decorations);
+    this._onDidChangeResults.fire({ resultIndex: index, resultCount: matches.length });
+  }
+
+  /**
+   * Pick the match to move to, relative to the current match or the viewport
+   */
+  private selectMatch(
+    matches: SearchMatch[],
+    direction: 'next' | 'previous',
+    current: SearchMatch | undefined,
+    incremental: boolean
+  ): number {
+    if (matches.length === 0) return -1;
+
+    if (direction === 'next') {
+      let index: number;
+      if (current) {
+        index = matches.findIndex((match) => {
+          const order = compareMatchStart(match, current);
+          return incremental ? order >= 0 : order > 0;
+        });
+      } else {
+        const top = this.getViewportTop();
+        index = matches.findIndex((match) => match.startRow >= top);
+      }
+      return index === -1 ? 0 : index;
+    }
+
+    const bottom = this.getViewportTop() + (this._terminal?.rows ?? 0);
+    for (let i = matches.length - 1; i >= 0; i--) {
+      const match = matches[i];
+      if (current) {
+        const order = compareMatchStart(match, current);
+        if (incremental ? order <= 0 : order < 0) return i;
+      } else if (match.startRow < bottom) {
+        return i;
+      }
+    }
+    return matches.length - 1;
+  }
+
+  /**
+   * Find all matches in the buffer, in order
+   */
+  private findMatches(term: string, options: ISearchOptions): SearchMatch[] {
+    const pattern = createPattern(term, options);
+    if (!pattern) return [];
+
+    const cols = this._terminal!.cols;
+    const rowsPruned = this._terminal!.wasmTerm!.getRowsPruned();
+    const matches: SearchMatch[] = [];
+    for (const line of this.readLines()) {
+      const firstRow = rowsPruned + line.firstRow;
+      pattern.lastIndex = 0;
+      let result = pattern.exec(line.text);
+      while (result) {
+        if (result[0].length === 0) {
+          // Skip empty matches (e.g. regex `a*`) so the loop advances
+          pattern.lastIndex++;
+        } else {
+          const start = line.starts[result.index];
+          const end = line.ends[result.index + result[0].length - 1];
+          matches.push({
+            startRow: firstRow + Math.floor(start / cols),
+            startCol: start % cols,
+            endRow: firstRow + Math.floor((end - 1) / cols),
+            endCol: ((end - 1) % cols) + 1,
+          });
+        }
+        result = pattern.exec(line.text);
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Read scrollback and screen lines, joining soft-wrapped rows
+   */
+  private readLines(): LogicalLine[] {
+    const terminal = this._terminal!;
+    const wasmTerm = terminal.wasmTerm!;
+    const cols = terminal.cols;
+    const scrollbackLength = terminal.getScrollbackLength();
+    const totalRows = scrollbackLength + terminal.rows;
+
+    const lines: LogicalLine[] = [];
+    let current: LogicalLine | null = null;
+
+    for (let row = 0; row < totalRows; row++) {
+      const isScrollback = row < scrollbackLength;
+      const cells = isScrollback
+        ? terminal.getScrollbackLine(row)
+        : wasmTerm.getLine(row - scrollbackLength);
+      const wrapped = isScrollback
+        ? wasmTerm.isScrollbackRowWrapped(row)
+        : wasmTerm.isRowWrapped(row - scrollbackLength);
+
+      if (!current || !wrapped) {
+        current = { text: '', firstRow: row, starts: [], ends: [] };
+        lines.push(current);
+      }
+
+      const rowOffset = (row - current.firstRow) * cols;
+      for (let col = 0; col < cols; col++) {
+        const cell = cells?.[col];
+        if (cell && cell.width === 0) continue; // Spacer cell of a wide character
+        const char = cell && cell.codepoint > 0 ? String.fromCodePoint(cell.codepoint) : ' ';
+        const start = rowOffset + col;
+        const end = start + Math.max(1, cell?.width ?? 1);
+        for (let i = 0; i < char.length; i++) {
+          current.starts.push(start);
+          current.ends.push(end);
+        }
+        current.text += char;
+      }
+    }
+
+    return lines;
+  }
+
+  // ==========================================================================
+  // Display
+  // ==========================================================================
+
+  /**
+   * Absolute row at the top of the screen
+   */
+  private getScreenTop(): number {
+    const terminal = this._terminal!;
+    return terminal.wasmTerm!.getRowsPruned() + terminal.getScrollbackLength();
+  }
+
+  /**
+   * Absolute row shown at the top of the viewport
+   */
+  private getViewportTop(): number {
+    return this.getScreenTop() - Math.floor(this._terminal!.getViewportY());
+  }
+
+  /**
+   * Scroll the viewport so the match is visible, centering it when it is off screen
+   */
+  private scrollToMatch(match: SearchMatch): void {
+    const terminal = this._terminal!;
+    const top = this.getViewportTop();
+    if (match.startRow >= top && match.endRow < top + terminal.rows) return;
+
+    // scrollToLine takes the number of lines scrolled up from the bottom
+    const targetTop = match.startRow - Math.floor(terminal.rows / 2);
+    terminal.scrollToLine(this.getScreenTop() - targetTop);
+  }
+
+  /**
+   * Send match highlights to the renderer, with the active match drawn last
+   */
+  private updateHighlights(
+    matches: SearchMatch[],
+    activeIndex: number,
+    decorations: ISearchDecorationOptions = {}
+  ): void {
+    const renderer = this._terminal!.renderer;
+    if (!renderer) return;
+
+    const cols = this._terminal!.cols;
+    const highlights: CellHighlight[] = [];
+    const addMatch = (match: SearchMatch, color: string) => {
+      for (let row = match.startRow; row <= match.endRow; row++) {
+        highlights.push({
+          row,
+          startCol: row === match.startRow ? match.startCol : 0,
+          endCol: row === match.endRow ? match.endCol : cols,
+          color,
+        });
+      }
+    };
+
+    const matchBackground = decorations.matchBackground ?? DEFAULT_MATCH_BACKGROUND;
+    for (const match of matches.slice(0, HIGHLIGHT_LIMIT)) {
+      addMatch(match, matchBackground);
+    }
+    if (activeIndex !== -1) {
+      addMatch(
+        matches[activeIndex],
+        decorations.activeMatchBackground ?? DEFAULT_ACTIVE_MATCH_BACKGROUND
+      );
+    }
+
+    renderer.setHighlights(highlights);
+    this._hasHighlights = highlights.length > 0;
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Tests for SerializeAddon
+ *
+ * Buffers are read through the real buffer API from a mock WASM terminal,
+ * so these tests don't require WASM (except the round trip test).
+ */
+
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { BufferNamespace } from '../buffer';
+import { createIsolatedTerminal } from '../test-helpers';
+import { CellFlags, type GhosttyCell, UnderlineStyle, createCell } from '../types';
+import { SerializeAddon } from './serialize';
+
+// ============================================================================
+// Mock Terminal Implementation
+// ============================================================================
+
+const FG = { r: 204, g: 204, b: 204 };
+const BG = { r: 0, g: 0, b: 0 };
+
+interface CellOptions {
+  fg?: [number, number, number];
+  bg?: [number, number, number];
+  flags?: number;
+  underline?: UnderlineStyle;
+  ul?: [number, number, number];
+}
+
+function cell(char: string, options: CellOptions = {}): GhosttyCell {
+  const [fg_r, fg_g, fg_b] = options.fg ?? [FG.r, FG.g, FG.b];
+  const [bg_r, bg_g, bg_b] = options.bg ?? [BG.r, BG.g, BG.b];
+  const [ul_r, ul_g, ul_b] = options.ul ?? [0, 0, 0];
+  const underline = options.underline ?? UnderlineStyle.NONE;
+  return createCell(char, {
+    fg_r,
+    fg_g,
+    fg_b,
+    bg_r,
+    bg_g,
+    bg_b,
+    flags: (options.flags ?? 0) | (underline ? CellFlags.UNDERLINE : 0),
+    underline_style: underline,
+    ul_r,
+    ul_g,
+    ul_b,
+    has_ul_color: options.ul ? 1 : 0,
+  });
+}
+
+function text(value: string, options: CellOptions = {}): GhosttyCell[] {
+  return Array.from(value, (char) => cell(char, options));
+}
+
+class MockTerminal {
+  public cols = 8;
+  public rows: number;
+  public options = { fontFamily: 'monospace', fontSize: 15 };
+  public buffer = new BufferNamespace(this as any);
+  public cursor = { x: 0, y: 0 };
+  public alternate = false;
+  public modes = new Set<number>([7, 25]);
+  public wasmTerm;
+
+  private lines: { cells: GhosttyCell[]; wrapped: boolean }[];
+  /** Normal screen (scrollback first) while the alternate screen is active */
+  private primary: { cells: GhosttyCell[]; wrapped: boolean }[] = [];
+  private primaryCursor = { x: 0, y: 0 };
+
+  constructor(lines: (GhosttyCell[] | { cells: GhosttyCell[]; wrapped: boolean })[], rows: number) {
+    this.rows = rows;
+    this.lines = this.pad(lines);
+    const scrollback = () => this.lines.length - this.rows;
+    this.wasmTerm = {
+      cols: this.cols,
+      rows: this.rows,
+      getScrollbackLength: scrollback,
+      getScrollbackLine: (offset: number) => this.lines[offset]?.cells ?? null,
+      isScrollbackRowWrapped: (offset: number) => this.lines[offset]?.wrapped ?? false,
+      getLine: (row: number) => this.lines[scrollback() + row]?.cells ?? null,
+      isRowWrapped: (row: number) => this.lines[scrollback() + row]?.wrapped ?? false,
+      getCursor: () => this.cursor,
+      getPrimaryLength: () => this.primary.length,
+      getPrimaryLine: (y: number) => this.primary[y]?.cells ?? null,
+      isPrimaryRowWrapped: (y: number) => this.primary[y]?.wrapped ?? false,
+      getPrimaryCursor: () => this.primaryCursor,
+      isAlternateScreen: () => this.alternate,
+      getColors: () => ({ foreground: FG, background: BG, cursor: null }),
+      getMode: (mode: number, isAnsi: boolean) => !isAnsi && this.modes.has(mode),
+    };
+  }
+
+  /**
+   * Switch to the alternate screen, keeping the given normal screen
+   */
+  enterAlternateScreen(normal: GhosttyCell[][], cursor: { x: number; y: number }): void {
+    this.alternate = true;
+    this.primary = this.pad(normal);
+    this.primaryCursor = cursor;
+  }
+
+  private pad(lines: (GhosttyCell[] | { cells: GhosttyCell[]; wrapped: boolean })[]) {
+    return lines.map((line) => {
+      const { cells, wrapped } = Array.isArray(line) ? { cells: line, wrapped: false } : line;
+      const padded = [...cells];
+      while (padded.length < this.cols) padded.push(cell(''));
+      return { cells: padded, wrapped };
+    });
+  }
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('SerializeAddon', () => {
+  let addon: SerializeAddon;
+
+  function load(...args: ConstructorParameters<typeof MockTerminal>): MockTerminal {
+    const terminal = new MockTerminal(...args);
+    addon.activate(terminal as any);
+    return terminal;
+  }
+
+  beforeEach(() => {
+    addon = new SerializeAddon();
+  });
+
+  test('throws before activation', () => {
+    expect(() => addon.serialize()).toThrow();
+  });
+
+  test('serializes lines, trimming trailing blanks, and the cursor', () => {
+    const terminal = load([text('ab'), text('cd'), []], 3);
+    terminal.cursor = { x: 2, y: 1 };
+
+    expect(addon.serialize()).toBe('ab\r\ncd\r\n\x1b[2;3H');
+  });
+
+  test('writes colors as RGB and styles as SGR', () => {
+    load(
+      [
+        [
+          ...text('r', { fg: [255, 0, 0], flags: CellFlags.BOLD }),
+          ...text('b', { bg: [0, 0, 255] }),
+        ],
+      ],
+      1
+    );
+
+    expect(addon.serialize()).toBe('\x1b[0;1;38;2;255;0;0mr\x1b[0;48;2;0;0;255mb\x1b[0m\x1b[1;1H');
+  });
+
+  test('writes underline styles and colors as SGR 4:x and 58', () => {
+    load(
+      [
+        [
+          ...text('u', { flags: CellFlags.UNDERLINE }),
+          ...text('c', { underline: UnderlineStyle.CURLY, ul: [255, 0, 0] }),
+          ...text('d', { underline: UnderlineStyle.DOUBLE }),
+        ],
+      ],
+      1
+    );
+
+    expect(addon.serialize()).toBe(
+      '\x1b[0;4mu\x1b[0;4:3;58:2::255:0:0mc\x1b[0;4:2md\x1b[0m\x1b[1;1H'
+    );
+    expect(addon.serializeAsHTML()).toContain(
+      '<span style="text-decoration: underline; text-decoration-style: wavy; text-decoration-color: #ff0000;">c</span>'
+    );
+  });
+
+  test('keeps soft-wrapped rows on one line', () => {
+    load([text('abcdefgh'), { cells: text('ij'), wrapped: true }], 2);
+
+    expect(addon.serialize({ excludeModes: true })).toBe('abcdefghij\x1b[1;1H');
+  });
+
+  test('limits the scrollback', () => {
+    load([text('old'), text('new'), text('now')], 1);
+
+    expect(addon.serialize({ scrollback: 1 })).toBe('new\r\nnow\x1b[1;1H');
+  });
+
+  test('restores modes that differ from the defaults', () => {
+    const terminal = load([text('a')], 1);
+    terminal.modes = new Set([1, 2004]);
+
+    expect(addon.serialize()).toBe('a\x1b[1;1H\x1b[?1h\x1b[?2004h\x1b[?7l\x1b[?25l');
+  });
+
+  test('writes the normal screen, then switches to the alternate screen when it is active', () => {
+    const terminal = load([text('vim')], 1);
+    terminal.enterAlternateScreen([text('$ ls'), text('$ vim')], { x: 5, y: 0 });
+
+    expect(addon.serialize()).toBe('$ ls\r\n$ vim\x1b[1;6H\x1b[?1049h\x1b[Hvim\x1b[1;1H');
+    expect(addon.serialize({ excludeAltBuffer: true })).toBe('$ ls\r\n$ vim\x1b[1;6H');
+    expect(addon.serialize({ scrollback: 0 })).toBe('$ vim\x1b[1;6H\x1b[?1049h\x1b[Hvim\x1b[1;1H');
+  });
+
+  describe('serializeAsHTML', () => {
+    test('wraps rows in styled spans', () => {
+      load(
+        [[...text('<a', { fg: [255, 0, 0] }), ...text('b', { flags: CellFlags.UNDERLINE })], []],
+        2
+      );
+
+      expect(addon.serializeAsHTML({ includeGlobalBackground: true })).toBe(
+        '<html><body><!--StartFragment--><pre>' +
+          '<div style="color: #cccccc; background-color: #000000; font-family: monospace; font-size: 15px;">' +
+          '<div><span style="color: #ff0000;">&lt;a</span><span style="text-decoration: underline;">b</span></div>' +
+          '<div><br></div>' +
+          '</div></pre><!--EndFragment--></body></html>'
+      );
+    });
+
+    test('applies inverse video with the default colors', () => {
+      load([text('x', { flags: CellFlags.INVERSE })], 1);
+
+      expect(addon.serializeAsHTML()).toContain(
+        '<span style="color: #000000; background-color: #cccccc;">x</span>'
+      );
+    });
+  });
+});
+
+// ============================================================================
+// Terminal integration
+// ============================================================================
+
+describe('Terminal serialization', () => {
+  test('writing the serialized stream reproduces the buffer', async () => {
+    const source = await createIsolatedTerminal({ cols: 10, rows: 4 });
+    const target = await createIsolatedTerminal({ cols: 10, rows: 4 });
+    const sourceAddon = new SerializeAddon();
+    const targetAddon = new SerializeAddon();
+    source.loadAddon(sourceAddon);
+    target.loadAddon(targetAddon);
+
+    source.write(
+      '\x1b[1;31mred\x1b[0m plain\r\nwrapped line of text\r\n\x1b[44mblue\x1b[0m\r\n1\r\n2\r\n3 '
+    );
+    target.write(sourceAddon.serialize());
+
+    expect(targetAddon.serialize()).toBe(sourceAddon.serialize());
+    expect(target.buffer.active.getLine(2)?.isWrapped).toBe(true);
+    expect(target.buffer.active.cursorX).toBe(2);
+
+    source.dispose();
+    target.dispose();
+  });
+
+  test('restores the normal screen behind the alternate screen', async () => {
+    const source = await createIsolatedTerminal({ cols: 10, rows: 2 });
+    const target = await createIsolatedTerminal({ cols: 10, rows: 2 });
+    const sourceAddon = new SerializeAddon();
+    source.loadAddon(sourceAddon);
+
+    source.write('1\r\n2\r\n$ vim\x1b[?1049hfile');
+    target.write(sourceAddon.serialize());
+
+    expect(target.buffer.active.type).toBe('alternate');
+    expect(target.buffer.active.getLine(0)?.translateToString(true)).toBe('file');
+    expect(target.buffer.normal.length).toBe(3);
+    expect(target.buffer.normal.getLine(0)?.translateToString(true)).toBe('1');
+
+    // Leaving the alternate screen brings back the normal screen and cursor
+    target.write('\x1b[?1049l');
+    expect(target.buffer.active.getLine(2)?.translateToString(true)).toBe('$ vim');
+    expect(target.buffer.active.cursorX).toBe(5);
+
+    source.dispose();
+    target.dispose();
+  });
+});
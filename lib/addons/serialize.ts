@@ -0,0 +1,459 @@
+/**
+ * SerializeAddon - Export the terminal buffer as VT sequences or HTML
+ *
+ * `serialize()` produces an escape sequence stream that recreates the buffer
+ * (scrollback, colors, styles, wrapped lines, cursor position and modes) when
+ * written to a fresh terminal of the same size. `serializeAsHTML()` produces
+ * an HTML fragment with inline styles.
+ * Compatible with xterm.js SerializeAddon API.
+ *
+ * Usage:
+ * ```typescript
+ * const serializeAddon = new SerializeAddon();
+ * term.loadAddon(serializeAddon);
+ * localStorage.setItem('session', serializeAddon.serialize());
+ * newTerm.write(localStorage.getItem('session')!);
+ * ```
+ *
+ * Colors are written as 24-bit RGB because cells store resolved colors.
+ * While the alternate screen is active, the normal screen and its scrollback
+ * are written first and the alternate screen is entered after them, so that
+ * leaving it restores the normal screen.
+ */
+
+import type { IGhosttyTerminal } from '../ghostty';
+import type {
+  IBuffer,
+  IBufferCell,
+  IBufferNamespace,
+  IBufferRange,
+  ITerminalAddon,
+  ITerminalCore,
+} from '../interfaces';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ISerializeOptions {
+  /** Number of scrollback rows to include (default: all) */
+  scrollback?: number;
+  /** Don't restore terminal modes (cursor keys, mouse tracking, bracketed paste, ...) */
+  excludeModes?: boolean;
+  /** Don't include the alternate screen when it is active */
+  excludeAltBuffer?: boolean;
+}
+
+export interface IHTMLSerializeOptions {
+  /** Number of scrollback rows to include (default: all) */
+  scrollback?: number;
+  /** Only serialize the current selection */
+  onlySelection?: boolean;
+  /** Set the terminal background on the wrapper element */
+  includeGlobalBackground?: boolean;
+}
+
+/**
+ * Cell attributes relevant for serialization. Colors are 0xRRGGBB or -1 for the default.
+ */
+interface CellStyle {
+  fg: number;
+  bg: number;
+  bold: boolean;
+  faint: boolean;
+  italic: boolean;
+  /** UnderlineStyle (0 = no underline) */
+  underline: number;
+  /** Underline color (0xRRGGBB) or -1 to use the foreground */
+  underlineColor: number;
+  blink: boolean;
+  inverse: boolean;
+  invisible: boolean;
+  strikethrough: boolean;
+}
+
+/**
+ * Terminal members the addon reads. Terminal and HeadlessTerminal both have
+ * them, except for the selection, viewport and font which only Terminal has.
+ */
+type SerializableTerminal = ITerminalCore & {
+  buffer: IBufferNamespace;
+  wasmTerm?: IGhosttyTerminal;
+  getSelectionPosition?(): IBufferRange | undefined;
+  getViewportY?(): number;
+  options?: { fontFamily?: string; fontSize?: number };
+};
+
+/**
+ * Range of buffer cells to serialize (absolute rows, end column exclusive)
+ */
+interface SerializeRange {
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** SGR 4 sub-parameters and CSS text-decoration-style by UnderlineStyle */
+const UNDERLINE_SGR = ['', '4', '4:2', '4:3', '4:4', '4:5'];
+const UNDERLINE_CSS = ['', 'solid', 'double', 'wavy', 'dotted', 'dashed'];
+
+/** DEC modes restored when set: cursor keys, mouse tracking, focus events, bracketed paste */
+const DEC_MODES_ON = [1, 1000, 1002, 1003, 1004, 1006, 2004];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getCellStyle(cell: IBufferCell, defaultFg: number, defaultBg: number): CellStyle {
+  const fg = cell.getFgColor();
+  const bg = cell.getBgColor();
+  return {
+    fg: fg === defaultFg ? -1 : fg,
+    bg: bg === defaultBg ? -1 : bg,
+    bold: cell.isBold() !== 0,
+    faint: cell.isFaint() !== 0,
+    italic: cell.isItalic() !== 0,
+    // Cells without a recorded style are plain single underlines
+    underline: cell.isUnderline() !== 0 ? cell.getUnderlineStyle() || 1 : 0,
+    underlineColor: cell.isUnderlineColorDefault() ? -1 : cell.getUnderlineColor(),
+    blink: cell.isBlink() !== 0,
+    inverse: cell.isInverse() !== 0,
+    invisible: cell.isInvisible() !== 0,
+    strikethrough: cell.isStrikethrough() !== 0,
+  };
+}
+
+/**
+ * SGR parameters that set a style from scratch (starting with a reset)
+ */
+function styleToSgr(style: CellStyle): string {
+  const params = ['0'];
+  if (style.bold) params.push('1');
+  if (style.faint) params.push('2');
+  if (style.italic) params.push('3');
+  if (style.underline) params.push(UNDERLINE_SGR[style.underline] ?? '4');
+  if (style.blink) params.push('5');
+  if (style.inverse) params.push('7');
+  if (style.invisible) params.push('8');
+  if (style.strikethrough) params.push('9');
+  if (style.fg !== -1) params.push(`38;2;${rgbParams(style.fg)}`);
+  if (style.bg !== -1) params.push(`48;2;${rgbParams(style.bg)}`);
+  if (style.underline && style.underlineColor !== -1) {
+    params.push(`58:2::${rgbParams(style.underlineColor, ':')}`);
+  }
+  return params.join(';');
+}
+
+function rgbParams(color: number, separator = ';'): string {
+  const r = (color >> 16) & 0xff;
+  const g = (color >> 8) & 0xff;
+  return `${r}${separator}${g}${separator}${color & 0xff}`;
+}
+
+/**
+ * CUP sequence that moves to the buffer's cursor (relative to the screen)
+ */
+function cursorPosition(buffer: IBuffer): string {
+  return `\x1b[${buffer.cursorY + 1};${buffer.cursorX + 1}H`;
+}
+
+function toHex(color: number): string {
+  return `#${color.toString(16).padStart(6, '0')}`;
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Blank cells at the end of a row can be dropped without changing its appearance
+ */
+function isBlank(cell: IBufferCell, style: CellStyle): boolean {
+  const chars = cell.getChars();
+  return (
+    (chars === '' || chars === ' ') &&
+    style.bg === -1 &&
+    !style.inverse &&
+    !style.underline &&
+    !style.strikethrough
+  );
+}
+
+// ============================================================================
+// SerializeAddon Class
+// ============================================================================
+
+export class SerializeAddon implements ITerminalAddon {
+  private _terminal?: ITerminalCore;
+
+  /**
+   * Activate the addon (called by Terminal.loadAddon)
+   */
+  public activate(terminal: ITerminalCore): void {
+    this._terminal = terminal;
+  }
+
+  /**
+   * Dispose the addon and clean up resources
+   */
+  public dispose(): void {
+    this._terminal = undefined;
+  }
+
+  /**
+   * Serialize the buffer to a VT sequence stream
+   */
+  public serialize(options: ISerializeOptions = {}): string {
+    const terminal = this.getTerminal();
+    const normal: IBuffer = terminal.buffer.normal;
+    const active: IBuffer = terminal.buffer.active;
+
+    const scrollbackRows = normal.length - terminal.rows;
+    const scrollback = Math.min(scrollbackRows, options.scrollback ?? scrollbackRows);
+    let result = this.serializeRows(
+      normal,
+      scrollbackRows - Math.max(0, scrollback),
+      normal.length
+    );
+    result += cursorPosition(normal);
+
+    // Entering the alternate screen saves the cursor of the normal screen
+    if (active.type === 'alternate' && !options.excludeAltBuffer) {
+      result += '\x1b[?1049h\x1b[H';
+      result += this.serializeRows(active, 0, active.length);
+      result += cursorPosition(active);
+    }
+
+    if (!options.excludeModes) {
+      result += this.serializeModes();
+    }
+
+    return result;
+  }
+
+  /**
+   * Serialize the buffer (or the selection) to HTML with inline styles
+   */
+  public serializeAsHTML(options: IHTMLSerializeOptions = {}): string {
+    const terminal = this.getTerminal();
+    const buffer: IBuffer = terminal.buffer.active;
+    const { defaultFg, defaultBg } = this.getDefaultColors();
+
+    let range: SerializeRange;
+    if (options.onlySelection) {
+      const selection = terminal.getSelectionPosition?.();
+      if (!selection) return '';
+      // Selection rows are relative to the viewport and the end column is inclusive
+      const scrollbackRows = buffer.length - terminal.rows;
+      const viewportTop = scrollbackRows - Math.floor(terminal.getViewportY?.() ?? 0);
+      range = {
+        startRow: viewportTop + selection.start.y,
+        startCol: selection.start.x,
+        endRow: viewportTop + selection.end.y,
+        endCol: selection.end.x + 1,
+      };
+    } else {
+      const scrollbackRows = buffer.length - terminal.rows;
+      const scrollback = Math.min(scrollbackRows, options.scrollback ?? scrollbackRows);
+      range = {
+        startRow: scrollbackRows - Math.max(0, scrollback),
+        startCol: 0,
+        endRow: buffer.length - 1,
+        endCol: terminal.cols,
+      };
+    }
+
+    let rows = '';
+    for (let y = range.startRow; y <= range.endRow; y++) {
+      const line = buffer.getLine(y);
+      if (!line) continue;
+      const start = y === range.startRow ? range.startCol : 0;
+      let end = y === range.endRow ? Math.min(range.endCol, line.length) : line.length;
+
+      // Drop trailing blank cells
+      while (end > start) {
+        const cell = line.getCell(end - 1);
+        if (!cell || !isBlank(cell, getCellStyle(cell, defaultFg, defaultBg))) break;
+        end--;
+      }
+
+      let html = '';
+      let text = '';
+      let css: string | null = null;
+      for (let x = start; x < end; x++) {
+        const cell = line.getCell(x);
+        if (!cell || cell.getWidth() === 0) continue; // Spacer cell of a wide character
+        const cellCss = this.styleToCSS(
+          getCellStyle(cell, defaultFg, defaultBg),
+          defaultFg,
+          defaultBg
+        );
+        if (cellCss !== css) {
+          if (css !== null) html += this.htmlSpan(css, text);
+          css = cellCss;
+          text = '';
+        }
+        text += cell.getChars() || ' ';
+      }
+      if (css !== null) html += this.htmlSpan(css, text);
+      rows += `<div>${html || '<br>'}</div>`;
+    }
+
+    const fontFamily = terminal.options?.fontFamily ?? 'monospace';
+    const fontSize = terminal.options?.fontSize ?? 15;
+    let wrapperStyle = `color: ${toHex(defaultFg)};`;
+    if (options.includeGlobalBackground) {
+      wrapperStyle += ` background-color: ${toHex(defaultBg)};`;
+    }
+    wrapperStyle += ` font-family: ${fontFamily}; font-size: ${fontSize}px;`;
+
+    return (
+      '<html><body><!--StartFragment--><pre>' +
+      `<div style="${escapeHTML(wrapperStyle)}">${rows}</div>` +
+      '</pre><!--EndFragment--></body></html>'
+    );
+  }
+
+  // ==========================================================================
+  // VT Serialization
+  // ==========================================================================
+
+  /**
+   * Serialize buffer rows [start, end). Soft-wrapped rows are written without
+   * a line break so the receiving terminal wraps them again.
+   */
+  private serializeRows(buffer: IBuffer, start: number, end: number): string {
+    const { defaultFg, defaultBg } = this.getDefaultColors();
+    let result = '';
+    let sgr = '0';
+    let line = buffer.getLine(start);
+
+    for (let y = start; y < end && line; y++) {
+      const next = y + 1 < end ? buffer.getLine(y + 1) : undefined;
+      const continues = next?.isWrapped ?? false;
+
+      const cells: { cell: IBufferCell; style: CellStyle }[] = [];
+      for (let x = 0; x < line.length; x++) {
+        const cell = line.getCell(x);
+        if (cell) cells.push({ cell, style: getCellStyle(cell, defaultFg, defaultBg) });
+      }
+
+      // A row that wraps must be written in full; others drop trailing blanks
+      let length = cells.length;
+      if (!continues) {
+        while (length > 0 && isBlank(cells[length - 1].cell, cells[length - 1].style)) {
+          length--;
+        }
+      }
+
+      for (let x = 0; x < length; x++) {
+        const { cell, style } = cells[x];
+        if (cell.getWidth() === 0) continue; // Spacer cell of a wide character
+        const cellSgr = styleToSgr(style);
+        if (cellSgr !== sgr) {
+          result += `\x1b[${cellSgr}m`;
+          sgr = cellSgr;
+        }
+        result += cell.getChars() || ' ';
+      }
+
+      if (next && !continues) {
+        // Reset first so scrolling doesn't fill the new line with the current background
+        if (sgr !== '0') {
+          result += '\x1b[0m';
+          sgr = '0';
+        }
+        result += '\r\n';
+      }
+      line = next;
+    }
+
+    if (sgr !== '0') result += '\x1b[0m';
+    return result;
+  }
+
+  /**
+   * Sequences that restore terminal modes differing from the defaults
+   */
+  private serializeModes(): string {
+    const wasmTerm = this.getTerminal().wasmTerm;
+    if (!wasmTerm) return '';
+
+    let result = '';
+    for (const mode of DEC_MODES_ON) {
+      if (wasmTerm.getMode(mode, false)) result += `\x1b[?${mode}h`;
+    }
+    if (wasmTerm.getMode(4, true)) result += '\x1b[4h'; // Insert mode
+    if (!wasmTerm.getMode(7, false)) result += '\x1b[?7l'; // Autowrap off
+    if (!wasmTerm.getMode(25, false)) result += '\x1b[?25l'; // Hidden cursor
+    return result;
+  }
+
+  // ==========================================================================
+  // HTML Serialization
+  // ==========================================================================
+
+  private styleToCSS(style: CellStyle, defaultFg: number, defaultBg: number): string {
+    let fg = style.fg;
+    let bg = style.bg;
+    if (style.inverse) {
+      [fg, bg] = [bg === -1 ? defaultBg : bg, fg === -1 ? defaultFg : fg];
+    }
+
+    const css: string[] = [];
+    if (fg !== -1) css.push(`color: ${toHex(fg)};`);
+    if (bg !== -1) css.push(`background-color: ${toHex(bg)};`);
+    if (style.bold) css.push('font-weight: bold;');
+    if (style.italic) css.push('font-style: italic;');
+    if (style.faint) css.push('opacity: 0.5;');
+    if (style.invisible) css.push('visibility: hidden;');
+    const decorations: string[] = [];
+    if (style.underline) decorations.push('underline');
+    if (style.strikethrough) decorations.push('line-through');
+    if (decorations.length > 0) css.push(`text-decoration: ${decorations.join(' ')};`);
+    if (style.underline > 1 && UNDERLINE_CSS[style.underline]) {
+      css.push(`text-decoration-style: ${UNDERLINE_CSS[style.underline]};`);
+    }
+    if (style.underline && style.underlineColor !== -1) {
+      css.push(`text-decoration-color: ${toHex(style.underlineColor)};`);
+    }
+    return css.join(' ');
+  }
+
+  private htmlSpan(css: string, text: string): string {
+    return css
+      ? `<span style="${css}">${escapeHTML(text)}</span>`
+      : `<span>${escapeHTML(text)}</span>`;
+  }
+
+  // ==========================================================================
+  // Terminal Access
+  // ==========================================================================
+
+  private getTerminal(): SerializableTerminal {
+    if (!this._terminal) {
+      throw new Error('SerializeAddon must be loaded into a terminal before use');
+    }
+    return this._terminal as SerializableTerminal;
+  }
+
+  /**
+   * Default foreground and background as 0xRRGGBB
+   */
+  private getDefaultColors(): { defaultFg: number; defaultBg: number } {
+    const colors = this.getTerminal().wasmTerm?.getColors();
+    if (!colors) return { defaultFg: 0xcccccc, defaultBg: 0 };
+    const pack = (c: { r: number; g: number; b: number }) => (c.r << 16) | (c.g << 8) | c.b;
+    return { defaultFg: pack(colors.foreground), defaultBg: pack(colors.background) };
+  }
+}
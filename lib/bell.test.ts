@@ -0,0 +1,95 @@
+/**
+ * Tests for the visual and audible bell
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { BELL_MIN_INTERVAL, Bell } from './bell';
+
+class MockAudioParam {
+  public value = 0;
+  setValueAtTime(): void {}
+  exponentialRampToValueAtTime(): void {}
+}
+
+class MockAudioContext {
+  static tones = 0;
+  public state = 'running';
+  public currentTime = 0;
+  public destination = {};
+
+  createOscillator() {
+    return {
+      type: 'sine',
+      frequency: new MockAudioParam(),
+      connect: () => {},
+      start: () => {
+        MockAudioContext.tones++;
+      },
+      stop: () => {},
+    };
+  }
+
+  createGain() {
+    return { gain: new MockAudioParam(), connect: () => {} };
+  }
+
+  async close(): Promise<void> {}
+}
+
+describe('Bell', () => {
+  const originalAudioContext = (globalThis as any).AudioContext;
+  const originalNow = Date.now;
+
+  afterEach(() => {
+    (globalThis as any).AudioContext = originalAudioContext;
+    Date.now = originalNow;
+    MockAudioContext.tones = 0;
+  });
+
+  test('flashes for visual and both, not for none or sound', () => {
+    let flashes = 0;
+    let now = 0;
+    Date.now = () => now;
+    const bell = new Bell(() => flashes++);
+
+    for (const style of ['none', 'sound', 'visual', 'both'] as const) {
+      now += BELL_MIN_INTERVAL;
+      bell.ring(style);
+    }
+
+    expect(flashes).toBe(2);
+  });
+
+  test('rings at most once per BELL_MIN_INTERVAL', () => {
+    let flashes = 0;
+    let now = 1000;
+    Date.now = () => now;
+    const bell = new Bell(() => flashes++);
+
+    bell.ring('visual');
+    now += BELL_MIN_INTERVAL - 1;
+    bell.ring('visual');
+    expect(flashes).toBe(1);
+
+    now += 1;
+    bell.ring('visual');
+    expect(flashes).toBe(2);
+  });
+
+  test('plays a tone with WebAudio', () => {
+    (globalThis as any).AudioContext = MockAudioContext;
+    const bell = new Bell(() => {});
+
+    bell.ring('sound');
+
+    expect(MockAudioContext.tones).toBe(1);
+    bell.dispose();
+  });
+
+  test('is silent without WebAudio', () => {
+    (globalThis as any).AudioContext = undefined;
+    const bell = new Bell(() => {});
+
+    expect(() => bell.ring('both')).not.toThrow();
+  });
+});
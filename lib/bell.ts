@@ -0,0 +1,86 @@
+/**
+ * Bell - visual and audible feedback for BEL
+ *
+ * Terminal rings the bell when the parser executes a BEL control. Depending
+ * on the bellStyle option, the renderer flashes the canvas and/or a short
+ * tone is played with WebAudio. Bells closer together than BELL_MIN_INTERVAL
+ * ring once, so output full of BELs (e.g. `cat` of a binary) stays bearable.
+ */
+
+export type BellStyle = 'none' | 'visual' | 'sound' | 'both';
+
+/** Minimum time between two rings, in ms */
+export const BELL_MIN_INTERVAL = 200;
+
+/** How long the visual bell is shown, in ms */
+export const BELL_FLASH_DURATION = 150;
+
+/** Opacity of the foreground color drawn over the canvas by the visual bell */
+export const BELL_FLASH_OPACITY = 0.2;
+
+/** Tone frequency (Hz) and length (s) of the audible bell */
+const BELL_SOUND_FREQUENCY = 880;
+const BELL_SOUND_DURATION = 0.1;
+const BELL_SOUND_VOLUME = 0.1;
+
+export class Bell {
+  private flash: () => void;
+  private lastRing = Number.NEGATIVE_INFINITY;
+  private audioContext?: AudioContext;
+
+  /**
+   * @param flash - Shows the visual bell (e.g. IRenderer.flashBell)
+   */
+  constructor(flash: () => void) {
+    this.flash = flash;
+  }
+
+  /**
+   * Ring the bell in the given style, unless it rang less than BELL_MIN_INTERVAL ago
+   */
+  ring(style: BellStyle): void {
+    if (style === 'none') return;
+
+    const now = Date.now();
+    if (now - this.lastRing < BELL_MIN_INTERVAL) return;
+    this.lastRing = now;
+
+    if (style === 'visual' || style === 'both') this.flash();
+    if (style === 'sound' || style === 'both') this.playSound();
+  }
+
+  dispose(): void {
+    this.audioContext?.close().catch(() => {});
+    this.audioContext = undefined;
+  }
+
+  /**
+   * Play a short sine tone. The AudioContext is created on first use; browsers
+   * keep it suspended until the page has had a user gesture, so bells before
+   * that are silent. Does nothing where WebAudio isn't available.
+   */
+  private playSound(): void {
+    if (!this.audioContext) {
+      if (typeof AudioContext === 'undefined') return;
+      this.audioContext = new AudioContext();
+    }
+
+    const ctx = this.audioContext;
+    if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.type = 'sine';
+    oscillator.frequency.value = BELL_SOUND_FREQUENCY;
+
+    // Fade out to avoid a click at the end of the tone
+    const end = ctx.currentTime + BELL_SOUND_DURATION;
+    gain.gain.setValueAtTime(BELL_SOUND_VOLUME, ctx.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.0001, end);
+
+    oscillator.connect(gain);
+    gain.connect(ctx.destination);
+    oscillator.start();
+    oscillator.stop(end);
+  }
+}
@@ -8,6 +8,7 @@
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
 import type { Terminal } from './terminal';
 import { createIsolatedTerminal } from './test-helpers';
+import { UnderlineStyle } from './types';
 
 describe('Buffer API', () => {
   let term: Terminal | null = null;
@@ -235,6 +236,20 @@ describe('Buffer API', () => {
       expect(cell!.isUnderline()).toBe(1);
     });
 
+    test('should detect underline styles and colors', () => {
+      term.write('\x1b[4:3;58:2::255:0:0mC\x1b[4:4;59mD\x1b[4mS\x1b[0mN');
+      const line = term.buffer.active.getLine(0)!;
+
+      expect(line.getCell(0)!.getUnderlineStyle()).toBe(UnderlineStyle.CURLY);
+      expect(line.getCell(0)!.isUnderlineColorDefault()).toBe(false);
+      expect(line.getCell(0)!.getUnderlineColor()).toBe(0xff0000);
+      expect(line.getCell(1)!.getUnderlineStyle()).toBe(UnderlineStyle.DOTTED);
+      expect(line.getCell(1)!.isUnderlineColorDefault()).toBe(true);
+      expect(line.getCell(2)!.getUnderlineStyle()).toBe(UnderlineStyle.SINGLE);
+      expect(line.getCell(3)!.getUnderlineStyle()).toBe(UnderlineStyle.NONE);
+      expect(line.getCell(3)!.isUnderline()).toBe(0);
+    });
+
     test('should detect strikethrough text', () => {
       term.write('\x1b[9mStrike\x1b[0m');
       const buffer = term.buffer.active;
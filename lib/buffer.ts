@@ -16,7 +16,7 @@
  */
 
 import { EventEmitter } from './event-emitter';
-import type { GhosttyTerminal } from './ghostty';
+import type { IGhosttyTerminal } from './ghostty';
 import { CellFlags } from './ghostty';
 import type {
   IBuffer,
@@ -26,8 +26,14 @@ import type {
   IDisposable,
   IEvent,
 } from './interfaces';
-import type { Terminal } from './terminal';
-import type { GhosttyCell } from './types';
+import { type GhosttyCell, createCell } from './types';
+
+/**
+ * Terminal whose buffers are exposed (Terminal or HeadlessTerminal)
+ */
+interface BufferOwner {
+  wasmTerm?: IGhosttyTerminal;
+}
 
 // ============================================================================
 // BufferNamespace - Top-level buffer API
@@ -38,20 +44,20 @@ import type { GhosttyCell } from './types';
  * Provides access to active, normal, and alternate screen buffers
  */
 export class BufferNamespace implements IBufferNamespace {
-  private terminal: Terminal;
+  private terminal: BufferOwner;
   private bufferChangeEmitter = new EventEmitter<IBuffer>();
 
   // Lazy-initialized buffer wrappers (stateless, so we can cache them)
   private _normalBuffer?: Buffer;
   private _alternateBuffer?: Buffer;
 
-  constructor(terminal: Terminal) {
+  constructor(terminal: BufferOwner) {
     this.terminal = terminal;
   }
 
   get active(): IBuffer {
     // Query WASM to determine which buffer is active
-    const wasmTerm = (this.terminal as any).wasmTerm as GhosttyTerminal | undefined;
+    const wasmTerm = this.terminal.wasmTerm;
     if (!wasmTerm) {
       return this.normal; // Default to normal if not initialized
     }
@@ -94,29 +100,16 @@ export class BufferNamespace implements IBufferNamespace {
  * A terminal buffer (normal or alternate screen)
  */
 export class Buffer implements IBuffer {
-  private terminal: Terminal;
+  private terminal: BufferOwner;
   private bufferType: 'normal' | 'alternate';
   private nullCell: BufferCell;
 
-  constructor(terminal: Terminal, type: 'normal' | 'alternate') {
+  constructor(terminal: BufferOwner, type: 'normal' | 'alternate') {
     this.terminal = terminal;
     this.bufferType = type;
 
     // Create a null cell (codepoint=0, default colors, no flags)
-    const nullCellData: GhosttyCell = {
-      codepoint: 0,
-      fg_r: 204,
-      fg_g: 204,
-      fg_b: 204,
-      bg_r: 0,
-      bg_g: 0,
-      bg_b: 0,
-      flags: 0,
-      width: 1,
-      hyperlink_id: 0,
-      grapheme_len: 0,
-    };
-    this.nullCell = new BufferCell(nullCellData, 0);
+    this.nullCell = new BufferCell(createCell(), 0);
   }
 
   get type(): 'normal' | 'alternate' {
@@ -126,13 +119,13 @@ export class Buffer implements IBuffer {
   get cursorX(): number {
     const wasmTerm = this.getWasmTerm();
     if (!wasmTerm) return 0;
-    return wasmTerm.getCursor().x;
+    return this.isInactiveNormal(wasmTerm) ? wasmTerm.getPrimaryCursor().x : wasmTerm.getCursor().x;
   }
 
   get cursorY(): number {
     const wasmTerm = this.getWasmTerm();
     if (!wasmTerm) return 0;
-    return wasmTerm.getCursor().y;
+    return this.isInactiveNormal(wasmTerm) ? wasmTerm.getPrimaryCursor().y : wasmTerm.getCursor().y;
   }
 
   get viewportY(): number {
@@ -154,6 +147,8 @@ export class Buffer implements IBuffer {
     if (this.bufferType === 'alternate') {
       // Alternate buffer has no scrollback, just visible rows
       return wasmTerm.rows;
+    } else if (this.isInactiveNormal(wasmTerm)) {
+      return wasmTerm.getPrimaryLength();
     } else {
       // Normal buffer: scrollback + visible rows
       const scrollback = wasmTerm.getScrollbackLength();
@@ -170,6 +165,13 @@ export class Buffer implements IBuffer {
       return undefined;
     }
 
+    // The normal screen is read separately while the alternate screen is active
+    if (this.isInactiveNormal(wasmTerm)) {
+      const cells = wasmTerm.getPrimaryLine(y);
+      if (!cells) return undefined;
+      return new BufferLine(cells, wasmTerm.isPrimaryRowWrapped(y), wasmTerm.cols);
+    }
+
     // Determine if accessing scrollback or visible screen
     const scrollbackLength = wasmTerm.getScrollbackLength();
     let cells: GhosttyCell[] | null;
@@ -183,9 +185,7 @@ export class Buffer implements IBuffer {
       // So scrollbackOffset = y directly!
       const scrollbackOffset = y;
       cells = wasmTerm.getScrollbackLine(scrollbackOffset);
-      // TODO: We'd need WASM API to check if scrollback line is wrapped
-      // For now, assume not wrapped
-      isWrapped = false;
+      isWrapped = wasmTerm.isScrollbackRowWrapped(scrollbackOffset);
     } else {
       // Accessing visible screen
       lineNumber = this.bufferType === 'normal' ? y - scrollbackLength : y;
@@ -204,8 +204,15 @@ export class Buffer implements IBuffer {
     return this.nullCell;
   }
 
-  private getWasmTerm(): GhosttyTerminal | undefined {
-    return (this.terminal as any).wasmTerm as GhosttyTerminal | undefined;
+  private getWasmTerm(): IGhosttyTerminal | undefined {
+    return this.terminal.wasmTerm;
+  }
+
+  /**
+   * Whether this is the normal buffer while the alternate screen is active
+   */
+  private isInactiveNormal(wasmTerm: IGhosttyTerminal): boolean {
+    return this.bufferType === 'normal' && wasmTerm.isAlternateScreen();
   }
 }
 
@@ -242,22 +249,7 @@ export class BufferLine implements IBufferLine {
 
     if (x >= this.cells.length) {
       // Cell beyond what was returned (empty/null cell)
-      return new BufferCell(
-        {
-          codepoint: 0,
-          fg_r: 204,
-          fg_g: 204,
-          fg_b: 204,
-          bg_r: 0,
-          bg_g: 0,
-          bg_b: 0,
-          flags: 0,
-          width: 1,
-          hyperlink_id: 0,
-          grapheme_len: 0,
-        },
-        x
-      );
+      return new BufferCell(createCell(), x);
     }
 
     return new BufferCell(this.cells[x], x);
@@ -361,6 +353,20 @@ export class BufferCell implements IBufferCell {
     return (this.cell.flags & CellFlags.UNDERLINE) !== 0 ? 1 : 0;
   }
 
+  getUnderlineStyle(): number {
+    return this.cell.underline_style;
+  }
+
+  getUnderlineColor(): number {
+    if (!this.cell.has_ul_color) return 0;
+    // Pack RGB into a single number: 0xRRGGBB
+    return (this.cell.ul_r << 16) | (this.cell.ul_g << 8) | this.cell.ul_b;
+  }
+
+  isUnderlineColorDefault(): boolean {
+    return this.cell.has_ul_color === 0;
+  }
+
   isStrikethrough(): number {
     return (this.cell.flags & CellFlags.STRIKETHROUGH) !== 0 ? 1 : 0;
   }
@@ -0,0 +1,125 @@
+/**
+ * Tests for OSC 52 clipboard sequences
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { formatClipboardResponse, parseClipboardSequence } from './clipboard';
+import type { IClipboardRequest } from './interfaces';
+import { createIsolatedTerminal } from './test-helpers';
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+describe('parseClipboardSequence', () => {
+  test('parses writes with UTF-8 text', () => {
+    // "héllo" as UTF-8, base64 encoded
+    expect(parseClipboardSequence('52;c;aMOpbGxv')).toEqual({
+      type: 'write',
+      selection: 'c',
+      text: 'héllo',
+    });
+  });
+
+  test('parses queries', () => {
+    expect(parseClipboardSequence('52;p;?')).toEqual({ type: 'read', selection: 'p' });
+  });
+
+  test('defaults to the clipboard selection', () => {
+    expect(parseClipboardSequence('52;;?')).toEqual({ type: 'read', selection: 'c' });
+  });
+
+  test('rejects malformed sequences', () => {
+    expect(parseClipboardSequence('52;c')).toBeNull();
+    expect(parseClipboardSequence('52;c;not base64!')).toBeNull();
+  });
+
+  test('formats query replies', () => {
+    expect(formatClipboardResponse('c', 'héllo')).toBe('\x1b]52;c;aMOpbGxv\x1b\\');
+  });
+});
+
+// ============================================================================
+// Terminal integration
+// ============================================================================
+
+describe('Terminal OSC 52', () => {
+  const originalClipboard = Object.getOwnPropertyDescriptor(navigator, 'clipboard');
+
+  afterEach(() => {
+    if (originalClipboard) {
+      Object.defineProperty(navigator, 'clipboard', originalClipboard);
+    }
+  });
+
+  test('passes requests to the clipboard request handler', async () => {
+    const term = await createIsolatedTerminal();
+    term.open(document.createElement('div'));
+    const requests: IClipboardRequest[] = [];
+    term.attachClipboardRequestHandler((request) => {
+      requests.push(request);
+      return false;
+    });
+
+    term.write('\x1b]52;c;aGk=\x07');
+    expect(requests).toEqual([{ type: 'write', selection: 'c', text: 'hi' }]);
+
+    term.dispose();
+  });
+
+  test('replies to allowed queries through onData', async () => {
+    Object.defineProperty(navigator, 'clipboard', {
+      configurable: true,
+      value: { readText: async () => 'hi' },
+    });
+    const term = await createIsolatedTerminal();
+    term.open(document.createElement('div'));
+    term.attachClipboardRequestHandler(async () => true);
+    const replies: string[] = [];
+    term.onData((data) => replies.push(data));
+
+    term.write('\x1b]52;c;?\x1b\\');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(replies).toEqual(['\x1b]52;c;aGk=\x1b\\']);
+    term.dispose();
+  });
+
+  test('denies writes without a handler', async () => {
+    const written: unknown[] = [];
+    Object.defineProperty(navigator, 'clipboard', {
+      configurable: true,
+      value: {
+        write: async (items: unknown[]) => written.push(...items),
+        writeText: async (text: string) => written.push(text),
+      },
+    });
+    const term = await createIsolatedTerminal();
+    term.open(document.createElement('div'));
+
+    term.write('\x1b]52;c;aGk=\x07');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(written).toEqual([]);
+
+    // The same sequence reaches the clipboard once a handler allows it
+    term.attachClipboardRequestHandler(() => true);
+    term.write('\x1b]52;c;aGk=\x07');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(written).toHaveLength(1);
+
+    term.dispose();
+  });
+
+  test('denies queries without a handler', async () => {
+    const term = await createIsolatedTerminal();
+    term.open(document.createElement('div'));
+    const replies: string[] = [];
+    term.onData((data) => replies.push(data));
+
+    term.write('\x1b]52;c;?\x07');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(replies).toEqual([]);
+    term.dispose();
+  });
+});
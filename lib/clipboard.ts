@@ -0,0 +1,62 @@
+/**
+ * OSC 52 clipboard sequences
+ *
+ * `OSC 52 ; <selection> ; <base64 text> ST` sets the clipboard and
+ * `OSC 52 ; <selection> ; ? ST` queries it. The reply to a query uses the
+ * same format. Text is UTF-8 encoded before base64 encoding.
+ *
+ * Whether a request is carried out is decided by the terminal's clipboard
+ * request handler (see Terminal.attachClipboardRequestHandler).
+ */
+
+import type { IClipboardRequest } from './interfaces';
+
+/** Selection used when the sequence does not name one */
+const DEFAULT_SELECTION = 'c';
+
+function encodeBase64Utf8(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function decodeBase64Utf8(data: string): string {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Parse the body of an OSC 52 sequence (starting with '52;').
+ * Returns null for malformed sequences.
+ */
+export function parseClipboardSequence(body: string): IClipboardRequest | null {
+  const parts = body.split(';');
+  if (parts[0] !== '52' || parts.length < 3) return null;
+
+  const selection = parts[1] || DEFAULT_SELECTION;
+  const data = parts.slice(2).join(';');
+  if (data === '?') {
+    return { type: 'read', selection };
+  }
+
+  try {
+    return { type: 'write', selection, text: decodeBase64Utf8(data) };
+  } catch {
+    // Not base64 (xterm clears the selection for such data; we ignore it)
+    return null;
+  }
+}
+
+/**
+ * Format the reply to a clipboard query
+ */
+export function formatClipboardResponse(selection: string, text: string): string {
+  return `\x1b]52;${selection};${encodeBase64Utf8(text)}\x1b\\`;
+}
@@ -0,0 +1,180 @@
+/**
+ * Tests for procedurally drawn box drawing, block, braille and Powerline glyphs
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { drawCustomGlyph, isCustomGlyph } from './custom-glyphs';
+
+type Rect = [number, number, number, number];
+
+/**
+ * Context that records filled rectangles and path operations
+ */
+function createContext() {
+  const rects: Rect[] = [];
+  const alphas: number[] = [];
+  const path: string[] = [];
+  const ctx = {
+    fillStyle: '#ffffff',
+    strokeStyle: '#000000',
+    lineWidth: 1,
+    globalAlpha: 1,
+    fillRect(x: number, y: number, w: number, h: number) {
+      rects.push([x, y, w, h]);
+      alphas.push(ctx.globalAlpha);
+    },
+    save() {},
+    restore() {
+      ctx.globalAlpha = 1;
+    },
+    beginPath: () => path.push('begin'),
+    moveTo: (x: number, y: number) => path.push(`M${x},${y}`),
+    lineTo: (x: number, y: number) => path.push(`L${x},${y}`),
+    arcTo: () => path.push('arcTo'),
+    ellipse: () => path.push('ellipse'),
+    closePath: () => path.push('close'),
+    fill: () => path.push('fill'),
+    stroke: () => path.push('stroke'),
+  };
+  return { ctx: ctx as unknown as CanvasRenderingContext2D, rects, alphas, path };
+}
+
+/** Set of pixels covered by the recorded rectangles */
+function coverage(rects: Rect[]): Set<string> {
+  const pixels = new Set<string>();
+  for (const [x, y, w, h] of rects) {
+    for (let px = x; px < x + w; px++) {
+      for (let py = y; py < y + h; py++) pixels.add(`${px},${py}`);
+    }
+  }
+  return pixels;
+}
+
+describe('isCustomGlyph', () => {
+  test('covers box drawing, blocks, braille and Powerline separators', () => {
+    expect(isCustomGlyph(0x2500)).toBe(true);
+    expect(isCustomGlyph(0x2588)).toBe(true);
+    expect(isCustomGlyph(0x28ff)).toBe(true);
+    expect(isCustomGlyph(0xe0b0)).toBe(true);
+    expect(isCustomGlyph(0x41)).toBe(false);
+    expect(isCustomGlyph(0x25a0)).toBe(false); // geometric shapes come from the font
+  });
+
+  test('leaves other characters to the font', () => {
+    const { ctx, rects } = createContext();
+    expect(drawCustomGlyph(ctx, 0x41, 0, 0, 10, 20, 1)).toBe(false);
+    expect(rects).toEqual([]);
+  });
+});
+
+describe('box drawing', () => {
+  test('lines run edge to edge through the center', () => {
+    const { ctx, rects } = createContext();
+    drawCustomGlyph(ctx, 0x2500, 10, 20, 9, 17, 1); // ─
+    const pixels = coverage(rects);
+    for (let x = 10; x < 19; x++) expect(pixels.has(`${x},28`)).toBe(true);
+    expect(pixels.size).toBe(9);
+  });
+
+  test('heavy lines are twice as thick and scale with the pixel ratio', () => {
+    const { ctx, rects } = createContext();
+    drawCustomGlyph(ctx, 0x2503, 0, 0, 18, 34, 2); // ┃
+    expect(coverage(rects).size).toBe(34 * 4);
+  });
+
+  test('corners join without gaps', () => {
+    const { ctx, rects } = createContext();
+    drawCustomGlyph(ctx, 0x250c, 0, 0, 9, 17, 1); // ┌
+    const pixels = coverage(rects);
+    expect(pixels.has('4,8')).toBe(true);
+    expect(pixels.has('8,8')).toBe(true);
+    expect(pixels.has('4,16')).toBe(true);
+    expect(pixels.has('3,8')).toBe(false);
+    expect(pixels.has('4,7')).toBe(false);
+  });
+
+  test('double corners draw an outer and an inner line', () => {
+    const { ctx, rects } = createContext();
+    drawCustomGlyph(ctx, 0x2554, 0, 0, 9, 17, 1); // ╔
+    const pixels = coverage(rects);
+    // Outer corner at (3, 7), inner corner at (5, 9)
+    expect(pixels.has('3,7')).toBe(true);
+    expect(pixels.has('5,9')).toBe(true);
+    expect(pixels.has('4,8')).toBe(false);
+    expect(pixels.has('4,7')).toBe(true);
+    expect(pixels.has('3,8')).toBe(true);
+  });
+
+  test('dashes leave gaps, arcs and diagonals are stroked', () => {
+    const dashes = createContext();
+    drawCustomGlyph(dashes.ctx, 0x2504, 0, 0, 9, 17, 1); // ┄
+    expect(dashes.rects).toHaveLength(3);
+    expect(coverage(dashes.rects).size).toBe(6);
+
+    const arc = createContext();
+    drawCustomGlyph(arc.ctx, 0x256d, 0, 0, 9, 17, 1); // ╭
+    expect(arc.path).toEqual(['begin', 'M9,8.5', 'arcTo', 'L4.5,17', 'stroke']);
+
+    const cross = createContext();
+    drawCustomGlyph(cross.ctx, 0x2573, 0, 0, 9, 17, 1); // ╳
+    expect(cross.path).toEqual(['begin', 'M0,17', 'L9,0', 'M0,0', 'L9,17', 'stroke']);
+  });
+});
+
+describe('block elements', () => {
+  test('fill fractions of the cell', () => {
+    const { ctx, rects } = createContext();
+    drawCustomGlyph(ctx, 0x2588, 0, 0, 9, 17, 1); // █
+    drawCustomGlyph(ctx, 0x2584, 0, 0, 9, 17, 1); // ▄
+    drawCustomGlyph(ctx, 0x258c, 0, 0, 9, 17, 1); // ▌
+    drawCustomGlyph(ctx, 0x2581, 0, 0, 8, 16, 1); // ▁
+    expect(rects).toEqual([
+      [0, 0, 9, 17],
+      [0, 9, 9, 8],
+      [0, 0, 5, 17],
+      [0, 14, 8, 2],
+    ]);
+  });
+
+  test('shades fill the cell with partial alpha', () => {
+    const { ctx, alphas } = createContext();
+    drawCustomGlyph(ctx, 0x2591, 0, 0, 9, 17, 1); // ░
+    drawCustomGlyph(ctx, 0x2593, 0, 0, 9, 17, 1); // ▓
+    expect(alphas).toEqual([0.25, 0.75]);
+  });
+
+  test('quadrants', () => {
+    const { ctx, rects } = createContext();
+    drawCustomGlyph(ctx, 0x259a, 0, 0, 8, 16, 1); // ▚
+    expect(rects).toEqual([
+      [0, 0, 4, 8],
+      [4, 8, 4, 8],
+    ]);
+  });
+});
+
+describe('braille', () => {
+  test('draws one dot per set bit', () => {
+    const { ctx, rects } = createContext();
+    drawCustomGlyph(ctx, 0x2800, 0, 0, 8, 16, 1);
+    expect(rects).toEqual([]);
+
+    drawCustomGlyph(ctx, 0x2800 | 0b10000001, 0, 0, 8, 16, 1); // dots 1 and 8
+    expect(rects).toEqual([
+      [1, 1, 2, 2],
+      [5, 13, 2, 2],
+    ]);
+  });
+});
+
+describe('Powerline', () => {
+  test('fills solid separators and strokes thin ones', () => {
+    const solid = createContext();
+    drawCustomGlyph(solid.ctx, 0xe0b0, 0, 0, 9, 18, 1);
+    expect(solid.path).toEqual(['begin', 'M0,0', 'L9,9', 'L0,18', 'close', 'fill']);
+
+    const thin = createContext();
+    drawCustomGlyph(thin.ctx, 0xe0b3, 0, 0, 9, 18, 1);
+    expect(thin.path).toEqual(['begin', 'M9,0', 'L0,9', 'L9,18', 'stroke']);
+  });
+});
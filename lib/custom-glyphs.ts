@@ -0,0 +1,501 @@
+/**
+ * Custom glyphs - box drawing, block elements, braille and Powerline symbols
+ * drawn with canvas primitives instead of the font
+ *
+ * Fonts draw these characters at their own size, so with most web fonts box
+ * lines stop short of the cell edges, blocks leave seams between rows and
+ * Powerline separators don't line up with the cell background. Like the
+ * sprite font of native Ghostty, the renderers draw them procedurally to
+ * fill the cell exactly. Coordinates are in device pixels, so callers round
+ * the cell rectangle to whole pixels and adjacent cells meet without gaps.
+ *
+ * Glyphs are drawn in the context's fill style (lines and outlines use it as
+ * their stroke style).
+ */
+
+/** Line weight of an arm of a box-drawing character */
+enum Weight {
+  None = 0,
+  Light = 1,
+  Heavy = 2,
+  Double = 3,
+}
+
+/**
+ * Arms of U+2500-U+257F as weights of the up, right, down and left arms.
+ * Empty entries (dashes, arcs and diagonals) are drawn separately.
+ */
+// prettier-ignore
+const BOX_ARMS: readonly string[] = [
+  // U+2500
+  '0101', '0202', '1010', '2020', '', '', '', '', '', '', '', '', '0110', '0210', '0120', '0220',
+  // U+2510
+  '0011', '0012', '0021', '0022', '1100', '1200', '2100', '2200', '1001', '1002', '2001', '2002', '1110', '1210', '2110', '1120',
+  // U+2520
+  '2120', '2210', '1220', '2220', '1011', '1012', '2011', '1021', '2021', '2012', '1022', '2022', '0111', '0112', '0211', '0212',
+  // U+2530
+  '0121', '0122', '0221', '0222', '1101', '1102', '1201', '1202', '2101', '2102', '2201', '2202', '1111', '1112', '1211', '1212',
+  // U+2540
+  '2111', '1121', '2121', '2112', '2211', '1122', '1221', '2212', '1222', '2122', '2221', '2222', '', '', '', '',
+  // U+2550
+  '0303', '3030', '0310', '0130', '0330', '0013', '0031', '0033', '1300', '3100', '3300', '1003', '3001', '3003', '1310', '3130',
+  // U+2560
+  '3330', '1013', '3031', '3033', '0313', '0131', '0333', '1303', '3101', '3303', '1313', '3131', '3333', '', '', '',
+  // U+2570
+  '', '', '', '', '0001', '1000', '0100', '0010', '0002', '2000', '0200', '0020', '0201', '1020', '0102', '2010',
+];
+
+/**
+ * Dashed lines: codepoint -> [dash count, weight, vertical]
+ */
+const DASHES: Record<number, [number, Weight, boolean]> = {
+  9476: [3, Weight.Light, false],
+  9477: [3, Weight.Heavy, false],
+  9478: [3, Weight.Light, true],
+  9479: [3, Weight.Heavy, true],
+  9480: [4, Weight.Light, false],
+  9481: [4, Weight.Heavy, false],
+  9482: [4, Weight.Light, true],
+  9483: [4, Weight.Heavy, true],
+  9548: [2, Weight.Light, false],
+  9549: [2, Weight.Heavy, false],
+  9550: [2, Weight.Light, true],
+  9551: [2, Weight.Heavy, true],
+};
+
+/** Quadrants of U+2596-U+259F (bits: upper left, upper right, lower left, lower right) */
+const QUADRANTS = [0b0100, 0b1000, 0b0001, 0b1101, 0b1001, 0b0111, 0b1011, 0b0010, 0b0110, 0b1110];
+
+type Context = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * True if the codepoint is drawn by drawCustomGlyph()
+ */
+export function isCustomGlyph(codepoint: number): boolean {
+  return (
+    (codepoint >= 0x2500 && codepoint <= 0x259f) ||
+    (codepoint >= 0x2800 && codepoint <= 0x28ff) ||
+    (codepoint >= 0xe0b0 && codepoint <= 0xe0bf)
+  );
+}
+
+/**
+ * Draw a custom glyph filling the rectangle (in whole device pixels)
+ *
+ * @param lineWidth - Width of light lines in device pixels (the device pixel ratio)
+ * @returns false if the codepoint isn't a custom glyph
+ */
+export function drawCustomGlyph(
+  ctx: Context,
+  codepoint: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  lineWidth: number
+): boolean {
+  const light = Math.max(1, Math.round(lineWidth));
+
+  if (codepoint >= 0x2500 && codepoint <= 0x257f) {
+    const arms = BOX_ARMS[codepoint - 0x2500];
+    if (arms) {
+      const [up, right, down, left] = Array.from(arms, Number) as Weight[];
+      drawBoxLines(ctx, up, right, down, left, x, y, width, height, light);
+    } else if (DASHES[codepoint]) {
+      const [count, weight, vertical] = DASHES[codepoint];
+      drawDashes(
+        ctx,
+        count,
+        weight === Weight.Heavy ? light * 2 : light,
+        vertical,
+        x,
+        y,
+        width,
+        height
+      );
+    } else if (codepoint >= 0x256d && codepoint <= 0x2570) {
+      drawArc(ctx, codepoint, x, y, width, height, light);
+    } else {
+      drawDiagonals(ctx, codepoint, x, y, width, height, light);
+    }
+    return true;
+  }
+
+  if (codepoint >= 0x2580 && codepoint <= 0x259f) {
+    drawBlock(ctx, codepoint, x, y, width, height);
+    return true;
+  }
+
+  if (codepoint >= 0x2800 && codepoint <= 0x28ff) {
+    drawBraille(ctx, codepoint - 0x2800, x, y, width, height);
+    return true;
+  }
+
+  if (codepoint >= 0xe0b0 && codepoint <= 0xe0bf) {
+    drawPowerline(ctx, codepoint, x, y, width, height, light);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Positions of lines across one axis of the cell
+ */
+interface LineAxis {
+  /** Start of a centered line of thickness t */
+  single(t: number): number;
+  /** Starts of the two lines of a double line */
+  double: [number, number];
+}
+
+function lineAxis(start: number, size: number, light: number): LineAxis {
+  const single = (t: number) => start + Math.floor((size - t) / 2);
+  const first = single(light * 3);
+  return { single, double: [first, first + light * 2] };
+}
+
+/**
+ * Where a line of an arm meets the lines crossing it, as [start, end]: an arm
+ * coming from the far edge (right or down) starts at `start`, an arm coming
+ * from the near edge (left or up) ends at `end`.
+ *
+ * @param line - For a double arm, which of its two lines (0: the one on the
+ *   side of perp0, 1: the one on the side of perp1); -1 for a single line
+ * @param perp0 - Weight of the crossing arm on the near side (up or left)
+ * @param perp1 - Weight of the crossing arm on the far side (down or right)
+ * @param opposite - Weight of the arm continuing this one on the other side
+ * @param thickness - Thickness of this line
+ */
+function lineStops(
+  line: -1 | 0 | 1,
+  perp0: Weight,
+  perp1: Weight,
+  opposite: Weight,
+  thickness: number,
+  axis: LineAxis,
+  light: number
+): [number, number] {
+  const [first, second] = axis.double;
+  const near: [number, number] = [second, first + light];
+  const far: [number, number] = [first, second + light];
+  const crossing = Math.max(
+    perp0 === Weight.Heavy || perp1 === Weight.Heavy ? light * 2 : 0,
+    perp0 === Weight.Light || perp1 === Weight.Light ? light : 0
+  );
+  const across = (t: number): [number, number] => [axis.single(t), axis.single(t) + t];
+
+  if (line !== -1) {
+    // One of the lines of a double arm: stop at the inner line of a double
+    // crossing on its own side, reach the outer line of one on the other side
+    const same = line === 0 ? perp0 : perp1;
+    const other = line === 0 ? perp1 : perp0;
+    if (same === Weight.Double) return near;
+    if (other === Weight.Double) return far;
+    return crossing > 0 ? across(crossing) : far;
+  }
+
+  if (perp0 === Weight.Double || perp1 === Weight.Double) {
+    // A single line ends at the inner line of a double line crossing on both
+    // sides, otherwise it runs to the outer line (or on, to the opposite arm)
+    const enclosed = perp0 === Weight.Double && perp1 === Weight.Double;
+    return enclosed && opposite === Weight.None ? near : far;
+  }
+  return across(crossing > 0 ? crossing : thickness);
+}
+
+/**
+ * Draw the arms of a box-drawing character
+ */
+function drawBoxLines(
+  ctx: Context,
+  up: Weight,
+  right: Weight,
+  down: Weight,
+  left: Weight,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  light: number
+): void {
+  const columns = lineAxis(x, width, light);
+  const rows = lineAxis(y, height, light);
+  const thickness = (weight: Weight) => (weight === Weight.Heavy ? light * 2 : light);
+
+  // Each arm is one line, or two thin ones for a double line
+  const lines = (weight: Weight, axis: LineAxis): [-1 | 0 | 1, number, number][] =>
+    weight === Weight.Double
+      ? [
+          [0, axis.double[0], light],
+          [1, axis.double[1], light],
+        ]
+      : [[-1, axis.single(thickness(weight)), thickness(weight)]];
+
+  if (right) {
+    for (const [line, top, t] of lines(right, rows)) {
+      const [start] = lineStops(line, up, down, left, t, columns, light);
+      ctx.fillRect(start, top, x + width - start, t);
+    }
+  }
+  if (left) {
+    for (const [line, top, t] of lines(left, rows)) {
+      const [, end] = lineStops(line, up, down, right, t, columns, light);
+      ctx.fillRect(x, top, end - x, t);
+    }
+  }
+  if (down) {
+    for (const [line, lineX, t] of lines(down, columns)) {
+      const [start] = lineStops(line, left, right, up, t, rows, light);
+      ctx.fillRect(lineX, start, t, y + height - start);
+    }
+  }
+  if (up) {
+    for (const [line, lineX, t] of lines(up, columns)) {
+      const [, end] = lineStops(line, left, right, down, t, rows, light);
+      ctx.fillRect(lineX, y, t, end - y);
+    }
+  }
+}
+
+/**
+ * Draw a dashed line of `count` dashes, each followed by a gap
+ */
+function drawDashes(
+  ctx: Context,
+  count: number,
+  thickness: number,
+  vertical: boolean,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const length = vertical ? height : width;
+  const across = vertical
+    ? x + Math.floor((width - thickness) / 2)
+    : y + Math.floor((height - thickness) / 2);
+  for (let i = 0; i < count; i++) {
+    const start = Math.round((i * length) / count);
+    const end = Math.round(((i + 1) * length) / count);
+    const dash = Math.max(1, end - start - Math.max(1, Math.round((end - start) / 3)));
+    if (vertical) {
+      ctx.fillRect(across, y + start, thickness, dash);
+    } else {
+      ctx.fillRect(x + start, across, dash, thickness);
+    }
+  }
+}
+
+/**
+ * Draw a rounded corner (U+256D-U+2570)
+ */
+function drawArc(
+  ctx: Context,
+  codepoint: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  light: number
+): void {
+  const centerX = x + Math.floor((width - light) / 2) + light / 2;
+  const centerY = y + Math.floor((height - light) / 2) + light / 2;
+  const radius = Math.min(width, height) / 2;
+  // Horizontal and vertical edge the corner connects
+  const edgeX = codepoint === 0x256d || codepoint === 0x2570 ? x + width : x;
+  const edgeY = codepoint === 0x256d || codepoint === 0x256e ? y + height : y;
+
+  ctx.save();
+  ctx.strokeStyle = ctx.fillStyle;
+  ctx.lineWidth = light;
+  ctx.beginPath();
+  ctx.moveTo(edgeX, centerY);
+  ctx.arcTo(centerX, centerY, centerX, edgeY, radius);
+  ctx.lineTo(centerX, edgeY);
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Draw the diagonals of U+2571-U+2573
+ */
+function drawDiagonals(
+  ctx: Context,
+  codepoint: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  light: number
+): void {
+  ctx.save();
+  ctx.strokeStyle = ctx.fillStyle;
+  ctx.lineWidth = light;
+  ctx.beginPath();
+  if (codepoint !== 0x2572) {
+    ctx.moveTo(x, y + height);
+    ctx.lineTo(x + width, y);
+  }
+  if (codepoint !== 0x2571) {
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + width, y + height);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Draw a block element (U+2580-U+259F)
+ */
+function drawBlock(
+  ctx: Context,
+  codepoint: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  // Fill a rectangle given in eighths of the cell
+  const eighths = (left: number, top: number, right: number, bottom: number) => {
+    const x0 = x + Math.round((width * left) / 8);
+    const y0 = y + Math.round((height * top) / 8);
+    ctx.fillRect(
+      x0,
+      y0,
+      x + Math.round((width * right) / 8) - x0,
+      y + Math.round((height * bottom) / 8) - y0
+    );
+  };
+
+  if (codepoint === 0x2580) {
+    eighths(0, 0, 8, 4);
+  } else if (codepoint <= 0x2588) {
+    // Lower one eighth to full block
+    eighths(0, 0x2588 - codepoint, 8, 8);
+  } else if (codepoint <= 0x258f) {
+    // Left seven eighths to left one eighth
+    eighths(0, 0, 0x2590 - codepoint, 8);
+  } else if (codepoint === 0x2590) {
+    eighths(4, 0, 8, 8);
+  } else if (codepoint <= 0x2593) {
+    // Light, medium and dark shade
+    ctx.save();
+    ctx.globalAlpha *= (codepoint - 0x2590) / 4;
+    eighths(0, 0, 8, 8);
+    ctx.restore();
+  } else if (codepoint === 0x2594) {
+    eighths(0, 0, 8, 1);
+  } else if (codepoint === 0x2595) {
+    eighths(7, 0, 8, 8);
+  } else {
+    const quadrants = QUADRANTS[codepoint - 0x2596];
+    if (quadrants & 0b0001) eighths(0, 0, 4, 4);
+    if (quadrants & 0b0010) eighths(4, 0, 8, 4);
+    if (quadrants & 0b0100) eighths(0, 4, 4, 8);
+    if (quadrants & 0b1000) eighths(4, 4, 8, 8);
+  }
+}
+
+/**
+ * Draw the dots of a braille pattern (bits 0-7 are dots 1-8)
+ */
+function drawBraille(
+  ctx: Context,
+  dots: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  // Dots 1-3 and 7 are in the left column, 4-6 and 8 in the right one
+  const positions = [
+    [0, 0],
+    [0, 1],
+    [0, 2],
+    [1, 0],
+    [1, 1],
+    [1, 2],
+    [0, 3],
+    [1, 3],
+  ];
+  const size = Math.max(1, Math.round(Math.min(width / 4, height / 8)));
+  for (let bit = 0; bit < 8; bit++) {
+    if (!(dots & (1 << bit))) continue;
+    const [column, row] = positions[bit];
+    const dotX = x + Math.round((width * (2 * column + 1)) / 4 - size / 2);
+    const dotY = y + Math.round((height * (2 * row + 1)) / 8 - size / 2);
+    ctx.fillRect(dotX, dotY, size, size);
+  }
+}
+
+/**
+ * Draw a Powerline separator (U+E0B0-U+E0BF)
+ */
+function drawPowerline(
+  ctx: Context,
+  codepoint: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  light: number
+): void {
+  const right = x + width;
+  const bottom = y + height;
+  const middle = y + height / 2;
+  // Odd codepoints are the outline versions of the solid shape before them
+  const outline = (codepoint & 1) === 1;
+
+  ctx.save();
+  ctx.strokeStyle = ctx.fillStyle;
+  ctx.lineWidth = light;
+  ctx.beginPath();
+  switch (codepoint & ~1) {
+    case 0xe0b0: // Right-pointing triangle
+      ctx.moveTo(x, y);
+      ctx.lineTo(right, middle);
+      ctx.lineTo(x, bottom);
+      break;
+    case 0xe0b2: // Left-pointing triangle
+      ctx.moveTo(right, y);
+      ctx.lineTo(x, middle);
+      ctx.lineTo(right, bottom);
+      break;
+    case 0xe0b4: // Right half circle
+      ctx.moveTo(x, y);
+      ctx.ellipse(x, middle, width, height / 2, 0, -Math.PI / 2, Math.PI / 2);
+      break;
+    case 0xe0b6: // Left half circle
+      ctx.moveTo(right, bottom);
+      ctx.ellipse(right, middle, width, height / 2, 0, Math.PI / 2, (3 * Math.PI) / 2);
+      break;
+    case 0xe0b8: // Lower left triangle, or the diagonal from top left to bottom right
+      ctx.moveTo(x, y);
+      ctx.lineTo(right, bottom);
+      if (!outline) ctx.lineTo(x, bottom);
+      break;
+    case 0xe0ba: // Lower right triangle, or the diagonal from bottom left to top right
+      ctx.moveTo(x, bottom);
+      ctx.lineTo(right, y);
+      if (!outline) ctx.lineTo(right, bottom);
+      break;
+    case 0xe0bc: // Upper left triangle, or the diagonal from bottom left to top right
+      ctx.moveTo(x, bottom);
+      ctx.lineTo(right, y);
+      if (!outline) ctx.lineTo(x, y);
+      break;
+    case 0xe0be: // Upper right triangle, or the diagonal from top left to bottom right
+      ctx.moveTo(x, y);
+      ctx.lineTo(right, bottom);
+      if (!outline) ctx.lineTo(right, y);
+      break;
+  }
+  if (outline) {
+    ctx.stroke();
+  } else {
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.restore();
+}
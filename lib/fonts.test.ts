@@ -0,0 +1,74 @@
+/**
+ * Tests for font strings, fallback chains and font load observation
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { buildFont, buildFontFamily, loadFonts, onFontsLoaded } from './fonts';
+
+describe('buildFontFamily', () => {
+  test('appends fallbacks in the order symbols, CJK, emoji', () => {
+    expect(buildFontFamily('"Fira Code", monospace')).toBe('"Fira Code", monospace');
+    expect(
+      buildFontFamily('Fira Code', {
+        emoji: 'Noto Color Emoji',
+        cjk: 'Noto Sans Mono CJK SC',
+        symbols: 'Symbols Nerd Font Mono',
+      })
+    ).toBe('Fira Code, Symbols Nerd Font Mono, Noto Sans Mono CJK SC, Noto Color Emoji');
+    expect(buildFontFamily('monospace', { symbols: ' ', emoji: 'Apple Color Emoji' })).toBe(
+      'monospace, Apple Color Emoji'
+    );
+  });
+});
+
+describe('buildFont', () => {
+  test('includes style, weight, size and family', () => {
+    expect(buildFont(15, 'monospace')).toBe('normal 15px monospace');
+    expect(buildFont(30, 'Fira Code', 600, true)).toBe('italic 600 30px Fira Code');
+  });
+});
+
+describe('font loading', () => {
+  const originalFonts = (document as any).fonts;
+
+  afterEach(() => {
+    Object.defineProperty(document, 'fonts', { value: originalFonts, configurable: true });
+  });
+
+  function mockFonts() {
+    const fonts = Object.assign(new EventTarget(), {
+      loaded: [] as string[],
+      load(font: string) {
+        fonts.loaded.push(font);
+        return font.includes('Broken') ? Promise.reject(new Error('failed')) : Promise.resolve([]);
+      },
+    });
+    Object.defineProperty(document, 'fonts', { value: fonts, configurable: true });
+    return fonts;
+  }
+
+  test('starts loading each font and ignores failures', async () => {
+    const fonts = mockFonts();
+    loadFonts(['normal 15px Fira Code', 'bold 15px Broken']);
+    expect(fonts.loaded).toEqual(['normal 15px Fira Code', 'bold 15px Broken']);
+    await Promise.resolve();
+  });
+
+  test('calls back on loadingdone until disposed', () => {
+    const fonts = mockFonts();
+    let calls = 0;
+    const listener = onFontsLoaded(() => calls++);
+
+    fonts.dispatchEvent(new Event('loadingdone'));
+    expect(calls).toBe(1);
+
+    listener.dispose();
+    fonts.dispatchEvent(new Event('loadingdone'));
+    expect(calls).toBe(1);
+  });
+
+  test('does nothing without a FontFaceSet', () => {
+    expect(() => loadFonts(['normal 15px monospace'])).not.toThrow();
+    expect(() => onFontsLoaded(() => {}).dispose()).not.toThrow();
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Fonts - font strings, fallback chains and web font loading
+ *
+ * Cell metrics are measured from the primary font. A web font in fontFamily
+ * usually isn't loaded yet when the terminal opens, so the first measurement
+ * comes from whatever font the browser falls back to. The terminal asks
+ * document.fonts to load the configured fonts and re-measures whenever a load
+ * finishes, so metrics and glyphs follow the web font once it's available.
+ *
+ * Fallback families are appended to fontFamily in a fixed order: Nerd Font
+ * symbols first (they live in the Private Use Area, which no other font
+ * covers), then CJK, then emoji. The browser picks the first family that has
+ * a glyph for each character.
+ */
+
+import type { FontWeight, IDisposable, IFontFallback } from './interfaces';
+
+/**
+ * Append the fallback families to a font family list
+ */
+export function buildFontFamily(fontFamily: string, fallback: IFontFallback = {}): string {
+  const families = [fontFamily, fallback.symbols, fallback.cjk, fallback.emoji];
+  return families.filter((family) => family && family.trim() !== '').join(', ');
+}
+
+/**
+ * CSS font shorthand for a canvas context
+ */
+export function buildFont(
+  fontSize: number,
+  fontFamily: string,
+  fontWeight: FontWeight = 'normal',
+  italic = false
+): string {
+  return `${italic ? 'italic ' : ''}${fontWeight} ${fontSize}px ${fontFamily}`;
+}
+
+/**
+ * Start loading the faces of fonts declared with @font-face (browsers only
+ * load them once they're used). Fonts that fail to load are ignored: text
+ * keeps using the fallback font.
+ */
+export function loadFonts(fonts: string[]): void {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  for (const font of fonts) {
+    document.fonts.load(font).catch(() => {});
+  }
+}
+
+/**
+ * Call back whenever the document finishes loading fonts
+ */
+export function onFontsLoaded(callback: () => void): IDisposable {
+  if (typeof document === 'undefined' || !document.fonts) return { dispose: () => {} };
+  const fonts = document.fonts;
+  const listener = () => callback();
+  fonts.addEventListener('loadingdone', listener);
+  return { dispose: () => fonts.removeEventListener('loadingdone', listener) };
+}
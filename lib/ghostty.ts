@@ -6,12 +6,15 @@
  * snapshot of all render data in a single update call.
  */
 
+import type { ITheme } from './interfaces';
+import { DEFAULT_THEME } from './theme';
 import {
   CellFlags,
   type Cursor,
   DirtyState,
   GHOSTTY_CONFIG_SIZE,
   type GhosttyCell,
+  type GhosttyHyperlink,
   type GhosttyTerminalConfig,
   type GhosttyWasmExports,
   KeyEncoderOption,
@@ -21,6 +24,8 @@ import {
   type RenderStateColors,
   type RenderStateCursor,
   type TerminalHandle,
+  UnderlineStyle,
+  createCell,
 } from './types';
 
 // Re-export types for convenience
@@ -29,13 +34,85 @@ export {
   type Cursor,
   DirtyState,
   type GhosttyCell,
+  type GhosttyHyperlink,
   type GhosttyTerminalConfig,
   KeyEncoderOption,
   type RGB,
   type RenderStateColors,
   type RenderStateCursor,
+  UnderlineStyle,
 };
 
+/**
+ * Parse a CSS color string to 0xRRGGBB format.
+ * Returns 0 if the color is undefined or invalid.
+ */
+function parseColorToHex(color?: string): number {
+  if (!color) return 0;
+
+  // Handle hex colors (#RGB, #RRGGBB)
+  if (color.startsWith('#')) {
+    let hex = color.slice(1);
+    if (hex.length === 3) {
+      hex = hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2];
+    }
+    const value = Number.parseInt(hex, 16);
+    return Number.isNaN(value) ? 0 : value;
+  }
+
+  // Handle rgb(r, g, b) format
+  const match = color.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
+  if (match) {
+    const r = Number.parseInt(match[1], 10);
+    const g = Number.parseInt(match[2], 10);
+    const b = Number.parseInt(match[3], 10);
+    return (r << 16) | (g << 8) | b;
+  }
+
+  return 0;
+}
+
+/**
+ * Convert terminal theme and scrollback options to WASM terminal config.
+ * Shared by Terminal and HeadlessTerminal.
+ */
+export function buildTerminalConfig(
+  theme: ITheme | undefined,
+  scrollback: number
+): GhosttyTerminalConfig {
+  // Build palette array from theme colors
+  // Order: black, red, green, yellow, blue, magenta, cyan, white,
+  //        brightBlack, brightRed, brightGreen, brightYellow, brightBlue, brightMagenta, brightCyan, brightWhite
+  const palette: number[] = [
+    parseColorToHex(theme?.black),
+    parseColorToHex(theme?.red),
+    parseColorToHex(theme?.green),
+    parseColorToHex(theme?.yellow),
+    parseColorToHex(theme?.blue),
+    parseColorToHex(theme?.magenta),
+    parseColorToHex(theme?.cyan),
+    parseColorToHex(theme?.white),
+    parseColorToHex(theme?.brightBlack),
+    parseColorToHex(theme?.brightRed),
+    parseColorToHex(theme?.brightGreen),
+    parseColorToHex(theme?.brightYellow),
+    parseColorToHex(theme?.brightBlue),
+    parseColorToHex(theme?.brightMagenta),
+    parseColorToHex(theme?.brightCyan),
+    parseColorToHex(theme?.brightWhite),
+  ];
+
+  return {
+    scrollbackLimit: scrollback,
+    fgColor: parseColorToHex(theme?.foreground),
+    // The renderers draw the default theme's background and cursor, so the
+    // terminal uses them too (e.g. to answer OSC 11 and OSC 12 queries)
+    bgColor: parseColorToHex(theme?.background ?? DEFAULT_THEME.background),
+    cursorColor: parseColorToHex(theme?.cursor ?? DEFAULT_THEME.cursor),
+    palette,
+  };
+}
+
 /**
  * Main Ghostty WASM wrapper class
  */
@@ -258,8 +335,8 @@ export class GhosttyTerminal {
   private _cols: number;
   private _rows: number;
 
-  /** Size of GhosttyCell in WASM (16 bytes) */
-  private static readonly CELL_SIZE = 16;
+  /** Size of GhosttyCell in WASM (20 bytes) */
+  private static readonly CELL_SIZE = 20;
 
   /** Reusable buffer for viewport operations */
   private viewportBufferPtr: number = 0;
@@ -268,6 +345,14 @@ export class GhosttyTerminal {
   /** Cell pool for zero-allocation rendering */
   private cellPool: GhosttyCell[] = [];
 
+  /** Responses generated in JavaScript (e.g. kitty graphics), read before WASM responses */
+  private queuedResponses: string[] = [];
+
+  /** Title and icon name, copied out of WASM when the title version changes */
+  private titleVersion = 0;
+  private title = '';
+  private iconName = '';
+
   constructor(
     exports: GhosttyWasmExports,
     memory: WebAssembly.Memory,
@@ -281,44 +366,9 @@ export class GhosttyTerminal {
     this._rows = rows;
 
     if (config) {
-      // Allocate config struct in WASM memory
-      const configPtr = this.exports.ghostty_wasm_alloc_u8_array(GHOSTTY_CONFIG_SIZE);
-      if (configPtr === 0) {
-        throw new Error('Failed to allocate config (out of memory)');
-      }
-
-      try {
-        // Write config to WASM memory
-        const view = new DataView(this.memory.buffer);
-        let offset = configPtr;
-
-        // scrollback_limit (u32)
-        view.setUint32(offset, config.scrollbackLimit ?? 10000, true);
-        offset += 4;
-
-        // fg_color (u32)
-        view.setUint32(offset, config.fgColor ?? 0, true);
-        offset += 4;
-
-        // bg_color (u32)
-        view.setUint32(offset, config.bgColor ?? 0, true);
-        offset += 4;
-
-        // cursor_color (u32)
-        view.setUint32(offset, config.cursorColor ?? 0, true);
-        offset += 4;
-
-        // palette[16] (u32 * 16)
-        for (let i = 0; i < 16; i++) {
-          view.setUint32(offset, config.palette?.[i] ?? 0, true);
-          offset += 4;
-        }
-
-        this.handle = this.exports.ghostty_terminal_new_with_config(cols, rows, configPtr);
-      } finally {
-        // Free the config memory
-        this.exports.ghostty_wasm_free_u8_array(configPtr, GHOSTTY_CONFIG_SIZE);
-      }
+      this.handle = this.withConfig(config, (configPtr) =>
+        this.exports.ghostty_terminal_new_with_config(cols, rows, configPtr)
+      );
     } else {
       this.handle = this.exports.ghostty_terminal_new(cols, rows);
     }
@@ -347,6 +397,17 @@ export class GhosttyTerminal {
     this.exports.ghostty_wasm_free_u8_array(ptr, bytes.length);
   }
 
+  /**
+   * Change the default colors and 16-color palette (theme switch).
+   * Only the color fields of the config are used. Cells with explicit RGB
+   * colors keep them; everything else picks up the new colors on the next update.
+   */
+  setColors(config: GhosttyTerminalConfig): void {
+    this.withConfig(config, (configPtr) =>
+      this.exports.ghostty_terminal_set_colors(this.handle, configPtr)
+    );
+  }
+
   resize(cols: number, rows: number): void {
     if (cols === this._cols && rows === this._rows) return;
     this._cols = cols;
@@ -410,6 +471,7 @@ export class GhosttyTerminal {
   getColors(): RenderStateColors {
     const bg = this.exports.ghostty_render_state_get_bg_color(this.handle);
     const fg = this.exports.ghostty_render_state_get_fg_color(this.handle);
+    const cursor = this.exports.ghostty_render_state_get_cursor_color(this.handle);
     return {
       background: {
         r: (bg >> 16) & 0xff,
@@ -421,7 +483,8 @@ export class GhosttyTerminal {
         g: (fg >> 8) & 0xff,
         b: fg & 0xff,
       },
-      cursor: null, // TODO: Add cursor color support
+      cursor:
+        cursor < 0 ? null : { r: (cursor >> 16) & 0xff, g: (cursor >> 8) & 0xff, b: cursor & 0xff },
     };
   }
 
@@ -544,12 +607,61 @@ export class GhosttyTerminal {
     return this.exports.ghostty_terminal_get_scrollback_length(this.handle);
   }
 
+  /**
+   * Get the number of rows removed from the top of the scrollback since the
+   * terminal was created (pruned at the scrollback limit, or erased).
+   * Scrollback offset 0 is absolute row getRowsPruned(), so
+   * `getRowsPruned() + getScrollbackLength() + y` identifies viewport row y
+   * for as long as it is stored. Always 0 on the alternate screen.
+   */
+  getRowsPruned(): number {
+    return this.exports.ghostty_terminal_get_rows_pruned(this.handle) >>> 0;
+  }
+
   /**
    * Get a line from the scrollback buffer.
    * Ensures render state is fresh by calling update().
    * @param offset 0 = oldest line, (length-1) = most recent scrollback line
    */
   getScrollbackLine(offset: number): GhosttyCell[] | null {
+    return this.readLine((ptr, len) =>
+      this.exports.ghostty_terminal_get_scrollback_line(this.handle, offset, ptr, len)
+    );
+  }
+
+  /** Get the number of rows of the normal screen, scrollback included */
+  getPrimaryLength(): number {
+    return this.exports.ghostty_terminal_get_primary_length(this.handle);
+  }
+
+  /**
+   * Get a row of the normal screen, also while the alternate screen is active.
+   * @param y 0 = oldest scrollback line, (length-1) = last screen row
+   */
+  getPrimaryLine(y: number): GhosttyCell[] | null {
+    return this.readLine((ptr, len) =>
+      this.exports.ghostty_terminal_get_primary_line(this.handle, y, ptr, len)
+    );
+  }
+
+  /** Check if a row of the normal screen continues the previous row */
+  isPrimaryRowWrapped(y: number): boolean {
+    return this.exports.ghostty_terminal_is_primary_row_wrapped(this.handle, y) !== 0;
+  }
+
+  /** Get the cursor position on the normal screen (y relative to the screen) */
+  getPrimaryCursor(): { x: number; y: number } {
+    return {
+      x: this.exports.ghostty_terminal_get_primary_cursor_x(this.handle),
+      y: this.exports.ghostty_terminal_get_primary_cursor_y(this.handle),
+    };
+  }
+
+  /**
+   * Read a row of cells with a WASM function that writes them to a buffer
+   * and returns the number of cells written (or -1 on error)
+   */
+  private readLine(read: (ptr: number, len: number) => number): GhosttyCell[] | null {
     const neededSize = this._cols * GhosttyTerminal.CELL_SIZE;
 
     // Ensure buffer is allocated
@@ -565,13 +677,7 @@ export class GhosttyTerminal {
     // This is safe to call multiple times - dirty state persists until markClean().
     this.update();
 
-    const count = this.exports.ghostty_terminal_get_scrollback_line(
-      this.handle,
-      offset,
-      this.viewportBufferPtr,
-      this._cols
-    );
-
+    const count = read(this.viewportBufferPtr, this._cols);
     if (count < 0) return null;
 
     // Parse cells
@@ -594,6 +700,11 @@ export class GhosttyTerminal {
         width: u8[cellOffset + 11],
         hyperlink_id: view.getUint16(cellOffset + 12, true),
         grapheme_len: u8[cellOffset + 14],
+        underline_style: u8[cellOffset + 15],
+        ul_r: u8[cellOffset + 16],
+        ul_g: u8[cellOffset + 17],
+        ul_b: u8[cellOffset + 18],
+        has_ul_color: u8[cellOffset + 19],
       });
     }
 
@@ -605,9 +716,122 @@ export class GhosttyTerminal {
     return this.exports.ghostty_terminal_is_row_wrapped(this.handle, row) !== 0;
   }
 
-  /** Hyperlink URI not yet exposed in simplified API */
-  getHyperlinkUri(_id: number): string | null {
-    return null; // TODO: Add hyperlink support
+  /** Check if a scrollback line continues the previous line (0 = oldest) */
+  isScrollbackRowWrapped(offset: number): boolean {
+    return this.exports.ghostty_terminal_is_scrollback_row_wrapped(this.handle, offset) !== 0;
+  }
+
+  /**
+   * Get the OSC 8 hyperlink for a cell in the active screen.
+   * @returns The hyperlink, or null if the cell isn't part of one
+   */
+  getHyperlink(row: number, col: number): GhosttyHyperlink | null {
+    return this.readHyperlink(
+      (ptr, len) =>
+        this.exports.ghostty_render_state_get_hyperlink_uri(this.handle, row, col, ptr, len),
+      (ptr, len) =>
+        this.exports.ghostty_render_state_get_hyperlink_id(this.handle, row, col, ptr, len)
+    );
+  }
+
+  /**
+   * Get the OSC 8 hyperlink for a cell in the scrollback buffer.
+   * @param offset Scrollback line offset (0 = oldest)
+   * @returns The hyperlink, or null if the cell isn't part of one
+   */
+  getScrollbackHyperlink(offset: number, col: number): GhosttyHyperlink | null {
+    return this.readHyperlink(
+      (ptr, len) =>
+        this.exports.ghostty_terminal_get_scrollback_hyperlink_uri(
+          this.handle,
+          offset,
+          col,
+          ptr,
+          len
+        ),
+      (ptr, len) =>
+        this.exports.ghostty_terminal_get_scrollback_hyperlink_id(
+          this.handle,
+          offset,
+          col,
+          ptr,
+          len
+        )
+    );
+  }
+
+  // ==========================================================================
+  // Title
+  // ==========================================================================
+
+  /**
+   * Get the window title set by OSC 0/2 (CSI 22/23 t save and restore it)
+   */
+  getTitle(): string {
+    this.syncTitle();
+    return this.title;
+  }
+
+  /**
+   * Get the icon name set with setIconName
+   */
+  getIconName(): string {
+    this.syncTitle();
+    return this.iconName;
+  }
+
+  /**
+   * Set the icon name. The parser doesn't report OSC 1, so the caller handles
+   * OSC 0/1 and stores the icon name here, where CSI 22/23 t save and restore
+   * it along with the title.
+   */
+  setIconName(name: string): void {
+    const bytes = new TextEncoder().encode(name);
+    const ptr = this.exports.ghostty_wasm_alloc_u8_array(bytes.length);
+    new Uint8Array(this.memory.buffer).set(bytes, ptr);
+    this.exports.ghostty_terminal_set_icon_name(this.handle, ptr, bytes.length);
+    this.exports.ghostty_wasm_free_u8_array(ptr, bytes.length);
+  }
+
+  /**
+   * Number of BEL controls executed so far (wraps at 2^32). Compare with a
+   * previous value to detect bells; BELs terminating OSC strings don't count.
+   */
+  getBellCount(): number {
+    return this.exports.ghostty_terminal_get_bell_count(this.handle);
+  }
+
+  // ==========================================================================
+  // Unicode
+  // ==========================================================================
+
+  /**
+   * Override character widths with (start, end, width) triples sorted by
+   * start (see buildWidthTable). An empty table restores Ghostty's widths.
+   * Only affects text written afterwards.
+   */
+  setWidths(ranges: Uint32Array): void {
+    if (ranges.length === 0) {
+      this.exports.ghostty_terminal_set_widths(this.handle, 0, 0);
+      return;
+    }
+
+    // Copied as bytes: the allocation isn't necessarily 4-byte aligned
+    const byteLength = ranges.byteLength;
+    const ptr = this.exports.ghostty_wasm_alloc_u8_array(byteLength);
+    new Uint8Array(this.memory.buffer, ptr, byteLength).set(
+      new Uint8Array(ranges.buffer, ranges.byteOffset, byteLength)
+    );
+    this.exports.ghostty_terminal_set_widths(this.handle, ptr, ranges.length / 3);
+    this.exports.ghostty_wasm_free_u8_array(ptr, byteLength);
+  }
+
+  /**
+   * Enable or disable grapheme clustering (mode 2027). A full reset returns
+   * to this state; applications can still toggle it with DECSET/DECRST 2027.
+   */
+  setGraphemeClustering(enabled: boolean): void {
+    this.exports.ghostty_terminal_set_grapheme_clustering(this.handle, enabled);
   }
 
   /**
@@ -615,7 +839,18 @@ export class GhosttyTerminal {
    * Responses are generated by escape sequences like DSR (Device Status Report).
    */
   hasResponse(): boolean {
-    return this.exports.ghostty_terminal_has_response(this.handle);
+    return (
+      this.queuedResponses.length > 0 || this.exports.ghostty_terminal_has_response(this.handle)
+    );
+  }
+
+  /**
+   * Queue a response generated outside the WASM parser (e.g. kitty graphics).
+   * Queued responses are returned by readResponse() before WASM responses,
+   * so callers should read pending responses before queueing new ones.
+   */
+  queueResponse(response: string): void {
+    this.queuedResponses.push(response);
   }
 
   /**
@@ -625,8 +860,10 @@ export class GhosttyTerminal {
    * Responses are generated by escape sequences that require replies:
    * - DSR 6 (cursor position): Returns \x1b[row;colR
    * - DSR 5 (operating status): Returns \x1b[0n
+   * - Kitty graphics commands (queued with queueResponse)
    */
   readResponse(): string | null {
+    if (this.queuedResponses.length > 0) return this.queuedResponses.shift()!;
     if (!this.hasResponse()) return null;
 
     const bufSize = 256; // Most responses are small
@@ -657,23 +894,55 @@ export class GhosttyTerminal {
   // Private helpers
   // ==========================================================================
 
+  /**
+   * Write a GhosttyTerminalConfig struct into WASM memory for the duration of fn
+   */
+  private withConfig<T>(config: GhosttyTerminalConfig, fn: (configPtr: number) => T): T {
+    // Allocate config struct in WASM memory
+    const configPtr = this.exports.ghostty_wasm_alloc_u8_array(GHOSTTY_CONFIG_SIZE);
+    if (configPtr === 0) {
+      throw new Error('Failed to allocate config (out of memory)');
+    }
+
+    try {
+      // Write config to WASM memory
+      const view = new DataView(this.memory.buffer);
+      let offset = configPtr;
+
+      // scrollback_limit (u32)
+      view.setUint32(offset, config.scrollbackLimit ?? 10000, true);
+      offset += 4;
+
+      // fg_color (u32)
+      view.setUint32(offset, config.fgColor ?? 0, true);
+      offset += 4;
+
+      // bg_color (u32)
+      view.setUint32(offset, config.bgColor ?? 0, true);
+      offset += 4;
+
+      // cursor_color (u32)
+      view.setUint32(offset, config.cursorColor ?? 0, true);
+      offset += 4;
+
+      // palette[16] (u32 * 16)
+      for (let i = 0; i < 16; i++) {
+        view.setUint32(offset, config.palette?.[i] ?? 0, true);
+        offset += 4;
+      }
+
+      return fn(configPtr);
+    } finally {
+      // Free the config memory
+      this.exports.ghostty_wasm_free_u8_array(configPtr, GHOSTTY_CONFIG_SIZE);
+    }
+  }
+
   private initCellPool(): void {
     const total = this._cols * this._rows;
     if (this.cellPool.length < total) {
       for (let i = this.cellPool.length; i < total; i++) {
-        this.cellPool.push({
-          codepoint: 0,
-          fg_r: 204,
-          fg_g: 204,
-          fg_b: 204,
-          bg_r: 0,
-          bg_g: 0,
-          bg_b: 0,
-          flags: 0,
-          width: 1,
-          hyperlink_id: 0,
-          grapheme_len: 0,
-        });
+        this.cellPool.push(createCell());
       }
     }
   }
@@ -697,6 +966,11 @@ export class GhosttyTerminal {
       cell.width = u8[offset + 11];
       cell.hyperlink_id = view.getUint16(offset + 12, true);
       cell.grapheme_len = u8[offset + 14]; // grapheme_len is at byte 14
+      cell.underline_style = u8[offset + 15];
+      cell.ul_r = u8[offset + 16];
+      cell.ul_g = u8[offset + 17];
+      cell.ul_b = u8[offset + 18];
+      cell.has_ul_color = u8[offset + 19];
     }
   }
 
@@ -779,6 +1053,62 @@ export class GhosttyTerminal {
     return String.fromCodePoint(...codepoints);
   }
 
+  /**
+   * Read a hyperlink's URI and explicit id through the given WASM getters
+   */
+  private readHyperlink(
+    readUri: (bufPtr: number, bufLen: number) => number,
+    readId: (bufPtr: number, bufLen: number) => number
+  ): GhosttyHyperlink | null {
+    const uri = this.readString(readUri);
+    if (uri === null) return null;
+
+    const id = this.readString(readId);
+    return id === null ? { uri } : { uri, id };
+  }
+
+  /**
+   * Read a string through a WASM getter that returns its length, growing the
+   * buffer when the first attempt doesn't fit (URIs and titles can be
+   * arbitrarily long). Returns null for empty strings and errors.
+   */
+  private readString(read: (bufPtr: number, bufLen: number) => number): string | null {
+    let bufSize = 1024;
+    while (true) {
+      const size = bufSize;
+      const bufPtr = this.exports.ghostty_wasm_alloc_u8_array(size);
+      try {
+        const len = read(bufPtr, size);
+        if (len <= 0) return null;
+        if (len > size) {
+          bufSize = len;
+          continue;
+        }
+        const bytes = new Uint8Array(this.memory.buffer, bufPtr, len);
+        return new TextDecoder().decode(bytes.slice());
+      } finally {
+        this.exports.ghostty_wasm_free_u8_array(bufPtr, size);
+      }
+    }
+  }
+
+  /**
+   * Copy the title and icon name out of WASM if they changed since the last read
+   */
+  private syncTitle(): void {
+    const version = this.exports.ghostty_terminal_get_title_version(this.handle);
+    if (version === this.titleVersion) return;
+    this.titleVersion = version;
+    this.title =
+      this.readString((ptr, len) =>
+        this.exports.ghostty_terminal_get_title(this.handle, ptr, len)
+      ) ?? '';
+    this.iconName =
+      this.readString((ptr, len) =>
+        this.exports.ghostty_terminal_get_icon_name(this.handle, ptr, len)
+      ) ?? '';
+  }
+
   private invalidateBuffers(): void {
     if (this.viewportBufferPtr) {
       this.exports.ghostty_wasm_free_u8_array(this.viewportBufferPtr, this.viewportBufferSize);
@@ -787,3 +1117,9 @@ export class GhosttyTerminal {
     }
   }
 }
+
+/**
+ * Public API of GhosttyTerminal. Also implemented by RemoteTerminal, which
+ * mirrors a GhosttyTerminal running in a parser worker.
+ */
+export type IGhosttyTerminal = Pick<GhosttyTerminal, keyof GhosttyTerminal>;
@@ -0,0 +1,104 @@
+/**
+ * Tests for HeadlessTerminal
+ */
+
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { Ghostty } from './ghostty';
+import { HeadlessTerminal } from './headless';
+
+describe('HeadlessTerminal', () => {
+  let ghostty: Ghostty;
+
+  beforeEach(async () => {
+    ghostty = await Ghostty.load();
+  });
+
+  test('writes to the buffer without a DOM', () => {
+    const term = new HeadlessTerminal({ ghostty, cols: 20, rows: 4 });
+    term.write('hello\r\nworld');
+
+    expect(term.buffer.active.getLine(0)?.translateToString(true)).toBe('hello');
+    expect(term.buffer.active.getLine(1)?.translateToString(true)).toBe('world');
+    expect(term.buffer.active.cursorX).toBe(5);
+
+    term.dispose();
+  });
+
+  test('calls the write callback after parsing', async () => {
+    const term = new HeadlessTerminal({ ghostty });
+    const done = new Promise<void>((resolve) => term.write('abc', resolve));
+    await done;
+
+    expect(term.buffer.active.getLine(0)?.translateToString(true)).toBe('abc');
+    term.dispose();
+  });
+
+  test('converts line feeds when convertEol is set', () => {
+    const term = new HeadlessTerminal({ ghostty, convertEol: true });
+    term.write('a\nb');
+
+    expect(term.buffer.active.getLine(1)?.translateToString(true)).toBe('b');
+    term.dispose();
+  });
+
+  test('sends query responses through onData', () => {
+    const term = new HeadlessTerminal({ ghostty });
+    const data: string[] = [];
+    term.onData((response) => data.push(response));
+
+    term.write('ab\x1b[6n');
+
+    expect(data).toEqual(['\x1b[1;3R']);
+    term.dispose();
+  });
+
+  test('fires onTitleChange and onBell', () => {
+    const term = new HeadlessTerminal({ ghostty });
+    const titles: string[] = [];
+    let bells = 0;
+    term.onTitleChange((title) => titles.push(title));
+    term.onBell(() => bells++);
+
+    term.write('\x1b]2;build\x1b\\\x07');
+
+    expect(titles).toEqual(['build']);
+    expect(bells).toBe(1);
+    term.dispose();
+  });
+
+  test('tracks the title across split writes and the title stack', () => {
+    const term = new HeadlessTerminal({ ghostty });
+    const titles: string[] = [];
+    term.onTitleChange((title) => titles.push(title));
+
+    term.write(new TextEncoder().encode('\x1b]2;sh'));
+    term.write(new TextEncoder().encode('ell\x07\x1b[22;0t'));
+    term.write('\x1b]2;vim\x07');
+    term.write('\x1b[23;0t');
+
+    expect(titles).toEqual(['shell', 'vim', 'shell']);
+    expect(term.title).toBe('shell');
+    term.dispose();
+  });
+
+  test('resizes and reports modes', () => {
+    const term = new HeadlessTerminal({ ghostty, cols: 80, rows: 24 });
+    const sizes: { cols: number; rows: number }[] = [];
+    term.onResize((size) => sizes.push(size));
+
+    term.resize(100, 30);
+    term.write('\x1b[?2004h');
+
+    expect(sizes).toEqual([{ cols: 100, rows: 30 }]);
+    expect(term.buffer.active.getLine(0)?.length).toBe(100);
+    expect(term.hasBracketedPaste()).toBe(true);
+    term.dispose();
+  });
+
+  test('throws after dispose', () => {
+    const term = new HeadlessTerminal({ ghostty });
+    term.dispose();
+
+    expect(() => term.write('x')).toThrow('Terminal has been disposed');
+  });
+});
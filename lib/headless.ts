@@ -0,0 +1,355 @@
+/**
+ * HeadlessTerminal - Terminal emulation without a DOM
+ *
+ * Runs the Ghostty VT parser and exposes the buffer, modes and events of
+ * Terminal without rendering or input handling. It never touches `document`,
+ * `window` or `requestAnimationFrame`, so it works in Node, Bun and workers
+ * (e.g. for server-side session recording or tests).
+ * Compatible with the @xterm/headless API.
+ *
+ * Usage:
+ * ```typescript
+ * const ghostty = await Ghostty.load();
+ * const term = new HeadlessTerminal({ ghostty, cols: 80, rows: 24 });
+ * term.onData((response) => pty.write(response));
+ * term.write('\x1b[1mhello\x1b[0m', () => {
+ *   console.log(term.buffer.active.getLine(0)?.translateToString(true));
+ * });
+ * ```
+ *
+ * Sequences that Terminal handles in JavaScript (kitty graphics, sixel images
+ * and OSC 52 clipboard access) are passed to the parser, which ignores them.
+ */
+
+import { BufferNamespace } from './buffer';
+import { EventEmitter } from './event-emitter';
+import {
+  type Ghostty,
+  type GhosttyCell,
+  type GhosttyTerminal,
+  buildTerminalConfig,
+} from './ghostty';
+import { getGhostty } from './index';
+import type {
+  IBufferNamespace,
+  IEvent,
+  IHeadlessTerminalOptions,
+  ITerminalAddon,
+  IUnicodeHandling,
+} from './interfaces';
+import { UnicodeHandling } from './unicode';
+
+export class HeadlessTerminal {
+  public cols: number;
+  public rows: number;
+
+  // Buffer API (xterm.js compatibility)
+  public readonly buffer: IBufferNamespace;
+
+  public readonly options: Required<Omit<IHeadlessTerminalOptions, 'ghostty'>>;
+
+  // Unicode API (xterm.js compatibility)
+  private unicodeHandling = new UnicodeHandling(() =>
+    this.wasmTerm?.setWidths(this.unicodeHandling.getWidths(this.options.ambiguousWidth))
+  );
+  public readonly unicode: IUnicodeHandling = this.unicodeHandling;
+
+  public wasmTerm?: GhosttyTerminal; // Public for addons, like Terminal.wasmTerm
+  private ghostty?: Ghostty;
+
+  // Event emitters
+  private dataEmitter = new EventEmitter<string>();
+  private resizeEmitter = new EventEmitter<{ cols: number; rows: number }>();
+  private bellEmitter = new EventEmitter<void>();
+  private titleChangeEmitter = new EventEmitter<string>();
+
+  public readonly onData: IEvent<string> = this.dataEmitter.event;
+  public readonly onResize: IEvent<{ cols: number; rows: number }> = this.resizeEmitter.event;
+  public readonly onBell: IEvent<void> = this.bellEmitter.event;
+  public readonly onTitleChange: IEvent<string> = this.titleChangeEmitter.event;
+
+  private isDisposed = false;
+  private addons: ITerminalAddon[] = [];
+  private currentTitle: string = '';
+  private lastBellCount = 0;
+
+  constructor(options: IHeadlessTerminalOptions = {}) {
+    // Use provided Ghostty instance (for test isolation) or get module-level instance
+    this.ghostty = options.ghostty ?? getGhostty();
+
+    this.options = {
+      cols: options.cols ?? 80,
+      rows: options.rows ?? 24,
+      theme: options.theme ?? {},
+      scrollback: options.scrollback ?? 10000,
+      convertEol: options.convertEol ?? false,
+      ambiguousWidth: options.ambiguousWidth ?? 1,
+      graphemeClustering: options.graphemeClustering ?? true,
+    };
+
+    this.cols = this.options.cols;
+    this.rows = this.options.rows;
+
+    // Unlike Terminal, there is no open(): the WASM terminal exists from the start
+    this.wasmTerm = this.createWasmTerminal();
+
+    this.buffer = new BufferNamespace(this);
+  }
+
+  // ==========================================================================
+  // Writing
+  // ==========================================================================
+
+  /**
+   * Write data to terminal
+   *
+   * Data is parsed synchronously; the callback runs in a microtask once the
+   * data has been parsed.
+   */
+  write(data: string | Uint8Array, callback?: () => void): void {
+    this.assertNotDisposed();
+
+    // Handle convertEol option
+    if (this.options.convertEol && typeof data === 'string') {
+      data = data.replace(/\n/g, '\r\n');
+    }
+
+    this.wasmTerm!.write(data);
+
+    // Send responses to queries (e.g. DSR cursor position) via onData
+    this.processTerminalResponses();
+
+    // Fire onBell for BEL controls executed by the parser
+    const bellCount = this.wasmTerm!.getBellCount();
+    if (bellCount !== this.lastBellCount) {
+      this.lastBellCount = bellCount;
+      this.bellEmitter.fire();
+    }
+
+    // Fire title changes (OSC 0/2, CSI 22/23 t)
+    this.checkForTitleChange();
+
+    if (callback) {
+      queueMicrotask(callback);
+    }
+  }
+
+  /**
+   * Write data followed by a newline
+   */
+  writeln(data: string | Uint8Array, callback?: () => void): void {
+    if (typeof data === 'string') {
+      this.write(data + '\r\n', callback);
+    } else {
+      const newData = new Uint8Array(data.length + 2);
+      newData.set(data);
+      newData[data.length] = 0x0d; // \r
+      newData[data.length + 1] = 0x0a; // \n
+      this.write(newData, callback);
+    }
+  }
+
+  /**
+   * Input data into terminal (as if typed by user)
+   *
+   * @param data - Data to input
+   * @param wasUserInput - If true, triggers onData event (default: false for compat with some apps)
+   */
+  input(data: string, wasUserInput: boolean = false): void {
+    this.assertNotDisposed();
+
+    if (wasUserInput) {
+      this.dataEmitter.fire(data);
+    } else {
+      this.write(data);
+    }
+  }
+
+  // ==========================================================================
+  // Lifecycle Methods
+  // ==========================================================================
+
+  /**
+   * Resize terminal
+   */
+  resize(cols: number, rows: number): void {
+    this.assertNotDisposed();
+
+    if (cols === this.cols && rows === this.rows) {
+      return; // No change
+    }
+
+    this.cols = cols;
+    this.rows = rows;
+    this.wasmTerm!.resize(cols, rows);
+
+    this.resizeEmitter.fire({ cols, rows });
+  }
+
+  /**
+   * Window title set by OSC 0/2 (CSI 22/23 t save and restore it)
+   */
+  get title(): string {
+    return this.currentTitle;
+  }
+
+  /**
+   * Clear terminal screen
+   */
+  clear(): void {
+    this.assertNotDisposed();
+    this.wasmTerm!.write('\x1b[2J\x1b[H');
+  }
+
+  /**
+   * Reset terminal state
+   */
+  reset(): void {
+    this.assertNotDisposed();
+
+    this.wasmTerm!.free();
+    this.wasmTerm = this.createWasmTerminal();
+
+    this.currentTitle = '';
+    this.lastBellCount = 0;
+  }
+
+  /**
+   * Load an addon
+   */
+  loadAddon(addon: ITerminalAddon): void {
+    addon.activate(this);
+    this.addons.push(addon);
+  }
+
+  /**
+   * Dispose terminal and free the WASM terminal
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this.isDisposed = true;
+
+    for (const addon of this.addons) {
+      addon.dispose();
+    }
+    this.addons = [];
+
+    this.wasmTerm?.free();
+    this.wasmTerm = undefined;
+    this.ghostty = undefined;
+
+    this.dataEmitter.dispose();
+    this.resizeEmitter.dispose();
+    this.bellEmitter.dispose();
+    this.titleChangeEmitter.dispose();
+  }
+
+  // ==========================================================================
+  // Scrollback
+  // ==========================================================================
+
+  /**
+   * Get a line from native WASM scrollback buffer
+   */
+  public getScrollbackLine(offset: number): GhosttyCell[] | null {
+    if (!this.wasmTerm) return null;
+    return this.wasmTerm.getScrollbackLine(offset);
+  }
+
+  /**
+   * Get scrollback length from native WASM
+   */
+  public getScrollbackLength(): number {
+    if (!this.wasmTerm) return 0;
+    return this.wasmTerm.getScrollbackLength();
+  }
+
+  // ==========================================================================
+  // Terminal Modes
+  // ==========================================================================
+
+  /**
+   * Query terminal mode state
+   *
+   * @param mode Mode number (e.g., 2004 for bracketed paste)
+   * @param isAnsi True for ANSI modes, false for DEC modes (default: false)
+   * @returns true if mode is enabled
+   */
+  public getMode(mode: number, isAnsi: boolean = false): boolean {
+    this.assertNotDisposed();
+    return this.wasmTerm!.getMode(mode, isAnsi);
+  }
+
+  /**
+   * Check if bracketed paste mode is enabled
+   */
+  public hasBracketedPaste(): boolean {
+    this.assertNotDisposed();
+    return this.wasmTerm!.hasBracketedPaste();
+  }
+
+  /**
+   * Check if focus event reporting is enabled
+   */
+  public hasFocusEvents(): boolean {
+    this.assertNotDisposed();
+    return this.wasmTerm!.hasFocusEvents();
+  }
+
+  /**
+   * Check if mouse tracking is enabled
+   */
+  public hasMouseTracking(): boolean {
+    this.assertNotDisposed();
+    return this.wasmTerm!.hasMouseTracking();
+  }
+
+  // ==========================================================================
+  // Private Methods
+  // ==========================================================================
+
+  /**
+   * Create the WASM terminal with the configured colors, scrollback and widths
+   */
+  private createWasmTerminal(): GhosttyTerminal {
+    const term = this.ghostty!.createTerminal(
+      this.cols,
+      this.rows,
+      buildTerminalConfig(this.options.theme, this.options.scrollback)
+    );
+    if (!this.options.graphemeClustering) term.setGraphemeClustering(false);
+    const widths = this.unicodeHandling.getWidths(this.options.ambiguousWidth);
+    if (widths.length > 0) term.setWidths(widths);
+    return term;
+  }
+
+  private assertNotDisposed(): void {
+    if (this.isDisposed) {
+      throw new Error('Terminal has been disposed');
+    }
+  }
+
+  /**
+   * Emit all pending terminal responses via onData
+   */
+  private processTerminalResponses(): void {
+    while (true) {
+      const response = this.wasmTerm!.readResponse();
+      if (response === null) break;
+      this.dataEmitter.fire(response);
+    }
+  }
+
+  /**
+   * Fire onTitleChange if the parser's title changed
+   */
+  private checkForTitleChange(): void {
+    const title = this.wasmTerm!.getTitle();
+    if (title !== this.currentTitle) {
+      this.currentTitle = title;
+      this.titleChangeEmitter.fire(title);
+    }
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Image storage for inline terminal graphics
+ *
+ * Holds decoded images and their placements in the grid. Placements are
+ * anchored to absolute rows (rows pruned from the scrollback + scrollback
+ * length + screen row at placement time), which keep counting up once the
+ * scrollback is full, so they scroll with the text. Placements whose rows
+ * have been pruned are dropped with prunePlacements(). The normal and
+ * alternate screens have separate placements, like their separate text
+ * buffers.
+ *
+ * Renderers read placements through getPlacements() and redraw when
+ * `version` changes.
+ */
+
+/** Decoded image pixels that renderers can draw */
+export type ImageSource = HTMLCanvasElement | ImageBitmap;
+
+export interface TerminalImage {
+  id: number;
+  /** Client-chosen image number (kitty `I=`), if any */
+  number?: number;
+  /** Size in pixels */
+  width: number;
+  height: number;
+  /** Decoded pixels; null while decoding is still in progress */
+  source: ImageSource | null;
+  /** Approximate memory used by the decoded pixels */
+  byteLength: number;
+}
+
+export interface ImagePlacement {
+  imageId: number;
+  /** Client-chosen placement id (kitty `p=`), 0 if none */
+  placementId: number;
+  /** Anchor cell: column and absolute row */
+  col: number;
+  row: number;
+  /** Cells covered by the placement */
+  cols: number;
+  rows: number;
+  /** Pixel offset of the image within the anchor cell */
+  offsetX: number;
+  offsetY: number;
+  /** Source rectangle in image pixels */
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  /** Destination size in CSS pixels */
+  width: number;
+  height: number;
+  /** Stacking order: negative values draw below text */
+  z: number;
+}
+
+/** Default memory limit for decoded images (same as kitty) */
+const DEFAULT_MAX_BYTES = 320 * 1024 * 1024;
+
+// ============================================================================
+// ImageStorage Class
+// ============================================================================
+
+export class ImageStorage {
+  private images = new Map<number, TerminalImage>();
+  private placements: { normal: ImagePlacement[]; alternate: ImagePlacement[] } = {
+    normal: [],
+    alternate: [],
+  };
+  private nextId = 1;
+  private totalBytes = 0;
+
+  /** Incremented on every change that affects rendering */
+  public version = 0;
+
+  constructor(private readonly maxBytes: number = DEFAULT_MAX_BYTES) {}
+
+  // ==========================================================================
+  // Images
+  // ==========================================================================
+
+  /**
+   * Allocate an image id that is not in use
+   */
+  allocateId(): number {
+    while (this.images.has(this.nextId)) {
+      this.nextId = (this.nextId % 0xffffffff) + 1;
+    }
+    return this.nextId++;
+  }
+
+  /**
+   * Add or replace an image. Evicts the oldest images when over the memory limit.
+   */
+  addImage(image: TerminalImage): void {
+    this.deleteImage(image.id, false);
+    this.images.set(image.id, image);
+    this.totalBytes += image.byteLength;
+
+    // Map iteration order is insertion order, so the first entries are the oldest
+    for (const [id] of this.images) {
+      if (this.totalBytes <= this.maxBytes || id === image.id) break;
+      this.deleteImage(id, true);
+    }
+    this.version++;
+  }
+
+  getImage(id: number): TerminalImage | undefined {
+    return this.images.get(id);
+  }
+
+  /**
+   * Find the most recently added image with a client-chosen number
+   */
+  findByNumber(number: number): TerminalImage | undefined {
+    let found: TerminalImage | undefined;
+    for (const image of this.images.values()) {
+      if (image.number === number) found = image;
+    }
+    return found;
+  }
+
+  /**
+   * Delete an image, optionally with all of its placements
+   */
+  deleteImage(id: number, withPlacements: boolean = true): void {
+    const image = this.images.get(id);
+    if (!image) return;
+    this.images.delete(id);
+    this.totalBytes -= image.byteLength;
+    if (withPlacements) {
+      this.placements.normal = this.placements.normal.filter((p) => p.imageId !== id);
+      this.placements.alternate = this.placements.alternate.filter((p) => p.imageId !== id);
+    }
+    this.version++;
+  }
+
+  /**
+   * Notify renderers that an image finished decoding
+   */
+  imageUpdated(): void {
+    this.version++;
+  }
+
+  get imageCount(): number {
+    return this.images.size;
+  }
+
+  // ==========================================================================
+  // Placements
+  // ==========================================================================
+
+  /**
+   * Add a placement, replacing any with the same image and placement id
+   */
+  addPlacement(placement: ImagePlacement, alternate: boolean): void {
+    const key = alternate ? 'alternate' : 'normal';
+    const list = this.placements[key].filter(
+      (p) =>
+        !(
+          placement.placementId !== 0 &&
+          p.imageId === placement.imageId &&
+          p.placementId === placement.placementId
+        )
+    );
+    list.push(placement);
+    // Keep placements sorted by z-index so renderers can draw in order
+    list.sort((a, b) => a.z - b.z);
+    this.placements[key] = list;
+    this.version++;
+  }
+
+  /**
+   * Get placements for a screen, sorted by z-index
+   */
+  getPlacements(alternate: boolean): readonly ImagePlacement[] {
+    return alternate ? this.placements.alternate : this.placements.normal;
+  }
+
+  /**
+   * Delete placements matching a predicate.
+   * @param freeImages - Also delete images left without placements
+   */
+  deletePlacements(
+    predicate: (placement: ImagePlacement) => boolean,
+    alternate: boolean,
+    freeImages: boolean = false
+  ): void {
+    const key = alternate ? 'alternate' : 'normal';
+    const removed = this.placements[key].filter(predicate);
+    if (removed.length === 0) return;
+    this.placements[key] = this.placements[key].filter((p) => !predicate(p));
+
+    if (freeImages) {
+      const inUse = new Set(
+        [...this.placements.normal, ...this.placements.alternate].map((p) => p.imageId)
+      );
+      for (const placement of removed) {
+        if (!inUse.has(placement.imageId)) {
+          this.deleteImage(placement.imageId, false);
+        }
+      }
+    }
+    this.version++;
+  }
+
+  /**
+   * Drop normal screen placements that lie entirely above the oldest row
+   * still stored, freeing images left without placements.
+   * @param firstRow - Absolute row of the oldest scrollback line
+   */
+  prunePlacements(firstRow: number): void {
+    this.deletePlacements((p) => p.row + p.rows <= firstRow, false, true);
+  }
+
+  /**
+   * Remove all images and placements
+   */
+  clear(): void {
+    this.images.clear();
+    this.placements = { normal: [], alternate: [] };
+    this.totalBytes = 0;
+    this.version++;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Create a canvas from raw RGB or RGBA pixels
+ */
+export function createImageFromPixels(
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  bytesPerPixel: number
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get 2D context for image');
+
+  const imageData = ctx.createImageData(width, height);
+  const data = imageData.data;
+  for (let i = 0, src = 0; i < width * height; i++, src += bytesPerPixel) {
+    const dst = i * 4;
+    data[dst] = pixels[src];
+    data[dst + 1] = pixels[src + 1];
+    data[dst + 2] = pixels[src + 2];
+    data[dst + 3] = bytesPerPixel === 4 ? pixels[src + 3] : 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+export interface VisibleImage {
+  placement: ImagePlacement;
+  image: TerminalImage;
+  source: ImageSource;
+}
+
+/**
+ * Get decoded placements that intersect the viewport, sorted by z-index.
+ * @param viewportTop - Absolute row shown at the top of the viewport
+ */
+export function getVisibleImages(
+  storage: ImageStorage,
+  alternate: boolean,
+  viewportTop: number,
+  rows: number
+): VisibleImage[] {
+  const visible: VisibleImage[] = [];
+  for (const placement of storage.getPlacements(alternate)) {
+    if (placement.row + placement.rows <= viewportTop || placement.row >= viewportTop + rows) {
+      continue;
+    }
+    const image = storage.getImage(placement.imageId);
+    if (!image?.source) continue;
+    visible.push({ placement, image, source: image.source });
+  }
+  return visible;
+}
@@ -56,11 +56,15 @@ export function getGhostty(): Ghostty {
 
 // Main Terminal class
 export { Terminal } from './terminal';
+export { HeadlessTerminal } from './headless';
 
 // xterm.js-compatible interfaces
 export type {
   ITerminalOptions,
+  IHeadlessTerminalOptions,
   ITheme,
+  FontWeight,
+  IFontFallback,
   ITerminalAddon,
   ITerminalCore,
   IDisposable,
@@ -68,16 +72,32 @@ export type {
   IBufferRange,
   IKeyEvent,
   IUnicodeVersionProvider,
+  IUnicodeHandling,
+  IClipboardRequest,
+  ClipboardRequestHandler,
+  IShellCommand,
+  ICommandFinishedEvent,
+  IWorkingDirectory,
+  INotification,
 } from './interfaces';
 
 // Ghostty WASM components (for advanced usage)
-export { Ghostty, GhosttyTerminal, KeyEncoder, CellFlags, KeyEncoderOption } from './ghostty';
+export {
+  Ghostty,
+  GhosttyTerminal,
+  KeyEncoder,
+  CellFlags,
+  KeyEncoderOption,
+  UnderlineStyle,
+} from './ghostty';
+export type { IGhosttyTerminal } from './ghostty';
 export type {
   KeyEvent,
   KeyAction,
   Key,
   Mods,
   GhosttyCell,
+  GhosttyHyperlink,
   RGB,
   Cursor,
   TerminalHandle,
@@ -85,15 +105,26 @@ export type {
 
 // Low-level components (for custom integrations)
 export { CanvasRenderer } from './renderer';
-export type { RendererOptions, FontMetrics, IRenderable } from './renderer';
+export type { RendererOptions, FontMetrics, IRenderable, IRenderer } from './renderer';
 export { InputHandler } from './input-handler';
 export { EventEmitter } from './event-emitter';
 export { SelectionManager } from './selection-manager';
 export type { SelectionCoordinates } from './selection-manager';
+export type { SemanticRegion } from './shell-integration';
+export { startParserWorker } from './parser-worker';
+export type { ParserWorker, ParserWorkerOptions, ParserWorkerPort } from './parser-worker';
 
 // Addons
 export { FitAddon } from './addons/fit';
 export type { ITerminalDimensions } from './addons/fit';
+export { SearchAddon } from './addons/search';
+export type {
+  ISearchDecorationOptions,
+  ISearchOptions,
+  ISearchResultChangeEvent,
+} from './addons/search';
+export { SerializeAddon } from './addons/serialize';
+export type { IHTMLSerializeOptions, ISerializeOptions } from './addons/serialize';
 
 // Link providers
 export { OSC8LinkProvider } from './providers/osc8-link-provider';
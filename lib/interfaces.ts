@@ -3,6 +3,7 @@
  */
 
 import type { Ghostty } from './ghostty';
+import type { ParserWorkerPort } from './parser-worker';
 
 export interface ITerminalOptions {
   cols?: number; // Default: 80
@@ -13,18 +14,100 @@ export interface ITerminalOptions {
   scrollback?: number; // Default: 1000
   fontSize?: number; // Default: 15
   fontFamily?: string; // Default: 'monospace'
+  fontWeight?: FontWeight; // Default: 'normal'
+  fontWeightBold?: FontWeight; // Weight of bold text (default: 'bold')
+  // Families for characters the primary font lacks, tried in the order
+  // symbols, cjk, emoji (default: none, the browser picks a font)
+  fontFallback?: IFontFallback;
+  // Draw runs of symbols such as '=>' or '!=' as one string so ligature fonts
+  // (Fira Code, JetBrains Mono, ...) can join them (default: false)
+  fontLigatures?: boolean;
+  // Draw box drawing, block elements, braille and Powerline separators instead of
+  // taking them from the font, so they fill the cell exactly (default: true)
+  customGlyphs?: boolean;
   allowTransparency?: boolean;
+  // Default: 'canvas'. 'webgl' falls back to canvas without WebGL2; 'offscreen'
+  // draws from the parserWorker (falls back to canvas without one)
+  renderer?: 'canvas' | 'webgl' | 'offscreen';
 
   // Phase 1 additions
   convertEol?: boolean; // Convert \n to \r\n (default: false)
   disableStdin?: boolean; // Disable keyboard input (default: false)
 
+  // Don't fire onNotification while the terminal has focus (default: false)
+  suppressNotificationsWhenFocused?: boolean;
+
+  // Feedback for BEL: flash the canvas, play a tone, both or neither (default: 'none').
+  // onBell fires regardless
+  bellStyle?: 'none' | 'visual' | 'sound' | 'both';
+
+  // Flow control: onWriteBufferHigh fires when this much written data (characters or
+  // bytes) is waiting to be parsed, onWriteBufferLow when it drops back to the low
+  // watermark (defaults: 131072 and 16384)
+  writeBufferHighWatermark?: number;
+  writeBufferLowWatermark?: number;
+
+  // Width of East Asian ambiguous characters such as '±' or '→', 2 for CJK
+  // locales (default: 1). The Unicode version is set with unicode.activeVersion
+  ambiguousWidth?: 1 | 2;
+  // Grapheme clustering (mode 2027): multi-codepoint emoji and scripts such as
+  // Hindi take the cells of one cluster (default: true). Applications can still
+  // toggle it with DECSET/DECRST 2027
+  graphemeClustering?: boolean;
+
   // Scrolling options
   smoothScrollDuration?: number; // Duration in ms for smooth scroll animation (default: 100, 0 = instant)
 
   // Internal: Ghostty WASM instance (optional, for test isolation)
   // If not provided, uses the module-level instance from init()
   ghostty?: Ghostty;
+
+  // Worker running startParserWorker() to parse output off the main thread
+  // (default: parse on the main thread). Buffer reads then reflect the last
+  // update from the worker; write callbacks run once the data has been parsed.
+  parserWorker?: ParserWorkerPort;
+}
+
+/**
+ * Options for HeadlessTerminal (the subset of ITerminalOptions that doesn't
+ * concern rendering or input)
+ */
+export type IHeadlessTerminalOptions = Pick<
+  ITerminalOptions,
+  | 'cols'
+  | 'rows'
+  | 'theme'
+  | 'scrollback'
+  | 'convertEol'
+  | 'ambiguousWidth'
+  | 'graphemeClustering'
+  | 'ghostty'
+>;
+
+export type FontWeight =
+  | 'normal'
+  | 'bold'
+  | '100'
+  | '200'
+  | '300'
+  | '400'
+  | '500'
+  | '600'
+  | '700'
+  | '800'
+  | '900'
+  | number;
+
+/**
+ * Fallback font families by kind of character (each may be a family list)
+ */
+export interface IFontFallback {
+  /** Nerd Font and Powerline symbols, e.g. 'Symbols Nerd Font Mono' */
+  symbols?: string;
+  /** Chinese, Japanese and Korean text, e.g. 'Noto Sans Mono CJK SC' */
+  cjk?: string;
+  /** Emoji, e.g. 'Noto Color Emoji' */
+  emoji?: string;
 }
 
 export interface ITheme {
@@ -70,6 +153,8 @@ export interface ITerminalCore {
   rows: number;
   element?: HTMLElement;
   textarea?: HTMLTextAreaElement;
+  /** Fires when the cell size may have changed (font options or a web font loaded) */
+  onFontChange?: IEvent<void>;
 }
 
 /**
@@ -89,10 +174,94 @@ export interface IKeyEvent {
 }
 
 /**
- * Unicode version provider (xterm.js compatibility)
+ * Clipboard access requested by the application with OSC 52
+ */
+export interface IClipboardRequest {
+  /** 'write' sets the clipboard, 'read' asks for its contents */
+  type: 'read' | 'write';
+  /** Selection targets from the sequence (e.g. 'c' for clipboard, 'p' for primary) */
+  selection: string;
+  /** Text to write (write requests only) */
+  text?: string;
+}
+
+/**
+ * Decides whether a clipboard request is allowed.
+ * May return a promise, e.g. to prompt the user.
+ */
+export type ClipboardRequestHandler = (request: IClipboardRequest) => boolean | Promise<boolean>;
+
+/**
+ * A command marked by shell integration (OSC 133 semantic prompts).
+ * Positions are cells in the normal buffer: `y` is an absolute row
+ * (0 = first scrollback line), like IBufferRange.
+ */
+export interface IShellCommand {
+  /** Start of the prompt (OSC 133;A) */
+  promptStart: { x: number; y: number };
+  /** Start of the command line typed after the prompt (OSC 133;B) */
+  inputStart?: { x: number; y: number };
+  /** Start of the output, once the command runs (OSC 133;C) */
+  outputStart?: { x: number; y: number };
+  /** End of the output, once the command finished (OSC 133;D or the next prompt) */
+  outputEnd?: { x: number; y: number };
+  /** Exit code reported with OSC 133;D, if any */
+  exitCode?: number;
+  /** When the command started and finished running (ms since the epoch) */
+  startTime?: number;
+  endTime?: number;
+}
+
+/**
+ * Fired when a command marked by shell integration finishes
+ */
+export interface ICommandFinishedEvent {
+  command: IShellCommand;
+  /** Exit code reported by the shell, if any */
+  exitCode?: number;
+  /** Time from the command starting to finishing, in ms */
+  duration: number;
+}
+
+/**
+ * Working directory reported by the shell with OSC 7
+ */
+export interface IWorkingDirectory {
+  /** Host name from the URL (empty for `file:///path`) */
+  host: string;
+  /** Decoded absolute path */
+  path: string;
+  /** URL as sent by the shell */
+  uri: string;
+}
+
+/**
+ * Desktop notification requested by the application (OSC 9 or OSC 777)
+ */
+export interface INotification {
+  /** Empty for OSC 9, which has no title */
+  title: string;
+  body: string;
+}
+
+/**
+ * Character widths of a Unicode version (xterm.js compatibility)
  */
 export interface IUnicodeVersionProvider {
-  readonly activeVersion: string;
+  readonly version: string;
+  /** Number of cells the codepoint takes */
+  wcwidth(codepoint: number): 0 | 1 | 2;
+}
+
+/**
+ * Unicode version selection (xterm.js compatibility)
+ */
+export interface IUnicodeHandling {
+  /** Add a version, replacing any provider of the same version */
+  register(provider: IUnicodeVersionProvider): void;
+  readonly versions: ReadonlyArray<string>;
+  /** Throws for versions that aren't registered. Only affects text written afterwards */
+  activeVersion: string;
 }
 
 // ============================================================================
@@ -197,6 +366,12 @@ export interface IBufferCell {
   isItalic(): number;
   /** Whether cell has underline style */
   isUnderline(): number;
+  /** Underline style (see UnderlineStyle; 0 = none) */
+  getUnderlineStyle(): number;
+  /** Underline RGB color (or 0 for default) */
+  getUnderlineColor(): number;
+  /** Whether the underline uses the foreground color (no SGR 58 color set) */
+  isUnderlineColorDefault(): boolean;
   /** Whether cell has strikethrough style */
   isStrikethrough(): number;
   /** Whether cell has blink style */
@@ -0,0 +1,295 @@
+/**
+ * Tests for the kitty graphics protocol
+ *
+ * Commands run against a mock host, so these tests don't require WASM.
+ * Raw pixel images are used because Happy DOM cannot decode PNG data.
+ */
+
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { Ghostty } from './ghostty';
+import { ImageStorage } from './image-storage';
+import { KittyGraphics, type KittyGraphicsHost, parseKittyCommand } from './kitty-graphics';
+import { startParserWorker } from './parser-worker';
+import { createIsolatedTerminal } from './test-helpers';
+
+/** Base64 of width * height opaque red RGBA pixels */
+function rgba(width: number, height: number): string {
+  const bytes: number[] = [];
+  for (let i = 0; i < width * height; i++) bytes.push(255, 0, 0, 255);
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function createHost() {
+  const responses: string[] = [];
+  const moves: { cols: number; rows: number }[] = [];
+  const state = { col: 0, row: 0, screenTop: 0, alternate: false };
+  const host: KittyGraphicsHost = {
+    getCursor: () => ({ col: state.col, row: state.row }),
+    getScreenTop: () => state.screenTop,
+    isAlternateScreen: () => state.alternate,
+    getCellSize: () => ({ width: 10, height: 20 }),
+    moveCursor: (cols, rows) => {
+      moves.push({ cols, rows });
+    },
+    respond: (data) => {
+      responses.push(data);
+    },
+  };
+  return { host, state, responses, moves };
+}
+
+// ============================================================================
+// parseKittyCommand
+// ============================================================================
+
+describe('parseKittyCommand', () => {
+  test('parses control data and payload', () => {
+    expect(parseKittyCommand('Ga=T,f=32,s=1,v=1;AAAA')).toEqual({
+      control: { a: 'T', f: '32', s: '1', v: '1' },
+      payload: 'AAAA',
+    });
+  });
+
+  test('parses commands without payload', () => {
+    expect(parseKittyCommand('Ga=d,d=A')).toEqual({ control: { a: 'd', d: 'A' }, payload: '' });
+  });
+
+  test('ignores APC bodies of other protocols', () => {
+    expect(parseKittyCommand('Xfoo')).toBeNull();
+  });
+});
+
+// ============================================================================
+// KittyGraphics
+// ============================================================================
+
+describe('KittyGraphics', () => {
+  let storage: ImageStorage;
+  let mock: ReturnType<typeof createHost>;
+  let kitty: KittyGraphics;
+
+  beforeEach(() => {
+    storage = new ImageStorage();
+    mock = createHost();
+    kitty = new KittyGraphics(storage, mock.host);
+  });
+
+  test('transmits and places an image at the cursor', () => {
+    mock.state.col = 3;
+    mock.state.row = 5;
+    kitty.handle(`Ga=T,f=32,s=20,v=30,i=7;${rgba(20, 30)}`);
+
+    expect(storage.getImage(7)).toMatchObject({ width: 20, height: 30 });
+    expect(storage.getPlacements(false)).toEqual([
+      expect.objectContaining({
+        imageId: 7,
+        col: 3,
+        row: 5,
+        cols: 2,
+        rows: 2,
+        width: 20,
+        height: 30,
+      }),
+    ]);
+    expect(mock.moves).toEqual([{ cols: 2, rows: 2 }]);
+    expect(mock.responses).toEqual(['\x1b_Gi=7;OK\x1b\\']);
+  });
+
+  test('transmit only stores the image without placing it', () => {
+    kitty.handle(`Ga=t,f=32,s=1,v=1,i=1;${rgba(1, 1)}`);
+
+    expect(storage.imageCount).toBe(1);
+    expect(storage.getPlacements(false)).toHaveLength(0);
+  });
+
+  test('scales to the requested cells and keeps the cursor with C=1', () => {
+    kitty.handle(`Ga=T,f=32,s=4,v=2,c=4,C=1;${rgba(4, 2)}`);
+
+    const [placement] = storage.getPlacements(false);
+    expect(placement).toMatchObject({ cols: 4, rows: 1, width: 40, height: 20 });
+    expect(mock.moves).toHaveLength(0);
+  });
+
+  test('assembles chunked transfers', () => {
+    const payload = rgba(2, 2);
+    kitty.handle(`Ga=T,f=32,s=2,v=2,i=3,m=1;${payload.slice(0, 8)}`);
+    kitty.handle(`Gm=1;${payload.slice(8, 16)}`);
+    expect(storage.imageCount).toBe(0);
+
+    kitty.handle(`Gm=0;${payload.slice(16)}`);
+    expect(storage.getImage(3)).toMatchObject({ width: 2, height: 2 });
+    expect(mock.responses).toEqual(['\x1b_Gi=3;OK\x1b\\']);
+  });
+
+  test('answers queries without storing the image', () => {
+    kitty.handle(`Ga=q,f=32,s=1,v=1,i=31;${rgba(1, 1)}`);
+
+    expect(storage.imageCount).toBe(0);
+    expect(mock.responses).toEqual(['\x1b_Gi=31;OK\x1b\\']);
+  });
+
+  test('reports errors', () => {
+    kitty.handle('Ga=q,f=32,i=31;AAAA');
+    kitty.handle('Ga=p,i=99');
+
+    expect(mock.responses).toEqual([
+      '\x1b_Gi=31;EINVAL:width and height are required for raw pixels\x1b\\',
+      '\x1b_Gi=99;ENOENT:image not found\x1b\\',
+    ]);
+  });
+
+  test('honours quiet mode', () => {
+    kitty.handle(`Ga=T,f=32,s=1,v=1,i=1,q=1;${rgba(1, 1)}`);
+    kitty.handle('Ga=p,i=2,q=1');
+    kitty.handle('Ga=p,i=2,q=2');
+
+    expect(mock.responses).toEqual(['\x1b_Gi=2;ENOENT:image not found\x1b\\']);
+  });
+
+  test('does not respond without an image id or number', () => {
+    kitty.handle(`Ga=T,f=32,s=1,v=1;${rgba(1, 1)}`);
+
+    expect(storage.imageCount).toBe(1);
+    expect(mock.responses).toHaveLength(0);
+  });
+
+  test('reports the assigned id for image numbers', () => {
+    kitty.handle(`Ga=t,f=32,s=1,v=1,I=13;${rgba(1, 1)}`);
+
+    const image = storage.findByNumber(13)!;
+    expect(mock.responses).toEqual([`\x1b_Gi=${image.id},I=13;OK\x1b\\`]);
+  });
+
+  test('places a stored image again with a placement id', () => {
+    kitty.handle(`Ga=t,f=32,s=1,v=1,i=1,q=2;${rgba(1, 1)}`);
+    kitty.handle('Ga=p,i=1,p=1,q=2');
+    mock.state.row = 4;
+    kitty.handle('Ga=p,i=1,p=1,q=2');
+    kitty.handle('Ga=p,i=1,p=2,q=2');
+
+    expect(storage.getPlacements(false).map((p) => [p.placementId, p.row])).toEqual([
+      [1, 4],
+      [2, 4],
+    ]);
+  });
+
+  test('keeps alternate screen placements separate', () => {
+    mock.state.alternate = true;
+    kitty.handle(`Ga=T,f=32,s=1,v=1;${rgba(1, 1)}`);
+
+    expect(storage.getPlacements(true)).toHaveLength(1);
+    expect(storage.getPlacements(false)).toHaveLength(0);
+  });
+
+  describe('delete', () => {
+    beforeEach(() => {
+      kitty.handle(`Ga=T,f=32,s=10,v=20,i=1,q=2;${rgba(10, 20)}`);
+      mock.state.row = 2;
+      kitty.handle(`Ga=T,f=32,s=10,v=20,i=2,z=-1,q=2;${rgba(10, 20)}`);
+    });
+
+    test('deletes placements by image id, keeping the image', () => {
+      kitty.handle('Ga=d,d=i,i=1');
+
+      expect(storage.getPlacements(false).map((p) => p.imageId)).toEqual([2]);
+      expect(storage.getImage(1)).toBeDefined();
+    });
+
+    test('uppercase targets also free the images', () => {
+      kitty.handle('Ga=d,d=I,i=1');
+
+      expect(storage.getImage(1)).toBeUndefined();
+    });
+
+    test('deletes placements intersecting a cell', () => {
+      mock.state.screenTop = 1;
+      kitty.handle('Ga=d,d=p,x=1,y=2');
+
+      expect(storage.getPlacements(false).map((p) => p.imageId)).toEqual([1]);
+    });
+
+    test('deletes placements by z-index', () => {
+      kitty.handle('Ga=d,d=z,z=-1');
+
+      expect(storage.getPlacements(false).map((p) => p.imageId)).toEqual([1]);
+    });
+
+    test('deletes all visible placements', () => {
+      kitty.handle('Ga=d');
+
+      expect(storage.getPlacements(false)).toHaveLength(0);
+      expect(storage.imageCount).toBe(2);
+    });
+
+    test('drops placements whose rows were pruned from the scrollback', () => {
+      storage.prunePlacements(1);
+
+      expect(storage.getPlacements(false).map((p) => p.imageId)).toEqual([2]);
+      expect(storage.getImage(1)).toBeUndefined();
+    });
+  });
+});
+
+// ============================================================================
+// Terminal integration
+// ============================================================================
+
+describe('Terminal kitty graphics', () => {
+  test('answers queries through onData and moves the cursor past placed images', async () => {
+    const term = await createIsolatedTerminal({ cols: 80, rows: 24 });
+    term.open(document.createElement('div'));
+    const responses: string[] = [];
+    term.onData((data) => responses.push(data));
+
+    term.write(`\x1b_Ga=q,f=32,s=1,v=1,i=1;${rgba(1, 1)}\x1b\\`);
+    expect(responses).toEqual(['\x1b_Gi=1;OK\x1b\\']);
+
+    // 1x1 cell image: the cursor ends up after it on the same row
+    term.write(`ab\x1b_Ga=T,f=32,s=1,v=1,q=2;${rgba(1, 1)}\x1b\\c`);
+    expect(term.buffer.active.getLine(0)?.translateToString(true)).toBe('ab c');
+
+    term.dispose();
+  });
+
+  test('anchors placements to rows that survive scrollback pruning', async () => {
+    const term = await createIsolatedTerminal({ cols: 80, rows: 4 });
+    term.open(document.createElement('div'));
+    const storage: ImageStorage = (term as any).imageStorage;
+
+    term.write('\r\n'.repeat(5));
+    term.write(`\x1b_Ga=T,f=32,s=1,v=1,q=2;${rgba(1, 1)}\x1b\\`);
+    expect(storage.getPlacements(false)[0].row).toBe(term.getScrollbackLength() + 3);
+
+    // Clearing the scrollback keeps the rows of the screen, and the anchor
+    term.write('\x1b[3J');
+    expect(term.getScrollbackLength()).toBe(0);
+    expect(storage.getPlacements(false)).toHaveLength(1);
+
+    // Once the image row itself is pruned, the placement goes with it
+    term.write('\r\n'.repeat(4));
+    term.write('\x1b[3J');
+    expect(storage.getPlacements(false)).toHaveLength(0);
+
+    term.dispose();
+  });
+
+  test('anchors placements after the text before them in worker mode', async () => {
+    const channel = new MessageChannel();
+    const worker = startParserWorker({ ghostty: await Ghostty.load() }, channel.port2);
+    const term = await createIsolatedTerminal({ cols: 80, rows: 4, parserWorker: channel.port1 });
+    channel.port1.start();
+    channel.port2.start();
+    term.open(document.createElement('div'));
+    const storage: ImageStorage = (term as any).imageStorage;
+
+    // The placement must wait for the worker to parse the text before it
+    await new Promise<void>((resolve) => {
+      term.write(`${'\r\n'.repeat(6)}ab\x1b_Ga=T,f=32,s=1,v=1,q=2;${rgba(1, 1)}\x1b\\`, resolve);
+    });
+    expect(storage.getPlacements(false)[0]).toMatchObject({ col: 2, row: 6 });
+
+    term.dispose();
+    worker.dispose();
+    channel.port1.close();
+  });
+});
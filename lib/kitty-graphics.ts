@@ -0,0 +1,484 @@
+/**
+ * Kitty Graphics Protocol
+ *
+ * Handles kitty graphics commands (APC `ESC _ G <control>;<payload> ESC \`):
+ * - Transmit (a=t), transmit and display (a=T), display (a=p)
+ * - Delete (a=d) by id, number, cursor, cell, column, row, z-index or range
+ * - Query (a=q) for support detection
+ * - Chunked transfers (m=1) and zlib-compressed raw pixels (o=z)
+ *
+ * Supported formats are raw RGB (f=24), RGBA (f=32) and PNG (f=100), sent
+ * directly (t=d). File and shared-memory transmission is not available in
+ * the browser and is answered with an error.
+ *
+ * @see https://sw.kovidgoyal.net/kitty/graphics-protocol/
+ */
+
+import {
+  type ImagePlacement,
+  type ImageSource,
+  type ImageStorage,
+  type TerminalImage,
+  createImageFromPixels,
+} from './image-storage';
+
+// ============================================================================
+// Command Parsing
+// ============================================================================
+
+export interface KittyCommand {
+  /** Control data key/value pairs (e.g. a=T, f=100, i=1) */
+  control: Record<string, string>;
+  /** Base64 payload */
+  payload: string;
+}
+
+/**
+ * Parse an APC body (starting with 'G') into a command
+ */
+export function parseKittyCommand(body: string): KittyCommand | null {
+  if (!body.startsWith('G')) return null;
+
+  const separator = body.indexOf(';');
+  const controlData = separator === -1 ? body.slice(1) : body.slice(1, separator);
+  const payload = separator === -1 ? '' : body.slice(separator + 1);
+
+  const control: Record<string, string> = {};
+  for (const pair of controlData.split(',')) {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) continue;
+    control[pair.slice(0, eq)] = pair.slice(eq + 1);
+  }
+
+  return { control, payload };
+}
+
+function getNumber(command: KittyCommand, key: string, fallback: number = 0): number {
+  const value = command.control[key];
+  if (value === undefined) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+function getChar(command: KittyCommand, key: string, fallback: string): string {
+  return command.control[key] ?? fallback;
+}
+
+// ============================================================================
+// Image Decoding
+// ============================================================================
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Read width and height from a PNG's IHDR chunk
+ */
+export function readPngSize(bytes: Uint8Array): { width: number; height: number } | null {
+  if (bytes.length < 24) return null;
+  for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+    if (bytes[i] !== PNG_SIGNATURE[i]) return null;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+async function decodePng(bytes: Uint8Array): Promise<ImageSource> {
+  return createImageBitmap(new Blob([bytes as BlobPart], { type: 'image/png' }));
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// ============================================================================
+// KittyGraphics Class
+// ============================================================================
+
+/**
+ * Terminal state needed to execute graphics commands
+ */
+export interface KittyGraphicsHost {
+  /** Cursor position: column and absolute row */
+  getCursor(): { col: number; row: number };
+  /** Absolute row of the top screen line */
+  getScreenTop(): number;
+  isAlternateScreen(): boolean;
+  /** Cell size in CSS pixels */
+  getCellSize(): { width: number; height: number };
+  /** Move the cursor after a placement (may scroll) */
+  moveCursor(cols: number, rows: number): void;
+  /** Send a response to the application */
+  respond(data: string): void;
+}
+
+/** Error thrown while executing a command, reported as `CODE:message` */
+class KittyError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export class KittyGraphics {
+  /** First command of a chunked transfer, with the payload received so far */
+  private chunked: { command: KittyCommand; payload: string[] } | null = null;
+
+  constructor(
+    private readonly storage: ImageStorage,
+    private readonly host: KittyGraphicsHost
+  ) {}
+
+  /**
+   * Handle an APC body (starting with 'G')
+   */
+  handle(body: string): void {
+    const command = parseKittyCommand(body);
+    if (!command) return;
+
+    // Chunked transfer: later chunks only carry m= (and q=)
+    if (this.chunked) {
+      this.chunked.payload.push(command.payload);
+      if (getNumber(command, 'm') === 1) return;
+      const { command: first, payload } = this.chunked;
+      this.chunked = null;
+      this.execute({ control: first.control, payload: payload.join('') });
+      return;
+    }
+    if (getNumber(command, 'm') === 1) {
+      this.chunked = { command, payload: [command.payload] };
+      return;
+    }
+
+    this.execute(command);
+  }
+
+  /**
+   * Drop any partial chunked transfer
+   */
+  reset(): void {
+    this.chunked = null;
+  }
+
+  private execute(command: KittyCommand): void {
+    const action = getChar(command, 'a', 't');
+    try {
+      switch (action) {
+        case 't':
+        case 'T':
+        case 'q': {
+          const image = this.transmit(command, action === 'q');
+          if (action === 'T' && image) {
+            this.place(command, image);
+          }
+          this.respondOk(command);
+          break;
+        }
+        case 'p': {
+          const image = this.findImage(command);
+          if (!image) throw new KittyError('ENOENT', 'image not found');
+          if (image.number) command.control.i = String(image.id);
+          this.place(command, image);
+          this.respondOk(command);
+          break;
+        }
+        case 'd':
+          this.delete(command);
+          break;
+        default:
+          throw new KittyError('EINVAL', `unsupported action ${action}`);
+      }
+    } catch (error) {
+      if (error instanceof KittyError) {
+        this.respondError(command, error);
+      } else {
+        this.respondError(command, new KittyError('EINVAL', String(error)));
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Transmission
+  // ==========================================================================
+
+  /**
+   * Decode and store an image. For queries the image is validated but not stored.
+   */
+  private transmit(command: KittyCommand, query: boolean): TerminalImage | null {
+    const medium = getChar(command, 't', 'd');
+    if (medium !== 'd') {
+      throw new KittyError('EINVAL', 'only direct transmission is supported');
+    }
+
+    const format = getNumber(command, 'f', 32);
+    const compressed = getChar(command, 'o', '') === 'z';
+    let bytes: Uint8Array;
+    try {
+      bytes = decodeBase64(command.payload);
+    } catch {
+      throw new KittyError('EINVAL', 'invalid base64 data');
+    }
+    if (bytes.length === 0) throw new KittyError('ENODATA', 'no image data');
+
+    let width: number;
+    let height: number;
+    let decode: () => Promise<ImageSource> | ImageSource;
+
+    if (format === 24 || format === 32) {
+      width = getNumber(command, 's');
+      height = getNumber(command, 'v');
+      if (width <= 0 || height <= 0) {
+        throw new KittyError('EINVAL', 'width and height are required for raw pixels');
+      }
+      const bytesPerPixel = format / 8;
+      const expected = width * height * bytesPerPixel;
+      if (!compressed && bytes.length < expected) {
+        throw new KittyError('ENODATA', 'insufficient image data');
+      }
+      decode = compressed
+        ? async () => {
+            const pixels = await inflate(bytes);
+            if (pixels.length < expected) throw new Error('insufficient image data');
+            return createImageFromPixels(pixels, width, height, bytesPerPixel);
+          }
+        : () => createImageFromPixels(bytes, width, height, bytesPerPixel);
+    } else if (format === 100) {
+      if (compressed) throw new KittyError('EINVAL', 'compressed PNG is not supported');
+      const size = readPngSize(bytes);
+      if (!size) throw new KittyError('EINVAL', 'invalid PNG data');
+      ({ width, height } = size);
+      decode = () => decodePng(bytes);
+    } else {
+      throw new KittyError('EINVAL', `unsupported format ${format}`);
+    }
+
+    if (query) return null;
+
+    const number = getNumber(command, 'I');
+    const image: TerminalImage = {
+      id: getNumber(command, 'i') || this.storage.allocateId(),
+      number: number || undefined,
+      width,
+      height,
+      source: null,
+      byteLength: width * height * 4,
+    };
+    // Responses for number-only images report the assigned id
+    if (image.number) command.control.i = String(image.id);
+
+    const result = decode();
+    if (result instanceof Promise) {
+      result.then(
+        (source) => {
+          // Ignore results for images that were replaced or deleted meanwhile
+          if (this.storage.getImage(image.id) !== image) return;
+          image.source = source;
+          this.storage.imageUpdated();
+        },
+        (error) => {
+          console.warn(`Failed to decode image ${image.id}:`, error);
+          if (this.storage.getImage(image.id) === image) this.storage.deleteImage(image.id);
+        }
+      );
+    } else {
+      image.source = result;
+    }
+
+    this.storage.addImage(image);
+    return image;
+  }
+
+  private findImage(command: KittyCommand): TerminalImage | undefined {
+    const id = getNumber(command, 'i');
+    if (id) return this.storage.getImage(id);
+    const number = getNumber(command, 'I');
+    if (number) return this.storage.findByNumber(number);
+    return undefined;
+  }
+
+  // ==========================================================================
+  // Placement
+  // ==========================================================================
+
+  private place(command: KittyCommand, image: TerminalImage): void {
+    if (getNumber(command, 'U') === 1) {
+      throw new KittyError('EINVAL', 'unicode placeholders are not supported');
+    }
+
+    const cell = this.host.getCellSize();
+    const cursor = this.host.getCursor();
+
+    // Source rectangle (defaults to the whole image)
+    const sx = Math.min(getNumber(command, 'x'), image.width);
+    const sy = Math.min(getNumber(command, 'y'), image.height);
+    const sw = Math.min(getNumber(command, 'w') || image.width - sx, image.width - sx);
+    const sh = Math.min(getNumber(command, 'h') || image.height - sy, image.height - sy);
+
+    const offsetX = getNumber(command, 'X');
+    const offsetY = getNumber(command, 'Y');
+    const requestedCols = getNumber(command, 'c');
+    const requestedRows = getNumber(command, 'r');
+
+    // Scale to the requested cells, keeping the aspect ratio when only one is given
+    let width = sw;
+    let height = sh;
+    if (requestedCols && requestedRows) {
+      width = requestedCols * cell.width;
+      height = requestedRows * cell.height;
+    } else if (requestedCols) {
+      width = requestedCols * cell.width;
+      height = sw > 0 ? (sh * width) / sw : 0;
+    } else if (requestedRows) {
+      height = requestedRows * cell.height;
+      width = sh > 0 ? (sw * height) / sh : 0;
+    }
+
+    const cols = requestedCols || Math.max(1, Math.ceil((offsetX + width) / cell.width));
+    const rows = requestedRows || Math.max(1, Math.ceil((offsetY + height) / cell.height));
+
+    const placement: ImagePlacement = {
+      imageId: image.id,
+      placementId: getNumber(command, 'p'),
+      col: cursor.col,
+      row: cursor.row,
+      cols,
+      rows,
+      offsetX,
+      offsetY,
+      sx,
+      sy,
+      sw,
+      sh,
+      width,
+      height,
+      z: getNumber(command, 'z'),
+    };
+    this.storage.addPlacement(placement, this.host.isAlternateScreen());
+
+    // Move the cursor after the image unless C=1
+    if (getNumber(command, 'C') !== 1) {
+      this.host.moveCursor(cols, rows);
+    }
+  }
+
+  // ==========================================================================
+  // Deletion
+  // ==========================================================================
+
+  private delete(command: KittyCommand): void {
+    const target = getChar(command, 'd', 'a');
+    // Uppercase variants also free the image data
+    const free = target !== target.toLowerCase();
+    const alternate = this.host.isAlternateScreen();
+    const intersects = (p: ImagePlacement, col: number, row: number) =>
+      col >= p.col && col < p.col + p.cols && row >= p.row && row < p.row + p.rows;
+
+    // Cell coordinates in commands are 1-based screen positions
+    const screenTop = this.host.getScreenTop();
+    const x = getNumber(command, 'x') - 1;
+    const y = getNumber(command, 'y') - 1 + screenTop;
+
+    switch (target.toLowerCase()) {
+      case 'a':
+        this.storage.deletePlacements(() => true, alternate, free);
+        break;
+      case 'i':
+      case 'n': {
+        const image =
+          target.toLowerCase() === 'i'
+            ? this.storage.getImage(getNumber(command, 'i'))
+            : this.storage.findByNumber(getNumber(command, 'I'));
+        if (!image) return;
+        const placementId = getNumber(command, 'p');
+        this.storage.deletePlacements(
+          (p) => p.imageId === image.id && (placementId === 0 || p.placementId === placementId),
+          alternate,
+          free
+        );
+        break;
+      }
+      case 'c': {
+        const cursor = this.host.getCursor();
+        this.storage.deletePlacements(
+          (p) => intersects(p, cursor.col, cursor.row),
+          alternate,
+          free
+        );
+        break;
+      }
+      case 'p':
+        this.storage.deletePlacements((p) => intersects(p, x, y), alternate, free);
+        break;
+      case 'q': {
+        const z = getNumber(command, 'z');
+        this.storage.deletePlacements((p) => intersects(p, x, y) && p.z === z, alternate, free);
+        break;
+      }
+      case 'x':
+        this.storage.deletePlacements((p) => x >= p.col && x < p.col + p.cols, alternate, free);
+        break;
+      case 'y':
+        this.storage.deletePlacements((p) => y >= p.row && y < p.row + p.rows, alternate, free);
+        break;
+      case 'z': {
+        const z = getNumber(command, 'z');
+        this.storage.deletePlacements((p) => p.z === z, alternate, free);
+        break;
+      }
+      case 'r': {
+        const first = getNumber(command, 'x');
+        const last = getNumber(command, 'y');
+        this.storage.deletePlacements(
+          (p) => p.imageId >= first && p.imageId <= last,
+          alternate,
+          free
+        );
+        break;
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Responses
+  // ==========================================================================
+
+  private respondOk(command: KittyCommand): void {
+    if (getNumber(command, 'q') >= 1) return;
+    this.respond(command, 'OK');
+  }
+
+  private respondError(command: KittyCommand, error: KittyError): void {
+    if (getNumber(command, 'q') >= 2) return;
+    this.respond(command, `${error.code}:${error.message}`);
+  }
+
+  /**
+   * Send a response. Commands without an image id or number get no response.
+   */
+  private respond(command: KittyCommand, message: string): void {
+    const imageId = getNumber(command, 'i');
+    const number = getNumber(command, 'I');
+    if (!imageId && !number) return;
+
+    const keys: string[] = [];
+    if (imageId) keys.push(`i=${imageId}`);
+    if (number) keys.push(`I=${number}`);
+    const placementId = getNumber(command, 'p');
+    if (placementId) keys.push(`p=${placementId}`);
+
+    this.host.respond(`\x1b_G${keys.join(',')};${message}\x1b\\`);
+  }
+}
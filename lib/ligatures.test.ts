@@ -0,0 +1,95 @@
+/**
+ * Tests for ligature run detection and run drawing
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { fillTextRun, findLigatureRuns, hasSameTextStyle, isLigatureCandidate } from './ligatures';
+import { CellFlags, type GhosttyCell, createCell } from './types';
+
+function line(text: string): GhosttyCell[] {
+  return Array.from(text, (char) => createCell(char));
+}
+
+describe('isLigatureCandidate', () => {
+  test('accepts ASCII punctuation only', () => {
+    expect(isLigatureCandidate(createCell('='))).toBe(true);
+    expect(isLigatureCandidate(createCell('>'))).toBe(true);
+    expect(isLigatureCandidate(createCell('a'))).toBe(false);
+    expect(isLigatureCandidate(createCell('0'))).toBe(false);
+    expect(isLigatureCandidate(createCell(' '))).toBe(false);
+    expect(isLigatureCandidate(createCell('→'))).toBe(false);
+    expect(isLigatureCandidate(createCell('=', { grapheme_len: 1 }))).toBe(false);
+  });
+});
+
+describe('hasSameTextStyle', () => {
+  test('compares text flags and text color, not decorations', () => {
+    expect(hasSameTextStyle(createCell('='), createCell('>', { flags: CellFlags.UNDERLINE }))).toBe(
+      true
+    );
+    expect(hasSameTextStyle(createCell('='), createCell('>', { flags: CellFlags.BOLD }))).toBe(
+      false
+    );
+    expect(hasSameTextStyle(createCell('='), createCell('>', { fg_r: 255 }))).toBe(false);
+    expect(hasSameTextStyle(createCell('='), createCell('>', { bg_r: 255 }))).toBe(true);
+
+    const inverse = { flags: CellFlags.INVERSE };
+    expect(
+      hasSameTextStyle(createCell('=', inverse), createCell('>', { ...inverse, fg_r: 255 }))
+    ).toBe(true);
+    expect(
+      hasSameTextStyle(createCell('=', inverse), createCell('>', { ...inverse, bg_r: 255 }))
+    ).toBe(false);
+  });
+});
+
+describe('findLigatureRuns', () => {
+  test('finds runs of two or more symbols', () => {
+    expect(findLigatureRuns(line('a => b != c ; d'), () => true)).toEqual([
+      { start: 2, end: 4, text: '=>' },
+      { start: 7, end: 9, text: '!=' },
+    ]);
+    expect(findLigatureRuns(line('x <!-- y'), () => true)).toEqual([
+      { start: 2, end: 6, text: '<!--' },
+    ]);
+  });
+
+  test('breaks runs where the style changes or canJoin refuses', () => {
+    const styled = line('===');
+    styled[2] = createCell('=', { flags: CellFlags.ITALIC });
+    expect(findLigatureRuns(styled, () => true)).toEqual([{ start: 0, end: 2, text: '==' }]);
+
+    expect(findLigatureRuns(line('-->>'), (x) => x !== 2)).toEqual([
+      { start: 0, end: 2, text: '--' },
+      { start: 2, end: 4, text: '>>' },
+    ]);
+    expect(findLigatureRuns(line('=>'), () => false)).toEqual([]);
+  });
+});
+
+describe('fillTextRun', () => {
+  function createContext(textWidth: number) {
+    const calls: string[] = [];
+    const ctx = {
+      measureText: () => ({ width: textWidth }),
+      fillText: (text: string, x: number, y: number) => calls.push(`fillText ${text} ${x} ${y}`),
+      save: () => calls.push('save'),
+      restore: () => calls.push('restore'),
+      translate: (x: number) => calls.push(`translate ${x}`),
+      scale: (x: number) => calls.push(`scale ${x}`),
+    };
+    return { ctx: ctx as unknown as CanvasRenderingContext2D, calls };
+  }
+
+  test('draws text that already fits its cells as is', () => {
+    const { ctx, calls } = createContext(20.2);
+    fillTextRun(ctx, '=>', 10, 12, 20);
+    expect(calls).toEqual(['fillText => 10 12']);
+  });
+
+  test('scales text to span exactly its cells', () => {
+    const { ctx, calls } = createContext(16);
+    fillTextRun(ctx, '=>', 10, 12, 20);
+    expect(calls).toEqual(['save', 'translate 10', 'scale 1.25', 'fillText => 0 12', 'restore']);
+  });
+});
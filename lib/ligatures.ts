@@ -0,0 +1,119 @@
+/**
+ * Ligatures - runs of cells that are shaped as one string
+ *
+ * Renderers normally draw text cell by cell, so ligature fonts (Fira Code,
+ * JetBrains Mono, Cascadia Code) never see `=>`, `!=` or `->` as a sequence.
+ * With the fontLigatures option they draw runs of adjacent cells as one
+ * string instead, stretched or squeezed to span exactly the run's cells so
+ * that the glyphs stay on the grid.
+ *
+ * Like the character joiners of xterm.js, a renderer decides where runs may
+ * join: only between cells of the same text style, and never across the
+ * cursor or a selection boundary. Only ASCII punctuation joins, which is
+ * where coding fonts define their ligatures; joining letters would turn
+ * every word into a run and every run into a glyph to shape and cache.
+ */
+
+import type { GhosttyCell } from './types';
+import { CellFlags } from './types';
+
+/** Flags that change how text is drawn (decorations are drawn per cell) */
+const TEXT_STYLE_FLAGS =
+  CellFlags.BOLD | CellFlags.ITALIC | CellFlags.FAINT | CellFlags.INVERSE | CellFlags.INVISIBLE;
+
+/**
+ * Cells [start, end) of a line drawn as one string
+ */
+export interface LigatureRun {
+  start: number;
+  /** Exclusive */
+  end: number;
+  text: string;
+}
+
+/**
+ * True if the cell holds an ASCII punctuation character that can be part of
+ * a ligature
+ */
+export function isLigatureCandidate(cell: GhosttyCell): boolean {
+  const cp = cell.codepoint;
+  if (cell.width !== 1 || cell.grapheme_len > 0 || cp <= 0x20 || cp >= 0x7f) return false;
+  const isDigit = cp >= 0x30 && cp <= 0x39;
+  const isLetter = (cp >= 0x41 && cp <= 0x5a) || (cp >= 0x61 && cp <= 0x7a);
+  return !isDigit && !isLetter;
+}
+
+/**
+ * True if two cells are drawn with the same font, color and alpha
+ */
+export function hasSameTextStyle(a: GhosttyCell, b: GhosttyCell): boolean {
+  if ((a.flags & TEXT_STYLE_FLAGS) !== (b.flags & TEXT_STYLE_FLAGS)) return false;
+  // Inverse cells draw their text in the background color
+  if (a.flags & CellFlags.INVERSE) {
+    return a.bg_r === b.bg_r && a.bg_g === b.bg_g && a.bg_b === b.bg_b;
+  }
+  return a.fg_r === b.fg_r && a.fg_g === b.fg_g && a.fg_b === b.fg_b;
+}
+
+/**
+ * Find the runs of two or more ligature candidates in a line
+ *
+ * @param canJoin - Whether cell x may join the run of cell x - 1 (called for
+ *   adjacent candidates with the same text style)
+ */
+export function findLigatureRuns(
+  line: GhosttyCell[],
+  canJoin: (x: number) => boolean
+): LigatureRun[] {
+  const runs: LigatureRun[] = [];
+  let x = 0;
+  while (x < line.length) {
+    if (!isLigatureCandidate(line[x])) {
+      x++;
+      continue;
+    }
+
+    let end = x + 1;
+    while (
+      end < line.length &&
+      isLigatureCandidate(line[end]) &&
+      hasSameTextStyle(line[end - 1], line[end]) &&
+      canJoin(end)
+    ) {
+      end++;
+    }
+
+    if (end - x > 1) {
+      let text = '';
+      for (let i = x; i < end; i++) text += String.fromCharCode(line[i].codepoint);
+      runs.push({ start: x, end, text });
+    }
+    x = end;
+  }
+  return runs;
+}
+
+/**
+ * Draw a run's text scaled horizontally to the given width, so that each
+ * glyph (or ligature) lines up with its cells even when the font's advance
+ * differs from the cell width. The context's font and fill style must be set.
+ */
+export function fillTextRun(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  width: number
+): void {
+  const textWidth = ctx.measureText(text).width;
+  if (textWidth <= 0 || Math.abs(textWidth - width) < 0.5) {
+    ctx.fillText(text, x, y);
+    return;
+  }
+
+  ctx.save();
+  ctx.translate(x, 0);
+  ctx.scale(width / textWidth, 1);
+  ctx.fillText(text, 0, y);
+  ctx.restore();
+}
@@ -0,0 +1,275 @@
+/**
+ * Tests for mouse event reporting
+ *
+ * Encoding tests cover every tracking mode and encoding. The MouseHandler
+ * tests use a mock terminal and renderer so they don't require WASM.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import {
+  MouseButton,
+  MouseEncoding,
+  MouseHandler,
+  type MouseReport,
+  MouseTrackingMode,
+  encodeMouseReport,
+} from './mouse-handler';
+
+const at = (col: number, row: number): Pick<MouseReport, 'col' | 'row' | 'x' | 'y'> => ({
+  col,
+  row,
+  x: col * 10 + 3,
+  y: row * 20 + 5,
+});
+
+// ============================================================================
+// encodeMouseReport
+// ============================================================================
+
+describe('encodeMouseReport', () => {
+  test('returns null when tracking is off', () => {
+    const report: MouseReport = { action: 'press', button: MouseButton.LEFT, ...at(0, 0) };
+    expect(encodeMouseReport(report, MouseTrackingMode.NONE, MouseEncoding.SGR)).toBeNull();
+  });
+
+  describe('default encoding', () => {
+    test('encodes press with 1-based coordinates offset by 32', () => {
+      const report: MouseReport = { action: 'press', button: MouseButton.LEFT, ...at(4, 9) };
+      expect(encodeMouseReport(report, MouseTrackingMode.NORMAL, MouseEncoding.DEFAULT)).toBe(
+        '\x1b[M' + String.fromCharCode(32, 32 + 5, 32 + 10)
+      );
+    });
+
+    test('encodes release as button 3', () => {
+      const report: MouseReport = { action: 'release', button: MouseButton.RIGHT, ...at(0, 0) };
+      expect(encodeMouseReport(report, MouseTrackingMode.NORMAL, MouseEncoding.DEFAULT)).toBe(
+        '\x1b[M' + String.fromCharCode(35, 33, 33)
+      );
+    });
+
+    test('drops events beyond the encodable range', () => {
+      const report: MouseReport = { action: 'press', button: MouseButton.LEFT, ...at(200, 0) };
+      expect(encodeMouseReport(report, MouseTrackingMode.NORMAL, MouseEncoding.DEFAULT)).toBeNull();
+    });
+  });
+
+  describe('UTF-8 encoding', () => {
+    test('encodes large coordinates as characters', () => {
+      const report: MouseReport = { action: 'press', button: MouseButton.LEFT, ...at(299, 0) };
+      expect(encodeMouseReport(report, MouseTrackingMode.NORMAL, MouseEncoding.UTF8)).toBe(
+        '\x1b[M' + String.fromCharCode(32, 32 + 300, 33)
+      );
+    });
+  });
+
+  describe('SGR encoding', () => {
+    test('encodes press and release with the real button', () => {
+      const press: MouseReport = { action: 'press', button: MouseButton.MIDDLE, ...at(2, 3) };
+      const release: MouseReport = { action: 'release', button: MouseButton.MIDDLE, ...at(2, 3) };
+      expect(encodeMouseReport(press, MouseTrackingMode.NORMAL, MouseEncoding.SGR)).toBe(
+        '\x1b[<1;3;4M'
+      );
+      expect(encodeMouseReport(release, MouseTrackingMode.NORMAL, MouseEncoding.SGR)).toBe(
+        '\x1b[<1;3;4m'
+      );
+    });
+
+    test('adds modifier bits', () => {
+      const report: MouseReport = {
+        action: 'press',
+        button: MouseButton.LEFT,
+        ...at(0, 0),
+        shift: true,
+        alt: true,
+        ctrl: true,
+      };
+      expect(encodeMouseReport(report, MouseTrackingMode.NORMAL, MouseEncoding.SGR)).toBe(
+        '\x1b[<28;1;1M'
+      );
+    });
+
+    test('encodes wheel events as buttons 64/65', () => {
+      const up: MouseReport = { action: 'press', button: MouseButton.WHEEL_UP, ...at(0, 0) };
+      const down: MouseReport = { action: 'press', button: MouseButton.WHEEL_DOWN, ...at(0, 0) };
+      expect(encodeMouseReport(up, MouseTrackingMode.NORMAL, MouseEncoding.SGR)).toBe(
+        '\x1b[<64;1;1M'
+      );
+      expect(encodeMouseReport(down, MouseTrackingMode.NORMAL, MouseEncoding.SGR)).toBe(
+        '\x1b[<65;1;1M'
+      );
+    });
+  });
+
+  describe('URXVT encoding', () => {
+    test('encodes decimal parameters with button offset by 32', () => {
+      const report: MouseReport = { action: 'press', button: MouseButton.LEFT, ...at(9, 19) };
+      expect(encodeMouseReport(report, MouseTrackingMode.NORMAL, MouseEncoding.URXVT)).toBe(
+        '\x1b[32;10;20M'
+      );
+    });
+  });
+
+  describe('SGR-pixels encoding', () => {
+    test('reports pixel coordinates', () => {
+      const report: MouseReport = { action: 'press', button: MouseButton.LEFT, ...at(2, 1) };
+      expect(encodeMouseReport(report, MouseTrackingMode.NORMAL, MouseEncoding.SGR_PIXELS)).toBe(
+        '\x1b[<0;23;25M'
+      );
+    });
+  });
+
+  describe('tracking modes', () => {
+    const move = (button: MouseButton): MouseReport => ({ action: 'move', button, ...at(1, 1) });
+
+    test('X10 reports presses only, without modifiers', () => {
+      const press: MouseReport = {
+        action: 'press',
+        button: MouseButton.LEFT,
+        ...at(0, 0),
+        ctrl: true,
+      };
+      const release: MouseReport = { action: 'release', button: MouseButton.LEFT, ...at(0, 0) };
+      expect(encodeMouseReport(press, MouseTrackingMode.X10, MouseEncoding.SGR)).toBe(
+        '\x1b[<0;1;1M'
+      );
+      expect(encodeMouseReport(release, MouseTrackingMode.X10, MouseEncoding.SGR)).toBeNull();
+    });
+
+    test('normal mode does not report motion', () => {
+      expect(
+        encodeMouseReport(move(MouseButton.LEFT), MouseTrackingMode.NORMAL, MouseEncoding.SGR)
+      ).toBeNull();
+    });
+
+    test('button-event mode reports drags only', () => {
+      expect(
+        encodeMouseReport(move(MouseButton.LEFT), MouseTrackingMode.BUTTON, MouseEncoding.SGR)
+      ).toBe('\x1b[<32;2;2M');
+      expect(
+        encodeMouseReport(move(MouseButton.NONE), MouseTrackingMode.BUTTON, MouseEncoding.SGR)
+      ).toBeNull();
+    });
+
+    test('any-event mode reports motion without buttons', () => {
+      expect(
+        encodeMouseReport(move(MouseButton.NONE), MouseTrackingMode.ANY, MouseEncoding.SGR)
+      ).toBe('\x1b[<35;2;2M');
+    });
+
+    test('wheel events have no release', () => {
+      const release: MouseReport = { action: 'release', button: MouseButton.WHEEL_UP, ...at(0, 0) };
+      expect(encodeMouseReport(release, MouseTrackingMode.ANY, MouseEncoding.SGR)).toBeNull();
+    });
+  });
+});
+
+// ============================================================================
+// MouseHandler
+// ============================================================================
+
+class MockTerminal {
+  public cols = 80;
+  public rows = 24;
+  public modes = new Set<number>();
+  public sent: string[] = [];
+
+  getMode(mode: number): boolean {
+    return this.modes.has(mode);
+  }
+
+  input(data: string): void {
+    this.sent.push(data);
+  }
+}
+
+describe('MouseHandler', () => {
+  let container: HTMLElement;
+  let canvas: HTMLCanvasElement;
+  let terminal: MockTerminal;
+  let handler: MouseHandler;
+  let selectionSawMouseDown: boolean;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    canvas = document.createElement('canvas');
+    container.appendChild(canvas);
+    document.body.appendChild(container);
+
+    // Stand-in for SelectionManager's canvas listener
+    selectionSawMouseDown = false;
+    canvas.addEventListener('mousedown', () => {
+      selectionSawMouseDown = true;
+    });
+
+    terminal = new MockTerminal();
+    const renderer = { getCanvas: () => canvas, charWidth: 10, charHeight: 20 };
+    handler = new MouseHandler(terminal as any, renderer as any);
+  });
+
+  afterEach(() => {
+    handler.dispose();
+    container.remove();
+  });
+
+  const mouse = (type: string, init: MouseEventInit) =>
+    new MouseEvent(type, { bubbles: true, cancelable: true, ...init });
+
+  test('does nothing when tracking is off', () => {
+    canvas.dispatchEvent(mouse('mousedown', { button: 0, clientX: 15, clientY: 25 }));
+    expect(terminal.sent).toEqual([]);
+    expect(selectionSawMouseDown).toBe(true);
+  });
+
+  test('reports press and release and hides them from selection', () => {
+    terminal.modes.add(MouseTrackingMode.NORMAL);
+    terminal.modes.add(MouseEncoding.SGR);
+
+    canvas.dispatchEvent(mouse('mousedown', { button: 0, clientX: 15, clientY: 25 }));
+    document.dispatchEvent(mouse('mouseup', { button: 0, clientX: 15, clientY: 25 }));
+
+    expect(terminal.sent).toEqual(['\x1b[<0;2;2M', '\x1b[<0;2;2m']);
+    expect(selectionSawMouseDown).toBe(false);
+  });
+
+  test('Shift bypasses reporting', () => {
+    terminal.modes.add(MouseTrackingMode.NORMAL);
+
+    canvas.dispatchEvent(mouse('mousedown', { button: 0, shiftKey: true }));
+
+    expect(terminal.sent).toEqual([]);
+    expect(selectionSawMouseDown).toBe(true);
+  });
+
+  test('reports drags in button-event mode once per cell', () => {
+    terminal.modes.add(MouseTrackingMode.BUTTON);
+    terminal.modes.add(MouseEncoding.SGR);
+
+    canvas.dispatchEvent(mouse('mousedown', { button: 0, clientX: 5, clientY: 5 }));
+    canvas.dispatchEvent(mouse('mousemove', { clientX: 8, clientY: 5 }));
+    canvas.dispatchEvent(mouse('mousemove', { clientX: 25, clientY: 5 }));
+
+    expect(terminal.sent).toEqual(['\x1b[<0;1;1M', '\x1b[<32;3;1M']);
+  });
+
+  test('reports wheel events instead of scrolling', () => {
+    terminal.modes.add(MouseTrackingMode.NORMAL);
+    terminal.modes.add(MouseEncoding.SGR);
+
+    // Plain object: happy-dom's WheelEvent doesn't carry client coordinates
+    const wheel = {
+      deltaX: 0,
+      deltaY: -2,
+      deltaMode: WheelEvent.DOM_DELTA_LINE,
+      clientX: 0,
+      clientY: 0,
+    };
+    const consumed = handler.handleWheel(wheel as WheelEvent);
+
+    expect(consumed).toBe(true);
+    expect(terminal.sent).toEqual(['\x1b[<64;1;1M', '\x1b[<64;1;1M']);
+  });
+
+  test('wheel is not consumed without tracking', () => {
+    expect(handler.handleWheel(new WheelEvent('wheel', { deltaY: 3 }))).toBe(false);
+  });
+});
@@ -0,0 +1,418 @@
+/**
+ * MouseHandler - Reports mouse events to the application running in the terminal
+ *
+ * Handles:
+ * - Tracking modes: X10 (9), normal (1000), button-event (1002), any-event (1003)
+ * - Encodings: default, UTF-8 (1005), SGR (1006), URXVT (1015), SGR-pixels (1016)
+ * - Press, release, drag/motion and wheel events
+ * - Shift bypass so the user can still select text locally while an app
+ *   has mouse tracking enabled
+ *
+ * When no tracking mode is active, events pass through untouched so the
+ * SelectionManager and link detection keep working as usual.
+ */
+
+import type { IRenderer } from './renderer';
+import type { Terminal } from './terminal';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Mouse tracking modes (DEC private mode numbers)
+ * Higher modes report a superset of the events of lower modes.
+ */
+export enum MouseTrackingMode {
+  NONE = 0,
+  X10 = 9, // Button presses only, no modifiers
+  NORMAL = 1000, // Presses and releases
+  BUTTON = 1002, // Plus motion while a button is held
+  ANY = 1003, // Plus all motion
+}
+
+/**
+ * Mouse report encodings (DEC private mode numbers)
+ */
+export enum MouseEncoding {
+  DEFAULT = 0, // CSI M Cb Cx Cy, coordinates as single bytes
+  UTF8 = 1005, // CSI M Cb Cx Cy, coordinates as UTF-8 characters
+  SGR = 1006, // CSI < Cb ; Cx ; Cy M/m
+  URXVT = 1015, // CSI Cb ; Cx ; Cy M
+  SGR_PIXELS = 1016, // Same as SGR with pixel coordinates
+}
+
+/**
+ * Button codes used in mouse reports
+ */
+export enum MouseButton {
+  LEFT = 0,
+  MIDDLE = 1,
+  RIGHT = 2,
+  NONE = 3, // No button (motion without a pressed button, legacy release)
+  WHEEL_UP = 64,
+  WHEEL_DOWN = 65,
+  WHEEL_LEFT = 66,
+  WHEEL_RIGHT = 67,
+}
+
+export type MouseAction = 'press' | 'release' | 'move';
+
+/**
+ * A single mouse event to be reported to the application
+ */
+export interface MouseReport {
+  action: MouseAction;
+  button: MouseButton;
+  col: number; // 0-based cell column
+  row: number; // 0-based cell row
+  x: number; // Pixel offset from the left of the grid (SGR-pixels only)
+  y: number; // Pixel offset from the top of the grid (SGR-pixels only)
+  shift?: boolean;
+  alt?: boolean;
+  ctrl?: boolean;
+}
+
+// Modifier bits added to the button code
+const MOD_SHIFT = 4;
+const MOD_ALT = 8;
+const MOD_CTRL = 16;
+const MOTION = 32;
+
+// Largest coordinate value each legacy encoding can carry. The default
+// encoding is limited to 7-bit values since onData delivers strings that are
+// UTF-8 encoded on the way to the PTY; anything above would be mangled.
+const DEFAULT_MAX_VALUE = 0x7f;
+const UTF8_MAX_VALUE = 0x7ff;
+
+/**
+ * Encode a mouse event for the given tracking mode and encoding.
+ *
+ * @returns The escape sequence to send to the PTY, or null if the event
+ *          should not be reported in this mode (or cannot be encoded)
+ */
+export function encodeMouseReport(
+  report: MouseReport,
+  mode: MouseTrackingMode,
+  encoding: MouseEncoding
+): string | null {
+  if (mode === MouseTrackingMode.NONE) return null;
+
+  const isWheel = report.button >= MouseButton.WHEEL_UP;
+
+  // Filter events the active mode doesn't report
+  switch (report.action) {
+    case 'press':
+      break;
+    case 'release':
+      if (mode === MouseTrackingMode.X10 || isWheel) return null;
+      break;
+    case 'move':
+      if (mode === MouseTrackingMode.X10 || mode === MouseTrackingMode.NORMAL) return null;
+      if (mode === MouseTrackingMode.BUTTON && report.button === MouseButton.NONE) return null;
+      break;
+  }
+
+  const isSgr = encoding === MouseEncoding.SGR || encoding === MouseEncoding.SGR_PIXELS;
+
+  // Legacy encodings can't say which button was released
+  let cb: number = report.button;
+  if (report.action === 'release' && !isSgr) {
+    cb = MouseButton.NONE;
+  }
+  if (report.action === 'move') {
+    cb += MOTION;
+  }
+  if (mode !== MouseTrackingMode.X10) {
+    if (report.shift) cb |= MOD_SHIFT;
+    if (report.alt) cb |= MOD_ALT;
+    if (report.ctrl) cb |= MOD_CTRL;
+  }
+
+  const col = report.col + 1;
+  const row = report.row + 1;
+
+  switch (encoding) {
+    case MouseEncoding.SGR:
+      return `\x1b[<${cb};${col};${row}${report.action === 'release' ? 'm' : 'M'}`;
+
+    case MouseEncoding.SGR_PIXELS:
+      return `\x1b[<${cb};${Math.max(0, Math.floor(report.x))};${Math.max(0, Math.floor(report.y))}${report.action === 'release' ? 'm' : 'M'}`;
+
+    case MouseEncoding.URXVT:
+      return `\x1b[${cb + 32};${col};${row}M`;
+
+    case MouseEncoding.UTF8:
+    case MouseEncoding.DEFAULT: {
+      const max = encoding === MouseEncoding.UTF8 ? UTF8_MAX_VALUE : DEFAULT_MAX_VALUE;
+      const values = [cb + 32, col + 32, row + 32];
+      if (values.some((v) => v > max)) return null;
+      return `\x1b[M${String.fromCharCode(...values)}`;
+    }
+  }
+}
+
+// ============================================================================
+// MouseHandler Class
+// ============================================================================
+
+export class MouseHandler {
+  private terminal: Terminal;
+  private renderer: IRenderer;
+  private textarea?: HTMLTextAreaElement;
+
+  // Button currently held down (reported as pressed), null if none
+  private pressedButton: MouseButton | null = null;
+  // Last reported position, used to suppress duplicate motion reports
+  private lastReported: { col: number; row: number; x: number; y: number } | null = null;
+  // Fractional wheel lines carried over between events (trackpads)
+  private wheelRemainder = { x: 0, y: 0 };
+  private isDisposed = false;
+
+  /**
+   * Create a new MouseHandler
+   * @param terminal - Terminal to query modes from and send reports through
+   * @param renderer - Renderer (for the canvas and cell metrics)
+   * @param textarea - Optional input element to focus when the canvas is clicked
+   */
+  constructor(terminal: Terminal, renderer: IRenderer, textarea?: HTMLTextAreaElement) {
+    this.terminal = terminal;
+    this.renderer = renderer;
+    this.textarea = textarea;
+
+    this.attach();
+  }
+
+  // ==========================================================================
+  // Public API
+  // ==========================================================================
+
+  /**
+   * Get the active tracking mode (the most inclusive one if several are set)
+   */
+  getTrackingMode(): MouseTrackingMode {
+    if (this.getMode(MouseTrackingMode.ANY)) return MouseTrackingMode.ANY;
+    if (this.getMode(MouseTrackingMode.BUTTON)) return MouseTrackingMode.BUTTON;
+    if (this.getMode(MouseTrackingMode.NORMAL)) return MouseTrackingMode.NORMAL;
+    if (this.getMode(MouseTrackingMode.X10)) return MouseTrackingMode.X10;
+    return MouseTrackingMode.NONE;
+  }
+
+  /**
+   * Get the active report encoding
+   */
+  getEncoding(): MouseEncoding {
+    if (this.getMode(MouseEncoding.SGR_PIXELS)) return MouseEncoding.SGR_PIXELS;
+    if (this.getMode(MouseEncoding.SGR)) return MouseEncoding.SGR;
+    if (this.getMode(MouseEncoding.URXVT)) return MouseEncoding.URXVT;
+    if (this.getMode(MouseEncoding.UTF8)) return MouseEncoding.UTF8;
+    return MouseEncoding.DEFAULT;
+  }
+
+  /**
+   * Check if an event should be reported to the application rather than
+   * handled locally. Holding Shift always bypasses reporting.
+   */
+  isReporting(event?: MouseEvent): boolean {
+    if (this.isDisposed) return false;
+    if (event?.shiftKey) return false;
+    return this.getTrackingMode() !== MouseTrackingMode.NONE;
+  }
+
+  /**
+   * Report a wheel event to the application
+   * @returns true if the event was consumed (caller should not scroll)
+   */
+  handleWheel(e: WheelEvent): boolean {
+    if (!this.isReporting(e)) return false;
+
+    const lineHeight = this.renderer.charHeight || 20;
+    const toLines = (delta: number): number => {
+      if (e.deltaMode === WheelEvent.DOM_DELTA_LINE) return delta;
+      if (e.deltaMode === WheelEvent.DOM_DELTA_PAGE) return delta * this.terminal.rows;
+      return delta / lineHeight;
+    };
+
+    this.wheelRemainder.y += toLines(e.deltaY);
+    this.wheelRemainder.x += toLines(e.deltaX);
+
+    const position = this.getPosition(e);
+    const sendSteps = (axis: 'x' | 'y', negative: MouseButton, positive: MouseButton) => {
+      const whole = Math.trunc(this.wheelRemainder[axis]);
+      if (whole === 0) return;
+      this.wheelRemainder[axis] -= whole;
+
+      // Cap at 5 reports per event, matching the alternate screen arrow-key scroll
+      const button = whole < 0 ? negative : positive;
+      const steps = Math.min(Math.abs(whole), 5);
+      for (let i = 0; i < steps; i++) {
+        this.report('press', button, position, e);
+      }
+    };
+    sendSteps('y', MouseButton.WHEEL_UP, MouseButton.WHEEL_DOWN);
+    sendSteps('x', MouseButton.WHEEL_LEFT, MouseButton.WHEEL_RIGHT);
+
+    return true;
+  }
+
+  /**
+   * Dispose and remove event listeners
+   */
+  dispose(): void {
+    if (this.isDisposed) return;
+    this.isDisposed = true;
+
+    const container = this.renderer.getCanvas().parentElement;
+    if (container) {
+      container.removeEventListener('mousedown', this.handleMouseDown, { capture: true });
+      container.removeEventListener('contextmenu', this.handleContextMenu, { capture: true });
+    }
+    document.removeEventListener('mousemove', this.handleMouseMove);
+    document.removeEventListener('mouseup', this.handleMouseUp);
+    this.pressedButton = null;
+    this.lastReported = null;
+  }
+
+  // ==========================================================================
+  // Private Methods
+  // ==========================================================================
+
+  /**
+   * Attach mouse event listeners
+   *
+   * mousedown/contextmenu are captured on the container so that reported
+   * clicks never reach the SelectionManager's canvas listeners. Motion and
+   * release are tracked on the document so drags that leave the canvas still
+   * deliver a release to the application.
+   */
+  private attach(): void {
+    const container = this.renderer.getCanvas().parentElement;
+    if (container) {
+      container.addEventListener('mousedown', this.handleMouseDown, { capture: true });
+      container.addEventListener('contextmenu', this.handleContextMenu, { capture: true });
+    }
+    document.addEventListener('mousemove', this.handleMouseMove);
+    document.addEventListener('mouseup', this.handleMouseUp);
+  }
+
+  private handleMouseDown = (e: MouseEvent): void => {
+    if (e.target !== this.renderer.getCanvas() || !this.isReporting(e)) return;
+
+    const button = this.mapButton(e.button);
+    if (button === null) return;
+
+    // Keep the event away from SelectionManager and the browser
+    e.preventDefault();
+    e.stopPropagation();
+    this.textarea?.focus();
+
+    this.pressedButton = button;
+    this.report('press', button, this.getPosition(e), e);
+  };
+
+  private handleMouseMove = (e: MouseEvent): void => {
+    // Only motion over the canvas is reported, unless a drag started there
+    if (this.pressedButton === null && e.target !== this.renderer.getCanvas()) return;
+    if (!this.isReporting(e)) return;
+
+    const position = this.getPosition(e);
+    const last = this.lastReported;
+    if (last) {
+      const samePixel = last.x === position.x && last.y === position.y;
+      const sameCell = last.col === position.col && last.row === position.row;
+      if (this.getEncoding() === MouseEncoding.SGR_PIXELS ? samePixel : sameCell) return;
+    }
+
+    this.report('move', this.pressedButton ?? MouseButton.NONE, position, e);
+  };
+
+  private handleMouseUp = (e: MouseEvent): void => {
+    if (this.pressedButton === null) return;
+
+    const button = this.pressedButton;
+    this.pressedButton = null;
+
+    // Always deliver the release for a reported press, even if Shift is now held
+    if (this.getTrackingMode() === MouseTrackingMode.NONE) return;
+    this.report('release', button, this.getPosition(e), e);
+  };
+
+  private handleContextMenu = (e: MouseEvent): void => {
+    if (e.target !== this.renderer.getCanvas() || !this.isReporting(e)) return;
+    // Right-clicks belong to the application while it tracks the mouse
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  /**
+   * Encode and send a report through the terminal's onData
+   */
+  private report(
+    action: MouseAction,
+    button: MouseButton,
+    position: { col: number; row: number; x: number; y: number },
+    e: MouseEvent
+  ): void {
+    const sequence = encodeMouseReport(
+      {
+        action,
+        button,
+        ...position,
+        shift: e.shiftKey,
+        alt: e.altKey || e.metaKey,
+        ctrl: e.ctrlKey,
+      },
+      this.getTrackingMode(),
+      this.getEncoding()
+    );
+    this.lastReported = position;
+    if (sequence !== null) {
+      this.terminal.input(sequence, true);
+    }
+  }
+
+  /**
+   * Convert an event's client coordinates to a clamped cell/pixel position
+   */
+  private getPosition(e: MouseEvent): { col: number; row: number; x: number; y: number } {
+    const rect = this.renderer.getCanvas().getBoundingClientRect();
+    const cols = this.terminal.cols;
+    const rows = this.terminal.rows;
+    const charWidth = this.renderer.charWidth || 1;
+    const charHeight = this.renderer.charHeight || 1;
+
+    const x = Math.max(0, Math.min(e.clientX - rect.left, cols * charWidth - 1));
+    const y = Math.max(0, Math.min(e.clientY - rect.top, rows * charHeight - 1));
+
+    return {
+      col: Math.max(0, Math.min(cols - 1, Math.floor(x / charWidth))),
+      row: Math.max(0, Math.min(rows - 1, Math.floor(y / charHeight))),
+      x,
+      y,
+    };
+  }
+
+  /**
+   * Map MouseEvent.button to a report button code
+   */
+  private mapButton(button: number): MouseButton | null {
+    switch (button) {
+      case 0:
+        return MouseButton.LEFT;
+      case 1:
+        return MouseButton.MIDDLE;
+      case 2:
+        return MouseButton.RIGHT;
+      default:
+        return null;
+    }
+  }
+
+  private getMode(mode: number): boolean {
+    try {
+      return this.terminal.getMode(mode, false);
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Tests for OSC 9 and OSC 777 desktop notifications
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { INotification } from './interfaces';
+import { parseNotificationSequence } from './notification';
+import { createIsolatedTerminal } from './test-helpers';
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+describe('parseNotificationSequence', () => {
+  test('parses OSC 9 messages', () => {
+    expect(parseNotificationSequence('9;Build finished; 0 errors')).toEqual({
+      title: '',
+      body: 'Build finished; 0 errors',
+    });
+  });
+
+  test('ignores ConEmu OSC 9 commands', () => {
+    expect(parseNotificationSequence('9;4;1;50')).toBeNull();
+    expect(parseNotificationSequence('9;12')).toBeNull();
+    expect(parseNotificationSequence('9;')).toBeNull();
+  });
+
+  test('parses OSC 777 notify with a title', () => {
+    expect(parseNotificationSequence('777;notify;Build;Done; 0 errors')).toEqual({
+      title: 'Build',
+      body: 'Done; 0 errors',
+    });
+    expect(parseNotificationSequence('777;notify;Build')).toEqual({ title: 'Build', body: '' });
+  });
+
+  test('rejects other OSC 777 commands', () => {
+    expect(parseNotificationSequence('777;preexec')).toBeNull();
+    expect(parseNotificationSequence('777;notify')).toBeNull();
+  });
+});
+
+// ============================================================================
+// Terminal integration
+// ============================================================================
+
+describe('Terminal onNotification', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  test('fires for OSC 9 and OSC 777', async () => {
+    const term = await createIsolatedTerminal();
+    term.open(container);
+    const notifications: INotification[] = [];
+    term.onNotification((notification) => notifications.push(notification));
+
+    term.write('\x1b]9;Tests passed\x07\x1b]777;notify;CI;Deployed\x1b\\');
+
+    expect(notifications).toEqual([
+      { title: '', body: 'Tests passed' },
+      { title: 'CI', body: 'Deployed' },
+    ]);
+    term.dispose();
+  });
+
+  test('can be suppressed while the terminal has focus', async () => {
+    const term = await createIsolatedTerminal({ suppressNotificationsWhenFocused: true });
+    term.open(container);
+    const notifications: INotification[] = [];
+    term.onNotification((notification) => notifications.push(notification));
+
+    term.focus();
+    term.write('\x1b]9;while focused\x07');
+    term.blur();
+    term.write('\x1b]9;while blurred\x07');
+
+    expect(notifications.map((n) => n.body)).toEqual(['while blurred']);
+    term.dispose();
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Desktop notification sequences
+ *
+ * - `OSC 9 ; <body> ST` (iTerm2, ConEmu): notification without a title
+ * - `OSC 777 ; notify ; <title> ; <body> ST` (urxvt, Ghostty)
+ *
+ * ConEmu also uses OSC 9 for other commands (`OSC 9 ; 4 ; ...` progress and
+ * so on); bodies starting with a number and ';' are not notifications.
+ */
+
+import type { INotification } from './interfaces';
+
+/**
+ * Parse the body of an OSC 9 or OSC 777 sequence (starting with '9;' or '777;').
+ * Returns null for other commands and malformed sequences.
+ */
+export function parseNotificationSequence(body: string): INotification | null {
+  const parts = body.split(';');
+
+  if (parts[0] === '9') {
+    const message = parts.slice(1).join(';');
+    if (message === '' || /^\d+(;|$)/.test(message)) return null;
+    return { title: '', body: message };
+  }
+
+  if (parts[0] === '777' && parts[1] === 'notify' && parts.length >= 3) {
+    return { title: parts[2], body: parts.slice(3).join(';') };
+  }
+
+  return null;
+}
@@ -0,0 +1,135 @@
+/**
+ * OSC 8 Link Detection Tests
+ *
+ * Tests for the OSC8LinkProvider using a mock terminal, plus integration
+ * tests that write real OSC 8 sequences through the WASM terminal.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { OSC8LinkProvider } from './providers/osc8-link-provider';
+import { createIsolatedTerminal } from './test-helpers';
+import type { GhosttyHyperlink, ILink } from './types';
+
+/**
+ * Mock terminal: each row is a list of hyperlink ids, with a URI table keyed
+ * by id. Rows before `scrollbackLength` are served from scrollback.
+ */
+function createMockTerminal(
+  rows: number[][],
+  uris: Record<number, GhosttyHyperlink>,
+  scrollbackLength = 0
+) {
+  const lookup = (absRow: number, col: number) => uris[rows[absRow]?.[col] ?? 0] ?? null;
+
+  return {
+    buffer: {
+      active: {
+        length: rows.length,
+        getLine: (y: number) => {
+          const row = rows[y];
+          if (!row) return undefined;
+          return {
+            length: row.length,
+            getCell: (x: number) => ({ getHyperlinkId: () => row[x] ?? 0 }),
+          };
+        },
+      },
+    },
+    wasmTerm: {
+      getScrollbackLength: () => scrollbackLength,
+      getHyperlink: (row: number, col: number) => lookup(row + scrollbackLength, col),
+      getScrollbackHyperlink: (offset: number, col: number) => lookup(offset, col),
+    },
+  };
+}
+
+function getLinks(terminal: ReturnType<typeof createMockTerminal>, y: number) {
+  const provider = new OSC8LinkProvider(terminal as any);
+  return new Promise<ILink[] | undefined>((resolve) => provider.provideLinks(y, resolve));
+}
+
+describe('OSC 8 Link Detection', () => {
+  test('returns the URI for a hyperlinked range', async () => {
+    const terminal = createMockTerminal([[0, 1, 1, 1, 0]], {
+      1: { uri: 'https://example.com' },
+    });
+
+    const links = await getLinks(terminal, 0);
+
+    expect(links?.length).toBe(1);
+    expect(links?.[0].text).toBe('https://example.com');
+    expect(links?.[0].range).toEqual({ start: { x: 1, y: 0 }, end: { x: 3, y: 0 } });
+  });
+
+  test('looks up links in scrollback rows', async () => {
+    const terminal = createMockTerminal(
+      [
+        [2, 2, 0],
+        [0, 0, 0],
+      ],
+      { 2: { uri: 'file:///tmp/log.txt' } },
+      1
+    );
+
+    const links = await getLinks(terminal, 0);
+
+    expect(links?.[0].text).toBe('file:///tmp/log.txt');
+  });
+
+  test('follows links that wrap onto the next row', async () => {
+    const terminal = createMockTerminal(
+      [
+        [0, 3, 3],
+        [3, 3, 0],
+      ],
+      { 3: { uri: 'https://example.com/long' } }
+    );
+
+    const links = await getLinks(terminal, 0);
+
+    expect(links?.[0].range).toEqual({ start: { x: 1, y: 0 }, end: { x: 1, y: 1 } });
+  });
+
+  test('returns undefined when there are no hyperlinks', async () => {
+    const terminal = createMockTerminal([[0, 0, 0]], {});
+    expect(await getLinks(terminal, 0)).toBeUndefined();
+  });
+});
+
+describe('OSC 8 hyperlinks from WASM', () => {
+  test('exposes URI and id for viewport cells', async () => {
+    const term = await createIsolatedTerminal();
+    const container = document.createElement('div');
+    term.open(container);
+
+    term.write('\x1b]8;id=doc;https://example.com/docs\x1b\\docs\x1b]8;;\x1b\\ plain');
+
+    const wasmTerm = term.wasmTerm!;
+    const line = wasmTerm.getLine(0)!;
+    expect(line[0].hyperlink_id).toBeGreaterThan(0);
+    expect(line[3].hyperlink_id).toBe(line[0].hyperlink_id);
+    expect(line[5].hyperlink_id).toBe(0);
+
+    expect(wasmTerm.getHyperlink(0, 0)).toEqual({ uri: 'https://example.com/docs', id: 'doc' });
+    expect(wasmTerm.getHyperlink(0, 5)).toBeNull();
+
+    term.dispose();
+  });
+
+  test('exposes URIs for scrollback cells', async () => {
+    const term = await createIsolatedTerminal({ rows: 5 });
+    const container = document.createElement('div');
+    term.open(container);
+
+    term.write('\x1b]8;;https://example.com/old\x07old\x1b]8;;\x07\r\n');
+    for (let i = 0; i < 10; i++) {
+      term.write(`line ${i}\r\n`);
+    }
+
+    const wasmTerm = term.wasmTerm!;
+    expect(wasmTerm.getScrollbackLength()).toBeGreaterThan(0);
+    expect(wasmTerm.getScrollbackHyperlink(0, 0)).toEqual({ uri: 'https://example.com/old' });
+
+    term.dispose();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for the parser worker and its message protocol
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { Ghostty } from './ghostty';
+import {
+  type TerminalUpdate,
+  allocateCells,
+  packCells,
+  startParserWorker,
+  unpackCells,
+} from './parser-worker';
+import { RemoteTerminal } from './remote-terminal';
+import type { GhosttyCell } from './types';
+
+describe('cell packing', () => {
+  test('round-trips cells through a packed buffer', () => {
+    const cells: GhosttyCell[] = [
+      {
+        codepoint: 0x1f600,
+        fg_r: 1,
+        fg_g: 2,
+        fg_b: 3,
+        bg_r: 4,
+        bg_g: 5,
+        bg_b: 6,
+        flags: 0x81,
+        width: 2,
+        hyperlink_id: 513,
+        grapheme_len: 3,
+        underline_style: 3,
+        ul_r: 255,
+        ul_g: 128,
+        ul_b: 7,
+        has_ul_color: 1,
+      },
+      {
+        codepoint: 0,
+        fg_r: 255,
+        fg_g: 255,
+        fg_b: 255,
+        bg_r: 0,
+        bg_g: 0,
+        bg_b: 0,
+        flags: 0,
+        width: 0,
+        hyperlink_id: 0,
+        grapheme_len: 0,
+        underline_style: 0,
+        ul_r: 0,
+        ul_g: 0,
+        ul_b: 0,
+        has_ul_color: 0,
+      },
+    ];
+    const view = new DataView(allocateCells(2, 2));
+    packCells(cells, view, 0);
+
+    expect(unpackCells(view, 0, 2)).toEqual(cells);
+    expect(unpackCells(view, 1, 1)).toEqual([cells[1]]);
+  });
+});
+
+describe('ParserWorker', () => {
+  test('parses writes for a RemoteTerminal over a message channel', async () => {
+    const ghostty = await Ghostty.load();
+    const channel = new MessageChannel();
+    const worker = startParserWorker({ ghostty }, channel.port2);
+    const term = new RemoteTerminal(channel.port1, 20, 4);
+    channel.port1.start();
+    channel.port2.start();
+
+    term.write('\x1b[?2004hhello\r\nworld\x1b[6n');
+    await new Promise<void>((resolve) => term.whenParsed(resolve));
+
+    expect(term.getLine(0)?.[4].codepoint).toBe('o'.codePointAt(0)!);
+    expect(term.getCursor()).toMatchObject({ x: 5, y: 1 });
+    expect(term.hasBracketedPaste()).toBe(true);
+    expect(term.readResponse()).toBe('\x1b[2;6R');
+
+    term.free();
+    worker.dispose();
+    channel.port1.close();
+  });
+  test('mirrors scrollback rows as they scroll off the screen', async () => {
+    const ghostty = await Ghostty.load();
+    const channel = new MessageChannel();
+    const worker = startParserWorker({ ghostty }, channel.port2);
+    const term = new RemoteTerminal(channel.port1, 20, 2);
+    channel.port1.start();
+    channel.port2.start();
+
+    term.write('one\r\ntwo\r\nthree');
+    await new Promise<void>((resolve) => term.whenParsed(resolve));
+    term.write('\r\nfour');
+    await new Promise<void>((resolve) => term.whenParsed(resolve));
+
+    expect(term.getScrollbackLength()).toBe(2);
+    expect(term.getScrollbackLine(0)?.[0].codepoint).toBe('o'.codePointAt(0)!);
+    expect(term.getScrollbackLine(1)?.[0].codepoint).toBe('t'.codePointAt(0)!);
+
+    term.free();
+    worker.dispose();
+    channel.port1.close();
+  });
+
+  test('sends only new scrollback rows when the screen scrolls', async () => {
+    const ghostty = await Ghostty.load();
+    const channel = new MessageChannel();
+    const worker = startParserWorker({ ghostty }, channel.port2);
+    const term = new RemoteTerminal(channel.port1, 20, 2);
+    const updates: TerminalUpdate[] = [];
+    channel.port1.addEventListener('message', (event) => updates.push(event.data));
+    channel.port1.start();
+    channel.port2.start();
+
+    term.write('one\r\ntwo\r\nthree\r\nfour');
+    await new Promise<void>((resolve) => term.whenParsed(resolve));
+    updates.length = 0;
+    term.write('\r\nfive');
+    await new Promise<void>((resolve) => term.whenParsed(resolve));
+
+    // Scrolling redraws the whole screen, but only the row that scrolled off is sent
+    const update = updates[updates.length - 1];
+    expect(update.scrollbackReset).toBe(false);
+    expect(update.scrollback.map((line) => line.row)).toEqual([2]);
+    expect(update.scrollbackCells.byteLength).toBe(allocateCells(1, 20).byteLength);
+    expect(term.getScrollbackLength()).toBe(3);
+    expect(term.getScrollbackLine(2)?.[0].codepoint).toBe('t'.codePointAt(0)!);
+
+    term.free();
+    worker.dispose();
+    channel.port1.close();
+  });
+});
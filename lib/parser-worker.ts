@@ -0,0 +1,711 @@
+/**
+ * Parser worker - runs Ghostty VT parsing off the main thread
+ *
+ * The worker owns the Ghostty WASM instance and one GhosttyTerminal per
+ * RemoteTerminal. Writes are parsed as they arrive; the resulting render state
+ * (dirty rows, cursor, modes, responses) is sent back in batches, with cells
+ * packed into transferable ArrayBuffers using the WASM cell layout.
+ *
+ * The worker can also draw a terminal to an OffscreenCanvas (see
+ * RemoteRenderer), in which case the per-frame render loop runs here too.
+ *
+ * Usage (in the worker module):
+ * ```typescript
+ * import { startParserWorker } from 'ghostty-web';
+ * startParserWorker();
+ * ```
+ *
+ * and on the main thread:
+ * ```typescript
+ * const worker = new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
+ * const term = new Terminal({ parserWorker: worker });
+ * ```
+ */
+
+import {
+  DirtyState,
+  Ghostty,
+  type GhosttyCell,
+  type GhosttyHyperlink,
+  type GhosttyTerminal,
+  type GhosttyTerminalConfig,
+  type RenderStateColors,
+  type RenderStateCursor,
+} from './ghostty';
+import {
+  CanvasRenderer,
+  type CellHighlight,
+  type IRenderSelection,
+  type LinkRange,
+  type RendererOptions,
+} from './renderer';
+import type { SelectionCoordinates } from './selection-manager';
+
+// ============================================================================
+// Protocol
+// ============================================================================
+
+/**
+ * The messaging side of a Worker (or MessagePort, or the worker's global scope)
+ */
+export interface ParserWorkerPort {
+  postMessage(message: any, transfer?: Transferable[]): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+}
+
+/** DEC private modes mirrored to the main thread (others read as reset) */
+export const MIRRORED_DEC_MODES = [
+  1, 6, 7, 9, 25, 47, 66, 1000, 1002, 1003, 1004, 1005, 1006, 1015, 1016, 1047, 1049, 2004, 2027,
+];
+
+/** ANSI modes mirrored to the main thread */
+export const MIRRORED_ANSI_MODES = [4, 20];
+
+/** Size of a cell in transferred buffers (same layout as GhosttyCell in WASM) */
+const CELL_SIZE = 20;
+
+/**
+ * Per-row data sent alongside the packed cells
+ */
+export interface RowData {
+  /** Viewport row, or absolute row for scrollback rows (rowsPruned + offset) */
+  row: number;
+  wrapped: boolean;
+  /** [col, grapheme] for cells with grapheme_len > 0 */
+  graphemes?: [number, string][];
+  /** [hyperlink_id, hyperlink] for the hyperlinks used in the row */
+  hyperlinks?: [number, GhosttyHyperlink][];
+}
+
+export type ParserWorkerRequest =
+  | { type: 'create'; id: number; cols: number; rows: number; config?: GhosttyTerminalConfig }
+  | { type: 'write'; id: number; seq: number; data: string | Uint8Array }
+  | { type: 'resize'; id: number; cols: number; rows: number }
+  | { type: 'setColors'; id: number; config: GhosttyTerminalConfig }
+  | { type: 'setIconName'; id: number; name: string }
+  | { type: 'setWidths'; id: number; ranges: Uint32Array }
+  | { type: 'setGraphemeClustering'; id: number; enabled: boolean }
+  | { type: 'free'; id: number }
+  | RendererRequest;
+
+/**
+ * Requests for a renderer drawing to an OffscreenCanvas in the worker
+ */
+export type RendererRequest =
+  | {
+      type: 'attachCanvas';
+      renderer: number;
+      terminal: number;
+      canvas: OffscreenCanvas;
+      options: RendererOptions;
+    }
+  | { type: 'setRenderTerminal'; renderer: number; terminal: number }
+  | { type: 'rendererOptions'; renderer: number; options: RendererOptions }
+  | {
+      type: 'view';
+      renderer: number;
+      viewportY: number;
+      scrollbarOpacity: number;
+      forceAll: boolean;
+    }
+  | {
+      type: 'selection';
+      renderer: number;
+      coords: SelectionCoordinates | null;
+      dirtyRows: number[];
+    }
+  | { type: 'hover'; renderer: number; hyperlinkId: number; linkRange: LinkRange | null }
+  | { type: 'highlights'; renderer: number; highlights: CellHighlight[] }
+  | { type: 'clearCanvas'; renderer: number }
+  | { type: 'flashBell'; renderer: number }
+  | { type: 'detachCanvas'; renderer: number };
+
+export interface TerminalUpdate {
+  type: 'update';
+  id: number;
+  /** Sequence number of the last parsed write */
+  seq: number;
+  cols: number;
+  rows: number;
+  cursor: RenderStateCursor;
+  colors: RenderStateColors;
+  alternateScreen: boolean;
+  mouseTracking: boolean;
+  /** Enabled modes out of MIRRORED_DEC_MODES and MIRRORED_ANSI_MODES */
+  decModes: number[];
+  ansiModes: number[];
+  scrollbackLength: number;
+  title: string;
+  iconName: string;
+  bellCount: number;
+  /** Rows removed from the top of the scrollback (see GhosttyTerminal.getRowsPruned) */
+  rowsPruned: number;
+  /** Whether every row must be redrawn (lines then contains every row) */
+  full: boolean;
+  lines: RowData[];
+  cells: ArrayBuffer;
+  /**
+   * Scrollback rows added since the last update, or every scrollback row if
+   * scrollbackReset is set (previously sent rows may have changed)
+   */
+  scrollbackReset: boolean;
+  scrollback: RowData[];
+  scrollbackCells: ArrayBuffer;
+  /**
+   * Rows (scrollback first) and cursor of the normal screen, sent with
+   * scrollback resets while the alternate screen is active. The normal screen
+   * can only change meanwhile by a resize, which resets the scrollback too.
+   */
+  primary?: { lines: RowData[]; cells: ArrayBuffer; cursor: { x: number; y: number } };
+  responses: string[];
+}
+
+export type ParserWorkerResponse = TerminalUpdate | { type: 'error'; id?: number; message: string };
+
+// ============================================================================
+// Cell packing
+// ============================================================================
+
+/**
+ * Write cells into a packed buffer at the given cell index
+ */
+export function packCells(cells: GhosttyCell[], view: DataView, index: number): void {
+  for (let i = 0; i < cells.length; i++) {
+    const cell = cells[i];
+    const offset = (index + i) * CELL_SIZE;
+    view.setUint32(offset, cell.codepoint, true);
+    view.setUint8(offset + 4, cell.fg_r);
+    view.setUint8(offset + 5, cell.fg_g);
+    view.setUint8(offset + 6, cell.fg_b);
+    view.setUint8(offset + 7, cell.bg_r);
+    view.setUint8(offset + 8, cell.bg_g);
+    view.setUint8(offset + 9, cell.bg_b);
+    view.setUint8(offset + 10, cell.flags);
+    view.setUint8(offset + 11, cell.width);
+    view.setUint16(offset + 12, cell.hyperlink_id, true);
+    view.setUint8(offset + 14, cell.grapheme_len);
+    view.setUint8(offset + 15, cell.underline_style);
+    view.setUint8(offset + 16, cell.ul_r);
+    view.setUint8(offset + 17, cell.ul_g);
+    view.setUint8(offset + 18, cell.ul_b);
+    view.setUint8(offset + 19, cell.has_ul_color);
+  }
+}
+
+/**
+ * Read count cells from a packed buffer, starting at the given cell index
+ */
+export function unpackCells(view: DataView, index: number, count: number): GhosttyCell[] {
+  const cells: GhosttyCell[] = new Array(count);
+  for (let i = 0; i < count; i++) {
+    const offset = (index + i) * CELL_SIZE;
+    cells[i] = {
+      codepoint: view.getUint32(offset, true),
+      fg_r: view.getUint8(offset + 4),
+      fg_g: view.getUint8(offset + 5),
+      fg_b: view.getUint8(offset + 6),
+      bg_r: view.getUint8(offset + 7),
+      bg_g: view.getUint8(offset + 8),
+      bg_b: view.getUint8(offset + 9),
+      flags: view.getUint8(offset + 10),
+      width: view.getUint8(offset + 11),
+      hyperlink_id: view.getUint16(offset + 12, true),
+      grapheme_len: view.getUint8(offset + 14),
+      underline_style: view.getUint8(offset + 15),
+      ul_r: view.getUint8(offset + 16),
+      ul_g: view.getUint8(offset + 17),
+      ul_b: view.getUint8(offset + 18),
+      has_ul_color: view.getUint8(offset + 19),
+    };
+  }
+  return cells;
+}
+
+/**
+ * Allocate a packed buffer for the given number of rows
+ */
+export function allocateCells(rowCount: number, cols: number): ArrayBuffer {
+  return new ArrayBuffer(rowCount * cols * CELL_SIZE);
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+interface WorkerTerminal {
+  term: GhosttyTerminal;
+  seq: number;
+  /** Whether the next update must resend everything (resize, color change) */
+  full: boolean;
+  /** Absolute row after the last scrollback row sent to the main thread */
+  scrollbackEnd: number;
+  /** Whether the alternate screen was active in the last update */
+  alternateScreen: boolean;
+}
+
+/**
+ * Selection received from the main thread, in the form renderers read it
+ */
+class MirroredSelection implements IRenderSelection {
+  public coords: SelectionCoordinates | null = null;
+  private dirtyRows = new Set<number>();
+
+  update(coords: SelectionCoordinates | null, dirtyRows: number[]): void {
+    this.coords = coords;
+    for (const row of dirtyRows) this.dirtyRows.add(row);
+  }
+
+  hasSelection(): boolean {
+    return this.coords !== null;
+  }
+
+  getSelectionCoords(): SelectionCoordinates | null {
+    return this.coords;
+  }
+
+  getDirtySelectionRows(): Set<number> {
+    return this.dirtyRows;
+  }
+
+  clearDirtySelectionRows(): void {
+    this.dirtyRows.clear();
+  }
+}
+
+interface WorkerRenderer {
+  renderer: CanvasRenderer;
+  selection: MirroredSelection;
+  terminalId: number;
+  viewportY: number;
+  scrollbarOpacity: number;
+  forceAll: boolean;
+}
+
+export interface ParserWorkerOptions {
+  /** Path to ghostty-vt.wasm (default: resolved like Ghostty.load()) */
+  wasmPath?: string;
+  /** Already loaded Ghostty instance (mainly for tests) */
+  ghostty?: Ghostty;
+}
+
+/**
+ * Serve RemoteTerminals from this worker.
+ *
+ * @param options - Where to load the WASM module from
+ * @param scope - Port to serve (default: the worker's global scope)
+ */
+export function startParserWorker(
+  options: ParserWorkerOptions = {},
+  scope: ParserWorkerPort = globalThis as unknown as ParserWorkerPort
+): ParserWorker {
+  return new ParserWorker(scope, options);
+}
+
+export class ParserWorker {
+  private scope: ParserWorkerPort;
+  private ghostty?: Ghostty;
+  private terminals = new Map<number, WorkerTerminal>();
+  private pendingRequests: ParserWorkerRequest[] | null = [];
+  private pendingUpdates = new Set<number>();
+  private flushTimeout?: ReturnType<typeof setTimeout>;
+  private renderers = new Map<number, WorkerRenderer>();
+  private frameScheduled = false;
+
+  constructor(scope: ParserWorkerPort, options: ParserWorkerOptions = {}) {
+    this.scope = scope;
+    scope.addEventListener('message', this.handleMessage);
+
+    // Requests arriving while WASM loads are queued and replayed in order
+    const ready = options.ghostty
+      ? Promise.resolve(options.ghostty)
+      : Ghostty.load(options.wasmPath);
+    ready.then(
+      (ghostty) => {
+        this.ghostty = ghostty;
+        const requests = this.pendingRequests ?? [];
+        this.pendingRequests = null;
+        for (const request of requests) this.handleRequest(request);
+      },
+      (error) => {
+        this.scope.postMessage({ type: 'error', message: `Failed to load Ghostty WASM: ${error}` });
+      }
+    );
+  }
+
+  /**
+   * Stop serving requests and free all terminals
+   */
+  public dispose(): void {
+    this.scope.removeEventListener('message', this.handleMessage);
+    if (this.flushTimeout !== undefined) clearTimeout(this.flushTimeout);
+    for (const { renderer } of this.renderers.values()) renderer.dispose();
+    this.renderers.clear();
+    for (const { term } of this.terminals.values()) term.free();
+    this.terminals.clear();
+  }
+
+  private handleMessage = (event: MessageEvent): void => {
+    const request = event.data as ParserWorkerRequest;
+    if (this.pendingRequests) {
+      this.pendingRequests.push(request);
+    } else {
+      this.handleRequest(request);
+    }
+  };
+
+  private handleRequest(request: ParserWorkerRequest): void {
+    if ('renderer' in request) {
+      this.handleRendererRequest(request);
+      return;
+    }
+
+    if (request.type === 'create') {
+      const term = this.ghostty!.createTerminal(request.cols, request.rows, request.config);
+      this.terminals.set(request.id, {
+        term,
+        seq: 0,
+        full: true,
+        scrollbackEnd: 0,
+        alternateScreen: false,
+      });
+      this.scheduleUpdate(request.id);
+      return;
+    }
+
+    const terminal = this.terminals.get(request.id);
+    if (!terminal) return;
+
+    switch (request.type) {
+      case 'write':
+        terminal.term.write(request.data);
+        terminal.seq = request.seq;
+        this.scheduleUpdate(request.id);
+        break;
+      case 'resize':
+        terminal.term.resize(request.cols, request.rows);
+        terminal.full = true;
+        this.scheduleUpdate(request.id);
+        break;
+      case 'setColors':
+        terminal.term.setColors(request.config);
+        terminal.full = true;
+        this.scheduleUpdate(request.id);
+        break;
+      case 'setIconName':
+        terminal.term.setIconName(request.name);
+        this.scheduleUpdate(request.id);
+        break;
+      case 'setWidths':
+        terminal.term.setWidths(request.ranges);
+        break;
+      case 'setGraphemeClustering':
+        terminal.term.setGraphemeClustering(request.enabled);
+        this.scheduleUpdate(request.id);
+        break;
+      case 'free':
+        terminal.term.free();
+        this.terminals.delete(request.id);
+        this.pendingUpdates.delete(request.id);
+        break;
+    }
+  }
+
+  /**
+   * Batch updates so that a burst of writes produces a single update
+   */
+  private scheduleUpdate(id: number): void {
+    this.pendingUpdates.add(id);
+    if (this.flushTimeout === undefined) {
+      this.flushTimeout = setTimeout(() => this.flush(), 0);
+    }
+  }
+
+  private flush(): void {
+    this.flushTimeout = undefined;
+    for (const id of this.pendingUpdates) {
+      // Updates for rendered terminals are sent from the render loop
+      if (this.isRendered(id)) continue;
+      const terminal = this.terminals.get(id);
+      if (terminal) this.sendUpdate(id, terminal);
+      this.pendingUpdates.delete(id);
+    }
+  }
+
+  /**
+   * Send the render state to the main thread
+   *
+   * @param markClean - Whether to reset the dirty state afterwards (renderers
+   *   in the worker reset it themselves after drawing)
+   */
+  private sendUpdate(id: number, terminal: WorkerTerminal, markClean: boolean = true): void {
+    const { term } = terminal;
+    const { cols, rows } = term.getDimensions();
+
+    const full = terminal.full || term.update() === DirtyState.FULL;
+    const dirtyRows: number[] = [];
+    for (let y = 0; y < rows; y++) {
+      if (full || term.isRowDirty(y)) dirtyRows.push(y);
+    }
+
+    // Scrollback rows don't change once written, so only rows added since the
+    // last update are sent. A resize (reflow), a color change or a screen
+    // switch may have changed all of them, so then the whole scrollback is resent.
+    const scrollbackLength = term.getScrollbackLength();
+    const rowsPruned = term.getRowsPruned();
+    const alternateScreen = term.isAlternateScreen();
+    const scrollbackReset = terminal.full || alternateScreen !== terminal.alternateScreen;
+    const firstOffset = scrollbackReset ? 0 : Math.max(0, terminal.scrollbackEnd - rowsPruned);
+    const scrollback = this.packScrollback(term, rowsPruned, firstOffset, scrollbackLength);
+    terminal.scrollbackEnd = rowsPruned + scrollbackLength;
+    terminal.alternateScreen = alternateScreen;
+    const primary = scrollbackReset && alternateScreen ? this.packPrimary(term) : undefined;
+
+    const cells = allocateCells(dirtyRows.length, cols);
+    const view = new DataView(cells);
+    const viewport = dirtyRows.length > 0 ? term.getViewport() : [];
+    const rowData = dirtyRows.map((y, i) => {
+      const line = viewport.slice(y * cols, (y + 1) * cols);
+      packCells(line, view, i * cols);
+      return this.describeRow(
+        y,
+        line,
+        term.isRowWrapped(y),
+        (col) => term.getGraphemeString(y, col),
+        (col) => term.getHyperlink(y, col)
+      );
+    });
+
+    const responses: string[] = [];
+    for (let response = term.readResponse(); response !== null; response = term.readResponse()) {
+      responses.push(response);
+    }
+
+    const update: TerminalUpdate = {
+      type: 'update',
+      id,
+      seq: terminal.seq,
+      cols,
+      rows,
+      cursor: term.getCursor(),
+      colors: term.getColors(),
+      alternateScreen,
+      mouseTracking: term.hasMouseTracking(),
+      decModes: MIRRORED_DEC_MODES.filter((mode) => term.getMode(mode, false)),
+      ansiModes: MIRRORED_ANSI_MODES.filter((mode) => term.getMode(mode, true)),
+      scrollbackLength,
+      title: term.getTitle(),
+      iconName: term.getIconName(),
+      bellCount: term.getBellCount(),
+      rowsPruned,
+      full,
+      lines: rowData,
+      cells,
+      scrollbackReset,
+      scrollback: scrollback.lines,
+      scrollbackCells: scrollback.cells,
+      responses,
+    };
+    const transfer = [cells, scrollback.cells];
+    if (primary) {
+      update.primary = primary;
+      transfer.push(primary.cells);
+    }
+
+    if (markClean) term.markClean();
+    terminal.full = false;
+    this.scope.postMessage(update, transfer);
+  }
+
+  /**
+   * Pack the rows of the normal screen (scrollback first) and its cursor
+   */
+  private packPrimary(term: GhosttyTerminal): NonNullable<TerminalUpdate['primary']> {
+    const cols = term.cols;
+    const length = term.getPrimaryLength();
+    const cells = allocateCells(length, cols);
+    const view = new DataView(cells);
+    const lines: RowData[] = [];
+    for (let y = 0; y < length; y++) {
+      const line = term.getPrimaryLine(y) ?? [];
+      packCells(line.slice(0, cols), view, y * cols);
+      lines.push({ row: y, wrapped: term.isPrimaryRowWrapped(y) });
+    }
+    return { lines, cells, cursor: term.getPrimaryCursor() };
+  }
+
+  /**
+   * Pack the scrollback rows [start, end), numbered by absolute row
+   */
+  private packScrollback(
+    term: GhosttyTerminal,
+    rowsPruned: number,
+    start: number,
+    end: number
+  ): { lines: RowData[]; cells: ArrayBuffer } {
+    const cols = term.cols;
+    const cells = allocateCells(Math.max(0, end - start), cols);
+    const view = new DataView(cells);
+    const lines: RowData[] = [];
+    for (let offset = start; offset < end; offset++) {
+      const line = term.getScrollbackLine(offset) ?? [];
+      packCells(line.slice(0, cols), view, lines.length * cols);
+      lines.push(
+        this.describeRow(
+          rowsPruned + offset,
+          line,
+          term.isScrollbackRowWrapped(offset),
+          (col) => term.getScrollbackGraphemeString(offset, col),
+          (col) => term.getScrollbackHyperlink(offset, col)
+        )
+      );
+    }
+    return { lines, cells };
+  }
+
+  /**
+   * Collect the row's wrap flag, graphemes and hyperlinks
+   */
+  private describeRow(
+    row: number,
+    line: GhosttyCell[],
+    wrapped: boolean,
+    getGrapheme: (col: number) => string,
+    getHyperlink: (col: number) => GhosttyHyperlink | null
+  ): RowData {
+    const graphemes: [number, string][] = [];
+    const hyperlinks: [number, GhosttyHyperlink][] = [];
+    const seenLinks = new Set<number>();
+    for (let col = 0; col < line.length; col++) {
+      const cell = line[col];
+      if (cell.grapheme_len > 0) {
+        graphemes.push([col, getGrapheme(col)]);
+      }
+      if (cell.hyperlink_id > 0 && !seenLinks.has(cell.hyperlink_id)) {
+        seenLinks.add(cell.hyperlink_id);
+        const link = getHyperlink(col);
+        if (link) hyperlinks.push([cell.hyperlink_id, link]);
+      }
+    }
+
+    const data: RowData = { row, wrapped };
+    if (graphemes.length > 0) data.graphemes = graphemes;
+    if (hyperlinks.length > 0) data.hyperlinks = hyperlinks;
+    return data;
+  }
+
+  // ==========================================================================
+  // Offscreen rendering
+  // ==========================================================================
+
+  private handleRendererRequest(request: RendererRequest): void {
+    if (request.type === 'attachCanvas') {
+      const renderer = new CanvasRenderer(request.canvas, request.options);
+      this.renderers.set(request.renderer, {
+        renderer,
+        selection: new MirroredSelection(),
+        terminalId: request.terminal,
+        viewportY: 0,
+        scrollbarOpacity: 0,
+        forceAll: true,
+      });
+      renderer.setSelectionManager(this.renderers.get(request.renderer)!.selection);
+      this.scheduleFrame();
+      return;
+    }
+
+    const entry = this.renderers.get(request.renderer);
+    if (!entry) return;
+    const { renderer } = entry;
+
+    switch (request.type) {
+      case 'setRenderTerminal':
+        entry.terminalId = request.terminal;
+        entry.forceAll = true;
+        break;
+      case 'rendererOptions': {
+        const { options } = request;
+        if (options.theme) renderer.setTheme(options.theme);
+        if (options.fontSize !== undefined) renderer.setFontSize(options.fontSize);
+        if (options.fontFamily !== undefined) renderer.setFontFamily(options.fontFamily);
+        if (options.fontWeight !== undefined && options.fontWeightBold !== undefined) {
+          renderer.setFontWeight(options.fontWeight, options.fontWeightBold);
+        }
+        if (options.cursorStyle) renderer.setCursorStyle(options.cursorStyle);
+        if (options.cursorBlink !== undefined) renderer.setCursorBlink(options.cursorBlink);
+        if (options.fontLigatures !== undefined) renderer.setFontLigatures(options.fontLigatures);
+        if (options.customGlyphs !== undefined) renderer.setCustomGlyphs(options.customGlyphs);
+        if (options.devicePixelRatio) renderer.setDevicePixelRatio(options.devicePixelRatio);
+        entry.forceAll = true;
+        break;
+      }
+      case 'view':
+        entry.viewportY = request.viewportY;
+        entry.scrollbarOpacity = request.scrollbarOpacity;
+        entry.forceAll ||= request.forceAll;
+        break;
+      case 'selection':
+        entry.selection.update(request.coords, request.dirtyRows);
+        break;
+      case 'hover':
+        renderer.setHoveredHyperlinkId(request.hyperlinkId);
+        renderer.setHoveredLinkRange(request.linkRange);
+        break;
+      case 'highlights':
+        renderer.setHighlights(request.highlights);
+        break;
+      case 'clearCanvas':
+        renderer.clear();
+        break;
+      case 'flashBell':
+        renderer.flashBell();
+        break;
+      case 'detachCanvas':
+        renderer.dispose();
+        this.renderers.delete(request.renderer);
+        break;
+    }
+  }
+
+  private isRendered(terminalId: number): boolean {
+    for (const entry of this.renderers.values()) {
+      if (entry.terminalId === terminalId) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Keep the render loop running while any renderer is attached
+   */
+  private scheduleFrame(): void {
+    if (this.frameScheduled || this.renderers.size === 0) return;
+    this.frameScheduled = true;
+
+    const frame = () => {
+      this.frameScheduled = false;
+      this.renderFrame();
+      this.scheduleFrame();
+    };
+    if (typeof requestAnimationFrame === 'function') {
+      requestAnimationFrame(frame);
+    } else {
+      setTimeout(frame, 16);
+    }
+  }
+
+  private renderFrame(): void {
+    for (const entry of this.renderers.values()) {
+      const terminal = this.terminals.get(entry.terminalId);
+      if (!terminal) continue;
+
+      // Send the update first: it is built from the dirty state that rendering resets
+      if (this.pendingUpdates.delete(entry.terminalId)) {
+        this.sendUpdate(entry.terminalId, terminal, false);
+      }
+
+      const { term } = terminal;
+      entry.renderer.render(term, entry.forceAll, entry.viewportY, term, entry.scrollbarOpacity);
+      entry.forceAll = false;
+    }
+  }
+}
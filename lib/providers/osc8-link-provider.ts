@@ -7,10 +7,11 @@
  * OSC 8 format: \x1b]8;;URL\x07TEXT\x1b]8;;\x07
  *
  * The Ghostty WASM automatically assigns hyperlink_id to cells,
- * so we just need to scan for contiguous regions with the same ID.
+ * so we just need to scan for contiguous regions with the same ID,
+ * then look the URI up from the cell's position.
  */
 
-import type { IBufferRange, ILink, ILinkProvider } from '../types';
+import type { GhosttyHyperlink, IBufferRange, ILink, ILinkProvider } from '../types';
 
 /**
  * OSC 8 Hyperlink Provider
@@ -54,10 +55,9 @@ export class OSC8LinkProvider implements ILinkProvider {
       const range = this.findLinkRange(hyperlinkId, y, x);
 
       // Get the URI from WASM
-      if (!this.terminal.wasmTerm) continue;
-      const uri = this.terminal.wasmTerm.getHyperlinkUri(hyperlinkId);
-
-      if (uri) {
+      const hyperlink = this.getHyperlinkAt(x, y);
+      if (hyperlink) {
+        const uri = hyperlink.uri;
         links.push({
           text: uri,
           range,
@@ -74,6 +74,21 @@ export class OSC8LinkProvider implements ILinkProvider {
     callback(links.length > 0 ? links : undefined);
   }
 
+  /**
+   * Look up the hyperlink for a cell by absolute buffer position
+   * (scrollback rows first, then the active screen)
+   */
+  private getHyperlinkAt(x: number, y: number): GhosttyHyperlink | null {
+    const wasmTerm = this.terminal.wasmTerm;
+    if (!wasmTerm) return null;
+
+    const scrollbackLength = wasmTerm.getScrollbackLength();
+    if (y < scrollbackLength) {
+      return wasmTerm.getScrollbackHyperlink(y, x);
+    }
+    return wasmTerm.getHyperlink(y - scrollbackLength, x);
+  }
+
   /**
    * Find the full extent of a link by scanning for contiguous cells
    * with the same hyperlink_id. Handles multi-line links.
@@ -211,6 +226,8 @@ export interface ITerminalForOSC8Provider {
     };
   };
   wasmTerm?: {
-    getHyperlinkUri(id: number): string | null;
+    getScrollbackLength(): number;
+    getHyperlink(row: number, col: number): GhosttyHyperlink | null;
+    getScrollbackHyperlink(offset: number, col: number): GhosttyHyperlink | null;
   };
 }
@@ -0,0 +1,220 @@
+/**
+ * Tests for RemoteRenderer
+ *
+ * Messages to the worker are recorded, so these tests don't require WASM or
+ * a real OffscreenCanvas.
+ */
+
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { ImageStorage } from './image-storage';
+import { RemoteRenderer } from './remote-renderer';
+import type { IRenderSelection, IRenderable } from './renderer';
+import type { SelectionCoordinates } from './selection-manager';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+class MockPort {
+  public sent: any[] = [];
+  public transfers: (Transferable[] | undefined)[] = [];
+
+  postMessage(message: any, transfer?: Transferable[]): void {
+    this.sent.push(message);
+    this.transfers.push(transfer);
+  }
+
+  addEventListener(): void {}
+  removeEventListener(): void {}
+}
+
+class MockSelection implements IRenderSelection {
+  public coords: SelectionCoordinates | null = null;
+  public dirtyRows = new Set<number>();
+
+  hasSelection(): boolean {
+    return this.coords !== null;
+  }
+
+  getSelectionCoords(): SelectionCoordinates | null {
+    return this.coords;
+  }
+
+  getDirtySelectionRows(): Set<number> {
+    return this.dirtyRows;
+  }
+
+  clearDirtySelectionRows(): void {
+    this.dirtyRows.clear();
+  }
+}
+
+function createBuffer(): IRenderable & { cleared: number } {
+  return {
+    cleared: 0,
+    getLine: () => null,
+    getCursor: () => ({ x: 0, y: 0, visible: true }),
+    getDimensions: () => ({ cols: 80, rows: 24 }),
+    isRowDirty: () => false,
+    needsFullRedraw: () => false,
+    clearDirty() {
+      this.cleared++;
+    },
+  };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('RemoteRenderer', () => {
+  let port: MockPort;
+  let canvas: HTMLCanvasElement;
+  let offscreen: object;
+  let renderer: RemoteRenderer;
+  let id: number;
+  const originalRatio = window.devicePixelRatio;
+
+  afterEach(() => {
+    window.devicePixelRatio = originalRatio;
+  });
+
+  beforeEach(() => {
+    port = new MockPort();
+    canvas = document.createElement('canvas');
+    offscreen = {};
+    canvas.transferControlToOffscreen = () => offscreen as OffscreenCanvas;
+    renderer = new RemoteRenderer(port, 7, canvas, { fontSize: 14, devicePixelRatio: 2 });
+    id = port.sent[0].renderer;
+  });
+
+  test('transfers the canvas to the worker', () => {
+    expect(port.sent[0]).toMatchObject({
+      type: 'attachCanvas',
+      terminal: 7,
+      canvas: offscreen,
+      options: { fontSize: 14, devicePixelRatio: 2 },
+    });
+    expect(port.transfers[0]).toEqual([offscreen]);
+    expect(renderer.getCanvas()).toBe(canvas);
+  });
+
+  test('sizes the canvas element from local font metrics', () => {
+    renderer.resize(10, 5);
+
+    expect(canvas.style.width).toBe(`${10 * renderer.charWidth}px`);
+    expect(canvas.style.height).toBe(`${5 * renderer.charHeight}px`);
+  });
+
+  test('posts view state only when it changes', () => {
+    window.devicePixelRatio = 2;
+    const buffer = createBuffer();
+    port.sent = [];
+
+    renderer.render(buffer, false, 0, undefined, 1);
+    renderer.render(buffer, false, 0, undefined, 1);
+    renderer.render(buffer, false, 3, undefined, 1);
+    renderer.render(buffer, true, 3, undefined, 1);
+
+    expect(port.sent).toEqual([
+      { type: 'view', renderer: id, viewportY: 0, scrollbarOpacity: 1, forceAll: false },
+      { type: 'view', renderer: id, viewportY: 3, scrollbarOpacity: 1, forceAll: false },
+      { type: 'view', renderer: id, viewportY: 3, scrollbarOpacity: 1, forceAll: true },
+    ]);
+    expect(buffer.cleared).toBe(4);
+  });
+
+  test('forwards device pixel ratio changes', () => {
+    window.devicePixelRatio = 3;
+    port.sent = [];
+
+    renderer.render(createBuffer(), false, 0, undefined, 0);
+
+    expect(port.sent[0]).toEqual({
+      type: 'rendererOptions',
+      renderer: id,
+      options: { devicePixelRatio: 3 },
+    });
+  });
+
+  test('forwards selection changes and clears dirty rows', () => {
+    window.devicePixelRatio = 2;
+    const selection = new MockSelection();
+    renderer.setSelectionManager(selection);
+    renderer.render(createBuffer());
+    port.sent = [];
+
+    selection.coords = { startCol: 1, startRow: 0, endCol: 4, endRow: 2 };
+    selection.dirtyRows = new Set([0, 1, 2]);
+    renderer.render(createBuffer());
+    renderer.render(createBuffer());
+
+    expect(port.sent).toEqual([
+      {
+        type: 'selection',
+        renderer: id,
+        coords: { startCol: 1, startRow: 0, endCol: 4, endRow: 2 },
+        dirtyRows: [0, 1, 2],
+      },
+    ]);
+    expect(selection.dirtyRows.size).toBe(0);
+  });
+
+  test('posts option, hover and terminal changes', () => {
+    port.sent = [];
+
+    renderer.setCursorStyle('bar');
+    renderer.setFontLigatures(true);
+    renderer.setHoveredHyperlinkId(5);
+    renderer.setHoveredLinkRange({ startX: 0, startY: 1, endX: 3, endY: 1 });
+    renderer.setTerminal(8);
+    renderer.dispose();
+
+    expect(port.sent).toEqual([
+      { type: 'rendererOptions', renderer: id, options: { cursorStyle: 'bar' } },
+      { type: 'rendererOptions', renderer: id, options: { fontLigatures: true } },
+      { type: 'hover', renderer: id, hyperlinkId: 5, linkRange: null },
+      {
+        type: 'hover',
+        renderer: id,
+        hyperlinkId: 5,
+        linkRange: { startX: 0, startY: 1, endX: 3, endY: 1 },
+      },
+      { type: 'setRenderTerminal', renderer: id, terminal: 8 },
+      { type: 'detachCanvas', renderer: id },
+    ]);
+  });
+
+  test('warns once when an image is placed', () => {
+    const warn = spyOn(console, 'warn').mockImplementation(() => {});
+    const storage = new ImageStorage();
+    renderer.setImageStorage(storage);
+    renderer.render(createBuffer());
+    expect(warn).not.toHaveBeenCalled();
+
+    const placement = {
+      imageId: 1,
+      placementId: 0,
+      col: 0,
+      row: 0,
+      cols: 1,
+      rows: 1,
+      offsetX: 0,
+      offsetY: 0,
+      sx: 0,
+      sy: 0,
+      sw: 1,
+      sh: 1,
+      width: 10,
+      height: 20,
+      z: 0,
+    };
+    storage.addPlacement(placement, false);
+    renderer.render(createBuffer());
+    storage.addPlacement({ ...placement, col: 1 }, true);
+    renderer.render(createBuffer());
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * RemoteRenderer - draws a terminal from the parser worker
+ *
+ * Transfers control of a canvas to the worker running startParserWorker(),
+ * which draws the RemoteTerminal's worker-side terminal with a CanvasRenderer
+ * in its own frame loop. The main thread only forwards view state (scroll
+ * position, selection, hover, theme, device pixel ratio) when it changes, so
+ * a busy main thread doesn't delay frames.
+ *
+ * Limitations compared to CanvasRenderer:
+ * - Inline images (kitty graphics, sixel) are not drawn (a warning is logged
+ *   when the first one is placed)
+ * - Frames show the worker's latest state, which can be ahead of the
+ *   main-thread mirror that selection and links are computed from
+ */
+
+import type { ImageStorage } from './image-storage';
+import type { FontWeight, ITheme } from './interfaces';
+import type { ParserWorkerPort, RendererRequest } from './parser-worker';
+import {
+  type CellHighlight,
+  type FontMetrics,
+  type IRenderSelection,
+  type IRenderable,
+  type IRenderer,
+  type IScrollbackProvider,
+  type LinkRange,
+  type RendererOptions,
+  measureFont,
+} from './renderer';
+import type { SelectionCoordinates } from './selection-manager';
+
+let nextRendererId = 1;
+
+function sameCoords(a: SelectionCoordinates | null, b: SelectionCoordinates | null): boolean {
+  if (a === null || b === null) return a === b;
+  return (
+    a.startCol === b.startCol &&
+    a.startRow === b.startRow &&
+    a.endCol === b.endCol &&
+    a.endRow === b.endRow
+  );
+}
+
+export class RemoteRenderer implements IRenderer {
+  private readonly id = nextRendererId++;
+  private port: ParserWorkerPort;
+  private canvas: HTMLCanvasElement;
+  private fontSize: number;
+  private fontFamily: string;
+  private fontWeight: FontWeight;
+  private metrics: FontMetrics;
+  private devicePixelRatio: number;
+
+  // View state last sent to the worker
+  private viewportY = 0;
+  private scrollbarOpacity = 0;
+  private selectionManager?: IRenderSelection;
+  private selectionCoords: SelectionCoordinates | null = null;
+  private hoveredHyperlinkId = 0;
+
+  // Images aren't drawn: the storage is only checked to warn about them once
+  private imageStorage?: ImageStorage;
+  private imageVersion = -1;
+  private warnedAboutImages = false;
+
+  /**
+   * @param port - Worker running startParserWorker()
+   * @param terminalId - Id of the RemoteTerminal to draw
+   * @param canvas - Canvas to transfer to the worker (it can't have a context yet)
+   */
+  constructor(
+    port: ParserWorkerPort,
+    terminalId: number,
+    canvas: HTMLCanvasElement,
+    options: RendererOptions = {}
+  ) {
+    this.port = port;
+    this.canvas = canvas;
+    this.fontSize = options.fontSize ?? 15;
+    this.fontFamily = options.fontFamily ?? 'monospace';
+    this.fontWeight = options.fontWeight ?? 'normal';
+    this.devicePixelRatio = options.devicePixelRatio ?? window.devicePixelRatio ?? 1;
+    this.metrics = measureFont(this.fontSize, this.fontFamily, this.fontWeight);
+
+    const offscreen = canvas.transferControlToOffscreen();
+    this.post(
+      {
+        type: 'attachCanvas',
+        renderer: this.id,
+        terminal: terminalId,
+        canvas: offscreen,
+        options: { ...options, devicePixelRatio: this.devicePixelRatio },
+      },
+      [offscreen]
+    );
+  }
+
+  get charWidth(): number {
+    return this.metrics.width;
+  }
+
+  get charHeight(): number {
+    return this.metrics.height;
+  }
+
+  /**
+   * Send view state that changed since the last frame; the worker draws on
+   * its own schedule.
+   */
+  render(
+    buffer: IRenderable,
+    forceAll: boolean = false,
+    viewportY: number = 0,
+    _scrollbackProvider?: IScrollbackProvider,
+    scrollbarOpacity: number = 1
+  ): void {
+    // Follow moves between displays with a different pixel density
+    if (window.devicePixelRatio !== this.devicePixelRatio) {
+      this.devicePixelRatio = window.devicePixelRatio;
+      this.setOptions({ devicePixelRatio: this.devicePixelRatio });
+    }
+
+    if (this.selectionManager) {
+      const coords = this.selectionManager.getSelectionCoords();
+      const dirtyRows = this.selectionManager.getDirtySelectionRows();
+      if (dirtyRows.size > 0 || !sameCoords(coords, this.selectionCoords)) {
+        this.selectionCoords = coords;
+        this.post({ type: 'selection', renderer: this.id, coords, dirtyRows: [...dirtyRows] });
+      }
+      this.selectionManager.clearDirtySelectionRows();
+    }
+
+    if (forceAll || viewportY !== this.viewportY || scrollbarOpacity !== this.scrollbarOpacity) {
+      this.viewportY = viewportY;
+      this.scrollbarOpacity = scrollbarOpacity;
+      this.post({ type: 'view', renderer: this.id, viewportY, scrollbarOpacity, forceAll });
+    }
+
+    this.checkForImages();
+
+    // The worker's renderer tracks dirty rows itself
+    buffer.clearDirty();
+  }
+
+  /**
+   * Resize the canvas element; the worker sizes the drawing buffer
+   */
+  resize(cols: number, rows: number): void {
+    this.canvas.style.width = `${cols * this.metrics.width}px`;
+    this.canvas.style.height = `${rows * this.metrics.height}px`;
+  }
+
+  clear(): void {
+    this.post({ type: 'clearCanvas', renderer: this.id });
+  }
+
+  flashBell(): void {
+    this.post({ type: 'flashBell', renderer: this.id });
+  }
+
+  remeasureFont(): void {
+    this.metrics = measureFont(this.fontSize, this.fontFamily, this.fontWeight);
+  }
+
+  getMetrics(): FontMetrics {
+    return { ...this.metrics };
+  }
+
+  getCanvas(): HTMLCanvasElement {
+    return this.canvas;
+  }
+
+  setTheme(theme: ITheme): void {
+    this.setOptions({ theme });
+  }
+
+  setFontSize(size: number): void {
+    this.fontSize = size;
+    this.remeasureFont();
+    this.setOptions({ fontSize: size });
+  }
+
+  setFontFamily(family: string): void {
+    this.fontFamily = family;
+    this.remeasureFont();
+    this.setOptions({ fontFamily: family });
+  }
+
+  setFontWeight(weight: FontWeight, boldWeight: FontWeight): void {
+    this.fontWeight = weight;
+    this.remeasureFont();
+    this.setOptions({ fontWeight: weight, fontWeightBold: boldWeight });
+  }
+
+  setCursorStyle(style: 'block' | 'underline' | 'bar'): void {
+    this.setOptions({ cursorStyle: style });
+  }
+
+  setCursorBlink(enabled: boolean): void {
+    this.setOptions({ cursorBlink: enabled });
+  }
+
+  setFontLigatures(enabled: boolean): void {
+    this.setOptions({ fontLigatures: enabled });
+  }
+
+  setCustomGlyphs(enabled: boolean): void {
+    this.setOptions({ customGlyphs: enabled });
+  }
+
+  setSelectionManager(manager: IRenderSelection): void {
+    this.selectionManager = manager;
+  }
+
+  setHoveredHyperlinkId(hyperlinkId: number): void {
+    this.hoveredHyperlinkId = hyperlinkId;
+    this.post({ type: 'hover', renderer: this.id, hyperlinkId, linkRange: null });
+  }
+
+  setHoveredLinkRange(range: LinkRange | null): void {
+    this.post({
+      type: 'hover',
+      renderer: this.id,
+      hyperlinkId: this.hoveredHyperlinkId,
+      linkRange: range,
+    });
+  }
+
+  /**
+   * Images are decoded on the main thread and aren't sent to the worker
+   */
+  setImageStorage(storage: ImageStorage): void {
+    this.imageStorage = storage;
+    this.imageVersion = -1;
+  }
+
+  setHighlights(highlights: CellHighlight[]): void {
+    this.post({ type: 'highlights', renderer: this.id, highlights });
+  }
+
+  /**
+   * Draw another RemoteTerminal (e.g. after Terminal.reset() replaced it)
+   */
+  setTerminal(terminalId: number): void {
+    this.post({ type: 'setRenderTerminal', renderer: this.id, terminal: terminalId });
+  }
+
+  dispose(): void {
+    this.post({ type: 'detachCanvas', renderer: this.id });
+  }
+
+  private setOptions(options: RendererOptions): void {
+    this.post({ type: 'rendererOptions', renderer: this.id, options });
+  }
+
+  /**
+   * Warn once when an image is placed, since the worker can't draw it
+   */
+  private checkForImages(): void {
+    const storage = this.imageStorage;
+    if (!storage || this.warnedAboutImages || storage.version === this.imageVersion) return;
+    this.imageVersion = storage.version;
+    if (storage.getPlacements(false).length > 0 || storage.getPlacements(true).length > 0) {
+      this.warnedAboutImages = true;
+      console.warn('Inline images are not drawn by the offscreen renderer');
+    }
+  }
+
+  private post(request: RendererRequest, transfer?: Transferable[]): void {
+    this.port.postMessage(request, transfer);
+  }
+}
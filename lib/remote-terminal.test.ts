@@ -0,0 +1,287 @@
+/**
+ * Tests for RemoteTerminal
+ *
+ * Worker messages are simulated, so these tests don't require WASM.
+ */
+
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { type RowData, type TerminalUpdate, allocateCells, packCells } from './parser-worker';
+import { RemoteTerminal } from './remote-terminal';
+import { DirtyState, type GhosttyCell, createCell } from './types';
+
+// ============================================================================
+// Mock Worker
+// ============================================================================
+
+class MockPort {
+  public sent: any[] = [];
+  private listeners = new Set<(event: MessageEvent) => void>();
+
+  postMessage(message: any): void {
+    this.sent.push(message);
+  }
+
+  addEventListener(_type: 'message', listener: (event: MessageEvent) => void): void {
+    this.listeners.add(listener);
+  }
+
+  removeEventListener(_type: 'message', listener: (event: MessageEvent) => void): void {
+    this.listeners.delete(listener);
+  }
+
+  receive(data: unknown): void {
+    for (const listener of this.listeners) listener({ data } as MessageEvent);
+  }
+}
+
+function toCells(text: string, cols: number): GhosttyCell[] {
+  return Array.from({ length: cols }, (_, i) => createCell(text.charAt(i)));
+}
+
+/**
+ * Pack rows of text the way the worker does
+ */
+function packRows(
+  rows: Map<number, string>,
+  cols: number
+): { lines: RowData[]; cells: ArrayBuffer } {
+  const cells = allocateCells(rows.size, cols);
+  const view = new DataView(cells);
+  const lines: RowData[] = [];
+  for (const [row, text] of rows) {
+    packCells(toCells(text, cols), view, lines.length * cols);
+    lines.push({ row, wrapped: false });
+  }
+  return { lines, cells };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('RemoteTerminal', () => {
+  let port: MockPort;
+  let term: RemoteTerminal;
+  let id: number;
+
+  function update(rows: Record<number, string>, overrides: Partial<TerminalUpdate> = {}): void {
+    const packed = packRows(new Map(Object.entries(rows).map(([y, text]) => [Number(y), text])), 4);
+    const message: TerminalUpdate = {
+      type: 'update',
+      id,
+      seq: 0,
+      cols: 4,
+      rows: 2,
+      cursor: {
+        x: 0,
+        y: 0,
+        viewportX: 0,
+        viewportY: 0,
+        visible: true,
+        blinking: false,
+        style: 'block',
+      },
+      colors: { foreground: { r: 1, g: 2, b: 3 }, background: { r: 0, g: 0, b: 0 }, cursor: null },
+      alternateScreen: false,
+      mouseTracking: false,
+      decModes: [7, 25],
+      ansiModes: [],
+      scrollbackLength: 0,
+      title: '',
+      iconName: '',
+      bellCount: 0,
+      rowsPruned: 0,
+      full: false,
+      scrollbackReset: false,
+      scrollback: [],
+      scrollbackCells: new ArrayBuffer(0),
+      responses: [],
+      ...packed,
+      ...overrides,
+    };
+    port.receive(message);
+  }
+
+  /** Scrollback rows of an update, by absolute row */
+  function scrollback(rows: Record<number, string>): Partial<TerminalUpdate> {
+    const packed = packRows(new Map(Object.entries(rows).map(([y, text]) => [Number(y), text])), 4);
+    return { scrollback: packed.lines, scrollbackCells: packed.cells };
+  }
+
+  beforeEach(() => {
+    port = new MockPort();
+    term = new RemoteTerminal(port, 4, 2);
+    id = port.sent[0].id;
+    term.clearDirty();
+  });
+
+  test('creates the terminal in the worker and posts writes', () => {
+    term.write('hi');
+    term.resize(5, 3);
+
+    expect(port.sent.map((m) => m.type)).toEqual(['create', 'write', 'resize']);
+    expect(port.sent[1]).toEqual({ type: 'write', id, seq: 1, data: 'hi' });
+    expect(term.getDimensions()).toEqual({ cols: 5, rows: 3 });
+    expect(term.getLine(2)).toHaveLength(5);
+  });
+
+  test('mirrors rows, cursor, colors and modes from updates', () => {
+    update(
+      { 1: 'ab' },
+      {
+        cursor: {
+          x: 2,
+          y: 1,
+          viewportX: 2,
+          viewportY: 1,
+          visible: false,
+          blinking: false,
+          style: 'block',
+        },
+        decModes: [2004],
+      }
+    );
+
+    expect(term.getLine(1)?.[1].codepoint).toBe('b'.codePointAt(0)!);
+    expect(term.getCursor()).toMatchObject({ x: 2, y: 1, visible: false });
+    expect(term.getColors().foreground).toEqual({ r: 1, g: 2, b: 3 });
+    expect(term.hasBracketedPaste()).toBe(true);
+    expect(term.getMode(7)).toBe(false);
+  });
+
+  test('tracks dirty rows until cleared', () => {
+    update({ 1: 'x' });
+
+    expect(term.update()).toBe(DirtyState.PARTIAL);
+    expect(term.isRowDirty(0)).toBe(false);
+    expect(term.isRowDirty(1)).toBe(true);
+
+    term.clearDirty();
+    expect(term.update()).toBe(DirtyState.NONE);
+
+    update({}, { full: true });
+    expect(term.needsFullRedraw()).toBe(true);
+  });
+
+  test('queues responses for readResponse', () => {
+    term.queueResponse('local');
+    update({}, { responses: ['\x1b[1;1R'] });
+
+    expect(term.readResponse()).toBe('local');
+    expect(term.readResponse()).toBe('\x1b[1;1R');
+    expect(term.readResponse()).toBeNull();
+  });
+
+  test('mirrors the title and posts icon names to the worker', () => {
+    term.setIconName('vim');
+    expect(port.sent[1]).toEqual({ type: 'setIconName', id, name: 'vim' });
+    // Reads reflect the worker's state, not the pending request
+    expect(term.getIconName()).toBe('');
+
+    update({}, { title: 'file.txt - VIM', iconName: 'vim' });
+    expect(term.getTitle()).toBe('file.txt - VIM');
+    expect(term.getIconName()).toBe('vim');
+  });
+
+  test('posts width tables and grapheme clustering changes to the worker', () => {
+    const ranges = new Uint32Array([0xb1, 0xb1, 2]);
+    term.setWidths(ranges);
+    term.setGraphemeClustering(false);
+    expect(port.sent[1]).toEqual({ type: 'setWidths', id, ranges });
+    expect(port.sent[2]).toEqual({ type: 'setGraphemeClustering', id, enabled: false });
+
+    update({}, { decModes: [2027] });
+    expect(term.getMode(2027)).toBe(true);
+  });
+
+  test('calls write callbacks once the write has been parsed', async () => {
+    const calls: string[] = [];
+    term.write('a');
+    term.whenParsed(() => calls.push('a'));
+    term.write('b');
+    term.whenParsed(() => calls.push('b'));
+
+    update({}, { seq: 1 });
+    expect(calls).toEqual(['a']);
+    update({}, { seq: 2 });
+    expect(calls).toEqual(['a', 'b']);
+
+    term.whenParsed(() => calls.push('c'));
+    await Promise.resolve();
+    expect(calls).toEqual(['a', 'b', 'c']);
+  });
+
+  test('runs pending write callbacks when freed', async () => {
+    let called = false;
+    term.write('a');
+    term.whenParsed(() => {
+      called = true;
+    });
+
+    term.free();
+    await Promise.resolve();
+    expect(called).toBe(true);
+  });
+
+  test('mirrors scrollback rows sent with updates', () => {
+    update({}, { scrollbackLength: 2, ...scrollback({ 0: 'one', 1: 'two' }) });
+    update({}, { scrollbackLength: 3, ...scrollback({ 2: 'six' }) });
+
+    expect(term.getScrollbackLine(0)?.[0].codepoint).toBe('o'.codePointAt(0)!);
+    expect(term.getScrollbackLine(2)?.[0].codepoint).toBe('s'.codePointAt(0)!);
+    expect(term.getScrollbackLine(3)).toBeNull();
+    // Nothing is requested from the worker
+    expect(port.sent.map((m) => m.type)).toEqual(['create']);
+  });
+
+  test('drops pruned rows and replaces all rows on a reset', () => {
+    update({}, { scrollbackLength: 2, ...scrollback({ 0: 'one', 1: 'two' }) });
+    update({}, { scrollbackLength: 2, rowsPruned: 1, ...scrollback({ 2: 'new' }) });
+
+    expect(term.getRowsPruned()).toBe(1);
+    expect(term.getScrollbackLine(0)?.[0].codepoint).toBe('t'.codePointAt(0)!);
+    expect(term.getScrollbackLine(1)?.[0].codepoint).toBe('n'.codePointAt(0)!);
+
+    update(
+      {},
+      { scrollbackLength: 1, rowsPruned: 1, scrollbackReset: true, ...scrollback({ 1: 'all' }) }
+    );
+    expect(term.getScrollbackLine(0)?.[0].codepoint).toBe('a'.codePointAt(0)!);
+    expect(term.getScrollbackLine(1)).toBeNull();
+  });
+
+  test('keeps the normal screen sent while the alternate screen is active', () => {
+    update({ 0: '$ ls', 1: '$ vi' }, { scrollbackLength: 1, ...scrollback({ 0: 'old' }) });
+    expect(term.getPrimaryLength()).toBe(3);
+    expect(term.getPrimaryLine(1)?.[2].codepoint).toBe('l'.codePointAt(0)!);
+
+    const primary = packRows(
+      new Map([
+        [0, 'old'],
+        [1, '$ ls'],
+        [2, '$ vi'],
+      ]),
+      4
+    );
+    const cursor = { x: 4, y: 1 };
+    update({ 0: 'vim' }, { full: true, alternateScreen: true, primary: { ...primary, cursor } });
+    update({ 1: '~' }, { alternateScreen: true });
+
+    expect(term.getPrimaryLength()).toBe(3);
+    expect(term.getPrimaryLine(2)?.[2].codepoint).toBe('v'.codePointAt(0)!);
+    expect(term.getPrimaryCursor()).toEqual(cursor);
+    expect(term.getLine(0)?.[0].codepoint).toBe('v'.codePointAt(0)!);
+  });
+
+  test('ignores messages for other terminals and after free', () => {
+    update({ 0: 'mine' });
+    port.receive({ ...port.sent[0], type: 'update', id: id + 100 });
+
+    term.free();
+    update({ 0: 'late' });
+    term.write('ignored');
+
+    expect(term.getLine(0)?.[0].codepoint).toBe('m'.codePointAt(0)!);
+    expect(port.sent.at(-1)).toEqual({ type: 'free', id });
+  });
+});
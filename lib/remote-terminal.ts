@@ -0,0 +1,499 @@
+/**
+ * RemoteTerminal - main-thread mirror of a GhosttyTerminal in a parser worker
+ *
+ * Implements the GhosttyTerminal API on top of the render state sent by the
+ * worker (see parser-worker.ts), so the renderer, buffer API and addons can
+ * read it synchronously. Writes are posted to the worker; reads reflect the
+ * last update received, so they lag behind write() until the worker replies.
+ *
+ * Scrollback is mirrored too: each update carries the rows that scrolled into
+ * it, keyed by absolute row, so rows pruned from the top are simply dropped.
+ * While the alternate screen is active, the normal screen is kept as sent
+ * with the update that switched screens.
+ *
+ * Limitations compared to GhosttyTerminal:
+ * - Only the modes in MIRRORED_DEC_MODES and MIRRORED_ANSI_MODES are known
+ */
+
+import { EventEmitter } from './event-emitter';
+import type { GhosttyTerminalConfig, IGhosttyTerminal } from './ghostty';
+import type { IEvent } from './interfaces';
+import {
+  type ParserWorkerPort,
+  type ParserWorkerRequest,
+  type ParserWorkerResponse,
+  type RowData,
+  type TerminalUpdate,
+  unpackCells,
+} from './parser-worker';
+import {
+  DirtyState,
+  type GhosttyCell,
+  type GhosttyHyperlink,
+  type RenderStateColors,
+  type RenderStateCursor,
+  createCell,
+} from './types';
+
+/**
+ * A row of the mirrored screen or scrollback
+ */
+interface MirroredRow {
+  cells: GhosttyCell[];
+  wrapped: boolean;
+  graphemes?: Map<number, string>;
+  hyperlinks?: Map<number, GhosttyHyperlink>;
+}
+
+let nextTerminalId = 1;
+
+function blankRow(cols: number): MirroredRow {
+  return { cells: Array.from({ length: cols }, () => createCell()), wrapped: false };
+}
+
+/**
+ * Unpack the screen or scrollback rows of an update
+ */
+function unpackRows(lines: RowData[], cells: ArrayBuffer, cols: number): MirroredRow[] {
+  const view = new DataView(cells);
+  return lines.map((line, i) => ({
+    cells: unpackCells(view, i * cols, cols),
+    wrapped: line.wrapped,
+    graphemes: line.graphemes && new Map(line.graphemes),
+    hyperlinks: line.hyperlinks && new Map(line.hyperlinks),
+  }));
+}
+
+function toCodepoints(text: string): number[] {
+  return Array.from(text, (char) => char.codePointAt(0)!);
+}
+
+export class RemoteTerminal implements IGhosttyTerminal {
+  /** Identifies this terminal in worker messages */
+  public readonly id = nextTerminalId++;
+  private port: ParserWorkerPort;
+  private _cols: number;
+  private _rows: number;
+
+  // Mirrored render state
+  private screen: MirroredRow[];
+  private cursor: RenderStateCursor = {
+    x: 0,
+    y: 0,
+    viewportX: 0,
+    viewportY: 0,
+    visible: true,
+    blinking: false,
+    style: 'block',
+  };
+  private colors: RenderStateColors = {
+    background: { r: 0, g: 0, b: 0 },
+    foreground: { r: 204, g: 204, b: 204 },
+    cursor: null,
+  };
+  private alternateScreen = false;
+  private mouseTracking = false;
+  private decModes = new Set<number>([7, 25]); // Autowrap and cursor visible
+  private ansiModes = new Set<number>();
+  private title = '';
+  private iconName = '';
+  private bellCount = 0;
+
+  // Dirty tracking (accumulates across updates until clearDirty)
+  private dirtyRows = new Set<number>();
+  private fullRedraw = true;
+
+  // Scrollback mirror, by absolute row (rowsPruned + offset)
+  private scrollbackLength = 0;
+  private rowsPruned = 0;
+  private scrollback = new Map<number, MirroredRow>();
+
+  // Normal screen (scrollback first) while the alternate screen is active
+  private primary?: { rows: MirroredRow[]; cursor: { x: number; y: number } };
+
+  // Write tracking
+  private writeSeq = 0;
+  private parsedSeq = 0;
+  private parsedCallbacks: { seq: number; callback: () => void }[] = [];
+
+  /** Responses received from the worker or queued locally */
+  private queuedResponses: string[] = [];
+
+  private freed = false;
+  private updateEmitter = new EventEmitter<void>();
+
+  /**
+   * Fires after the mirrored state changed (an update or scrollback lines arrived)
+   */
+  public readonly onUpdate: IEvent<void> = this.updateEmitter.event;
+
+  constructor(port: ParserWorkerPort, cols: number, rows: number, config?: GhosttyTerminalConfig) {
+    this.port = port;
+    this._cols = cols;
+    this._rows = rows;
+    this.screen = Array.from({ length: rows }, () => blankRow(cols));
+
+    port.addEventListener('message', this.handleMessage);
+    this.post({ type: 'create', id: this.id, cols, rows, config });
+  }
+
+  get cols(): number {
+    return this._cols;
+  }
+  get rows(): number {
+    return this._rows;
+  }
+
+  // ==========================================================================
+  // Lifecycle
+  // ==========================================================================
+
+  write(data: string | Uint8Array): void {
+    this.post({ type: 'write', id: this.id, seq: ++this.writeSeq, data });
+  }
+
+  /**
+   * Call back once the worker has parsed everything written so far and the
+   * mirrored state reflects it. Pending callbacks run when the terminal is
+   * freed, since nothing more will be parsed.
+   */
+  whenParsed(callback: () => void): void {
+    if (this.parsedSeq >= this.writeSeq) {
+      queueMicrotask(callback);
+    } else {
+      this.parsedCallbacks.push({ seq: this.writeSeq, callback });
+    }
+  }
+
+  setColors(config: GhosttyTerminalConfig): void {
+    this.post({ type: 'setColors', id: this.id, config });
+  }
+
+  resize(cols: number, rows: number): void {
+    if (cols === this._cols && rows === this._rows) return;
+
+    // Keep showing the old content, cropped or padded, until the worker reflows it
+    this.screen = Array.from({ length: rows }, (_, y) => {
+      const row = this.screen[y] ?? blankRow(cols);
+      const cells = row.cells.slice(0, cols);
+      while (cells.length < cols) cells.push(createCell());
+      return { ...row, cells };
+    });
+    this._cols = cols;
+    this._rows = rows;
+    this.fullRedraw = true;
+    this.post({ type: 'resize', id: this.id, cols, rows });
+  }
+
+  free(): void {
+    if (this.freed) return;
+    this.freed = true;
+    this.post({ type: 'free', id: this.id });
+    this.port.removeEventListener('message', this.handleMessage);
+    this.updateEmitter.dispose();
+    const callbacks = this.parsedCallbacks;
+    this.parsedCallbacks = [];
+    for (const { callback } of callbacks) queueMicrotask(callback);
+  }
+
+  // ==========================================================================
+  // RenderState API
+  // ==========================================================================
+
+  update(): DirtyState {
+    if (this.fullRedraw) return DirtyState.FULL;
+    return this.dirtyRows.size > 0 ? DirtyState.PARTIAL : DirtyState.NONE;
+  }
+
+  getCursor(): RenderStateCursor {
+    return { ...this.cursor };
+  }
+
+  getColors(): RenderStateColors {
+    return this.colors;
+  }
+
+  isRowDirty(y: number): boolean {
+    return this.fullRedraw || this.dirtyRows.has(y);
+  }
+
+  markClean(): void {
+    this.fullRedraw = false;
+    this.dirtyRows.clear();
+  }
+
+  getViewport(): GhosttyCell[] {
+    return this.screen.flatMap((row) => row.cells);
+  }
+
+  getLine(y: number): GhosttyCell[] | null {
+    if (y < 0 || y >= this._rows) return null;
+    return this.screen[y].cells.map((cell) => ({ ...cell }));
+  }
+
+  isDirty(): boolean {
+    return this.update() !== DirtyState.NONE;
+  }
+
+  needsFullRedraw(): boolean {
+    return this.fullRedraw;
+  }
+
+  clearDirty(): void {
+    this.markClean();
+  }
+
+  // ==========================================================================
+  // Terminal modes
+  // ==========================================================================
+
+  isAlternateScreen(): boolean {
+    return this.alternateScreen;
+  }
+
+  hasBracketedPaste(): boolean {
+    return this.getMode(2004, false);
+  }
+
+  hasFocusEvents(): boolean {
+    return this.getMode(1004, false);
+  }
+
+  hasMouseTracking(): boolean {
+    return this.mouseTracking;
+  }
+
+  getMode(mode: number, isAnsi: boolean = false): boolean {
+    return (isAnsi ? this.ansiModes : this.decModes).has(mode);
+  }
+
+  // ==========================================================================
+  // Extended API (scrollback, graphemes, hyperlinks)
+  // ==========================================================================
+
+  getDimensions(): { cols: number; rows: number } {
+    return { cols: this._cols, rows: this._rows };
+  }
+
+  getScrollbackLength(): number {
+    return this.scrollbackLength;
+  }
+
+  getRowsPruned(): number {
+    return this.rowsPruned;
+  }
+
+  getScrollbackLine(offset: number): GhosttyCell[] | null {
+    const row = this.getScrollbackRow(offset);
+    return row ? row.cells.map((cell) => ({ ...cell })) : null;
+  }
+
+  getPrimaryLength(): number {
+    return this.primary ? this.primary.rows.length : this.scrollbackLength + this._rows;
+  }
+
+  getPrimaryLine(y: number): GhosttyCell[] | null {
+    const row = this.getPrimaryRow(y);
+    return row ? row.cells.map((cell) => ({ ...cell })) : null;
+  }
+
+  isPrimaryRowWrapped(y: number): boolean {
+    return this.getPrimaryRow(y)?.wrapped ?? false;
+  }
+
+  getPrimaryCursor(): { x: number; y: number } {
+    const { x, y } = this.primary ? this.primary.cursor : this.cursor;
+    return { x, y };
+  }
+
+  isRowWrapped(row: number): boolean {
+    return this.screen[row]?.wrapped ?? false;
+  }
+
+  isScrollbackRowWrapped(offset: number): boolean {
+    return this.getScrollbackRow(offset)?.wrapped ?? false;
+  }
+
+  getHyperlink(row: number, col: number): GhosttyHyperlink | null {
+    return this.findHyperlink(this.screen[row], col);
+  }
+
+  getScrollbackHyperlink(offset: number, col: number): GhosttyHyperlink | null {
+    return this.findHyperlink(this.getScrollbackRow(offset), col);
+  }
+
+  getGrapheme(row: number, col: number): number[] | null {
+    if (!this.screen[row]?.cells[col]) return null;
+    return toCodepoints(this.getGraphemeString(row, col));
+  }
+
+  getGraphemeString(row: number, col: number): string {
+    return this.findGrapheme(this.screen[row], col);
+  }
+
+  getScrollbackGrapheme(offset: number, col: number): number[] | null {
+    if (!this.getScrollbackRow(offset)?.cells[col]) return null;
+    return toCodepoints(this.getScrollbackGraphemeString(offset, col));
+  }
+
+  getScrollbackGraphemeString(offset: number, col: number): string {
+    return this.findGrapheme(this.getScrollbackRow(offset), col);
+  }
+
+  // ==========================================================================
+  // Title
+  // ==========================================================================
+
+  getTitle(): string {
+    return this.title;
+  }
+
+  getIconName(): string {
+    return this.iconName;
+  }
+
+  setIconName(name: string): void {
+    this.post({ type: 'setIconName', id: this.id, name });
+  }
+
+  // ==========================================================================
+  // Bell
+  // ==========================================================================
+
+  getBellCount(): number {
+    return this.bellCount;
+  }
+
+  // ==========================================================================
+  // Unicode
+  // ==========================================================================
+
+  setWidths(ranges: Uint32Array): void {
+    this.post({ type: 'setWidths', id: this.id, ranges });
+  }
+
+  setGraphemeClustering(enabled: boolean): void {
+    this.post({ type: 'setGraphemeClustering', id: this.id, enabled });
+  }
+
+  // ==========================================================================
+  // Responses
+  // ==========================================================================
+
+  hasResponse(): boolean {
+    return this.queuedResponses.length > 0;
+  }
+
+  queueResponse(response: string): void {
+    this.queuedResponses.push(response);
+  }
+
+  readResponse(): string | null {
+    return this.queuedResponses.shift() ?? null;
+  }
+
+  // ==========================================================================
+  // Worker messages
+  // ==========================================================================
+
+  private post(request: ParserWorkerRequest): void {
+    if (this.freed && request.type !== 'free') return;
+    this.port.postMessage(request);
+  }
+
+  private handleMessage = (event: MessageEvent): void => {
+    const message = event.data as ParserWorkerResponse;
+    if (message.type === 'error') {
+      if (message.id === undefined || message.id === this.id) {
+        console.error('Parser worker error:', message.message);
+      }
+      return;
+    }
+    if (message.id !== this.id) return;
+    this.applyUpdate(message);
+  };
+
+  private applyUpdate(update: TerminalUpdate): void {
+    // Ignore the size of updates sent before a resize the worker hasn't seen yet
+    const sizeMatches = update.cols === this._cols && update.rows === this._rows;
+    if (sizeMatches) {
+      const rows = unpackRows(update.lines, update.cells, update.cols);
+      update.lines.forEach((line, i) => {
+        this.screen[line.row] = rows[i];
+        this.dirtyRows.add(line.row);
+      });
+      if (update.full) this.fullRedraw = true;
+    }
+
+    this.cursor = update.cursor;
+    this.colors = update.colors;
+    this.alternateScreen = update.alternateScreen;
+    if (!update.alternateScreen) {
+      this.primary = undefined;
+    } else if (update.primary) {
+      const { lines, cells, cursor } = update.primary;
+      this.primary = { rows: unpackRows(lines, cells, update.cols), cursor };
+    }
+    this.mouseTracking = update.mouseTracking;
+    this.decModes = new Set(update.decModes);
+    this.ansiModes = new Set(update.ansiModes);
+    this.title = update.title;
+    this.iconName = update.iconName;
+    this.bellCount = update.bellCount;
+    this.queuedResponses.push(...update.responses);
+
+    this.applyScrollback(update);
+
+    this.parsedSeq = update.seq;
+    const ready = this.parsedCallbacks.filter(({ seq }) => seq <= update.seq);
+    this.parsedCallbacks = this.parsedCallbacks.filter(({ seq }) => seq > update.seq);
+
+    this.updateEmitter.fire();
+    for (const { callback } of ready) callback();
+  }
+
+  private applyScrollback(update: TerminalUpdate): void {
+    if (update.scrollbackReset) this.scrollback.clear();
+    const rows = unpackRows(update.scrollback, update.scrollbackCells, update.cols);
+    update.scrollback.forEach((line, i) => {
+      this.scrollback.set(line.row, rows[i]);
+    });
+
+    // Rows arrive in order, so the pruned ones come first
+    this.rowsPruned = update.rowsPruned;
+    this.scrollbackLength = update.scrollbackLength;
+    for (const row of this.scrollback.keys()) {
+      if (row >= this.rowsPruned) break;
+      this.scrollback.delete(row);
+    }
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private getScrollbackRow(offset: number): MirroredRow | undefined {
+    if (offset < 0 || offset >= this.scrollbackLength) return undefined;
+    return this.scrollback.get(this.rowsPruned + offset);
+  }
+
+  private getPrimaryRow(y: number): MirroredRow | undefined {
+    if (this.primary) return this.primary.rows[y];
+    if (y < this.scrollbackLength) return this.getScrollbackRow(y);
+    return this.screen[y - this.scrollbackLength];
+  }
+
+  private findGrapheme(row: MirroredRow | undefined, col: number): string {
+    const cell = row?.cells[col];
+    if (!cell) return ' ';
+    return (
+      row.graphemes?.get(col) ?? (cell.codepoint > 0 ? String.fromCodePoint(cell.codepoint) : ' ')
+    );
+  }
+
+  private findHyperlink(row: MirroredRow | undefined, col: number): GhosttyHyperlink | null {
+    const id = row?.cells[col]?.hyperlink_id;
+    if (!id) return null;
+    return row.hyperlinks?.get(id) ?? null;
+  }
+}
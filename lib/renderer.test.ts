@@ -7,7 +7,8 @@
  */
 
 import { describe, expect, test } from 'bun:test';
-import { DEFAULT_THEME } from './renderer';
+import { getHighlightColor, groupHighlightsByRow } from './renderer';
+import { DEFAULT_THEME } from './theme';
 
 describe('CanvasRenderer', () => {
   describe('Default Theme', () => {
@@ -61,4 +62,19 @@ describe('CanvasRenderer', () => {
       expect(DEFAULT_THEME.cursor).toMatch(hexPattern);
     });
   });
+
+  describe('Highlights', () => {
+    test('later highlights win where they overlap', () => {
+      const rows = groupHighlightsByRow([
+        { row: 3, startCol: 0, endCol: 4, color: 'blue' },
+        { row: 3, startCol: 2, endCol: 3, color: 'red' },
+        { row: 5, startCol: 0, endCol: 1, color: 'blue' },
+      ]);
+
+      expect(getHighlightColor(rows.get(3), 1)).toBe('blue');
+      expect(getHighlightColor(rows.get(3), 2)).toBe('red');
+      expect(getHighlightColor(rows.get(3), 4)).toBeUndefined();
+      expect(getHighlightColor(rows.get(4), 0)).toBeUndefined();
+    });
+  });
 });
@@ -8,12 +8,20 @@
  * - All text styles (bold, italic, underline, strikethrough, etc.)
  * - Multiple cursor styles (block, underline, bar)
  * - Dirty line optimization for 60 FPS
+ * - Works with an OffscreenCanvas, so it can also run in a worker
  */
 
-import type { ITheme } from './interfaces';
-import type { SelectionManager } from './selection-manager';
-import type { GhosttyCell, ILink } from './types';
-import { CellFlags } from './types';
+import { BELL_FLASH_DURATION, BELL_FLASH_OPACITY } from './bell';
+import { drawCustomGlyph, isCustomGlyph } from './custom-glyphs';
+import { buildFont } from './fonts';
+import { type ImageStorage, type VisibleImage, getVisibleImages } from './image-storage';
+import type { FontWeight, ITheme } from './interfaces';
+import { type LigatureRun, fillTextRun, findLigatureRuns } from './ligatures';
+import type { SelectionCoordinates } from './selection-manager';
+import { DEFAULT_THEME } from './theme';
+import type { GhosttyCell, ILink, RGB, RenderStateColors } from './types';
+import { CellFlags, UnderlineStyle } from './types';
+import { underlineRects } from './underline';
 
 // Interface for objects that can be rendered
 export interface IRenderable {
@@ -30,6 +38,22 @@ export interface IRenderable {
    * For simple cells, returns the single character.
    */
   getGraphemeString?(row: number, col: number): string;
+  /** Whether the alternate screen is active (selects which image placements are shown) */
+  isAlternateScreen?(): boolean;
+  /** Rows removed from the top of the scrollback so far (image placements count them) */
+  getRowsPruned?(): number;
+  /** Current default colors, including changes made by the application (OSC 10/11/12) */
+  getColors?(): RenderStateColors;
+}
+
+/**
+ * Selection state read while rendering (implemented by SelectionManager)
+ */
+export interface IRenderSelection {
+  hasSelection(): boolean;
+  getSelectionCoords(): SelectionCoordinates | null;
+  getDirtySelectionRows(): Set<number>;
+  clearDirtySelectionRows(): void;
 }
 
 export interface IScrollbackProvider {
@@ -44,10 +68,14 @@ export interface IScrollbackProvider {
 export interface RendererOptions {
   fontSize?: number; // Default: 15
   fontFamily?: string; // Default: 'monospace'
+  fontWeight?: FontWeight; // Default: 'normal'
+  fontWeightBold?: FontWeight; // Default: 'bold'
   cursorStyle?: 'block' | 'underline' | 'bar'; // Default: 'block'
   cursorBlink?: boolean; // Default: false
   theme?: ITheme;
-  devicePixelRatio?: number; // Default: window.devicePixelRatio
+  devicePixelRatio?: number; // Default: devicePixelRatio of the global scope
+  fontLigatures?: boolean; // Shape runs of symbols so the font can join them (default: false)
+  customGlyphs?: boolean; // Draw box drawing, blocks, braille and Powerline symbols (default: true)
 }
 
 export interface FontMetrics {
@@ -56,48 +84,156 @@ export interface FontMetrics {
   baseline: number; // Distance from top to text baseline
 }
 
+/**
+ * Range of a hovered regex-detected link (viewport coordinates)
+ */
+export interface LinkRange {
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+}
+
+/**
+ * Background highlight for a run of cells on one buffer line (e.g. a search match).
+ * Rows are absolute: they count the rows pruned from the scrollback, so a
+ * highlight stays on its line while old lines are dropped.
+ */
+export interface CellHighlight {
+  row: number;
+  startCol: number;
+  /** Exclusive */
+  endCol: number;
+  color: string;
+}
+
+/**
+ * Renderer contract used by Terminal, SelectionManager and MouseHandler.
+ * Implemented by CanvasRenderer and WebGLRenderer.
+ */
+export interface IRenderer {
+  readonly charWidth: number;
+  readonly charHeight: number;
+  render(
+    buffer: IRenderable,
+    forceAll?: boolean,
+    viewportY?: number,
+    scrollbackProvider?: IScrollbackProvider,
+    scrollbarOpacity?: number
+  ): void;
+  resize(cols: number, rows: number): void;
+  clear(): void;
+  remeasureFont(): void;
+  getMetrics(): FontMetrics;
+  getCanvas(): HTMLCanvasElement;
+  setTheme(theme: ITheme): void;
+  setFontSize(size: number): void;
+  setFontFamily(family: string): void;
+  /** Set the weights of normal and bold text */
+  setFontWeight(weight: FontWeight, boldWeight: FontWeight): void;
+  setCursorStyle(style: 'block' | 'underline' | 'bar'): void;
+  setCursorBlink(enabled: boolean): void;
+  /** Draw runs of symbols as one string so ligature fonts can join them */
+  setFontLigatures(enabled: boolean): void;
+  /** Draw box drawing, block, braille and Powerline characters instead of using the font */
+  setCustomGlyphs(enabled: boolean): void;
+  setSelectionManager(manager: IRenderSelection): void;
+  setHoveredHyperlinkId(hyperlinkId: number): void;
+  setHoveredLinkRange(range: LinkRange | null): void;
+  setImageStorage(storage: ImageStorage): void;
+  /** Replace the cell highlights drawn under the text (later entries win where they overlap) */
+  setHighlights(highlights: CellHighlight[]): void;
+  /** Briefly flash the canvas (visual bell) */
+  flashBell(): void;
+  dispose(): void;
+}
+
 // ============================================================================
-// Default Theme
+// Helpers
 // ============================================================================
 
-export const DEFAULT_THEME: Required<ITheme> = {
-  foreground: '#d4d4d4',
-  background: '#1e1e1e',
-  cursor: '#ffffff',
-  cursorAccent: '#1e1e1e',
-  // Selection colors: solid colors that replace cell bg/fg when selected
-  // Using Ghostty's approach: selection bg = default fg, selection fg = default bg
-  selectionBackground: '#d4d4d4',
-  selectionForeground: '#1e1e1e',
-  black: '#000000',
-  red: '#cd3131',
-  green: '#0dbc79',
-  yellow: '#e5e510',
-  blue: '#2472c8',
-  magenta: '#bc3fbc',
-  cyan: '#11a8cd',
-  white: '#e5e5e5',
-  brightBlack: '#666666',
-  brightRed: '#f14c4c',
-  brightGreen: '#23d18b',
-  brightYellow: '#f5f543',
-  brightBlue: '#3b8eea',
-  brightMagenta: '#d670d6',
-  brightCyan: '#29b8db',
-  brightWhite: '#ffffff',
-};
+/**
+ * Group highlights by absolute row for lookups while rendering
+ */
+export function groupHighlightsByRow(highlights: CellHighlight[]): Map<number, CellHighlight[]> {
+  const rows = new Map<number, CellHighlight[]>();
+  for (const highlight of highlights) {
+    const row = rows.get(highlight.row);
+    if (row) {
+      row.push(highlight);
+    } else {
+      rows.set(highlight.row, [highlight]);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Get the color of the last highlight covering a column, if any
+ */
+export function getHighlightColor(
+  highlights: CellHighlight[] | undefined,
+  col: number
+): string | undefined {
+  if (!highlights) return undefined;
+  for (let i = highlights.length - 1; i >= 0; i--) {
+    const highlight = highlights[i];
+    if (col >= highlight.startCol && col < highlight.endCol) return highlight.color;
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Font Metrics
+// ============================================================================
+
+/**
+ * Measure the cell size for a font (shared by all renderers)
+ */
+export function measureFont(
+  fontSize: number,
+  fontFamily: string,
+  fontWeight: FontWeight = 'normal'
+): FontMetrics {
+  // Use an offscreen canvas for measurement (workers have no document)
+  const canvas =
+    typeof document !== 'undefined' ? document.createElement('canvas') : new OffscreenCanvas(1, 1);
+  const ctx = canvas.getContext('2d')!;
+
+  // Set font (use actual pixel size for accurate measurement)
+  ctx.font = buildFont(fontSize, fontFamily, fontWeight);
+
+  // Measure width using 'M' (typically widest character)
+  const widthMetrics = ctx.measureText('M');
+  const width = Math.ceil(widthMetrics.width);
+
+  // Measure height using ascent + descent with padding for glyph overflow
+  const ascent = widthMetrics.actualBoundingBoxAscent || fontSize * 0.8;
+  const descent = widthMetrics.actualBoundingBoxDescent || fontSize * 0.2;
+
+  // Add 2px padding to height to account for glyphs that overflow (like 'f', 'd', 'g', 'p')
+  // and anti-aliasing pixels
+  const height = Math.ceil(ascent + descent) + 2;
+  const baseline = Math.ceil(ascent) + 1; // Offset baseline by half the padding
+
+  return { width, height, baseline };
+}
 
 // ============================================================================
 // CanvasRenderer Class
 // ============================================================================
 
-export class CanvasRenderer {
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
+export class CanvasRenderer implements IRenderer {
+  private canvas: HTMLCanvasElement | OffscreenCanvas;
+  private ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
   private fontSize: number;
   private fontFamily: string;
+  private fontWeight: FontWeight;
+  private fontWeightBold: FontWeight;
   private cursorStyle: 'block' | 'underline' | 'bar';
   private cursorBlink: boolean;
+  private fontLigatures: boolean;
+  private customGlyphs: boolean;
   private theme: Required<ITheme>;
   private devicePixelRatio: number;
   private metrics: FontMetrics;
@@ -105,8 +241,10 @@ export class CanvasRenderer {
 
   // Cursor blinking state
   private cursorVisible: boolean = true;
-  private cursorBlinkInterval?: number;
+  private cursorBlinkInterval?: ReturnType<typeof setInterval>;
   private lastCursorPosition: { x: number; y: number } = { x: 0, y: 0 };
+  // Cursor position that ligatures break at (null when scrolled: no cursor is drawn)
+  private ligatureCursor: { x: number; y: number } | null = null;
 
   // Viewport tracking (for scrolling)
   private lastViewportY: number = 0;
@@ -115,7 +253,7 @@ export class CanvasRenderer {
   private currentBuffer: IRenderable | null = null;
 
   // Selection manager (for rendering selection)
-  private selectionManager?: SelectionManager;
+  private selectionManager?: IRenderSelection;
   // Cached selection coordinates for current render pass (viewport-relative)
   private currentSelectionCoords: {
     startCol: number;
@@ -138,9 +276,29 @@ export class CanvasRenderer {
     endY: number;
   } | null = null;
 
-  constructor(canvas: HTMLCanvasElement, options: RendererOptions = {}) {
+  // Inline images
+  private imageStorage?: ImageStorage;
+  private lastImageVersion: number = -1;
+  private visibleImages: VisibleImage[] = [];
+
+  // Absolute row at the top of the viewport, counting pruned rows (images
+  // and highlights are anchored to these)
+  private viewportTop: number = 0;
+
+  // Cell highlights (e.g. search matches), grouped by absolute row
+  private highlights = new Map<number, CellHighlight[]>();
+  private highlightsChanged = false;
+
+  // Visual bell: shown until bellFlashEnd (performance.now() time)
+  private bellFlashEnd = 0;
+  private bellFlashDrawn = false;
+
+  constructor(canvas: HTMLCanvasElement | OffscreenCanvas, options: RendererOptions = {}) {
     this.canvas = canvas;
-    const ctx = canvas.getContext('2d', { alpha: true });
+    const ctx = canvas.getContext('2d', { alpha: true }) as
+      | CanvasRenderingContext2D
+      | OffscreenCanvasRenderingContext2D
+      | null;
     if (!ctx) {
       throw new Error('Failed to get 2D rendering context');
     }
@@ -149,10 +307,14 @@ export class CanvasRenderer {
     // Apply options
     this.fontSize = options.fontSize ?? 15;
     this.fontFamily = options.fontFamily ?? 'monospace';
+    this.fontWeight = options.fontWeight ?? 'normal';
+    this.fontWeightBold = options.fontWeightBold ?? 'bold';
     this.cursorStyle = options.cursorStyle ?? 'block';
     this.cursorBlink = options.cursorBlink ?? false;
+    this.fontLigatures = options.fontLigatures ?? false;
+    this.customGlyphs = options.customGlyphs ?? true;
     this.theme = { ...DEFAULT_THEME, ...options.theme };
-    this.devicePixelRatio = options.devicePixelRatio ?? window.devicePixelRatio ?? 1;
+    this.devicePixelRatio = options.devicePixelRatio ?? globalThis.devicePixelRatio ?? 1;
 
     // Build color palette (16 ANSI colors)
     this.palette = [
@@ -188,27 +350,7 @@ export class CanvasRenderer {
   // ==========================================================================
 
   private measureFont(): FontMetrics {
-    // Use an offscreen canvas for measurement
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d')!;
-
-    // Set font (use actual pixel size for accurate measurement)
-    ctx.font = `${this.fontSize}px ${this.fontFamily}`;
-
-    // Measure width using 'M' (typically widest character)
-    const widthMetrics = ctx.measureText('M');
-    const width = Math.ceil(widthMetrics.width);
-
-    // Measure height using ascent + descent with padding for glyph overflow
-    const ascent = widthMetrics.actualBoundingBoxAscent || this.fontSize * 0.8;
-    const descent = widthMetrics.actualBoundingBoxDescent || this.fontSize * 0.2;
-
-    // Add 2px padding to height to account for glyphs that overflow (like 'f', 'd', 'g', 'p')
-    // and anti-aliasing pixels
-    const height = Math.ceil(ascent + descent) + 2;
-    const baseline = Math.ceil(ascent) + 1; // Offset baseline by half the padding
-
-    return { width, height, baseline };
+    return measureFont(this.fontSize, this.fontFamily, this.fontWeight);
   }
 
   /**
@@ -237,9 +379,11 @@ export class CanvasRenderer {
     const cssWidth = cols * this.metrics.width;
     const cssHeight = rows * this.metrics.height;
 
-    // Set CSS size (what user sees)
-    this.canvas.style.width = `${cssWidth}px`;
-    this.canvas.style.height = `${cssHeight}px`;
+    // Set CSS size (what user sees); an OffscreenCanvas is sized by its placeholder element
+    if ('style' in this.canvas) {
+      this.canvas.style.width = `${cssWidth}px`;
+      this.canvas.style.height = `${cssHeight}px`;
+    }
 
     // Set actual canvas size (scaled for DPI)
     this.canvas.width = cssWidth * this.devicePixelRatio;
@@ -301,6 +445,37 @@ export class CanvasRenderer {
       this.lastViewportY = viewportY;
     }
 
+    // Force re-render when images change, then collect images in the viewport
+    if (this.imageStorage && this.imageStorage.version !== this.lastImageVersion) {
+      forceAll = true;
+      this.lastImageVersion = this.imageStorage.version;
+    }
+
+    // Force re-render when highlights change
+    if (this.highlightsChanged) {
+      forceAll = true;
+      this.highlightsChanged = false;
+    }
+
+    // The visual bell covers the whole canvas: redraw everything while it is
+    // shown and once more to remove it
+    const bellFlashing = performance.now() < this.bellFlashEnd;
+    if (bellFlashing || this.bellFlashDrawn) {
+      forceAll = true;
+      this.bellFlashDrawn = bellFlashing;
+    }
+
+    this.viewportTop = (buffer.getRowsPruned?.() ?? 0) + scrollbackLength - Math.floor(viewportY);
+    this.ligatureCursor = viewportY === 0 ? { x: cursor.x, y: cursor.y } : null;
+    this.visibleImages = this.imageStorage
+      ? getVisibleImages(
+          this.imageStorage,
+          buffer.isAlternateScreen?.() ?? false,
+          this.viewportTop,
+          dims.rows
+        )
+      : [];
+
     // Check if cursor position changed or if blinking (need to redraw cursor line)
     const cursorMoved =
       cursor.x !== this.lastCursorPosition.x || cursor.y !== this.lastCursorPosition.y;
@@ -485,7 +660,7 @@ export class CanvasRenderer {
 
     // Render cursor (only if we're at the bottom, not scrolled)
     if (viewportY === 0 && cursor.visible && this.cursorVisible) {
-      this.renderCursor(cursor.x, cursor.y);
+      this.renderCursor(cursor.x, cursor.y, buffer.getColors?.().cursor ?? null);
     }
 
     // Render scrollbar if scrolled or scrollback exists (with opacity for fade effect)
@@ -493,6 +668,13 @@ export class CanvasRenderer {
       this.renderScrollbar(viewportY, scrollbackLength, dims.rows, scrollbarOpacity);
     }
 
+    if (bellFlashing) {
+      this.ctx.globalAlpha = BELL_FLASH_OPACITY;
+      this.ctx.fillStyle = this.theme.foreground;
+      this.ctx.fillRect(0, 0, dims.cols * this.metrics.width, dims.rows * this.metrics.height);
+      this.ctx.globalAlpha = 1;
+    }
+
     // Update last cursor position
     this.lastCursorPosition = { x: cursor.x, y: cursor.y };
 
@@ -531,13 +713,61 @@ export class CanvasRenderer {
       this.renderCellBackground(cell, x, y);
     }
 
+    // Images with negative z-index go between backgrounds and text
+    this.renderImages(y, true);
+
     // PASS 2: Draw all cell text and decorations
     // Now text can safely extend beyond cell boundaries (for complex scripts)
+    const runs = this.fontLigatures ? this.findLigatureRuns(line, y) : [];
+    let nextRun = 0;
     for (let x = 0; x < line.length; x++) {
       const cell = line[x];
       if (cell.width === 0) continue; // Skip spacer cells for wide characters
+
+      const run = runs[nextRun];
+      if (run && run.start === x) {
+        this.renderTextRun(line, run, y);
+        x = run.end - 1;
+        nextRun++;
+        continue;
+      }
       this.renderCellText(cell, x, y);
     }
+
+    this.renderImages(y, false);
+  }
+
+  /**
+   * Draw the slices of visible images that fall within a viewport row.
+   * Images are drawn row by row so that redrawing a line repaints its images.
+   */
+  private renderImages(y: number, belowText: boolean): void {
+    const rowTop = y * this.metrics.height;
+    const rowBottom = rowTop + this.metrics.height;
+
+    for (const { placement, source } of this.visibleImages) {
+      if (placement.z < 0 !== belowText) continue;
+
+      const dx = placement.col * this.metrics.width + placement.offsetX;
+      const dy = (placement.row - this.viewportTop) * this.metrics.height + placement.offsetY;
+      const top = Math.max(dy, rowTop);
+      const bottom = Math.min(dy + placement.height, rowBottom);
+      if (bottom <= top || placement.height <= 0) continue;
+
+      // Map the row band back to source pixels
+      const scale = placement.sh / placement.height;
+      this.ctx.drawImage(
+        source,
+        placement.sx,
+        placement.sy + (top - dy) * scale,
+        placement.sw,
+        (bottom - top) * scale,
+        dx,
+        top,
+        placement.width,
+        bottom - top
+      );
+    }
   }
 
   /**
@@ -560,6 +790,14 @@ export class CanvasRenderer {
       return; // Selection background replaces cell background
     }
 
+    // Highlights also replace the cell background, but keep the text color
+    const highlight = getHighlightColor(this.highlights.get(this.viewportTop + y), x);
+    if (highlight) {
+      this.ctx.fillStyle = highlight;
+      this.ctx.fillRect(cellX, cellY, cellWidth, this.metrics.height);
+      return;
+    }
+
     // Extract background color and handle inverse
     let bg_r = cell.bg_r,
       bg_g = cell.bg_g,
@@ -581,6 +819,48 @@ export class CanvasRenderer {
     }
   }
 
+  /**
+   * Runs of a line to draw as one string. Runs break at selection boundaries
+   * and around the cursor, so the cursor always covers a single character.
+   */
+  private findLigatureRuns(line: GhosttyCell[], y: number): LigatureRun[] {
+    const cursor = this.ligatureCursor;
+    return findLigatureRuns(line, (x) => {
+      if (cursor && cursor.y === y && (cursor.x === x || cursor.x === x - 1)) return false;
+      return this.isInSelection(x, y) === this.isInSelection(x - 1, y);
+    });
+  }
+
+  /**
+   * Render a ligature run: its text in one fillText call, spanning exactly its
+   * cells, then the decorations of each cell
+   */
+  private renderTextRun(line: GhosttyCell[], run: LigatureRun, y: number): void {
+    const cell = line[run.start];
+    if (cell.flags & CellFlags.INVISIBLE) {
+      return;
+    }
+
+    this.setTextStyle(cell, this.isInSelection(run.start, y));
+    if (cell.flags & CellFlags.FAINT) {
+      this.ctx.globalAlpha = 0.5;
+    }
+    fillTextRun(
+      this.ctx,
+      run.text,
+      run.start * this.metrics.width,
+      y * this.metrics.height + this.metrics.baseline,
+      (run.end - run.start) * this.metrics.width
+    );
+    if (cell.flags & CellFlags.FAINT) {
+      this.ctx.globalAlpha = 1.0;
+    }
+
+    for (let x = run.start; x < run.end; x++) {
+      this.renderCellDecorations(line[x], x, y);
+    }
+  }
+
   /**
    * Render a cell's text and decorations (Pass 2 of two-pass rendering)
    * Selection foreground color is applied here to match the selection background.
@@ -588,40 +868,13 @@ export class CanvasRenderer {
   private renderCellText(cell: GhosttyCell, x: number, y: number): void {
     const cellX = x * this.metrics.width;
     const cellY = y * this.metrics.height;
-    const cellWidth = this.metrics.width * cell.width;
 
     // Skip rendering if invisible
     if (cell.flags & CellFlags.INVISIBLE) {
       return;
     }
 
-    // Check if this cell is selected
-    const isSelected = this.isInSelection(x, y);
-
-    // Set text style
-    let fontStyle = '';
-    if (cell.flags & CellFlags.ITALIC) fontStyle += 'italic ';
-    if (cell.flags & CellFlags.BOLD) fontStyle += 'bold ';
-    this.ctx.font = `${fontStyle}${this.fontSize}px ${this.fontFamily}`;
-
-    // Set text color - use selection foreground if selected
-    if (isSelected) {
-      this.ctx.fillStyle = this.theme.selectionForeground;
-    } else {
-      // Extract colors and handle inverse
-      let fg_r = cell.fg_r,
-        fg_g = cell.fg_g,
-        fg_b = cell.fg_b;
-
-      if (cell.flags & CellFlags.INVERSE) {
-        // When inverted, foreground becomes background
-        fg_r = cell.bg_r;
-        fg_g = cell.bg_g;
-        fg_b = cell.bg_b;
-      }
-
-      this.ctx.fillStyle = this.rgbToCSS(fg_r, fg_g, fg_b);
-    }
+    this.setTextStyle(cell, this.isInSelection(x, y));
 
     // Apply faint effect
     if (cell.flags & CellFlags.FAINT) {
@@ -641,22 +894,94 @@ export class CanvasRenderer {
       // Simple cell - single codepoint
       char = String.fromCodePoint(cell.codepoint || 32); // Default to space if null
     }
-    this.ctx.fillText(char, textX, textY);
+    if (this.customGlyphs && cell.grapheme_len === 0 && isCustomGlyph(cell.codepoint)) {
+      this.renderCustomGlyph(cell, cellX, cellY);
+    } else {
+      this.ctx.fillText(char, textX, textY);
+    }
 
     // Reset alpha
     if (cell.flags & CellFlags.FAINT) {
       this.ctx.globalAlpha = 1.0;
     }
 
-    // Draw underline
+    this.renderCellDecorations(cell, x, y);
+  }
+
+  /**
+   * Draw a box-drawing, block, braille or Powerline character in device
+   * pixels, with the cell rounded to whole pixels so neighbours meet exactly
+   */
+  private renderCustomGlyph(cell: GhosttyCell, cellX: number, cellY: number): void {
+    const dpr = this.devicePixelRatio;
+    const x = Math.round(cellX * dpr);
+    const y = Math.round(cellY * dpr);
+    const right = Math.round((cellX + this.metrics.width * cell.width) * dpr);
+    const bottom = Math.round((cellY + this.metrics.height) * dpr);
+
+    this.ctx.save();
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    drawCustomGlyph(this.ctx, cell.codepoint, x, y, right - x, bottom - y, dpr);
+    this.ctx.restore();
+  }
+
+  /**
+   * Set the font and text color of a cell (selected cells use the selection
+   * foreground to match the selection background)
+   */
+  private setTextStyle(cell: GhosttyCell, isSelected: boolean): void {
+    const weight = cell.flags & CellFlags.BOLD ? this.fontWeightBold : this.fontWeight;
+    const italic = (cell.flags & CellFlags.ITALIC) !== 0;
+    this.ctx.font = buildFont(this.fontSize, this.fontFamily, weight, italic);
+
+    // Set text color - use selection foreground if selected
+    if (isSelected) {
+      this.ctx.fillStyle = this.theme.selectionForeground;
+    } else {
+      // Extract colors and handle inverse
+      let fg_r = cell.fg_r,
+        fg_g = cell.fg_g,
+        fg_b = cell.fg_b;
+
+      if (cell.flags & CellFlags.INVERSE) {
+        // When inverted, foreground becomes background
+        fg_r = cell.bg_r;
+        fg_g = cell.bg_g;
+        fg_b = cell.bg_b;
+      }
+
+      this.ctx.fillStyle = this.rgbToCSS(fg_r, fg_g, fg_b);
+    }
+  }
+
+  /**
+   * Draw a cell's underline, strikethrough and link underlines in the current
+   * text color
+   */
+  private renderCellDecorations(cell: GhosttyCell, x: number, y: number): void {
+    const cellX = x * this.metrics.width;
+    const cellY = y * this.metrics.height;
+    const cellWidth = this.metrics.width * cell.width;
+
+    // Draw underline (in the SGR 58 color if one is set)
     if (cell.flags & CellFlags.UNDERLINE) {
-      const underlineY = cellY + this.metrics.baseline + 2;
-      this.ctx.strokeStyle = this.ctx.fillStyle;
-      this.ctx.lineWidth = 1;
-      this.ctx.beginPath();
-      this.ctx.moveTo(cellX, underlineY);
-      this.ctx.lineTo(cellX + cellWidth, underlineY);
-      this.ctx.stroke();
+      const textColor = this.ctx.fillStyle;
+      if (cell.has_ul_color && !this.isInSelection(x, y)) {
+        this.ctx.fillStyle = this.rgbToCSS(cell.ul_r, cell.ul_g, cell.ul_b);
+      }
+      const rects = underlineRects(
+        cell.underline_style || UnderlineStyle.SINGLE,
+        cellX,
+        cellY + this.metrics.baseline + 1.5,
+        cellWidth,
+        1,
+        this.metrics.width,
+        1 / this.devicePixelRatio
+      );
+      for (const [rectX, rectY, rectWidth, rectHeight] of rects) {
+        this.ctx.fillRect(rectX, rectY, rectWidth, rectHeight);
+      }
+      this.ctx.fillStyle = textColor;
     }
 
     // Draw strikethrough
@@ -710,11 +1035,11 @@ export class CanvasRenderer {
   /**
    * Render cursor
    */
-  private renderCursor(x: number, y: number): void {
+  private renderCursor(x: number, y: number, color: RGB | null): void {
     const cursorX = x * this.metrics.width;
     const cursorY = y * this.metrics.height;
 
-    this.ctx.fillStyle = this.theme.cursor;
+    this.ctx.fillStyle = color ? this.rgbToCSS(color.r, color.g, color.b) : this.theme.cursor;
 
     switch (this.cursorStyle) {
       case 'block':
@@ -747,7 +1072,7 @@ export class CanvasRenderer {
 
   private startCursorBlink(): void {
     // xterm.js uses ~530ms blink interval
-    this.cursorBlinkInterval = window.setInterval(() => {
+    this.cursorBlinkInterval = setInterval(() => {
       this.cursorVisible = !this.cursorVisible;
       // Note: Render loop should redraw cursor line automatically
     }, 530);
@@ -808,6 +1133,15 @@ export class CanvasRenderer {
     this.metrics = this.measureFont();
   }
 
+  /**
+   * Update the weights of normal and bold text
+   */
+  public setFontWeight(weight: FontWeight, boldWeight: FontWeight): void {
+    this.fontWeight = weight;
+    this.fontWeightBold = boldWeight;
+    this.metrics = this.measureFont();
+  }
+
   /**
    * Update cursor style
    */
@@ -828,6 +1162,20 @@ export class CanvasRenderer {
     }
   }
 
+  /**
+   * Enable/disable procedural custom glyphs (takes effect on the next full render)
+   */
+  public setCustomGlyphs(enabled: boolean): void {
+    this.customGlyphs = enabled;
+  }
+
+  /**
+   * Enable/disable ligature runs (takes effect on the next full render)
+   */
+  public setFontLigatures(enabled: boolean): void {
+    this.fontLigatures = enabled;
+  }
+
   /**
    * Get current font metrics
    */
@@ -886,13 +1234,24 @@ export class CanvasRenderer {
    * Get canvas element (needed by SelectionManager)
    */
   public getCanvas(): HTMLCanvasElement {
+    if (!('style' in this.canvas)) {
+      throw new Error('Renderer draws to an OffscreenCanvas, which has no element');
+    }
     return this.canvas;
   }
 
+  /**
+   * Change the device pixel ratio (e.g. after moving to another display).
+   * The canvas is resized on the next render.
+   */
+  public setDevicePixelRatio(ratio: number): void {
+    this.devicePixelRatio = ratio;
+  }
+
   /**
    * Set selection manager (for rendering selection)
    */
-  public setSelectionManager(manager: SelectionManager): void {
+  public setSelectionManager(manager: IRenderSelection): void {
     this.selectionManager = manager;
   }
 
@@ -962,6 +1321,29 @@ export class CanvasRenderer {
     return this.metrics.height;
   }
 
+  /**
+   * Set the image storage to draw inline images from
+   */
+  public setImageStorage(storage: ImageStorage): void {
+    this.imageStorage = storage;
+    this.lastImageVersion = -1;
+  }
+
+  /**
+   * Set the cell highlights drawn under the text
+   */
+  public setHighlights(highlights: CellHighlight[]): void {
+    this.highlights = groupHighlightsByRow(highlights);
+    this.highlightsChanged = true;
+  }
+
+  /**
+   * Flash the canvas for BELL_FLASH_DURATION (visual bell)
+   */
+  public flashBell(): void {
+    this.bellFlashEnd = performance.now() + BELL_FLASH_DURATION;
+  }
+
   /**
    * Clear entire canvas
    */
@@ -11,9 +11,9 @@
  */
 
 import { EventEmitter } from './event-emitter';
-import type { GhosttyTerminal } from './ghostty';
+import type { IGhosttyTerminal } from './ghostty';
 import type { IEvent } from './interfaces';
-import type { CanvasRenderer } from './renderer';
+import type { IRenderer } from './renderer';
 import type { Terminal } from './terminal';
 import type { GhosttyCell } from './types';
 
@@ -34,8 +34,8 @@ export interface SelectionCoordinates {
 
 export class SelectionManager {
   private terminal: Terminal;
-  private renderer: CanvasRenderer;
-  private wasmTerm: GhosttyTerminal;
+  private renderer: IRenderer;
+  private wasmTerm: IGhosttyTerminal;
   private textarea: HTMLTextAreaElement;
 
   // Selection state - coordinates are in ABSOLUTE buffer space (viewportY + viewportRow)
@@ -98,8 +98,8 @@ export class SelectionManager {
 
   constructor(
     terminal: Terminal,
-    renderer: CanvasRenderer,
-    wasmTerm: GhosttyTerminal,
+    renderer: IRenderer,
+    wasmTerm: IGhosttyTerminal,
     textarea: HTMLTextAreaElement
   ) {
     this.terminal = terminal;
@@ -320,6 +320,17 @@ export class SelectionManager {
     this.selectionChangedEmitter.fire();
   }
 
+  /**
+   * Select from one buffer cell to another (inclusive, absolute rows like
+   * getSelectionPosition)
+   */
+  selectRange(start: { x: number; y: number }, end: { x: number; y: number }): void {
+    this.selectionStart = { col: start.x, absoluteRow: start.y };
+    this.selectionEnd = { col: end.x, absoluteRow: end.y };
+    this.requestRender();
+    this.selectionChangedEmitter.fire();
+  }
+
   /**
    * Get selection position as buffer range
    * xterm.js compatible API
@@ -863,7 +874,7 @@ export class SelectionManager {
    * 2. Try navigator.clipboard.writeText (modern async API, may fail in Safari)
    * 3. Fall back to execCommand (legacy, for older browsers)
    */
-  private copyToClipboard(text: string): void {
+  copyToClipboard(text: string): void {
     // First try: ClipboardItem API (modern, Safari-compatible)
     // Safari allows this because we create the ClipboardItem synchronously
     // within the user gesture, even though the write is async
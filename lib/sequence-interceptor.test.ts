@@ -0,0 +1,105 @@
+/**
+ * Tests for the sequence interceptor that routes kitty graphics APCs to JavaScript
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { SequenceInterceptor, type WriteSegment } from './sequence-interceptor';
+
+function processAll(interceptor: SequenceInterceptor, chunks: (string | Uint8Array)[]) {
+  const segments: WriteSegment[] = [];
+  for (const chunk of chunks) segments.push(...interceptor.process(chunk));
+  return segments;
+}
+
+describe('SequenceInterceptor', () => {
+  test('passes data without APC sequences through unchanged', () => {
+    const interceptor = new SequenceInterceptor();
+    const data = 'hello \x1b[31mworld\x1b]0;title\x07';
+    expect(interceptor.process(data)).toEqual([data]);
+  });
+
+  test('extracts kitty graphics sequences in order', () => {
+    const interceptor = new SequenceInterceptor();
+    expect(interceptor.process('a\x1b_Ga=T;AAAA\x1b\\b')).toEqual([
+      'a',
+      { type: 'apc', data: 'Ga=T;AAAA' },
+      'b',
+    ]);
+  });
+
+  test('passes other APC sequences to the parser', () => {
+    const interceptor = new SequenceInterceptor();
+    expect(interceptor.process('\x1b_Xdata\x1b\\')).toEqual(['\x1b_Xdata\x1b\\']);
+  });
+
+  test('handles sequences split across writes', () => {
+    const interceptor = new SequenceInterceptor();
+    const segments = processAll(interceptor, ['x\x1b', '_', 'Ga=q;', 'AA\x1b', '\\y']);
+    expect(segments).toEqual(['x', { type: 'apc', data: 'Ga=q;AA' }, 'y']);
+  });
+
+  test('holds back a trailing ESC until the next write', () => {
+    const interceptor = new SequenceInterceptor();
+    expect(interceptor.process('abc\x1b')).toEqual(['abc']);
+    expect(interceptor.process('[0m')).toEqual(['\x1b[0m']);
+  });
+
+  test('handles byte input', () => {
+    const interceptor = new SequenceInterceptor();
+    const encoder = new TextEncoder();
+    const segments = interceptor.process(encoder.encode('a\x1b_Gi=1;AA\x1b\\b'));
+    expect(segments).toEqual([
+      encoder.encode('a'),
+      { type: 'apc', data: 'Gi=1;AA' },
+      encoder.encode('b'),
+    ]);
+  });
+
+  test('aborts a sequence interrupted by another escape sequence', () => {
+    const interceptor = new SequenceInterceptor();
+    expect(interceptor.process('\x1b_Gi=1\x1b[0mz')).toEqual(['\x1b[0mz']);
+  });
+
+  test('extracts sixel DCS sequences', () => {
+    const interceptor = new SequenceInterceptor();
+    expect(interceptor.process('a\x1bP0;1;0q#0!3~\x1b\\b')).toEqual([
+      'a',
+      { type: 'dcs', data: '0;1;0q#0!3~' },
+      'b',
+    ]);
+  });
+
+  test('waits for the DCS final character across writes', () => {
+    const interceptor = new SequenceInterceptor();
+    const segments = processAll(interceptor, ['\x1bP0;', '1', 'q~~', '\x1b\\']);
+    expect(segments).toEqual([{ type: 'dcs', data: '0;1q~~' }]);
+  });
+
+  test('passes other DCS sequences to the parser', () => {
+    const interceptor = new SequenceInterceptor();
+    expect(interceptor.process('\x1bP$qm\x1b\\')).toEqual(['\x1bP$qm\x1b\\']);
+  });
+
+  test('extracts selected OSC commands ending with BEL or ST', () => {
+    const interceptor = new SequenceInterceptor({ osc: [52] });
+    expect(interceptor.process('\x1b]52;c;?\x07\x1b]0;title\x07\x1b]52;c;aGk=\x1b\\')).toEqual([
+      { type: 'osc', data: '52;c;?' },
+      '\x1b]0;title\x07',
+      { type: 'osc', data: '52;c;aGk=' },
+    ]);
+  });
+
+  test('decodes UTF-8 split across byte writes', () => {
+    const interceptor = new SequenceInterceptor({ osc: [52] });
+    const bytes = new TextEncoder().encode('\x1b]52;é\x07');
+    const segments = processAll(interceptor, [bytes.subarray(0, 6), bytes.subarray(6)]);
+    expect(segments).toEqual([{ type: 'osc', data: '52;é' }]);
+  });
+
+  test('reset drops a partial sequence', () => {
+    const interceptor = new SequenceInterceptor();
+    interceptor.process('\x1b_Gi=1;AA');
+    interceptor.reset();
+    expect(interceptor.process('text')).toEqual(['text']);
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * Sequence Interceptor
+ *
+ * Splits terminal output into data for the WASM parser and control strings
+ * that are handled in JavaScript:
+ * - Kitty graphics APC (`ESC _ G ... ESC \`)
+ * - Sixel DCS (`ESC P <params> q ... ESC \`)
+ * - Selected OSC commands (`ESC ] <Ps> ; ... BEL` or `... ESC \`)
+ *
+ * Intercepted sequences are removed from the stream and returned in order
+ * with the surrounding data, so the caller can apply them at the right point.
+ *
+ * State is kept across writes: sequences may be split at any byte.
+ */
+
+export interface InterceptedSequence {
+  type: 'apc' | 'dcs' | 'osc';
+  /** Sequence body between the introducer (`ESC _`, `ESC P` or `ESC ]`) and the terminator */
+  data: string;
+}
+
+export interface SequenceInterceptorOptions {
+  /** First characters of APC bodies to intercept (default: 'G', kitty graphics) */
+  apc?: string;
+  /** Final characters (after the parameters) of DCS sequences to intercept (default: 'q', sixel) */
+  dcs?: string;
+  /** OSC command numbers to intercept (default: none) */
+  osc?: readonly number[];
+}
+
+export type WriteSegment = string | Uint8Array | InterceptedSequence;
+
+const ESC = 0x1b;
+const APC_INTRODUCER = 0x5f; // '_'
+const DCS_INTRODUCER = 0x50; // 'P'
+const OSC_INTRODUCER = 0x5d; // ']'
+const ST_FINAL = 0x5c; // '\'
+const BEL = 0x07;
+const SEMICOLON = 0x3b;
+
+/** Sequences longer than this are discarded (protects against runaway data) */
+const MAX_SEQUENCE_LENGTH = 64 * 1024 * 1024;
+
+/** DCS parameters and OSC numbers longer than this are not intercepted */
+const MAX_PARAMS_LENGTH = 32;
+
+// ============================================================================
+// Helpers (work on both strings and byte arrays)
+// ============================================================================
+
+function codeAt(data: string | Uint8Array, index: number): number {
+  return typeof data === 'string' ? data.charCodeAt(index) : data[index];
+}
+
+function indexOfEsc(data: string | Uint8Array, from: number): number {
+  return typeof data === 'string' ? data.indexOf('\x1b', from) : data.indexOf(ESC, from);
+}
+
+/** Find the next BEL at or after from (before `end`), or -1 */
+function indexOfBel(data: string | Uint8Array, from: number, end: number): number {
+  const bel = typeof data === 'string' ? data.indexOf('\x07', from) : data.indexOf(BEL, from);
+  return bel !== -1 && bel < end ? bel : -1;
+}
+
+/** Find the next APC, DCS or OSC introducer (ESC _, ESC P or ESC ]) */
+function indexOfIntroducer(data: string | Uint8Array, from: number): number {
+  let esc = indexOfEsc(data, from);
+  while (esc !== -1 && esc + 1 < data.length) {
+    const next = codeAt(data, esc + 1);
+    if (next === APC_INTRODUCER || next === DCS_INTRODUCER || next === OSC_INTRODUCER) return esc;
+    esc = indexOfEsc(data, esc + 1);
+  }
+  return -1;
+}
+
+function isDigit(code: number): boolean {
+  return code >= 0x30 && code <= 0x39;
+}
+
+/** DCS parameter bytes: digits and ';' */
+function isParamByte(code: number): boolean {
+  return isDigit(code) || code === SEMICOLON;
+}
+
+function slice(data: string | Uint8Array, start: number, end?: number): string | Uint8Array {
+  return typeof data === 'string' ? data.slice(start, end) : data.subarray(start, end);
+}
+
+/** Decode short ASCII data (e.g. parameters) to a string */
+function toText(data: string | Uint8Array): string {
+  return typeof data === 'string' ? data : String.fromCharCode(...data);
+}
+
+/**
+ * Join collected chunks into a string. Byte input is decoded as UTF-8 in one
+ * pass, so characters split across writes are decoded correctly.
+ */
+function decodeChunks(chunks: (string | Uint8Array)[]): string {
+  if (chunks.every((chunk) => typeof chunk === 'string')) return chunks.join('');
+
+  const encoder = new TextEncoder();
+  const parts = chunks.map((chunk) => (typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+function prepend(prefix: number[], data: string | Uint8Array): string | Uint8Array {
+  if (typeof data === 'string') return String.fromCharCode(...prefix) + data;
+  const joined = new Uint8Array(prefix.length + data.length);
+  joined.set(prefix);
+  joined.set(data, prefix.length);
+  return joined;
+}
+
+// ============================================================================
+// SequenceInterceptor Class
+// ============================================================================
+
+export class SequenceInterceptor {
+  /** Body of the sequence currently being collected, or null outside of one */
+  private sequence: (string | Uint8Array)[] | null = null;
+  private sequenceType: InterceptedSequence['type'] = 'apc';
+  private sequenceLength = 0;
+  private discarding = false;
+  /** The previous write ended with ESC inside an intercepted sequence */
+  private pendingTerminator = false;
+  /** Bytes held back from the previous write (a possible sequence start) */
+  private carry: number[] = [];
+
+  private readonly apcIdentifiers: string;
+  private readonly dcsFinals: string;
+  private readonly oscCommands: ReadonlySet<number>;
+
+  constructor(options: SequenceInterceptorOptions = {}) {
+    this.apcIdentifiers = options.apc ?? 'G';
+    this.dcsFinals = options.dcs ?? 'q';
+    this.oscCommands = new Set(options.osc ?? []);
+  }
+
+  /**
+   * Split written data into segments.
+   * Returns `[data]` unchanged when nothing needs intercepting.
+   */
+  process(data: string | Uint8Array): WriteSegment[] {
+    if (this.carry.length > 0) {
+      data = prepend(this.carry, data);
+      this.carry = [];
+    }
+
+    // Fast path: no sequence in progress and no introducer in the data
+    const endsWithEsc = data.length > 0 && codeAt(data, data.length - 1) === ESC;
+    if (
+      this.sequence === null &&
+      !this.pendingTerminator &&
+      !endsWithEsc &&
+      indexOfIntroducer(data, 0) === -1
+    ) {
+      return [data];
+    }
+
+    const segments: WriteSegment[] = [];
+    let pos = 0;
+
+    if (this.pendingTerminator) {
+      this.pendingTerminator = false;
+      if (data.length > 0 && codeAt(data, 0) === ST_FINAL) {
+        this.finishSequence(segments);
+        pos = 1;
+      } else {
+        // ESC followed by something else aborts the sequence
+        this.resetSequence();
+      }
+    }
+
+    while (pos < data.length) {
+      if (this.sequence !== null) {
+        pos = this.collect(data, pos, segments);
+        continue;
+      }
+
+      const start = indexOfIntroducer(data, pos);
+      if (start === -1) {
+        // Hold back a trailing ESC: it may start a sequence in the next write
+        const end = endsWithEsc ? data.length - 1 : data.length;
+        if (end > pos) segments.push(slice(data, pos, end));
+        if (endsWithEsc) this.carry.push(ESC);
+        break;
+      }
+
+      if (start > pos) segments.push(slice(data, pos, start));
+
+      // Need the APC identifier, the DCS parameters and final character, or the
+      // OSC command number to decide
+      const introducer = codeAt(data, start + 1);
+      const type =
+        introducer === APC_INTRODUCER ? 'apc' : introducer === DCS_INTRODUCER ? 'dcs' : 'osc';
+      let decider = start + 2;
+      if (type !== 'apc') {
+        const accept = type === 'dcs' ? isParamByte : isDigit;
+        while (
+          decider < data.length &&
+          decider - start - 2 < MAX_PARAMS_LENGTH &&
+          accept(codeAt(data, decider))
+        ) {
+          decider++;
+        }
+      }
+      if (decider >= data.length) {
+        for (let i = start; i < data.length; i++) this.carry.push(codeAt(data, i));
+        break;
+      }
+
+      if (this.shouldIntercept(type, data, start + 2, decider)) {
+        this.sequence = [];
+        this.sequenceType = type;
+        this.sequenceLength = 0;
+      } else {
+        // Some other sequence: pass it through to the parser
+        segments.push(slice(data, start, start + 2));
+      }
+      pos = start + 2;
+    }
+
+    return this.mergeSegments(segments);
+  }
+
+  /**
+   * Decide whether to intercept a sequence
+   * @param paramsStart - Index after the introducer
+   * @param decider - Index of the APC identifier, DCS final or character after the OSC number
+   */
+  private shouldIntercept(
+    type: InterceptedSequence['type'],
+    data: string | Uint8Array,
+    paramsStart: number,
+    decider: number
+  ): boolean {
+    const code = codeAt(data, decider);
+    switch (type) {
+      case 'apc':
+        return this.apcIdentifiers.includes(String.fromCharCode(code));
+      case 'dcs':
+        return this.dcsFinals.includes(String.fromCharCode(code));
+      case 'osc': {
+        if (decider === paramsStart || (code !== SEMICOLON && code !== BEL && code !== ESC)) {
+          return false;
+        }
+        const command = Number.parseInt(toText(slice(data, paramsStart, decider)), 10);
+        return this.oscCommands.has(command);
+      }
+    }
+  }
+
+  /**
+   * Collect sequence body from data starting at pos. Returns the new position.
+   */
+  private collect(data: string | Uint8Array, pos: number, segments: WriteSegment[]): number {
+    const esc = indexOfEsc(data, pos);
+    const limit = esc === -1 ? data.length : esc;
+
+    // OSC sequences may also end with BEL
+    const bel = this.sequenceType === 'osc' ? indexOfBel(data, pos, limit) : -1;
+    if (bel !== -1) {
+      this.append(slice(data, pos, bel));
+      this.finishSequence(segments);
+      return bel + 1;
+    }
+
+    this.append(slice(data, pos, limit));
+
+    if (esc === -1) return data.length;
+    if (esc + 1 >= data.length) {
+      this.pendingTerminator = true;
+      return data.length;
+    }
+    if (codeAt(data, esc + 1) === ST_FINAL) {
+      this.finishSequence(segments);
+      return esc + 2;
+    }
+
+    // ESC followed by something else aborts the sequence; the ESC starts a new one
+    this.resetSequence();
+    return esc;
+  }
+
+  private append(chunk: string | Uint8Array): void {
+    if (this.discarding || chunk.length === 0) return;
+    this.sequenceLength += chunk.length;
+    if (this.sequenceLength > MAX_SEQUENCE_LENGTH) {
+      this.discarding = true;
+      this.sequence = [];
+      return;
+    }
+    // Copy bytes: the caller may reuse its buffer
+    this.sequence!.push(typeof chunk === 'string' ? chunk : chunk.slice());
+  }
+
+  private finishSequence(segments: WriteSegment[]): void {
+    if (!this.discarding && this.sequence) {
+      segments.push({ type: this.sequenceType, data: decodeChunks(this.sequence) });
+    }
+    this.resetSequence();
+  }
+
+  private resetSequence(): void {
+    this.sequence = null;
+    this.sequenceLength = 0;
+    this.discarding = false;
+  }
+
+  /**
+   * Join adjacent passthrough segments of the same type
+   */
+  private mergeSegments(segments: WriteSegment[]): WriteSegment[] {
+    const merged: WriteSegment[] = [];
+    for (const segment of segments) {
+      const last = merged[merged.length - 1];
+      if (typeof segment === 'string' && typeof last === 'string') {
+        merged[merged.length - 1] = last + segment;
+      } else if (segment instanceof Uint8Array && last instanceof Uint8Array) {
+        const joined = new Uint8Array(last.length + segment.length);
+        joined.set(last);
+        joined.set(segment, last.length);
+        merged[merged.length - 1] = joined;
+      } else {
+        merged.push(segment);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Drop any partially received sequence (e.g. on terminal reset)
+   */
+  reset(): void {
+    this.resetSequence();
+    this.pendingTerminator = false;
+    this.carry = [];
+  }
+}
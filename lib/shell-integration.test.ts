@@ -0,0 +1,146 @@
+/**
+ * Tests for OSC 133 shell integration
+ */
+
+import { beforeEach, describe, expect, test } from 'bun:test';
+import type { ICommandFinishedEvent } from './interfaces';
+import { ShellIntegration } from './shell-integration';
+
+describe('ShellIntegration', () => {
+  let cursor: { col: number; row: number };
+  let alternateScreen: boolean;
+  let finished: ICommandFinishedEvent[];
+  let shell: ShellIntegration;
+
+  /** Move the cursor, then receive a mark */
+  function mark(col: number, row: number, body: string): void {
+    cursor = { col, row };
+    shell.handle(`133;${body}`);
+  }
+
+  beforeEach(() => {
+    cursor = { col: 0, row: 0 };
+    alternateScreen = false;
+    finished = [];
+    shell = new ShellIntegration({
+      getCursor: () => cursor,
+      isAlternateScreen: () => alternateScreen,
+      commandFinished: (event) => finished.push(event),
+    });
+  });
+
+  test('records prompt, input and output positions of a command', () => {
+    mark(0, 10, 'A');
+    mark(2, 10, 'B');
+    mark(0, 11, 'C');
+    mark(0, 13, 'D;0');
+
+    expect(shell.getCommands()).toEqual([
+      {
+        promptStart: { x: 0, y: 10 },
+        inputStart: { x: 2, y: 10 },
+        outputStart: { x: 0, y: 11 },
+        outputEnd: { x: 0, y: 13 },
+        exitCode: 0,
+        startTime: expect.any(Number),
+        endTime: expect.any(Number),
+      },
+    ]);
+  });
+
+  test('fires commandFinished with the exit code and duration', () => {
+    mark(0, 0, 'A');
+    mark(2, 0, 'B');
+    mark(0, 1, 'C');
+    mark(0, 2, 'D;127;err=not found');
+
+    expect(finished).toHaveLength(1);
+    expect(finished[0].exitCode).toBe(127);
+    expect(finished[0].duration).toBeGreaterThanOrEqual(0);
+    expect(finished[0].command).toBe(shell.getCommands()[0]);
+  });
+
+  test('ends a command at the next prompt when D is missing', () => {
+    mark(0, 0, 'A');
+    mark(0, 1, 'C');
+    mark(0, 3, 'A');
+
+    const [first, second] = shell.getCommands();
+    expect(first.outputEnd).toEqual({ x: 0, y: 3 });
+    expect(first.exitCode).toBeUndefined();
+    expect(second.promptStart).toEqual({ x: 0, y: 3 });
+    expect(finished).toHaveLength(1);
+  });
+
+  test('does not fire for commands that never ran', () => {
+    mark(0, 0, 'A');
+    mark(2, 0, 'B');
+    mark(0, 1, 'D');
+
+    expect(shell.getCommands()[0].outputEnd).toEqual({ x: 0, y: 1 });
+    expect(finished).toHaveLength(0);
+  });
+
+  test('starts a command for marks without a prompt mark', () => {
+    mark(4, 5, 'C');
+
+    expect(shell.getCommands()).toEqual([
+      { promptStart: { x: 4, y: 5 }, outputStart: { x: 4, y: 5 }, startTime: expect.any(Number) },
+    ]);
+  });
+
+  test('ignores marks on the alternate screen and unknown marks', () => {
+    alternateScreen = true;
+    mark(0, 0, 'A');
+    alternateScreen = false;
+    mark(0, 0, 'P;k=i');
+    mark(0, 0, 'D;1');
+
+    expect(shell.getCommands()).toEqual([]);
+  });
+
+  test('reports the region each line starts in', () => {
+    mark(0, 10, 'A');
+    mark(0, 11, 'B'); // Two-line prompt, input on its own line
+    mark(5, 11, 'C'); // Output starts after the input on the same line
+    mark(0, 14, 'D;0');
+    mark(0, 15, 'A');
+
+    expect(shell.getRegion(9)).toBeUndefined();
+    expect(shell.getRegion(10)).toBe('prompt');
+    expect(shell.getRegion(11)).toBe('input');
+    expect(shell.getRegion(12)).toBe('output');
+    expect(shell.getRegion(13)).toBe('output');
+    expect(shell.getRegion(14)).toBeUndefined();
+    expect(shell.getRegion(15)).toBe('prompt');
+    expect(shell.getRegion(20)).toBe('prompt');
+  });
+
+  test('finds the command containing a row', () => {
+    mark(0, 0, 'A');
+    mark(0, 5, 'A');
+
+    expect(shell.findCommand(4)).toBe(shell.getCommands()[0]);
+    expect(shell.findCommand(5)).toBe(shell.getCommands()[1]);
+
+    shell.reset();
+    expect(shell.findCommand(5)).toBeUndefined();
+  });
+
+  test('forgets commands whose prompt was pruned', () => {
+    mark(0, 0, 'A');
+    mark(0, 5, 'A');
+    mark(0, 6, 'C');
+
+    shell.prune(5);
+    expect(shell.getCommands().map((command) => command.promptStart.y)).toEqual([5]);
+
+    // The command in progress stays until it finishes
+    shell.prune(10);
+    expect(shell.getCommands()).toHaveLength(1);
+    mark(0, 12, 'D;0');
+    expect(finished).toHaveLength(1);
+    shell.prune(10);
+    expect(shell.getCommands()).toEqual([]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Shell integration (OSC 133 semantic prompts)
+ *
+ * Tracks the prompt, input and output of each command from the FinalTerm
+ * marks that shells emit with shell integration enabled:
+ * - `OSC 133 ; A` prompt start
+ * - `OSC 133 ; B` prompt end, command line start
+ * - `OSC 133 ; C` command line end, output start (the command runs)
+ * - `OSC 133 ; D [; <exit code>]` command finished
+ *
+ * Marks are anchored to the cursor cell, with absolute rows (rows pruned
+ * from the scrollback + scrollback length + screen row) like image
+ * placements. Commands are forgotten once their prompt is pruned from the
+ * scrollback. Marks received while the alternate screen is active are
+ * ignored, as full-screen applications don't have commands.
+ *
+ * @see https://gitlab.freedesktop.org/Per_Bothner/specifications/blob/master/proposals/semantic-prompts.md
+ */
+
+import type { ICommandFinishedEvent, IShellCommand } from './interfaces';
+
+/** Kind of content on a line, by the region it starts in */
+export type SemanticRegion = 'prompt' | 'input' | 'output';
+
+export interface ShellIntegrationHost {
+  /** Cursor position: column and absolute row */
+  getCursor(): { col: number; row: number };
+  isAlternateScreen(): boolean;
+  /** Called when a command that ran (OSC 133;C) finishes */
+  commandFinished(event: ICommandFinishedEvent): void;
+}
+
+export class ShellIntegration {
+  /** Commands in buffer order; the last one may still be in progress */
+  private commands: IShellCommand[] = [];
+
+  constructor(private readonly host: ShellIntegrationHost) {}
+
+  /**
+   * Handle an OSC body (starting with '133;')
+   */
+  handle(body: string): void {
+    if (this.host.isAlternateScreen()) return;
+
+    // Options after the mark (e.g. `A;aid=1` or `D;0;err=...`) are ignored, except the exit code
+    const [, mark, ...params] = body.split(';');
+    const { col, row } = this.host.getCursor();
+    const position = { x: col, y: row };
+    let command: IShellCommand | undefined = this.commands[this.commands.length - 1];
+
+    switch (mark) {
+      case 'A':
+        // A new prompt ends the previous command, even without D
+        if (command && !command.outputEnd) this.finish(command, position);
+        this.commands.push({ promptStart: position });
+        break;
+      case 'B':
+        if (!command || command.inputStart || command.outputEnd) {
+          command = this.start(position);
+        }
+        command.inputStart = position;
+        break;
+      case 'C':
+        if (!command || command.outputStart || command.outputEnd) {
+          command = this.start(position);
+        }
+        command.outputStart = position;
+        command.startTime = Date.now();
+        break;
+      case 'D': {
+        if (!command || command.outputEnd) return;
+        const exitCode = Number.parseInt(params[0] ?? '', 10);
+        this.finish(command, position, Number.isNaN(exitCode) ? undefined : exitCode);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Get the commands in buffer order
+   */
+  getCommands(): IShellCommand[] {
+    return this.commands;
+  }
+
+  /**
+   * Get the region an absolute row starts in, or undefined for rows outside
+   * any command (or without shell integration)
+   */
+  getRegion(row: number): SemanticRegion | undefined {
+    const command = this.findCommand(row);
+    if (!command) return undefined;
+
+    const { inputStart, outputStart, outputEnd } = command;
+    // A mark at column 0 applies to its own row, otherwise from the next row
+    const startsBy = (position: { x: number; y: number }) =>
+      row > position.y || (row === position.y && position.x === 0);
+
+    if (outputEnd && startsBy(outputEnd)) return undefined;
+    if (outputStart && startsBy(outputStart)) return 'output';
+    if (inputStart && startsBy(inputStart)) return 'input';
+    return 'prompt';
+  }
+
+  /**
+   * Get the last command whose prompt starts at or above an absolute row
+   */
+  findCommand(row: number): IShellCommand | undefined {
+    for (let i = this.commands.length - 1; i >= 0; i--) {
+      if (this.commands[i].promptStart.y <= row) return this.commands[i];
+    }
+    return undefined;
+  }
+
+  /**
+   * Forget commands whose prompt was pruned from the scrollback. The command
+   * in progress is kept, so that it still finishes.
+   * @param firstRow - Absolute row of the oldest scrollback line
+   */
+  prune(firstRow: number): void {
+    const last = this.commands.length - 1;
+    let count = 0;
+    while (count <= last && this.commands[count].promptStart.y < firstRow) {
+      if (count === last && !this.commands[last].outputEnd) break;
+      count++;
+    }
+    if (count > 0) this.commands.splice(0, count);
+  }
+
+  /**
+   * Forget all commands (e.g. on terminal reset)
+   */
+  reset(): void {
+    this.commands = [];
+  }
+
+  /**
+   * Start a command from a mark without a preceding prompt mark
+   */
+  private start(position: { x: number; y: number }): IShellCommand {
+    const command: IShellCommand = { promptStart: position };
+    this.commands.push(command);
+    return command;
+  }
+
+  private finish(
+    command: IShellCommand,
+    position: { x: number; y: number },
+    exitCode?: number
+  ): void {
+    command.outputEnd = position;
+    command.exitCode = exitCode;
+
+    // Commands that never ran (e.g. an empty command line) only get an end
+    if (command.startTime === undefined) return;
+    command.endTime = Date.now();
+    this.host.commandFinished({
+      command,
+      exitCode,
+      duration: command.endTime - command.startTime,
+    });
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Tests for sixel decoding and placement
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { ImageStorage } from './image-storage';
+import { SixelGraphics, decodeSixel } from './sixel';
+
+/** Read the RGBA pixel at (x, y) */
+function pixel(image: { width: number; pixels: Uint8ClampedArray }, x: number, y: number) {
+  const offset = (y * image.width + x) * 4;
+  return Array.from(image.pixels.slice(offset, offset + 4));
+}
+
+// ============================================================================
+// decodeSixel
+// ============================================================================
+
+describe('decodeSixel', () => {
+  test('decodes sixels with defined RGB colors', () => {
+    // '~' sets all six pixels, '?' sets none
+    const image = decodeSixel('0;1;0q#1;2;100;0;0#1~~?')!;
+
+    expect(image.width).toBe(3);
+    expect(image.height).toBe(6);
+    expect(pixel(image, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixel(image, 1, 5)).toEqual([255, 0, 0, 255]);
+    // P2=1: undrawn pixels stay transparent
+    expect(pixel(image, 2, 0)).toEqual([0, 0, 0, 0]);
+  });
+
+  test('fills undrawn pixels with the background color unless P2 is 1', () => {
+    const image = decodeSixel('0;0;0q"1;1;2;2#1;2;0;100;0#1@')!;
+
+    expect(pixel(image, 0, 0)).toEqual([0, 255, 0, 255]);
+    expect(pixel(image, 0, 1)).toEqual([0, 0, 0, 255]);
+    expect(pixel(image, 1, 0)).toEqual([0, 0, 0, 255]);
+  });
+
+  test('supports repeat, carriage return and next line', () => {
+    const image = decodeSixel('q#1;2;0;0;100#1!4@$#2;2;100;100;100A-#1!2~')!;
+
+    expect(image.width).toBe(4);
+    expect(image.height).toBe(12);
+    expect(pixel(image, 3, 0)).toEqual([0, 0, 255, 255]);
+    // '$' returns to the start of the band, so color 2 draws row 1
+    expect(pixel(image, 0, 1)).toEqual([255, 255, 255, 255]);
+    expect(pixel(image, 1, 11)).toEqual([0, 0, 255, 255]);
+  });
+
+  test('converts HLS colors with blue at hue 0', () => {
+    const image = decodeSixel('0;1q#1;1;0;50;100#1~')!;
+
+    expect(pixel(image, 0, 0)).toEqual([0, 0, 255, 255]);
+  });
+
+  test('uses raster attributes as the minimum size', () => {
+    const image = decodeSixel('0;1q"1;1;10;12~')!;
+
+    expect(image.width).toBe(10);
+    expect(image.height).toBe(12);
+  });
+
+  test('returns null for empty images', () => {
+    expect(decodeSixel('0;1q')).toBeNull();
+  });
+});
+
+// ============================================================================
+// SixelGraphics
+// ============================================================================
+
+describe('SixelGraphics', () => {
+  function setup() {
+    const storage = new ImageStorage();
+    const moves: { cols: number; rows: number }[] = [];
+    const sixel = new SixelGraphics(storage, {
+      getCursor: () => ({ col: 2, row: 3 }),
+      isAlternateScreen: () => false,
+      getCellSize: () => ({ width: 10, height: 20 }),
+      moveCursor: (cols, rows) => {
+        moves.push({ cols, rows });
+      },
+    });
+    return { storage, moves, sixel };
+  }
+
+  test('places images at the cursor and moves below them', () => {
+    const { storage, moves, sixel } = setup();
+    sixel.handle('0;1q"1;1;25;30~');
+
+    expect(storage.getPlacements(false)).toEqual([
+      expect.objectContaining({ col: 2, row: 3, cols: 3, rows: 2, width: 25, height: 30 }),
+    ]);
+    expect(moves).toEqual([{ cols: 0, rows: 3 }]);
+  });
+
+  test('frees earlier images covered by a new one', () => {
+    const { storage, sixel } = setup();
+    sixel.handle('0;1q"1;1;10;20~');
+    sixel.handle('0;1q"1;1;20;20~');
+
+    expect(storage.getPlacements(false)).toHaveLength(1);
+    expect(storage.imageCount).toBe(1);
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * Sixel Graphics
+ *
+ * Decodes DCS Sixel sequences (`ESC P <P1>;<P2>;<P3> q <data> ESC \`) into
+ * RGBA bitmaps and places them at the cursor, like xterm with sixel
+ * scrolling enabled: the image is anchored at the cursor cell and the
+ * cursor moves to the line below the image, scrolling if needed.
+ *
+ * Supported: color registers (RGB and HLS), raster attributes, repeat,
+ * carriage return and next line. The pixel aspect ratio (P1) is ignored
+ * and sixel pixels map to CSS pixels.
+ *
+ * @see https://vt100.net/docs/vt3xx-gp/chapter14.html
+ */
+
+import { type ImagePlacement, type ImageStorage, createImageFromPixels } from './image-storage';
+import type { KittyGraphicsHost } from './kitty-graphics';
+
+export interface SixelImage {
+  width: number;
+  height: number;
+  /** RGBA pixels, row by row */
+  pixels: Uint8ClampedArray;
+}
+
+/** Terminal state needed to place sixel images */
+export type SixelGraphicsHost = Pick<
+  KittyGraphicsHost,
+  'getCursor' | 'isAlternateScreen' | 'getCellSize' | 'moveCursor'
+>;
+
+/** Largest image dimension accepted (pixels outside are dropped) */
+const MAX_SIZE = 4096;
+
+/** Number of color registers */
+const PALETTE_SIZE = 256;
+
+/** VT340 default color registers (RGB) */
+const DEFAULT_PALETTE: [number, number, number][] = [
+  [0, 0, 0],
+  [51, 51, 204],
+  [204, 33, 33],
+  [51, 204, 51],
+  [204, 51, 204],
+  [51, 204, 204],
+  [204, 204, 51],
+  [135, 135, 135],
+  [66, 66, 66],
+  [84, 84, 153],
+  [153, 66, 66],
+  [84, 153, 84],
+  [153, 84, 153],
+  [84, 153, 153],
+  [153, 153, 84],
+  [204, 204, 204],
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Pack RGB into a little-endian RGBA word (opaque) */
+function packColor(r: number, g: number, b: number): number {
+  return ((255 << 24) | (b << 16) | (g << 8) | r) >>> 0;
+}
+
+/**
+ * Convert sixel HLS (hue 0-360 with blue at 0, lightness and saturation 0-100) to a packed color
+ */
+function hlsToColor(h: number, l: number, s: number): number {
+  const hue = (((h + 240) % 360) + 360) % 360;
+  const light = l / 100;
+  const sat = s / 100;
+  const c = (1 - Math.abs(2 * light - 1)) * sat;
+  const x = c * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = light - c / 2;
+  const [r, g, b] =
+    hue < 60
+      ? [c, x, 0]
+      : hue < 120
+        ? [x, c, 0]
+        : hue < 180
+          ? [0, c, x]
+          : hue < 240
+            ? [0, x, c]
+            : hue < 300
+              ? [x, 0, c]
+              : [c, 0, x];
+  return packColor(Math.round((r + m) * 255), Math.round((g + m) * 255), Math.round((b + m) * 255));
+}
+
+function percentToByte(value: number): number {
+  return Math.round((Math.min(100, Math.max(0, value)) * 255) / 100);
+}
+
+// ============================================================================
+// Decoder
+// ============================================================================
+
+/**
+ * Decode a DCS body (parameters, 'q' and sixel data) into an RGBA bitmap.
+ * Returns null for empty images.
+ */
+export function decodeSixel(body: string): SixelImage | null {
+  const introducer = body.indexOf('q');
+  if (introducer === -1) return null;
+  const params = body.slice(0, introducer).split(';');
+  // P2 = 1: pixels that are not drawn stay transparent
+  const transparent = params[1] === '1';
+
+  const palette = new Uint32Array(PALETTE_SIZE);
+  for (let i = 0; i < PALETTE_SIZE; i++) {
+    const [r, g, b] = DEFAULT_PALETTE[i] ?? [0, 0, 0];
+    palette[i] = packColor(r, g, b);
+  }
+
+  let width = 0;
+  let height = 0;
+  let capacityWidth = 0;
+  let capacityHeight = 0;
+  let buffer = new Uint32Array(0);
+  let rasterWidth = 0;
+  let rasterHeight = 0;
+
+  // Grow the pixel buffer to hold at least w x h pixels
+  const ensure = (w: number, h: number): void => {
+    if (w <= capacityWidth && h <= capacityHeight) return;
+    const newWidth = Math.min(MAX_SIZE, Math.max(w, capacityWidth * 2, 64));
+    const newHeight = Math.min(MAX_SIZE, Math.max(h, capacityHeight * 2, 6));
+    const grown = new Uint32Array(newWidth * newHeight);
+    for (let y = 0; y < capacityHeight; y++) {
+      grown.set(buffer.subarray(y * capacityWidth, (y + 1) * capacityWidth), y * newWidth);
+    }
+    buffer = grown;
+    capacityWidth = newWidth;
+    capacityHeight = newHeight;
+  };
+
+  let x = 0;
+  let y = 0;
+  let color = palette[0];
+  let i = introducer + 1;
+
+  // Read a decimal number at i (missing numbers are 0)
+  const readNumber = (): number => {
+    let value = 0;
+    while (i < body.length) {
+      const code = body.charCodeAt(i);
+      if (code < 0x30 || code > 0x39) break;
+      value = Math.min(value * 10 + (code - 0x30), 0xffffff);
+      i++;
+    }
+    return value;
+  };
+  const readNumbers = (): number[] => {
+    const values = [readNumber()];
+    while (body[i] === ';') {
+      i++;
+      values.push(readNumber());
+    }
+    return values;
+  };
+
+  // Draw a sixel (bit 0 is the top pixel) count times at the current position
+  const drawSixel = (bits: number, count: number): void => {
+    if (x < MAX_SIZE && y < MAX_SIZE) {
+      const end = Math.min(x + count, MAX_SIZE);
+      // Empty sixels still extend the width (encoders use them for padding)
+      width = Math.max(width, end);
+      if (bits !== 0) {
+        ensure(end, Math.min(y + 6, MAX_SIZE));
+        for (let bit = 0; bit < 6; bit++) {
+          if (!(bits & (1 << bit)) || y + bit >= MAX_SIZE) continue;
+          const row = (y + bit) * capacityWidth;
+          buffer.fill(color, row + x, row + end);
+          height = Math.max(height, y + bit + 1);
+        }
+      }
+    }
+    x += count;
+  };
+
+  while (i < body.length) {
+    const code = body.charCodeAt(i);
+
+    if (code >= 0x3f && code <= 0x7e) {
+      // Sixel data: six vertical pixels
+      drawSixel(code - 0x3f, 1);
+      i++;
+    } else if (code === 0x21) {
+      // '!' repeat introducer
+      i++;
+      const count = Math.max(1, readNumber());
+      const next = body.charCodeAt(i);
+      if (next >= 0x3f && next <= 0x7e) {
+        drawSixel(next - 0x3f, count);
+        i++;
+      }
+    } else if (code === 0x23) {
+      // '#' color introducer: select, or define and select
+      i++;
+      const [register, space, a, b, c] = readNumbers();
+      const index = Math.min(register, PALETTE_SIZE - 1);
+      if (space === 1) {
+        palette[index] = hlsToColor(a ?? 0, b ?? 0, c ?? 0);
+      } else if (space === 2) {
+        palette[index] = packColor(
+          percentToByte(a ?? 0),
+          percentToByte(b ?? 0),
+          percentToByte(c ?? 0)
+        );
+      }
+      color = palette[index];
+    } else if (code === 0x22) {
+      // '"' raster attributes: Pan;Pad;Ph;Pv
+      i++;
+      const [, , ph, pv] = readNumbers();
+      rasterWidth = Math.min(ph ?? 0, MAX_SIZE);
+      rasterHeight = Math.min(pv ?? 0, MAX_SIZE);
+      if (rasterWidth > 0 && rasterHeight > 0) ensure(rasterWidth, rasterHeight);
+    } else if (code === 0x24) {
+      // '$' graphics carriage return
+      x = 0;
+      i++;
+    } else if (code === 0x2d) {
+      // '-' graphics new line
+      x = 0;
+      y += 6;
+      i++;
+    } else {
+      // Ignore anything else (e.g. line breaks inserted by encoders)
+      i++;
+    }
+  }
+
+  width = Math.max(width, rasterWidth);
+  height = Math.max(height, rasterHeight);
+  if (width === 0 || height === 0) return null;
+  ensure(width, height);
+
+  // Copy out the used area, filling undrawn pixels with the background color
+  const background = transparent ? 0 : palette[0];
+  const pixels = new Uint32Array(width * height);
+  for (let row = 0; row < height; row++) {
+    const src = buffer.subarray(row * capacityWidth, row * capacityWidth + width);
+    pixels.set(src, row * width);
+  }
+  if (background !== 0) {
+    for (let p = 0; p < pixels.length; p++) {
+      if (pixels[p] === 0) pixels[p] = background;
+    }
+  }
+
+  return { width, height, pixels: new Uint8ClampedArray(pixels.buffer) };
+}
+
+// ============================================================================
+// SixelGraphics Class
+// ============================================================================
+
+export class SixelGraphics {
+  /** Ids of images created from sixel data */
+  private imageIds = new Set<number>();
+
+  constructor(
+    private readonly storage: ImageStorage,
+    private readonly host: SixelGraphicsHost
+  ) {}
+
+  /**
+   * Handle a DCS body (parameters, 'q' and sixel data)
+   */
+  handle(body: string): void {
+    const decoded = decodeSixel(body);
+    if (!decoded) return;
+
+    const { width, height } = decoded;
+    const id = this.storage.allocateId();
+    this.storage.addImage({
+      id,
+      width,
+      height,
+      source: createImageFromPixels(decoded.pixels, width, height, 4),
+      byteLength: width * height * 4,
+    });
+    this.imageIds.add(id);
+
+    const cell = this.host.getCellSize();
+    const cursor = this.host.getCursor();
+    const alternate = this.host.isAlternateScreen();
+    const placement: ImagePlacement = {
+      imageId: id,
+      placementId: 0,
+      col: cursor.col,
+      row: cursor.row,
+      cols: Math.max(1, Math.ceil(width / cell.width)),
+      rows: Math.max(1, Math.ceil(height / cell.height)),
+      offsetX: 0,
+      offsetY: 0,
+      sx: 0,
+      sy: 0,
+      sw: width,
+      sh: height,
+      width,
+      height,
+      z: 0,
+    };
+
+    // Free sixel images hidden under the new one (e.g. animations redrawn in place)
+    this.storage.deletePlacements(
+      (p) =>
+        this.imageIds.has(p.imageId) &&
+        p.col >= placement.col &&
+        p.row >= placement.row &&
+        p.col + p.cols <= placement.col + placement.cols &&
+        p.row + p.rows <= placement.row + placement.rows,
+      alternate,
+      true
+    );
+    this.pruneImageIds();
+
+    this.storage.addPlacement(placement, alternate);
+
+    // Move to the line below the image, keeping the column
+    this.host.moveCursor(0, placement.rows + 1);
+  }
+
+  /**
+   * Forget ids of images that were deleted or evicted
+   */
+  private pruneImageIds(): void {
+    for (const id of this.imageIds) {
+      if (!this.storage.getImage(id)) this.imageIds.delete(id);
+    }
+  }
+}
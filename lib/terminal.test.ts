@@ -208,6 +208,22 @@ describe('Terminal', () => {
 
       term.dispose();
     });
+
+    test('onBell ignores BEL terminating OSC sequences', async () => {
+      const term = await createIsolatedTerminal();
+      term.open(container!);
+
+      let bells = 0;
+      term.onBell(() => bells++);
+
+      term.write('\x1b]2;title\x07\x1b]8;;https://example.com\x07link\x1b]8;;\x07');
+      expect(bells).toBe(0);
+
+      term.write(new TextEncoder().encode('\x07'));
+      expect(bells).toBe(1);
+
+      term.dispose();
+    });
   });
 
   describe('Writing', () => {
@@ -551,6 +567,75 @@ describe('blur()', () => {
   });
 });
 
+describe('Focus reporting', () => {
+  let container: HTMLElement | null = null;
+
+  beforeEach(async () => {
+    if (typeof document !== 'undefined') {
+      container = document.createElement('div');
+      document.body.appendChild(container);
+    }
+  });
+
+  afterEach(() => {
+    if (container && container.parentNode) {
+      container.parentNode.removeChild(container);
+      container = null;
+    }
+  });
+
+  test('fires onFocus and onBlur', async () => {
+    const term = await createIsolatedTerminal({ cols: 80, rows: 24 });
+    if (!container) return;
+    term.open(container!);
+    term.blur();
+
+    const events: string[] = [];
+    term.onFocus(() => events.push('focus'));
+    term.onBlur(() => events.push('blur'));
+
+    term.focus();
+    term.blur();
+    expect(events).toEqual(['focus', 'blur']);
+    term.dispose();
+  });
+
+  test('moving focus to the textarea does not blur the terminal', async () => {
+    const term = await createIsolatedTerminal({ cols: 80, rows: 24 });
+    if (!container) return;
+    term.open(container!);
+    term.focus();
+
+    let blurred = false;
+    term.onBlur(() => {
+      blurred = true;
+    });
+    term.textarea!.focus();
+    expect(blurred).toBe(false);
+    term.dispose();
+  });
+
+  test('reports focus changes when mode 1004 is set', async () => {
+    const term = await createIsolatedTerminal({ cols: 80, rows: 24 });
+    if (!container) return;
+    term.open(container!);
+    term.blur();
+
+    const data: string[] = [];
+    term.onData((d) => data.push(d));
+
+    term.focus();
+    term.blur();
+    expect(data).toEqual([]);
+
+    term.write('\x1b[?1004h');
+    term.focus();
+    term.blur();
+    expect(data).toEqual(['\x1b[I', '\x1b[O']);
+    term.dispose();
+  });
+});
+
 describe('input()', () => {
   let container: HTMLElement | null = null;
 
@@ -989,6 +1074,166 @@ describe('onTitleChange event', () => {
       term.dispose();
     });
   });
+
+  describe('Parser-driven titles', () => {
+    test('should handle titles written as bytes and split across writes', async () => {
+      const term = await createIsolatedTerminal({ cols: 80, rows: 24 });
+      if (!container) return;
+      term.open(container!);
+
+      const titles: string[] = [];
+      term.onTitleChange((title) => titles.push(title));
+
+      term.write(new TextEncoder().encode('\x1b]2;caf\u00e9\x07'));
+      term.write('\x1b]2;spl');
+      term.write('it\x1b\\');
+
+      expect(titles).toEqual(['caf\u00e9', 'split']);
+      expect(term.title).toBe('split');
+      term.dispose();
+    });
+
+    test('should save and restore the title with CSI 22/23 t', async () => {
+      const term = await createIsolatedTerminal({ cols: 80, rows: 24 });
+      if (!container) return;
+      term.open(container!);
+
+      const titles: string[] = [];
+      term.onTitleChange((title) => titles.push(title));
+
+      term.write('\x1b]2;shell\x07\x1b[22;0t');
+      term.write('\x1b]2;vim\x07');
+      term.write('\x1b[23;0t');
+
+      expect(titles).toEqual(['shell', 'vim', 'shell']);
+      expect(term.title).toBe('shell');
+      term.dispose();
+    });
+
+    test('should track the icon name from OSC 0 and OSC 1', async () => {
+      const term = await createIsolatedTerminal({ cols: 80, rows: 24 });
+      if (!container) return;
+      term.open(container!);
+
+      const iconNames: string[] = [];
+      term.onIconNameChange((name) => iconNames.push(name));
+
+      term.write('\x1b]0;both\x07');
+      expect(term.title).toBe('both');
+      expect(term.iconName).toBe('both');
+
+      term.write('\x1b]1;icon\x07');
+      expect(term.title).toBe('both');
+      expect(term.iconName).toBe('icon');
+      expect(iconNames).toEqual(['both', 'icon']);
+
+      term.reset();
+      expect(term.title).toBe('');
+      expect(term.iconName).toBe('');
+      term.dispose();
+    });
+  });
+});
+
+describe('Shell integration (OSC 133)', () => {
+  let container: HTMLElement | null = null;
+
+  beforeEach(async () => {
+    if (typeof document !== 'undefined') {
+      container = document.createElement('div');
+      document.body.appendChild(container);
+    }
+  });
+
+  afterEach(() => {
+    if (container && container.parentNode) {
+      container.parentNode.removeChild(container);
+      container = null;
+    }
+  });
+
+  const PROMPT = '\x1b]133;A\x07$ \x1b]133;B\x07';
+
+  test('tracks commands and fires onCommandFinished', async () => {
+    const term = await createIsolatedTerminal({ cols: 80, rows: 24 });
+    if (!container) return;
+    term.open(container);
+
+    const exitCodes: (number | undefined)[] = [];
+    term.onCommandFinished((event) => exitCodes.push(event.exitCode));
+
+    term.write(`${PROMPT}ls\r\n\x1b]133;C\x07a\r\nb\r\n\x1b]133;D;2\x07${PROMPT}`);
+
+    const commands = term.getCommands();
+    expect(commands).toHaveLength(2);
+    expect(commands[0]).toMatchObject({
+      promptStart: { x: 0, y: 0 },
+      inputStart: { x: 2, y: 0 },
+      outputStart: { x: 0, y: 1 },
+      outputEnd: { x: 0, y: 3 },
+      exitCode: 2,
+    });
+    expect(exitCodes).toEqual([2]);
+    expect(term.getSemanticRegion(0)).toBe('prompt');
+    expect(term.getSemanticRegion(2)).toBe('output');
+    // Marks are not printed
+    expect(term.buffer.active.getLine(0)?.translateToString(true)).toBe('$ ls');
+    term.dispose();
+  });
+
+  test('selects the output of a command', async () => {
+    const term = await createIsolatedTerminal({ cols: 80, rows: 24 });
+    if (!container) return;
+    term.open(container);
+
+    term.write(`${PROMPT}ls\r\n\x1b]133;C\x07a\r\nb\r\n\x1b]133;D;0\x07${PROMPT}`);
+
+    expect(term.selectCommandOutput(term.getCommands()[0])).toBe(true);
+    expect(term.getSelectionPosition()).toEqual({ start: { x: 0, y: 1 }, end: { x: 79, y: 2 } });
+    expect(term.selectCommandOutput(term.getCommands()[1])).toBe(false);
+    term.dispose();
+  });
+
+  test('scrolls between prompts', async () => {
+    const term = await createIsolatedTerminal({ cols: 80, rows: 5, scrollback: 100 });
+    if (!container) return;
+    term.open(container);
+
+    for (let i = 0; i < 4; i++) {
+      term.write(`${PROMPT}cmd\r\n\x1b]133;C\x07${'out\r\n'.repeat(4)}\x1b]133;D;0\x07`);
+    }
+    const rows = term.getCommands().map((command) => command.promptStart.y);
+    const scrollback = term.getScrollbackLength();
+
+    term.scrollToPreviousPrompt();
+    expect(scrollback - term.getViewportY()).toBe(rows[3]);
+    term.scrollToPreviousPrompt();
+    expect(scrollback - term.getViewportY()).toBe(rows[2]);
+    term.scrollToNextPrompt();
+    expect(scrollback - term.getViewportY()).toBe(rows[3]);
+    term.dispose();
+  });
+
+  test('keeps commands on their lines when the scrollback is cleared', async () => {
+    const term = await createIsolatedTerminal({ cols: 80, rows: 5, scrollback: 100 });
+    if (!container) return;
+    term.open(container);
+
+    for (let i = 0; i < 3; i++) {
+      term.write(`${PROMPT}cmd${i}\r\n\x1b]133;C\x07${'out\r\n'.repeat(4)}\x1b]133;D;0\x07`);
+    }
+    term.write(`${PROMPT}\x1b[3J`);
+
+    // Only the prompts still on the screen are left
+    const commands = term.getCommands();
+    expect(commands.length).toBeGreaterThan(0);
+    expect(commands.length).toBeLessThan(4);
+    for (const command of commands) {
+      const line = term.buffer.active.getLine(command.promptStart.y);
+      expect(line?.translateToString(true).startsWith('$ ')).toBe(true);
+    }
+    term.dispose();
+  });
 });
 
 describe('attachCustomKeyEventHandler()', () => {
@@ -1489,6 +1734,31 @@ describe('Terminal Config', () => {
     }
   });
 
+  test('should apply theme changes after open', async () => {
+    if (typeof document === 'undefined') return;
+
+    const term = await createIsolatedTerminal({ cols: 80, rows: 24 });
+    const container = document.createElement('div');
+    term.open(container);
+
+    try {
+      term.write('\x1b[31mpalette\x1b[0m \x1b[38;2;1;2;3mrgb\x1b[0m');
+
+      term.options.theme = { background: '#000080', red: '#ff0000' };
+      term.wasmTerm!.update();
+
+      const colors = term.wasmTerm!.getColors();
+      expect(colors.background).toEqual({ r: 0, g: 0, b: 128 });
+
+      // Palette cells follow the theme, explicit RGB cells keep their color
+      const line = term.wasmTerm!.getLine(0)!;
+      expect([line[0].fg_r, line[0].fg_g, line[0].fg_b]).toEqual([255, 0, 0]);
+      expect([line[8].fg_r, line[8].fg_g, line[8].fg_b]).toEqual([1, 2, 3]);
+    } finally {
+      term.dispose();
+    }
+  });
+
   test('should use default config when no options provided', async () => {
     if (typeof document === 'undefined') return;
 
@@ -1510,6 +1780,49 @@ describe('Terminal Config', () => {
   });
 });
 
+describe('Dynamic colors (OSC 4/10/11/12)', () => {
+  async function createTerminal() {
+    const term = await createIsolatedTerminal({
+      theme: { foreground: '#c0c0c0', background: '#102030', red: '#aa0000' },
+    });
+    term.open(document.createElement('div'));
+    const replies: string[] = [];
+    term.onData((data) => replies.push(data));
+    return { term, replies };
+  }
+
+  test('answers queries from the theme', async () => {
+    const { term, replies } = await createTerminal();
+
+    term.write('\x1b]11;?\x07\x1b]10;?\x1b\\\x1b]4;1;?\x07');
+
+    expect(replies.join('')).toBe(
+      '\x1b]11;rgb:1010/2020/3030\x07' +
+        '\x1b]10;rgb:c0c0/c0c0/c0c0\x1b\\' +
+        '\x1b]4;1;rgb:aaaa/0000/0000\x07'
+    );
+    term.dispose();
+  });
+
+  test('sets colors until they are reset to the theme', async () => {
+    const { term, replies } = await createTerminal();
+
+    term.write('\x1b]11;#ffffff\x07\x1b]4;200;rgb:12/34/56\x07\x1b]12;red\x07');
+    expect(term.wasmTerm!.getColors().background).toEqual({ r: 255, g: 255, b: 255 });
+    expect(term.wasmTerm!.getColors().cursor).toEqual({ r: 255, g: 0, b: 0 });
+
+    term.write('\x1b]4;200;?\x07');
+    expect(replies.pop()).toBe('\x1b]4;200;rgb:1212/3434/5656\x07');
+
+    term.write('\x1b]111\x07\x1b]104\x07');
+    expect(term.wasmTerm!.getColors().background).toEqual({ r: 0x10, g: 0x20, b: 0x30 });
+    term.write('\x1b]4;200;?\x07');
+    // Index 200 of the 6x6x6 color cube
+    expect(replies.pop()).toBe('\x1b]4;200;rgb:ffff/0000/d7d7\x07');
+    term.dispose();
+  });
+});
+
 describe('Terminal Modes', () => {
   test('should detect bracketed paste mode', async () => {
     if (typeof document === 'undefined') return;
@@ -2761,6 +3074,77 @@ describe('unicode API', () => {
     expect(term.unicode).toBeDefined();
     expect(typeof term.unicode.activeVersion).toBe('string');
   });
+
+  test('lists the built-in versions and rejects unknown ones', async () => {
+    const term = await createIsolatedTerminal();
+    expect(term.unicode.versions).toEqual(['15.1', '6']);
+    expect(() => {
+      term.unicode.activeVersion = '4';
+    }).toThrow('Unknown Unicode version "4"');
+    expect(term.unicode.activeVersion).toBe('15.1');
+  });
+
+  test('measures characters written after switching versions with the new widths', async () => {
+    const term = await createIsolatedTerminal();
+    const container = document.createElement('div');
+    term.open(container);
+
+    term.write('\u{1F600}x');
+    term.unicode.activeVersion = '6';
+    term.write('\r\n\u{1F600}x');
+
+    const line0 = term.buffer.active.getLine(0)!;
+    const line1 = term.buffer.active.getLine(1)!;
+    expect(line0.getCell(0)!.getWidth()).toBe(2);
+    expect(line0.getCell(2)!.getChars()).toBe('x');
+    expect(line1.getCell(0)!.getChars()).toBe('\u{1F600}');
+    expect(line1.getCell(0)!.getWidth()).toBe(1);
+    expect(line1.getCell(1)!.getChars()).toBe('x');
+
+    term.dispose();
+  });
+
+  test('uses registered providers', async () => {
+    const term = await createIsolatedTerminal();
+    const container = document.createElement('div');
+    term.open(container);
+
+    term.unicode.register({
+      version: 'wide-arrows',
+      wcwidth: (codepoint) => (codepoint === 0x2192 ? 2 : 1),
+    });
+    expect(term.unicode.versions).toContain('wide-arrows');
+    term.unicode.activeVersion = 'wide-arrows';
+    term.write('\u2192x');
+
+    const line = term.buffer.active.getLine(0)!;
+    expect(line.getCell(0)!.getWidth()).toBe(2);
+    expect(line.getCell(2)!.getChars()).toBe('x');
+
+    // The native version has an empty table, which restores Ghostty's widths
+    term.unicode.activeVersion = '15.1';
+    term.write('\r\n\u2192x');
+    expect(term.buffer.active.getLine(1)!.getCell(1)!.getChars()).toBe('x');
+
+    term.dispose();
+  });
+
+  test('ambiguousWidth 2 makes East Asian ambiguous characters wide', async () => {
+    const term = await createIsolatedTerminal({ ambiguousWidth: 2 });
+    const container = document.createElement('div');
+    term.open(container);
+
+    term.write('\u00B1x');
+    const line = term.buffer.active.getLine(0)!;
+    expect(line.getCell(0)!.getWidth()).toBe(2);
+    expect(line.getCell(2)!.getChars()).toBe('x');
+
+    term.options.ambiguousWidth = 1;
+    term.write('\r\n\u00B1x');
+    expect(term.buffer.active.getLine(1)!.getCell(1)!.getChars()).toBe('x');
+
+    term.dispose();
+  });
 });
 
 // ==========================================================================
@@ -2784,6 +3168,19 @@ describe('Grapheme Cluster Support', () => {
     }
   });
 
+  test('graphemeClustering option controls mode 2027, also after a full reset', async () => {
+    const term = await createIsolatedTerminal({ graphemeClustering: false });
+    term.open(container!);
+    expect(term.getMode(2027)).toBe(false);
+
+    term.options.graphemeClustering = true;
+    expect(term.getMode(2027)).toBe(true);
+    term.write('\x1bc');
+    expect(term.getMode(2027)).toBe(true);
+
+    term.dispose();
+  });
+
   test('cell grapheme_len is 0 for simple ASCII characters', async () => {
     const term = await createIsolatedTerminal();
     term.open(container!);
@@ -2901,13 +3298,31 @@ describe('Write Behavior', () => {
     term.write('Second', () => callbackOrder.push(2));
     term.write('Third', () => callbackOrder.push(3));
 
-    // Give callbacks time to fire (they use requestAnimationFrame)
+    // Give callbacks time to fire
     await new Promise((r) => setTimeout(r, 50));
 
     expect(callbackOrder).toEqual([1, 2, 3]);
 
     term.dispose();
   });
+
+  test('large writes are parsed in slices with flow control events', async () => {
+    if (!container) return;
+
+    const term = await createIsolatedTerminal({ writeBufferHighWatermark: 1000 });
+    term.open(container);
+
+    const events: string[] = [];
+    term.onWriteBufferHigh(() => events.push('high'));
+    term.onWriteBufferLow(() => events.push('low'));
+
+    await new Promise<void>((resolve) => term.write('x'.repeat(2 * 1024 * 1024), resolve));
+
+    expect(events).toEqual(['high', 'low']);
+    expect(term.pendingWriteLength).toBe(0);
+
+    term.dispose();
+  });
 });
 
 // ==========================================================================
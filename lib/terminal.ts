@@ -15,28 +15,59 @@
  * ```
  */
 
+import { Bell } from './bell';
 import { BufferNamespace } from './buffer';
+import { formatClipboardResponse, parseClipboardSequence } from './clipboard';
 import { EventEmitter } from './event-emitter';
-import type { Ghostty, GhosttyCell, GhosttyTerminal, GhosttyTerminalConfig } from './ghostty';
+import { buildFont, buildFontFamily, loadFonts, onFontsLoaded } from './fonts';
+import {
+  type Ghostty,
+  type GhosttyCell,
+  type IGhosttyTerminal,
+  buildTerminalConfig,
+} from './ghostty';
+import { ImageStorage } from './image-storage';
 import { getGhostty } from './index';
 import { InputHandler } from './input-handler';
 import type {
+  ClipboardRequestHandler,
   IBufferNamespace,
   IBufferRange,
+  ICommandFinishedEvent,
   IDisposable,
   IEvent,
   IKeyEvent,
+  INotification,
+  IShellCommand,
   ITerminalAddon,
   ITerminalCore,
   ITerminalOptions,
-  IUnicodeVersionProvider,
+  IUnicodeHandling,
+  IWorkingDirectory,
 } from './interfaces';
+import { KittyGraphics, type KittyGraphicsHost } from './kitty-graphics';
 import { LinkDetector } from './link-detector';
+import { MouseHandler } from './mouse-handler';
+import { parseNotificationSequence } from './notification';
+import type { ParserWorkerPort } from './parser-worker';
 import { OSC8LinkProvider } from './providers/osc8-link-provider';
 import { UrlRegexProvider } from './providers/url-regex-provider';
-import { CanvasRenderer } from './renderer';
+import { RemoteRenderer } from './remote-renderer';
+import { RemoteTerminal } from './remote-terminal';
+import { CanvasRenderer, type IRenderer, type RendererOptions } from './renderer';
 import { SelectionManager } from './selection-manager';
+import {
+  type InterceptedSequence,
+  SequenceInterceptor,
+  type WriteSegment,
+} from './sequence-interceptor';
+import { type SemanticRegion, ShellIntegration } from './shell-integration';
+import { SixelGraphics } from './sixel';
 import type { ILink, ILinkProvider } from './types';
+import { UnicodeHandling } from './unicode';
+import { WebGLRenderer } from './webgl-renderer';
+import { parseWorkingDirectorySequence } from './working-directory';
+import { DEFAULT_HIGH_WATERMARK, DEFAULT_LOW_WATERMARK, WriteBuffer } from './write-buffer';
 
 // ============================================================================
 // Terminal Class
@@ -53,29 +84,44 @@ export class Terminal implements ITerminalCore {
   public readonly buffer: IBufferNamespace;
 
   // Unicode API (xterm.js compatibility)
-  public readonly unicode: IUnicodeVersionProvider = {
-    get activeVersion(): string {
-      return '15.1'; // Ghostty supports Unicode 15.1
-    },
-  };
+  private unicodeHandling = new UnicodeHandling(() => this.applyUnicodeWidths());
+  public readonly unicode: IUnicodeHandling = this.unicodeHandling;
 
   // Options (public for xterm.js compatibility)
   public readonly options!: Required<ITerminalOptions>;
 
   // Components (created on open())
   private ghostty?: Ghostty;
-  public wasmTerm?: GhosttyTerminal; // Made public for link providers
-  public renderer?: CanvasRenderer; // Made public for FitAddon
+  private parserWorker?: ParserWorkerPort;
+  public wasmTerm?: IGhosttyTerminal; // Made public for link providers
+  public renderer?: IRenderer; // Made public for FitAddon
   private inputHandler?: InputHandler;
   private selectionManager?: SelectionManager;
+  private mouseHandler?: MouseHandler;
   private canvas?: HTMLCanvasElement;
 
+  // Inline images (kitty graphics protocol and sixel)
+  private imageStorage = new ImageStorage();
+  private sequenceInterceptor = new SequenceInterceptor({ osc: [0, 1, 7, 9, 52, 133, 777] });
+  private kittyGraphics?: KittyGraphics;
+  private sixelGraphics?: SixelGraphics;
+  private shellIntegration?: ShellIntegration;
+
+  // Worker mode: output waiting for the worker to parse the text before an
+  // intercepted sequence, and parse callbacks waiting for that output (see writeSegments)
+  private pendingSegments: WriteSegment[] = [];
+  private waitingForParser = false;
+  private pendingParsedCallbacks: (() => void)[] = [];
+
   // Link detection system
   private linkDetector?: LinkDetector;
   private currentHoveredLink?: ILink;
   private mouseMoveThrottleTimeout?: number;
   private pendingMouseMove?: MouseEvent;
 
+  // Re-measures when web fonts finish loading
+  private fontLoadListener?: IDisposable;
+
   // Event emitters
   private dataEmitter = new EventEmitter<string>();
   private resizeEmitter = new EventEmitter<{ cols: number; rows: number }>();
@@ -83,9 +129,22 @@ export class Terminal implements ITerminalCore {
   private selectionChangeEmitter = new EventEmitter<void>();
   private keyEmitter = new EventEmitter<IKeyEvent>();
   private titleChangeEmitter = new EventEmitter<string>();
+  private iconNameChangeEmitter = new EventEmitter<string>();
   private scrollEmitter = new EventEmitter<number>();
   private renderEmitter = new EventEmitter<{ start: number; end: number }>();
   private cursorMoveEmitter = new EventEmitter<void>();
+  private focusEmitter = new EventEmitter<void>();
+  private blurEmitter = new EventEmitter<void>();
+  private commandFinishedEmitter = new EventEmitter<ICommandFinishedEvent>();
+  private cwdChangeEmitter = new EventEmitter<IWorkingDirectory>();
+  private notificationEmitter = new EventEmitter<INotification>();
+  private fontChangeEmitter = new EventEmitter<void>();
+
+  // Output queue (created before the public events that forward its events)
+  private writeBuffer = new WriteBuffer({
+    write: (data) => this.writeInternal(data),
+    whenParsed: (callback) => this.whenParsed(callback),
+  });
   // Public event accessors (xterm.js compatibility)
   public readonly onData: IEvent<string> = this.dataEmitter.event;
   public readonly onResize: IEvent<{ cols: number; rows: number }> = this.resizeEmitter.event;
@@ -93,23 +152,43 @@ export class Terminal implements ITerminalCore {
   public readonly onSelectionChange: IEvent<void> = this.selectionChangeEmitter.event;
   public readonly onKey: IEvent<IKeyEvent> = this.keyEmitter.event;
   public readonly onTitleChange: IEvent<string> = this.titleChangeEmitter.event;
+  public readonly onIconNameChange: IEvent<string> = this.iconNameChangeEmitter.event;
   public readonly onScroll: IEvent<number> = this.scrollEmitter.event;
   public readonly onRender: IEvent<{ start: number; end: number }> = this.renderEmitter.event;
   public readonly onCursorMove: IEvent<void> = this.cursorMoveEmitter.event;
+  public readonly onFocus: IEvent<void> = this.focusEmitter.event;
+  public readonly onBlur: IEvent<void> = this.blurEmitter.event;
+  public readonly onCommandFinished: IEvent<ICommandFinishedEvent> =
+    this.commandFinishedEmitter.event;
+  public readonly onCwdChange: IEvent<IWorkingDirectory> = this.cwdChangeEmitter.event;
+  public readonly onNotification: IEvent<INotification> = this.notificationEmitter.event;
+  /** Fires when the cell size may have changed (font options or a web font loaded) */
+  public readonly onFontChange: IEvent<void> = this.fontChangeEmitter.event;
+  public readonly onWriteParsed: IEvent<void> = this.writeBuffer.onParsed;
+  public readonly onWriteBufferHigh: IEvent<void> = this.writeBuffer.onHigh;
+  public readonly onWriteBufferLow: IEvent<void> = this.writeBuffer.onLow;
 
   // Lifecycle state
   private isOpen = false;
   private isDisposed = false;
   private animationFrameId?: number;
+  private hasFocus = false;
+
+  // Bell (lastBellCount is the parser's BEL count when it last rang)
+  private bell = new Bell(() => this.renderer?.flashBell());
+  private lastBellCount = 0;
 
   // Addons
   private addons: ITerminalAddon[] = [];
 
   // Phase 1: Custom event handlers
   private customKeyEventHandler?: (event: KeyboardEvent) => boolean;
+  private clipboardRequestHandler?: ClipboardRequestHandler;
 
   // Phase 1: Title tracking
   private currentTitle: string = '';
+  private currentIconName: string = '';
+  private currentCwd?: IWorkingDirectory;
 
   // Phase 2: Viewport and scrolling state
   public viewportY: number = 0; // Top line of viewport in scrollback buffer (0 = at bottom, can be fractional during smooth scroll)
@@ -135,6 +214,7 @@ export class Terminal implements ITerminalCore {
   constructor(options: ITerminalOptions = {}) {
     // Use provided Ghostty instance (for test isolation) or get module-level instance
     this.ghostty = options.ghostty ?? getGhostty();
+    this.parserWorker = options.parserWorker;
 
     // Create base options object with all defaults (excluding ghostty)
     const baseOptions = {
@@ -146,9 +226,21 @@ export class Terminal implements ITerminalCore {
       scrollback: options.scrollback ?? 10000,
       fontSize: options.fontSize ?? 15,
       fontFamily: options.fontFamily ?? 'monospace',
+      fontWeight: options.fontWeight ?? 'normal',
+      fontWeightBold: options.fontWeightBold ?? 'bold',
+      fontFallback: options.fontFallback ?? {},
+      fontLigatures: options.fontLigatures ?? false,
+      customGlyphs: options.customGlyphs ?? true,
       allowTransparency: options.allowTransparency ?? false,
+      renderer: options.renderer ?? 'canvas',
       convertEol: options.convertEol ?? false,
       disableStdin: options.disableStdin ?? false,
+      suppressNotificationsWhenFocused: options.suppressNotificationsWhenFocused ?? false,
+      bellStyle: options.bellStyle ?? 'none',
+      writeBufferHighWatermark: options.writeBufferHighWatermark ?? DEFAULT_HIGH_WATERMARK,
+      writeBufferLowWatermark: options.writeBufferLowWatermark ?? DEFAULT_LOW_WATERMARK,
+      ambiguousWidth: options.ambiguousWidth ?? 1,
+      graphemeClustering: options.graphemeClustering ?? true,
       smoothScrollDuration: options.smoothScrollDuration ?? 100, // Default: 100ms smooth scroll
     };
 
@@ -169,6 +261,10 @@ export class Terminal implements ITerminalCore {
 
     this.cols = this.options.cols;
     this.rows = this.options.rows;
+    this.writeBuffer.setWatermarks(
+      this.options.writeBufferHighWatermark,
+      this.options.writeBufferLowWatermark
+    );
 
     // Initialize buffer API
     this.buffer = new BufferNamespace(this);
@@ -200,9 +296,7 @@ export class Terminal implements ITerminalCore {
         break;
 
       case 'theme':
-        if (this.renderer) {
-          console.warn('ghostty-web: theme changes after open() are not yet fully supported');
-        }
+        this.handleThemeChange();
         break;
 
       case 'fontSize':
@@ -213,12 +307,53 @@ export class Terminal implements ITerminalCore {
         break;
 
       case 'fontFamily':
+      case 'fontFallback':
+        if (this.renderer) {
+          this.renderer.setFontFamily(this.getFontFamily());
+          this.loadFonts();
+          this.handleFontChange();
+        }
+        break;
+
+      case 'fontWeight':
+      case 'fontWeightBold':
         if (this.renderer) {
-          this.renderer.setFontFamily(this.options.fontFamily);
+          this.renderer.setFontWeight(this.options.fontWeight, this.options.fontWeightBold);
+          this.loadFonts();
           this.handleFontChange();
         }
         break;
 
+      case 'fontLigatures':
+        if (this.renderer && this.wasmTerm) {
+          this.renderer.setFontLigatures(this.options.fontLigatures);
+          this.renderer.render(this.wasmTerm, true, this.viewportY, this, this.scrollbarOpacity);
+        }
+        break;
+
+      case 'customGlyphs':
+        if (this.renderer && this.wasmTerm) {
+          this.renderer.setCustomGlyphs(this.options.customGlyphs);
+          this.renderer.render(this.wasmTerm, true, this.viewportY, this, this.scrollbarOpacity);
+        }
+        break;
+
+      case 'writeBufferHighWatermark':
+      case 'writeBufferLowWatermark':
+        this.writeBuffer.setWatermarks(
+          this.options.writeBufferHighWatermark,
+          this.options.writeBufferLowWatermark
+        );
+        break;
+
+      case 'ambiguousWidth':
+        this.applyUnicodeWidths();
+        break;
+
+      case 'graphemeClustering':
+        this.wasmTerm?.setGraphemeClustering(this.options.graphemeClustering);
+        break;
+
       case 'cols':
       case 'rows':
         // Redirect to resize method
@@ -239,90 +374,64 @@ export class Terminal implements ITerminalCore {
       this.selectionManager.clearSelection();
     }
 
-    // Resize canvas to match new font metrics
+    // Resize canvas to match new font metrics (the renderer sizes the canvas element)
     this.renderer.resize(this.cols, this.rows);
 
-    // Update canvas element dimensions to match renderer
-    const metrics = this.renderer.getMetrics();
-    this.canvas.width = metrics.width * this.cols;
-    this.canvas.height = metrics.height * this.rows;
-    this.canvas.style.width = `${metrics.width * this.cols}px`;
-    this.canvas.style.height = `${metrics.height * this.rows}px`;
-
     // Force full re-render with new font
     this.renderer.render(this.wasmTerm, true, this.viewportY, this);
+
+    // Let fitted layouts (FitAddon) recompute cols and rows for the new cell size
+    this.fontChangeEmitter.fire();
   }
 
   /**
-   * Parse a CSS color string to 0xRRGGBB format.
-   * Returns 0 if the color is undefined or invalid.
+   * Font family list with the fallback families appended
    */
-  private parseColorToHex(color?: string): number {
-    if (!color) return 0;
-
-    // Handle hex colors (#RGB, #RRGGBB)
-    if (color.startsWith('#')) {
-      let hex = color.slice(1);
-      if (hex.length === 3) {
-        hex = hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2];
-      }
-      const value = Number.parseInt(hex, 16);
-      return Number.isNaN(value) ? 0 : value;
-    }
-
-    // Handle rgb(r, g, b) format
-    const match = color.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
-    if (match) {
-      const r = Number.parseInt(match[1], 10);
-      const g = Number.parseInt(match[2], 10);
-      const b = Number.parseInt(match[3], 10);
-      return (r << 16) | (g << 8) | b;
-    }
+  private getFontFamily(): string {
+    return buildFontFamily(this.options.fontFamily, this.options.fontFallback);
+  }
 
-    return 0;
+  /**
+   * Start loading the regular and bold faces of the configured fonts
+   */
+  private loadFonts(): void {
+    const { fontSize, fontWeight, fontWeightBold } = this.options;
+    const family = this.getFontFamily();
+    loadFonts([
+      buildFont(fontSize, family, fontWeight),
+      buildFont(fontSize, family, fontWeightBold),
+    ]);
   }
 
   /**
-   * Convert terminal options to WASM terminal config.
+   * Handle fonts that finished loading: glyphs drawn with a fallback font are
+   * redrawn, and the canvas is re-fitted if the cell size changed
    */
-  private buildWasmConfig(): GhosttyTerminalConfig | undefined {
-    const theme = this.options.theme;
-    const scrollback = this.options.scrollback;
+  private handleFontsLoaded(): void {
+    if (!this.renderer || !this.wasmTerm) return;
 
-    // If no theme and default scrollback, use defaults
-    if (!theme && scrollback === 10000) {
-      return undefined;
+    const previous = this.renderer.getMetrics();
+    this.renderer.remeasureFont();
+    const metrics = this.renderer.getMetrics();
+    if (metrics.width !== previous.width || metrics.height !== previous.height) {
+      this.handleFontChange();
+    } else {
+      this.renderer.render(this.wasmTerm, true, this.viewportY, this, this.scrollbarOpacity);
     }
+  }
 
-    // Build palette array from theme colors
-    // Order: black, red, green, yellow, blue, magenta, cyan, white,
-    //        brightBlack, brightRed, brightGreen, brightYellow, brightBlue, brightMagenta, brightCyan, brightWhite
-    const palette: number[] = [
-      this.parseColorToHex(theme?.black),
-      this.parseColorToHex(theme?.red),
-      this.parseColorToHex(theme?.green),
-      this.parseColorToHex(theme?.yellow),
-      this.parseColorToHex(theme?.blue),
-      this.parseColorToHex(theme?.magenta),
-      this.parseColorToHex(theme?.cyan),
-      this.parseColorToHex(theme?.white),
-      this.parseColorToHex(theme?.brightBlack),
-      this.parseColorToHex(theme?.brightRed),
-      this.parseColorToHex(theme?.brightGreen),
-      this.parseColorToHex(theme?.brightYellow),
-      this.parseColorToHex(theme?.brightBlue),
-      this.parseColorToHex(theme?.brightMagenta),
-      this.parseColorToHex(theme?.brightCyan),
-      this.parseColorToHex(theme?.brightWhite),
-    ];
+  /**
+   * Handle theme changes
+   * Updates the WASM default colors and palette, then forces a full re-render
+   */
+  private handleThemeChange(): void {
+    if (!this.renderer || !this.wasmTerm) return;
 
-    return {
-      scrollbackLimit: scrollback,
-      fgColor: this.parseColorToHex(theme?.foreground),
-      bgColor: this.parseColorToHex(theme?.background),
-      cursorColor: this.parseColorToHex(theme?.cursor),
-      palette,
-    };
+    // Cells with explicit RGB colors keep them; default/palette cells follow the theme
+    this.wasmTerm.setColors(buildTerminalConfig(this.options.theme, this.options.scrollback));
+    this.renderer.setTheme(this.options.theme);
+
+    this.renderer.render(this.wasmTerm, true, this.viewportY, this, this.scrollbarOpacity);
   }
 
   // ==========================================================================
@@ -369,11 +478,13 @@ export class Terminal implements ITerminalCore {
       parent.setAttribute('aria-multiline', 'true');
 
       // Create WASM terminal with current dimensions and config
-      const config = this.buildWasmConfig();
-      this.wasmTerm = this.ghostty!.createTerminal(this.cols, this.rows, config);
+      this.wasmTerm = this.createWasmTerminal();
 
-      // Create canvas element
-      this.canvas = document.createElement('canvas');
+      // Create renderer and its canvas element, then re-measure once web fonts load
+      this.renderer = this.createRenderer();
+      this.fontLoadListener = onFontsLoaded(() => this.handleFontsLoaded());
+      this.loadFonts();
+      this.canvas = this.renderer.getCanvas();
       this.canvas.style.display = 'block';
       parent.appendChild(this.canvas);
 
@@ -413,15 +524,6 @@ export class Terminal implements ITerminalCore {
         textarea.focus();
       });
 
-      // Create renderer
-      this.renderer = new CanvasRenderer(this.canvas, {
-        fontSize: this.options.fontSize,
-        fontFamily: this.options.fontFamily,
-        cursorStyle: this.options.cursorStyle,
-        cursorBlink: this.options.cursorBlink,
-        theme: this.options.theme,
-      });
-
       // Size canvas to terminal dimensions (use renderer.resize for proper DPI scaling)
       this.renderer.resize(this.cols, this.rows);
 
@@ -439,7 +541,7 @@ export class Terminal implements ITerminalCore {
         },
         () => {
           // Input handler can also fire bell
-          this.bellEmitter.fire();
+          this.ringBell();
         },
         (keyEvent: IKeyEvent) => {
           // Forward key events
@@ -468,6 +570,20 @@ export class Terminal implements ITerminalCore {
       // Connect selection manager to renderer
       this.renderer.setSelectionManager(this.selectionManager);
 
+      // Setup inline image support
+      this.renderer.setImageStorage(this.imageStorage);
+      const graphicsHost = this.createGraphicsHost();
+      this.kittyGraphics = new KittyGraphics(this.imageStorage, graphicsHost);
+      this.sixelGraphics = new SixelGraphics(this.imageStorage, graphicsHost);
+
+      // Track commands marked by shell integration (OSC 133)
+      this.shellIntegration = new ShellIntegration({
+        getCursor: graphicsHost.getCursor,
+        isAlternateScreen: graphicsHost.isAlternateScreen,
+        commandFinished: (event) =>
+          this.commandFinishedEmitter.fire({ ...event, command: this.toBufferRows(event.command) }),
+      });
+
       // Forward selection change events
       this.selectionManager.onSelectionChange(() => {
         this.selectionChangeEmitter.fire();
@@ -489,6 +605,10 @@ export class Terminal implements ITerminalCore {
       parent.addEventListener('mouseleave', this.handleMouseLeave);
       parent.addEventListener('click', this.handleClick);
 
+      // Track focus of the element and its textarea (for onFocus/onBlur and mode 1004)
+      parent.addEventListener('focusin', this.handleFocusIn);
+      parent.addEventListener('focusout', this.handleFocusOut);
+
       // Setup document-level mouseup for scrollbar drag (so drag works even outside canvas)
       document.addEventListener('mouseup', this.handleMouseUp);
 
@@ -496,6 +616,11 @@ export class Terminal implements ITerminalCore {
       // Use capture phase to ensure we get the event before browser scrolling
       parent.addEventListener('wheel', this.handleWheel, { passive: false, capture: true });
 
+      // Create mouse handler for reporting mouse events to applications
+      // Registered after the scrollbar listener so scrollbar clicks still win,
+      // while its capture listener keeps reported clicks from SelectionManager
+      this.mouseHandler = new MouseHandler(this, this.renderer, this.textarea);
+
       // Render initial blank screen (force full redraw)
       this.renderer.render(this.wasmTerm, true, this.viewportY, this, this.scrollbarOpacity);
 
@@ -512,8 +637,85 @@ export class Terminal implements ITerminalCore {
     }
   }
 
+  /**
+   * Create the renderer selected by options.renderer.
+   * Falls back to CanvasRenderer when WebGL2 is unavailable.
+   */
+  private createRenderer(): IRenderer {
+    const rendererOptions: RendererOptions = {
+      fontSize: this.options.fontSize,
+      fontFamily: this.getFontFamily(),
+      fontWeight: this.options.fontWeight,
+      fontWeightBold: this.options.fontWeightBold,
+      cursorStyle: this.options.cursorStyle,
+      cursorBlink: this.options.cursorBlink,
+      fontLigatures: this.options.fontLigatures,
+      customGlyphs: this.options.customGlyphs,
+      theme: this.options.theme,
+    };
+
+    if (this.options.renderer === 'offscreen') {
+      const canvas = document.createElement('canvas');
+      if (this.wasmTerm instanceof RemoteTerminal && 'transferControlToOffscreen' in canvas) {
+        return new RemoteRenderer(this.parserWorker!, this.wasmTerm.id, canvas, rendererOptions);
+      }
+      console.warn(
+        'Offscreen rendering needs a parserWorker and OffscreenCanvas, using canvas renderer'
+      );
+    }
+
+    if (this.options.renderer === 'webgl') {
+      try {
+        return new WebGLRenderer(document.createElement('canvas'), rendererOptions);
+      } catch (error) {
+        // A canvas can only have one context type, so the fallback gets a fresh canvas
+        console.warn('WebGL renderer unavailable, using canvas renderer:', error);
+      }
+    }
+
+    return new CanvasRenderer(document.createElement('canvas'), rendererOptions);
+  }
+
+  /**
+   * Create the terminal emulator: in the parser worker if one was provided,
+   * otherwise on the main thread.
+   */
+  private createWasmTerminal(): IGhosttyTerminal {
+    const config = buildTerminalConfig(this.options.theme, this.options.scrollback);
+    let term: IGhosttyTerminal;
+    if (!this.parserWorker) {
+      term = this.ghostty!.createTerminal(this.cols, this.rows, config);
+    } else {
+      const remote = new RemoteTerminal(this.parserWorker, this.cols, this.rows, config);
+      // Responses to queries (e.g. DSR), bells and title changes arrive with the worker's updates
+      remote.onUpdate(() => {
+        this.processTerminalResponses();
+        this.checkForBell();
+        this.checkForTitleChange();
+      });
+      term = remote;
+    }
+
+    if (!this.options.graphemeClustering) term.setGraphemeClustering(false);
+    const widths = this.unicodeHandling.getWidths(this.options.ambiguousWidth);
+    if (widths.length > 0) term.setWidths(widths);
+    return term;
+  }
+
+  /**
+   * Send the widths of the active Unicode version to the parser. Text that
+   * was already written keeps its widths.
+   */
+  private applyUnicodeWidths(): void {
+    this.wasmTerm?.setWidths(this.unicodeHandling.getWidths(this.options.ambiguousWidth));
+  }
+
   /**
    * Write data to terminal
+   *
+   * Data is queued and parsed in time slices (see WriteBuffer); small writes
+   * are parsed before write() returns. The callback runs once the data has
+   * been parsed.
    */
   write(data: string | Uint8Array, callback?: () => void): void {
     this.assertOpen();
@@ -523,31 +725,55 @@ export class Terminal implements ITerminalCore {
       data = data.replace(/\n/g, '\r\n');
     }
 
-    this.writeInternal(data, callback);
+    this.writeBuffer.write(data, callback);
+  }
+
+  /**
+   * Length of the data written but not parsed yet (characters for strings,
+   * bytes for Uint8Array). See onWriteBufferHigh/onWriteBufferLow.
+   */
+  public get pendingWriteLength(): number {
+    return this.writeBuffer.pendingLength;
+  }
+
+  /**
+   * Wait until everything handed to the parser so far has been parsed
+   */
+  private whenParsed(callback: () => void): void {
+    if (this.waitingForParser) {
+      // Part of the data hasn't been handed to the worker yet
+      this.pendingParsedCallbacks.push(callback);
+    } else if (this.wasmTerm instanceof RemoteTerminal) {
+      // Parsing is asynchronous: wait until the worker has processed the data
+      this.wasmTerm.whenParsed(callback);
+    } else {
+      callback();
+    }
   }
 
   /**
-   * Internal write implementation (extracted from write())
+   * Parse a chunk of data from the write buffer
    */
-  private writeInternal(data: string | Uint8Array, callback?: () => void): void {
+  private writeInternal(data: string | Uint8Array): void {
     // Note: We intentionally do NOT clear selection on write - most modern terminals
     // preserve selection when new data arrives. Selection is cleared by user actions
     // like clicking or typing, not by incoming data.
 
-    // Write directly to WASM terminal (handles VT parsing internally)
-    this.wasmTerm!.write(data);
+    // Write to WASM terminal (handles VT parsing internally), except for
+    // sequences handled in JavaScript such as kitty graphics
+    this.writeSegments(this.sequenceInterceptor.process(data));
 
     // Process any responses generated by the terminal (e.g., DSR cursor position)
     // These need to be sent back to the PTY via onData
     this.processTerminalResponses();
 
-    // Check for bell character (BEL, \x07)
-    // WASM doesn't expose bell events, so we detect it in the data stream
-    if (typeof data === 'string' && data.includes('\x07')) {
-      this.bellEmitter.fire();
-    } else if (data instanceof Uint8Array && data.includes(0x07)) {
-      this.bellEmitter.fire();
-    }
+    // Drop image placements and commands whose rows were pruned from the scrollback
+    const rowsPruned = this.wasmTerm!.getRowsPruned();
+    this.imageStorage.prunePlacements(rowsPruned);
+    this.shellIntegration?.prune(rowsPruned);
+
+    // Ring the bell for BEL controls executed by the parser
+    this.checkForBell();
 
     // Invalidate link cache (content changed)
     this.linkDetector?.invalidateCache();
@@ -557,19 +783,187 @@ export class Terminal implements ITerminalCore {
       this.scrollToBottom();
     }
 
-    // Check for title changes (OSC 0, 1, 2 sequences)
-    // This is a simplified implementation - Ghostty WASM may provide this
-    if (typeof data === 'string' && data.includes('\x1b]')) {
-      this.checkForTitleChange(data);
+    // Fire title and icon name changes (OSC 0/1/2, CSI 22/23 t)
+    this.checkForTitleChange();
+
+    // Render will happen on next animation frame
+  }
+
+  /**
+   * Write text segments to the parser and handle intercepted sequences in
+   * order. Sequences read the cursor, so in worker mode each one waits until
+   * the worker has parsed the text before it, and later segments queue behind it.
+   */
+  private writeSegments(segments: WriteSegment[]): void {
+    this.pendingSegments.push(...segments);
+    if (!this.waitingForParser) this.flushSegments();
+  }
+
+  private flushSegments(): void {
+    const term = this.wasmTerm!;
+    while (this.pendingSegments.length > 0) {
+      const segment = this.pendingSegments.shift()!;
+      if (typeof segment === 'string' || segment instanceof Uint8Array) {
+        term.write(segment);
+      } else if (term instanceof RemoteTerminal) {
+        this.waitingForParser = true;
+        term.whenParsed(() => {
+          // The terminal was reset or disposed meanwhile
+          if (this.wasmTerm !== term || this.isDisposed) return;
+          this.waitingForParser = false;
+          this.handleInterceptedSequence(segment);
+          this.flushSegments();
+        });
+        return;
+      } else {
+        this.handleInterceptedSequence(segment);
+      }
     }
 
-    // Call callback if provided
-    if (callback) {
-      // Queue callback after next render
-      requestAnimationFrame(callback);
+    const callbacks = this.pendingParsedCallbacks;
+    this.pendingParsedCallbacks = [];
+    for (const callback of callbacks) this.whenParsed(callback);
+  }
+
+  /**
+   * Handle a control string removed from the output by the sequence interceptor
+   */
+  private handleInterceptedSequence(sequence: InterceptedSequence): void {
+    // Send responses to earlier sequences first to keep responses in order
+    this.processTerminalResponses();
+
+    switch (sequence.type) {
+      case 'apc':
+        this.kittyGraphics?.handle(sequence.data);
+        break;
+      case 'dcs':
+        this.sixelGraphics?.handle(sequence.data);
+        break;
+      case 'osc':
+        this.handleOscSequence(sequence.data);
+        break;
     }
+  }
 
-    // Render will happen on next animation frame
+  /**
+   * Handle an intercepted OSC body by its command number
+   */
+  private handleOscSequence(body: string): void {
+    switch (body.slice(0, body.indexOf(';'))) {
+      case '0':
+      case '1':
+        this.handleIconNameSequence(body);
+        break;
+      case '7':
+        this.handleWorkingDirectorySequence(body);
+        break;
+      case '9':
+      case '777':
+        this.handleNotificationSequence(body);
+        break;
+      case '52':
+        this.handleClipboardSequence(body);
+        break;
+      case '133':
+        this.shellIntegration?.handle(body);
+        break;
+    }
+  }
+
+  /**
+   * Handle OSC 0 (icon name and title) or OSC 1 (icon name). The WASM parser
+   * doesn't report icon names, so the icon name is stored in the terminal
+   * with setIconName (where CSI 22/23 t save and restore it), and OSC 0 is
+   * passed on as OSC 2 for the parser to set the title.
+   */
+  private handleIconNameSequence(body: string): void {
+    const separator = body.indexOf(';');
+    const text = body.slice(separator + 1);
+    this.wasmTerm!.setIconName(text);
+    if (body.slice(0, separator) === '0') {
+      this.wasmTerm!.write(`\x1b]2;${text}\x1b\\`);
+    }
+  }
+
+  /**
+   * Handle an OSC 7 working directory report
+   */
+  private handleWorkingDirectorySequence(body: string): void {
+    const cwd = parseWorkingDirectorySequence(body);
+    if (!cwd) return;
+    if (cwd.host === this.currentCwd?.host && cwd.path === this.currentCwd?.path) return;
+
+    this.currentCwd = cwd;
+    this.cwdChangeEmitter.fire(cwd);
+  }
+
+  /**
+   * Handle an OSC 9 or OSC 777 desktop notification
+   */
+  private handleNotificationSequence(body: string): void {
+    const notification = parseNotificationSequence(body);
+    if (!notification) return;
+    if (this.options.suppressNotificationsWhenFocused && this.hasFocus) return;
+
+    this.notificationEmitter.fire(notification);
+  }
+
+  /**
+   * Handle an OSC 52 clipboard write or query, if the clipboard request handler allows it.
+   * Without a handler every request is denied.
+   */
+  private async handleClipboardSequence(body: string): Promise<void> {
+    const request = parseClipboardSequence(body);
+    if (!request) return;
+
+    try {
+      if (!this.clipboardRequestHandler) return;
+      const allowed = await this.clipboardRequestHandler(request);
+      if (!allowed || this.isDisposed) return;
+
+      if (request.type === 'write') {
+        this.selectionManager?.copyToClipboard(request.text ?? '');
+      } else {
+        const text = await navigator.clipboard.readText();
+        if (!this.isDisposed) {
+          this.dataEmitter.fire(formatClipboardResponse(request.selection, text));
+        }
+      }
+    } catch (error) {
+      console.warn('Clipboard request failed:', error);
+    }
+  }
+
+  /**
+   * Absolute row of the top of the screen. Counts rows pruned from the
+   * scrollback, so it keeps increasing once the scrollback is full.
+   */
+  private getScreenTop(): number {
+    return this.wasmTerm!.getRowsPruned() + this.wasmTerm!.getScrollbackLength();
+  }
+
+  /**
+   * Terminal state and actions used by the image protocols
+   */
+  private createGraphicsHost(): KittyGraphicsHost {
+    return {
+      getCursor: () => {
+        const cursor = this.wasmTerm!.getCursor();
+        return { col: cursor.x, row: this.getScreenTop() + cursor.y };
+      },
+      getScreenTop: () => this.getScreenTop(),
+      isAlternateScreen: () => this.wasmTerm!.isAlternateScreen(),
+      getCellSize: () => {
+        const metrics = this.renderer!.getMetrics();
+        return { width: metrics.width, height: metrics.height };
+      },
+      moveCursor: (cols, rows) => {
+        // Down to the last image row (IND scrolls at the bottom), then past the image
+        const right = cols > 0 ? `\x1b[${cols}C` : '';
+        this.wasmTerm!.write(`${'\x1bD'.repeat(rows - 1)}${right}`);
+      },
+      respond: (data) => this.wasmTerm!.queueResponse(data),
+    };
   }
 
   /**
@@ -649,16 +1043,9 @@ export class Terminal implements ITerminalCore {
     // Resize WASM terminal
     this.wasmTerm!.resize(cols, rows);
 
-    // Resize renderer
+    // Resize renderer (which also sizes the canvas element)
     this.renderer!.resize(cols, rows);
 
-    // Update canvas dimensions
-    const metrics = this.renderer!.getMetrics();
-    this.canvas!.width = metrics.width * cols;
-    this.canvas!.height = metrics.height * rows;
-    this.canvas!.style.width = `${metrics.width * cols}px`;
-    this.canvas!.style.height = `${metrics.height * rows}px`;
-
     // Fire resize event
     this.resizeEmitter.fire({ cols, rows });
 
@@ -685,14 +1072,29 @@ export class Terminal implements ITerminalCore {
     if (this.wasmTerm) {
       this.wasmTerm.free();
     }
-    const config = this.buildWasmConfig();
-    this.wasmTerm = this.ghostty!.createTerminal(this.cols, this.rows, config);
+    this.wasmTerm = this.createWasmTerminal();
+    if (this.renderer instanceof RemoteRenderer && this.wasmTerm instanceof RemoteTerminal) {
+      this.renderer.setTerminal(this.wasmTerm.id);
+    }
 
     // Clear renderer
     this.renderer!.clear();
 
-    // Reset title
+    // Drop images and any partially received graphics sequence, along with
+    // output still waiting for the old worker terminal
+    this.imageStorage.clear();
+    this.sequenceInterceptor.reset();
+    this.pendingSegments = [];
+    this.waitingForParser = false;
+    this.flushSegments();
+    this.kittyGraphics?.reset();
+    this.shellIntegration?.reset();
+
+    // Reset title, icon name, working directory and bell count
     this.currentTitle = '';
+    this.currentIconName = '';
+    this.lastBellCount = 0;
+    this.currentCwd = undefined;
   }
 
   /**
@@ -782,6 +1184,28 @@ export class Terminal implements ITerminalCore {
     this.selectionManager?.selectLines(start, end);
   }
 
+  /**
+   * Select the output of a command marked by shell integration
+   * @returns false if the command has no output yet
+   */
+  public selectCommandOutput(command: IShellCommand): boolean {
+    if (!this.selectionManager || !command.outputStart) return false;
+
+    // The output ends before the end mark, or at the cursor while the command runs
+    let end = command.outputEnd;
+    if (!end) {
+      const cursor = this.wasmTerm!.getCursor();
+      end = { x: cursor.x, y: this.wasmTerm!.getScrollbackLength() + cursor.y };
+    }
+    const last = end.x > 0 ? { x: end.x - 1, y: end.y } : { x: this.cols - 1, y: end.y - 1 };
+
+    const start = command.outputStart;
+    if (last.y < start.y || (last.y === start.y && last.x < start.x)) return false;
+
+    this.selectionManager.selectRange(start, last);
+    return true;
+  }
+
   /**
    * Get selection position as buffer range
    */
@@ -827,6 +1251,16 @@ export class Terminal implements ITerminalCore {
     this.customWheelEventHandler = customWheelEventHandler;
   }
 
+  /**
+   * Attach a handler that decides whether OSC 52 clipboard requests are allowed.
+   * Return true (or a promise resolving to true) to allow the request.
+   *
+   * Without a handler, both clipboard writes and reads are denied.
+   */
+  public attachClipboardRequestHandler(handler?: ClipboardRequestHandler): void {
+    this.clipboardRequestHandler = handler;
+  }
+
   // ==========================================================================
   // Link Detection Methods
   // ==========================================================================
@@ -921,9 +1355,90 @@ export class Terminal implements ITerminalCore {
     }
   }
 
+  /**
+   * Window title set by OSC 0/2 (CSI 22/23 t save and restore it)
+   */
+  public get title(): string {
+    return this.currentTitle;
+  }
+
+  /**
+   * Icon name set by OSC 0/1
+   */
+  public get iconName(): string {
+    return this.currentIconName;
+  }
+
+  /**
+   * Working directory last reported by the shell with OSC 7, if any
+   */
+  public get cwd(): IWorkingDirectory | undefined {
+    return this.currentCwd;
+  }
+
+  /**
+   * Get the commands marked by shell integration (OSC 133), oldest first
+   */
+  public getCommands(): IShellCommand[] {
+    return this.shellIntegration?.getCommands().map((command) => this.toBufferRows(command)) ?? [];
+  }
+
+  /**
+   * Get whether a buffer line starts in a prompt, command line or command
+   * output, as marked by shell integration
+   */
+  public getSemanticRegion(row: number): SemanticRegion | undefined {
+    if (!this.shellIntegration) return undefined;
+    return this.shellIntegration.getRegion(this.wasmTerm!.getRowsPruned() + row);
+  }
+
+  /**
+   * Copy of a command with buffer line rows. Shell integration tracks
+   * absolute rows, which also count the rows pruned from the scrollback.
+   */
+  private toBufferRows(command: IShellCommand): IShellCommand {
+    const rowsPruned = this.wasmTerm!.getRowsPruned();
+    const toBuffer = (position: { x: number; y: number }) => ({
+      x: position.x,
+      y: position.y - rowsPruned,
+    });
+    const copy: IShellCommand = { ...command, promptStart: toBuffer(command.promptStart) };
+    if (command.inputStart) copy.inputStart = toBuffer(command.inputStart);
+    if (command.outputStart) copy.outputStart = toBuffer(command.outputStart);
+    if (command.outputEnd) copy.outputEnd = toBuffer(command.outputEnd);
+    return copy;
+  }
+
+  /**
+   * Scroll the previous prompt above the top of the viewport to the top
+   */
+  public scrollToPreviousPrompt(): void {
+    if (!this.shellIntegration) return;
+    const top = this.getScreenTop() - Math.ceil(this.viewportY);
+    const previous = this.shellIntegration.findCommand(top - 1);
+    if (previous) {
+      this.scrollToLine(this.getScreenTop() - previous.promptStart.y);
+    }
+  }
+
+  /**
+   * Scroll the next prompt below the top of the viewport to the top (or as
+   * far as possible)
+   */
+  public scrollToNextPrompt(): void {
+    const top = this.wasmTerm ? this.getScreenTop() - Math.floor(this.viewportY) : 0;
+    const commands = this.shellIntegration?.getCommands() ?? [];
+    const next = commands.find((command) => command.promptStart.y > top);
+    if (next) {
+      this.scrollToLine(this.getScreenTop() - next.promptStart.y);
+    } else {
+      this.scrollToBottom();
+    }
+  }
+
   /**
    * Scroll viewport to a specific line in the buffer
-   * @param line Line number (0 = top of scrollback, scrollbackLength = bottom)
+   * @param line Lines scrolled up from the bottom (0 = bottom, scrollbackLength = top of scrollback)
    */
   public scrollToLine(line: number): void {
     const scrollbackLength = this.getScrollbackLength();
@@ -1082,12 +1597,21 @@ export class Terminal implements ITerminalCore {
     this.dataEmitter.dispose();
     this.resizeEmitter.dispose();
     this.bellEmitter.dispose();
+    this.bell.dispose();
+    this.writeBuffer.dispose();
     this.selectionChangeEmitter.dispose();
     this.keyEmitter.dispose();
     this.titleChangeEmitter.dispose();
+    this.iconNameChangeEmitter.dispose();
     this.scrollEmitter.dispose();
     this.renderEmitter.dispose();
     this.cursorMoveEmitter.dispose();
+    this.focusEmitter.dispose();
+    this.blurEmitter.dispose();
+    this.commandFinishedEmitter.dispose();
+    this.cwdChangeEmitter.dispose();
+    this.notificationEmitter.dispose();
+    this.fontChangeEmitter.dispose();
   }
 
   // ==========================================================================
@@ -1147,6 +1671,12 @@ export class Terminal implements ITerminalCore {
    * Clean up components (called on dispose or error)
    */
   private cleanupComponents(): void {
+    // Dispose mouse handler
+    if (this.mouseHandler) {
+      this.mouseHandler.dispose();
+      this.mouseHandler = undefined;
+    }
+
     // Dispose selection manager
     if (this.selectionManager) {
       this.selectionManager.dispose();
@@ -1159,12 +1689,22 @@ export class Terminal implements ITerminalCore {
       this.inputHandler = undefined;
     }
 
+    // Stop re-measuring on font loads
+    this.fontLoadListener?.dispose();
+    this.fontLoadListener = undefined;
+
     // Dispose renderer
     if (this.renderer) {
       this.renderer.dispose();
       this.renderer = undefined;
     }
 
+    // Release decoded images
+    this.imageStorage.clear();
+    this.kittyGraphics = undefined;
+    this.sixelGraphics = undefined;
+    this.shellIntegration = undefined;
+
     // Remove canvas from DOM
     if (this.canvas && this.canvas.parentNode) {
       this.canvas.parentNode.removeChild(this.canvas);
@@ -1184,6 +1724,8 @@ export class Terminal implements ITerminalCore {
       this.element.removeEventListener('mousemove', this.handleMouseMove);
       this.element.removeEventListener('mouseleave', this.handleMouseLeave);
       this.element.removeEventListener('click', this.handleClick);
+      this.element.removeEventListener('focusin', this.handleFocusIn);
+      this.element.removeEventListener('focusout', this.handleFocusOut);
 
       // Remove contenteditable and accessibility attributes added in open()
       this.element.removeAttribute('contenteditable');
@@ -1429,6 +1971,42 @@ export class Terminal implements ITerminalCore {
     }
   };
 
+  /**
+   * Handle focus entering the terminal element or its textarea
+   */
+  private handleFocusIn = (): void => {
+    this.setFocused(true);
+  };
+
+  /**
+   * Handle focus leaving the terminal element or its textarea
+   */
+  private handleFocusOut = (e: FocusEvent): void => {
+    // Focus moving between the element and its textarea keeps the terminal focused
+    if (e.relatedTarget instanceof Node && this.element?.contains(e.relatedTarget)) {
+      return;
+    }
+    this.setFocused(false);
+  };
+
+  /**
+   * Update focus state, reporting the change to the application when it
+   * enabled focus events (DEC mode 1004)
+   */
+  private setFocused(focused: boolean): void {
+    if (focused === this.hasFocus) return;
+    this.hasFocus = focused;
+
+    if (this.wasmTerm?.hasFocusEvents() && !this.options.disableStdin) {
+      this.dataEmitter.fire(focused ? '\x1b[I' : '\x1b[O');
+    }
+    if (focused) {
+      this.focusEmitter.fire();
+    } else {
+      this.blurEmitter.fire();
+    }
+  }
+
   /**
    * Handle mouse click for link activation
    */
@@ -1489,6 +2067,11 @@ export class Terminal implements ITerminalCore {
       return;
     }
 
+    // Report wheel to the application if it tracks the mouse (Shift scrolls locally)
+    if (this.mouseHandler?.handleWheel(e)) {
+      return;
+    }
+
     // Check if in alternate screen mode (vim, less, htop, etc.)
     const isAltScreen = this.wasmTerm?.isAlternateScreen() ?? false;
 
@@ -1775,27 +2358,41 @@ export class Terminal implements ITerminalCore {
   }
 
   /**
-   * Check for title changes in written data (OSC sequences)
-   * Simplified implementation - looks for OSC 0, 1, 2
+   * Ring the bell once if the parser executed any BEL since the last check
    */
-  private checkForTitleChange(data: string): void {
-    // OSC sequences: ESC ] Ps ; Pt BEL or ESC ] Ps ; Pt ST
-    // OSC 0 = icon + title, OSC 1 = icon, OSC 2 = title
-    const oscRegex = /\x1b\]([012]);([^\x07\x1b]*?)(?:\x07|\x1b\\)/g;
-    let match: RegExpExecArray | null = null;
+  private checkForBell(): void {
+    if (!this.wasmTerm) return;
 
-    // biome-ignore lint/suspicious/noAssignInExpressions: Standard regex pattern
-    while ((match = oscRegex.exec(data)) !== null) {
-      const ps = match[1];
-      const pt = match[2];
+    const bellCount = this.wasmTerm.getBellCount();
+    if (bellCount === this.lastBellCount) return;
+    this.lastBellCount = bellCount;
+    this.ringBell();
+  }
 
-      // OSC 0 and OSC 2 set the title
-      if (ps === '0' || ps === '2') {
-        if (pt !== this.currentTitle) {
-          this.currentTitle = pt;
-          this.titleChangeEmitter.fire(pt);
-        }
-      }
+  /**
+   * Fire onBell and show or play the bell according to the bellStyle option
+   */
+  private ringBell(): void {
+    this.bellEmitter.fire();
+    this.bell.ring(this.options.bellStyle);
+  }
+
+  /**
+   * Fire onTitleChange and onIconNameChange if the parser's title state changed
+   */
+  private checkForTitleChange(): void {
+    if (!this.wasmTerm) return;
+
+    const title = this.wasmTerm.getTitle();
+    if (title !== this.currentTitle) {
+      this.currentTitle = title;
+      this.titleChangeEmitter.fire(title);
+    }
+
+    const iconName = this.wasmTerm.getIconName();
+    if (iconName !== this.currentIconName) {
+      this.currentIconName = iconName;
+      this.iconNameChangeEmitter.fire(iconName);
     }
   }
 
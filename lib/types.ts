@@ -413,6 +413,7 @@ export interface GhosttyWasmExports extends WebAssembly.Exports {
   ghostty_terminal_free(terminal: TerminalHandle): void;
   ghostty_terminal_resize(terminal: TerminalHandle, cols: number, rows: number): void;
   ghostty_terminal_write(terminal: TerminalHandle, dataPtr: number, dataLen: number): void;
+  ghostty_terminal_set_colors(terminal: TerminalHandle, configPtr: number): void;
 
   // RenderState API - high-performance rendering (ONE call gets ALL data)
   ghostty_render_state_update(terminal: TerminalHandle): number; // 0=none, 1=partial, 2=full
@@ -423,6 +424,7 @@ export interface GhosttyWasmExports extends WebAssembly.Exports {
   ghostty_render_state_get_cursor_visible(terminal: TerminalHandle): boolean;
   ghostty_render_state_get_bg_color(terminal: TerminalHandle): number; // 0xRRGGBB
   ghostty_render_state_get_fg_color(terminal: TerminalHandle): number; // 0xRRGGBB
+  ghostty_render_state_get_cursor_color(terminal: TerminalHandle): number; // 0xRRGGBB or -1
   ghostty_render_state_is_row_dirty(terminal: TerminalHandle, row: number): boolean;
   ghostty_render_state_mark_clean(terminal: TerminalHandle): void;
   ghostty_render_state_get_viewport(
@@ -437,6 +439,20 @@ export interface GhosttyWasmExports extends WebAssembly.Exports {
     bufPtr: number,
     bufLen: number
   ): number; // Returns count of codepoints or -1 on error
+  ghostty_render_state_get_hyperlink_uri(
+    terminal: TerminalHandle,
+    row: number,
+    col: number,
+    bufPtr: number,
+    bufLen: number
+  ): number; // Returns URI length, 0 if no hyperlink, -1 on error
+  ghostty_render_state_get_hyperlink_id(
+    terminal: TerminalHandle,
+    row: number,
+    col: number,
+    bufPtr: number,
+    bufLen: number
+  ): number; // Returns id length, 0 if no explicit id, -1 on error
 
   // Terminal modes
   ghostty_terminal_is_alternate_screen(terminal: TerminalHandle): boolean;
@@ -445,6 +461,7 @@ export interface GhosttyWasmExports extends WebAssembly.Exports {
 
   // Scrollback API
   ghostty_terminal_get_scrollback_length(terminal: TerminalHandle): number;
+  ghostty_terminal_get_rows_pruned(terminal: TerminalHandle): number;
   ghostty_terminal_get_scrollback_line(
     terminal: TerminalHandle,
     offset: number,
@@ -458,7 +475,47 @@ export interface GhosttyWasmExports extends WebAssembly.Exports {
     bufPtr: number,
     bufLen: number
   ): number; // Returns codepoint count or -1 on error
+  ghostty_terminal_get_scrollback_hyperlink_uri(
+    terminal: TerminalHandle,
+    offset: number,
+    col: number,
+    bufPtr: number,
+    bufLen: number
+  ): number; // Returns URI length, 0 if no hyperlink, -1 on error
+  ghostty_terminal_get_scrollback_hyperlink_id(
+    terminal: TerminalHandle,
+    offset: number,
+    col: number,
+    bufPtr: number,
+    bufLen: number
+  ): number; // Returns id length, 0 if no explicit id, -1 on error
   ghostty_terminal_is_row_wrapped(terminal: TerminalHandle, row: number): number;
+  ghostty_terminal_is_scrollback_row_wrapped(terminal: TerminalHandle, offset: number): number;
+
+  // Primary screen API (readable while the alternate screen is active)
+  ghostty_terminal_get_primary_length(terminal: TerminalHandle): number;
+  ghostty_terminal_get_primary_line(
+    terminal: TerminalHandle,
+    y: number,
+    bufPtr: number,
+    bufLen: number
+  ): number; // Returns cells written or -1 on error
+  ghostty_terminal_is_primary_row_wrapped(terminal: TerminalHandle, y: number): number;
+  ghostty_terminal_get_primary_cursor_x(terminal: TerminalHandle): number;
+  ghostty_terminal_get_primary_cursor_y(terminal: TerminalHandle): number;
+
+  // Title API
+  ghostty_terminal_get_title(terminal: TerminalHandle, bufPtr: number, bufLen: number): number; // Returns title length, -1 on error
+  ghostty_terminal_get_icon_name(terminal: TerminalHandle, bufPtr: number, bufLen: number): number; // Returns icon name length, -1 on error
+  ghostty_terminal_set_icon_name(terminal: TerminalHandle, dataPtr: number, dataLen: number): void;
+  ghostty_terminal_get_title_version(terminal: TerminalHandle): number;
+
+  // Bell
+  ghostty_terminal_get_bell_count(terminal: TerminalHandle): number;
+
+  // Unicode
+  ghostty_terminal_set_widths(terminal: TerminalHandle, rangesPtr: number, count: number): void;
+  ghostty_terminal_set_grapheme_clustering(terminal: TerminalHandle, enabled: boolean): void;
 
   // Response API (for DSR and other terminal queries)
   ghostty_terminal_has_response(terminal: TerminalHandle): boolean;
@@ -536,7 +593,7 @@ export const GHOSTTY_CONFIG_SIZE = 80;
 export type TerminalHandle = number;
 
 /**
- * Cell structure matching ghostty_cell_t in C (16 bytes)
+ * Cell structure matching ghostty_cell_t in C (20 bytes)
  */
 export interface GhosttyCell {
   codepoint: number; // u32 (Unicode codepoint - first codepoint of grapheme)
@@ -548,8 +605,49 @@ export interface GhosttyCell {
   bg_b: number; // u8 (background blue)
   flags: number; // u8 (style flags bitfield)
   width: number; // u8 (character width: 1=normal, 2=wide, etc.)
-  hyperlink_id: number; // u16 (0 = no link, >0 = hyperlink ID in set)
+  hyperlink_id: number; // u16 (0 = no link, >0 = page-local hyperlink ID)
   grapheme_len: number; // u8 (number of extra codepoints beyond first)
+  underline_style: number; // u8 (UnderlineStyle, NONE unless CellFlags.UNDERLINE is set)
+  ul_r: number; // u8 (underline red)
+  ul_g: number; // u8 (underline green)
+  ul_b: number; // u8 (underline blue)
+  has_ul_color: number; // u8 (1 = underline color set by SGR 58, 0 = use the text color)
+}
+
+/**
+ * Create a cell with the default colors and no style, e.g. to fill rows
+ * that have no content yet
+ * @param char - Character in the cell ('' for an empty cell)
+ * @param overrides - Fields to set instead of the defaults
+ */
+export function createCell(char: string = '', overrides: Partial<GhosttyCell> = {}): GhosttyCell {
+  return {
+    codepoint: char.codePointAt(0) ?? 0,
+    fg_r: 204,
+    fg_g: 204,
+    fg_b: 204,
+    bg_r: 0,
+    bg_g: 0,
+    bg_b: 0,
+    flags: 0,
+    width: 1,
+    hyperlink_id: 0,
+    grapheme_len: 0,
+    underline_style: 0,
+    ul_r: 0,
+    ul_g: 0,
+    ul_b: 0,
+    has_ul_color: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * OSC 8 hyperlink attached to a cell
+ */
+export interface GhosttyHyperlink {
+  uri: string;
+  id?: string; // Explicit id= parameter, if the application provided one
 }
 
 /**
@@ -575,6 +673,18 @@ export enum CellFlags {
   FAINT = 1 << 7,
 }
 
+/**
+ * Underline style (SGR 4:0 to 4:5)
+ */
+export enum UnderlineStyle {
+  NONE = 0,
+  SINGLE = 1,
+  DOUBLE = 2,
+  CURLY = 3,
+  DOTTED = 4,
+  DASHED = 5,
+}
+
 /**
  * Cursor position and visibility
  */
@@ -0,0 +1,51 @@
+/**
+ * Tests for the geometry of extended underline styles
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { UnderlineStyle } from './types';
+import { underlineRects } from './underline';
+
+describe('underlineRects', () => {
+  test('single and double lines span the cell', () => {
+    expect(underlineRects(UnderlineStyle.SINGLE, 10, 20, 9, 1, 9)).toEqual([[10, 20, 9, 1]]);
+    expect(underlineRects(UnderlineStyle.DOUBLE, 10, 20, 9, 2, 9)).toEqual([
+      [10, 20, 9, 2],
+      [10, 24, 9, 2],
+    ]);
+    expect(underlineRects(UnderlineStyle.NONE, 10, 20, 9, 1, 9)).toEqual([]);
+  });
+
+  test('dots and dashes continue across cells', () => {
+    // The dot at x = 8 is split between the two cells
+    expect(underlineRects(UnderlineStyle.DOTTED, 0, 0, 9, 2, 9)).toEqual([
+      [0, 0, 2, 2],
+      [4, 0, 2, 2],
+      [8, 0, 1, 2],
+    ]);
+    expect(underlineRects(UnderlineStyle.DOTTED, 9, 0, 9, 2, 9)[0]).toEqual([9, 0, 1, 2]);
+
+    expect(underlineRects(UnderlineStyle.DASHED, 0, 0, 10, 1, 10)).toEqual([
+      [0, 0, 3, 1],
+      [5, 0, 3, 1],
+    ]);
+  });
+
+  test('curly lines follow a wave that is continuous between cells', () => {
+    const rects = underlineRects(UnderlineStyle.CURLY, 0, 10, 8, 1, 8);
+    expect(rects).toHaveLength(8);
+    // Top of the wave at the cell edges, bottom in the middle
+    expect(rects[0][1]).toBe(10);
+    expect(rects[3][1] + rects[3][3]).toBeCloseTo(13);
+    expect(rects.every(([, y, , h]) => y >= 10 && y + h <= 13 + 1e-9)).toBe(true);
+    expect(rects.reduce((sum, [, , w]) => sum + w, 0)).toBe(8);
+
+    const next = underlineRects(UnderlineStyle.CURLY, 8, 10, 8, 1, 8);
+    next.forEach(([x, y, w, h], i) => {
+      expect(x - 8).toBe(rects[i][0]);
+      expect(y).toBeCloseTo(rects[i][1]);
+      expect(w).toBe(rects[i][2]);
+      expect(h).toBeCloseTo(rects[i][3]);
+    });
+  });
+});
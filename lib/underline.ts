@@ -0,0 +1,105 @@
+/**
+ * Underline - geometry of the extended underline styles
+ *
+ * SGR 4:2 to 4:5 select double, curly, dotted and dashed underlines, which
+ * editors use for diagnostics and spell checking. Both renderers draw them
+ * from the rectangles computed here: the canvas renderer fills them, the
+ * WebGL renderer pushes them as decoration quads.
+ *
+ * Underlines are drawn cell by cell, so the pattern of dotted, dashed and
+ * curly lines is anchored to absolute x positions rather than to the start of
+ * each cell. Adjacent cells then continue each other's dots, dashes and waves
+ * without a seam.
+ */
+
+import { UnderlineStyle } from './types';
+
+/**
+ * Rectangle as [x, y, width, height]
+ */
+export type UnderlineRect = [number, number, number, number];
+
+/**
+ * Rectangles covering the underline of a cell
+ *
+ * @param style - UnderlineStyle of the cell (NONE draws nothing)
+ * @param x - Left edge of the cell
+ * @param y - Top edge of the (first) underline
+ * @param width - Width of the cell
+ * @param thickness - Line thickness
+ * @param period - Wavelength of curly underlines
+ * @param step - Width of the columns that approximate a curly underline
+ *   (one device pixel gives a smooth wave)
+ */
+export function underlineRects(
+  style: UnderlineStyle,
+  x: number,
+  y: number,
+  width: number,
+  thickness: number,
+  period: number,
+  step = thickness
+): UnderlineRect[] {
+  switch (style) {
+    case UnderlineStyle.SINGLE:
+      return [[x, y, width, thickness]];
+    case UnderlineStyle.DOUBLE:
+      return [
+        [x, y, width, thickness],
+        [x, y + thickness * 2, width, thickness],
+      ];
+    case UnderlineStyle.DOTTED:
+      return patternRects(x, y, width, thickness, thickness, thickness * 2);
+    case UnderlineStyle.DASHED:
+      return patternRects(x, y, width, thickness, thickness * 3, thickness * 5);
+    case UnderlineStyle.CURLY:
+      return curlyRects(x, y, width, thickness, period, step);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Segments of the given length repeating every interval, clipped to the cell
+ */
+function patternRects(
+  x: number,
+  y: number,
+  width: number,
+  thickness: number,
+  length: number,
+  interval: number
+): UnderlineRect[] {
+  const rects: UnderlineRect[] = [];
+  const end = x + width;
+  for (let start = Math.floor(x / interval) * interval; start < end; start += interval) {
+    const left = Math.max(start, x);
+    const right = Math.min(start + length, end);
+    if (right > left) rects.push([left, y, right - left, thickness]);
+  }
+  return rects;
+}
+
+/**
+ * Columns following a wave that swings 2 * thickness below y. Each column
+ * spans the wave's height at both of its edges, so steep parts have no gaps.
+ */
+function curlyRects(
+  x: number,
+  y: number,
+  width: number,
+  thickness: number,
+  period: number,
+  step: number
+): UnderlineRect[] {
+  const rects: UnderlineRect[] = [];
+  const offset = (cx: number) => thickness * (1 - Math.cos((2 * Math.PI * cx) / period));
+  const end = x + width;
+  for (let left = x; left < end; left += step) {
+    const right = Math.min(left + step, end);
+    const a = offset(left);
+    const b = offset(right);
+    rects.push([left, y + Math.min(a, b), right - left, Math.abs(a - b) + thickness]);
+  }
+  return rects;
+}
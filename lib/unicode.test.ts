@@ -0,0 +1,94 @@
+/**
+ * Tests for the Unicode width tables and version selection
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { UnicodeHandling, UnicodeV6, buildWidthTable, isAmbiguousWidth } from './unicode';
+
+/** Width of a codepoint in a table built by buildWidthTable, or undefined */
+function lookup(table: Uint32Array, codepoint: number): number | undefined {
+  for (let i = 0; i < table.length; i += 3) {
+    if (codepoint >= table[i] && codepoint <= table[i + 1]) return table[i + 2];
+  }
+  return undefined;
+}
+
+describe('UnicodeV6', () => {
+  test('matches the classic wcwidth', () => {
+    const v6 = new UnicodeV6();
+    expect(v6.wcwidth(0x41)).toBe(1);
+    expect(v6.wcwidth(0x0301)).toBe(0); // combining acute accent
+    expect(v6.wcwidth(0x4e00)).toBe(2); // CJK ideograph
+    expect(v6.wcwidth(0x303f)).toBe(1);
+    expect(v6.wcwidth(0xac00)).toBe(2); // Hangul syllable
+    expect(v6.wcwidth(0x1f600)).toBe(1); // emoji didn't exist yet
+    expect(v6.wcwidth(0x20000)).toBe(2);
+    expect(v6.wcwidth(0xe0100)).toBe(0); // variation selector supplement
+  });
+});
+
+describe('buildWidthTable', () => {
+  test('is empty for the native version with narrow ambiguous characters', () => {
+    expect(buildWidthTable(undefined, 1)).toHaveLength(0);
+  });
+
+  test('lists only ambiguous characters for the native version', () => {
+    const table = buildWidthTable(undefined, 2);
+    expect(lookup(table, 0xb1)).toBe(2);
+    expect(lookup(table, 0x2192)).toBe(2);
+    expect(lookup(table, 0x4e00)).toBeUndefined();
+    expect(lookup(table, 0x41)).toBeUndefined();
+  });
+
+  test('merges adjacent codepoints of the same width into ranges', () => {
+    const provider = {
+      version: 'test',
+      wcwidth: (codepoint: number) => (codepoint >= 0x3000 && codepoint < 0x4000 ? 2 : 1) as 1 | 2,
+    };
+    const table = buildWidthTable(provider, 1);
+    expect(Array.from(table)).toEqual([0xa0, 0x2fff, 1, 0x3000, 0x3fff, 2, 0x4000, 0x10ffff, 1]);
+  });
+
+  test('makes ambiguous characters wide on top of a provider', () => {
+    const table = buildWidthTable(new UnicodeV6(), 2);
+    expect(isAmbiguousWidth(0xb1)).toBe(true);
+    expect(lookup(table, 0xb1)).toBe(2);
+    expect(lookup(table, 0xe9)).toBe(2);
+    expect(lookup(table, 0xe7)).toBe(1); // ç is not ambiguous
+    expect(lookup(table, 0x1f600)).toBe(1);
+  });
+});
+
+describe('UnicodeHandling', () => {
+  test('switches between registered versions', () => {
+    let changes = 0;
+    const unicode = new UnicodeHandling(() => changes++);
+    expect(unicode.activeVersion).toBe('15.1');
+    expect(unicode.versions).toEqual(['15.1', '6']);
+
+    unicode.activeVersion = '6';
+    unicode.activeVersion = '6';
+    expect(changes).toBe(1);
+    expect(lookup(unicode.getWidths(1), 0x1f600)).toBe(1);
+
+    expect(() => {
+      unicode.activeVersion = '11';
+    }).toThrow('Unknown Unicode version "11"');
+    expect(unicode.activeVersion).toBe('6');
+  });
+
+  test('caches tables and rebuilds them when a provider is replaced', () => {
+    let changes = 0;
+    const unicode = new UnicodeHandling(() => changes++);
+    unicode.register({ version: 'custom', wcwidth: () => 1 });
+    expect(changes).toBe(0);
+
+    unicode.activeVersion = 'custom';
+    const table = unicode.getWidths(1);
+    expect(unicode.getWidths(1)).toBe(table);
+
+    unicode.register({ version: 'custom', wcwidth: () => 2 });
+    expect(changes).toBe(2);
+    expect(lookup(unicode.getWidths(1), 0x41a)).toBe(2);
+  });
+});
@@ -0,0 +1,495 @@
+/**
+ * Tests for the WebGL2 renderer
+ *
+ * Happy DOM has no WebGL, so these tests run the renderer against a stub
+ * WebGL2 context. The stub does not compile GLSL or rasterize anything: it
+ * records shader sources, program links, vertex attribute layouts, uploads and
+ * instanced draw calls so the tests can check what the renderer asks for.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { ImageStorage } from './image-storage';
+import type { IRenderable } from './renderer';
+import { CanvasRenderer } from './renderer';
+import { createIsolatedTerminal } from './test-helpers';
+import { CellFlags, type GhosttyCell, UnderlineStyle, createCell } from './types';
+import { GlyphAtlas, WebGLRenderer } from './webgl-renderer';
+
+// ============================================================================
+// Stub WebGL2 context
+// ============================================================================
+
+interface DrawCall {
+  count: number;
+  data: Float32Array;
+}
+
+interface StubShader {
+  type: string;
+  source: string;
+}
+
+interface StubProgram {
+  shaders: StubShader[];
+  linked: boolean;
+}
+
+interface StubAttribute {
+  size: number;
+  stride: number;
+  offset: number;
+  divisor: number;
+}
+
+interface StubVertexArray {
+  attributes: Map<number, StubAttribute>;
+}
+
+/**
+ * Recording WebGL2 stub: GL objects are plain objects, constants are their
+ * names, and unknown methods are no-ops. Shaders "compile" unless their source
+ * matches failCompile, and every instanced draw is recorded with the last
+ * uploaded data.
+ */
+function createStubGL(canvas: HTMLCanvasElement, failCompile?: RegExp) {
+  const draws: DrawCall[] = [];
+  const programs: StubProgram[] = [];
+  const vertexArrays: StubVertexArray[] = [];
+  let lastUpload = new Float32Array(0);
+  let boundVertexArray: StubVertexArray | null = null;
+
+  const methods: Record<string, unknown> = {
+    canvas,
+    getParameter: (name: string) => (name === 'MAX_TEXTURE_SIZE' ? 4096 : null),
+    createShader: (type: string): StubShader => ({ type, source: '' }),
+    shaderSource: (shader: StubShader, source: string) => {
+      shader.source = source;
+    },
+    getShaderParameter: (shader: StubShader) => !failCompile?.test(shader.source),
+    getShaderInfoLog: () => 'stub compile error',
+    createProgram: (): StubProgram => {
+      const program = { shaders: [], linked: false };
+      programs.push(program);
+      return program;
+    },
+    attachShader: (program: StubProgram, shader: StubShader) => {
+      program.shaders.push(shader);
+    },
+    linkProgram: (program: StubProgram) => {
+      program.linked = true;
+    },
+    getProgramParameter: (program: StubProgram) => program.linked,
+    getUniformLocation: () => ({}),
+    createBuffer: () => ({}),
+    createTexture: () => ({}),
+    createVertexArray: (): StubVertexArray => {
+      const vao = { attributes: new Map() };
+      vertexArrays.push(vao);
+      return vao;
+    },
+    bindVertexArray: (vao: StubVertexArray | null) => {
+      boundVertexArray = vao;
+    },
+    vertexAttribPointer: (
+      location: number,
+      size: number,
+      _type: string,
+      _normalized: boolean,
+      stride: number,
+      offset: number
+    ) => {
+      boundVertexArray?.attributes.set(location, { size, stride, offset, divisor: 0 });
+    },
+    vertexAttribDivisor: (location: number, divisor: number) => {
+      const attribute = boundVertexArray?.attributes.get(location);
+      if (attribute) attribute.divisor = divisor;
+    },
+    bufferData: (_target: string, data: Float32Array) => {
+      lastUpload = data.slice();
+    },
+    drawArraysInstanced: (_mode: string, _first: number, _count: number, instances: number) => {
+      draws.push({ count: instances, data: lastUpload });
+    },
+  };
+
+  const gl = new Proxy(methods, {
+    get(target, prop) {
+      if (typeof prop !== 'string') return undefined;
+      if (prop in target) return target[prop];
+      if (/^[A-Z0-9_]+$/.test(prop)) return prop;
+      return () => {};
+    },
+  });
+
+  return { gl, draws, programs, vertexArrays };
+}
+
+/** Component count of each `layout(location = N) in <type>` shader input */
+function attributeSizes(source: string): Map<number, number> {
+  const sizes = new Map<number, number>();
+  const pattern = /layout\(location = (\d+)\) in (float|vec[234]) \w+;/g;
+  for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+    sizes.set(Number(match[1]), match[2] === 'float' ? 1 : Number(match[2].slice(3)));
+  }
+  return sizes;
+}
+
+/** Declarations matching `<qualifier> <type> <name>;` as "type name" strings */
+function varyings(source: string, qualifier: 'in' | 'out'): string[] {
+  const pattern = new RegExp(`^${qualifier} (\\w+) (\\w+);$`, 'gm');
+  const found: string[] = [];
+  for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+    found.push(`${match[1]} ${match[2]}`);
+  }
+  return found;
+}
+
+// ============================================================================
+// Mock buffer
+// ============================================================================
+
+function createBuffer(lines: GhosttyCell[][], cursor = { x: 0, y: 0, visible: true }) {
+  let dirty = true;
+  const buffer: IRenderable & { markDirty(): void } = {
+    getLine: (y) => lines[y] ?? null,
+    getCursor: () => cursor,
+    getDimensions: () => ({ cols: lines[0].length, rows: lines.length }),
+    isRowDirty: () => dirty,
+    clearDirty: () => {
+      dirty = false;
+    },
+    markDirty: () => {
+      dirty = true;
+    },
+  };
+  return buffer;
+}
+
+// ============================================================================
+// WebGLRenderer
+// ============================================================================
+
+describe('WebGLRenderer', () => {
+  const originalGetContext = HTMLCanvasElement.prototype.getContext;
+  let draws: DrawCall[];
+  let programs: StubProgram[];
+  let vertexArrays: StubVertexArray[];
+  let failCompile: RegExp | undefined;
+
+  beforeEach(() => {
+    draws = [];
+    programs = [];
+    vertexArrays = [];
+    failCompile = undefined;
+    HTMLCanvasElement.prototype.getContext = function (
+      this: HTMLCanvasElement,
+      type: string,
+      options?: unknown
+    ) {
+      if (type === 'webgl2') {
+        const stub = createStubGL(this, failCompile);
+        draws = stub.draws;
+        programs = stub.programs;
+        vertexArrays = stub.vertexArrays;
+        return stub.gl;
+      }
+      return originalGetContext.call(this, type, options);
+    } as typeof HTMLCanvasElement.prototype.getContext;
+  });
+
+  afterEach(() => {
+    HTMLCanvasElement.prototype.getContext = originalGetContext;
+  });
+
+  test('throws when WebGL2 is unavailable', () => {
+    HTMLCanvasElement.prototype.getContext = originalGetContext;
+    expect(() => new WebGLRenderer(document.createElement('canvas'))).toThrow();
+  });
+
+  test('links each program from a vertex and a fragment shader with matching varyings', () => {
+    const renderer = new WebGLRenderer(document.createElement('canvas'));
+
+    expect(programs).toHaveLength(2);
+    for (const program of programs) {
+      expect(program.linked).toBe(true);
+      const [vertex, fragment] = program.shaders;
+      expect(vertex.type).toBe('VERTEX_SHADER');
+      expect(fragment.type).toBe('FRAGMENT_SHADER');
+      expect(vertex.source.startsWith('#version 300 es\n')).toBe(true);
+      expect(fragment.source.startsWith('#version 300 es\n')).toBe(true);
+      // Every fragment input must be written by the vertex stage
+      const outputs = varyings(vertex.source, 'out');
+      for (const input of varyings(fragment.source, 'in')) {
+        expect(outputs).toContain(input);
+      }
+    }
+    renderer.dispose();
+  });
+
+  test('lays out instance attributes to match the vertex shader inputs', () => {
+    const renderer = new WebGLRenderer(document.createElement('canvas'));
+
+    // One vertex array per program, in the same order
+    expect(vertexArrays).toHaveLength(programs.length);
+    vertexArrays.forEach((vao, i) => {
+      const inputs = attributeSizes(programs[i].shaders[0].source);
+      expect([...vao.attributes.keys()].sort()).toEqual([...inputs.keys()].sort());
+
+      // Location 0 is the shared unit quad, the rest are packed per instance
+      const quad = vao.attributes.get(0)!;
+      expect(quad).toEqual({ size: inputs.get(0)!, stride: 0, offset: 0, divisor: 0 });
+
+      let offset = 0;
+      const instanced = [...vao.attributes.entries()].filter(([location]) => location > 0);
+      const stride = instanced.reduce((sum, [location]) => sum + inputs.get(location)! * 4, 0);
+      for (const [location, attribute] of instanced.sort(([a], [b]) => a - b)) {
+        expect(attribute).toEqual({ size: inputs.get(location)!, stride, offset, divisor: 1 });
+        offset += attribute.size * 4;
+      }
+    });
+    renderer.dispose();
+  });
+
+  test('reports the info log when a shader fails to compile', () => {
+    failCompile = /texture\(u_atlas/;
+    expect(() => new WebGLRenderer(document.createElement('canvas'))).toThrow(
+      'Failed to compile shader: stub compile error'
+    );
+  });
+
+  test('draws backgrounds, glyphs, decorations and cursor as instanced quads', () => {
+    const renderer = new WebGLRenderer(document.createElement('canvas'), { devicePixelRatio: 1 });
+    const buffer = createBuffer([
+      [
+        createCell('A', { bg_r: 200 }),
+        createCell('B', { flags: CellFlags.UNDERLINE }),
+        createCell(' '),
+      ],
+    ]);
+
+    renderer.render(buffer, true);
+
+    // backgrounds, glyphs, decorations + block cursor, glyph under the cursor
+    expect(draws.map((d) => d.count)).toEqual([1, 2, 2, 1]);
+    renderer.dispose();
+  });
+
+  test('draws extended underlines in the underline color', () => {
+    const renderer = new WebGLRenderer(document.createElement('canvas'), { devicePixelRatio: 1 });
+    const underlined = createCell('B', {
+      flags: CellFlags.UNDERLINE,
+      underline_style: UnderlineStyle.DOUBLE,
+      ul_r: 255,
+      has_ul_color: 1,
+    });
+    const buffer = createBuffer([[underlined]], { x: 0, y: 0, visible: false });
+
+    renderer.render(buffer, true);
+
+    // glyphs, then one decoration instance per line
+    expect(draws.map((d) => d.count)).toEqual([1, 2]);
+    expect(Array.from(draws[1].data.slice(4, 8))).toEqual([1, 0, 0, 1]);
+    renderer.dispose();
+  });
+
+  test('rasterizes each glyph into the atlas once', () => {
+    const renderer = new WebGLRenderer(document.createElement('canvas'), { devicePixelRatio: 1 });
+    const buffer = createBuffer(
+      [[createCell('x'), createCell('x'), createCell('x'), createCell('y')]],
+      {
+        x: 0,
+        y: 0,
+        visible: false,
+      }
+    );
+
+    renderer.render(buffer, true);
+
+    expect(renderer.getAtlas().glyphCount).toBe(2);
+    expect(draws[0].count).toBe(4);
+    renderer.dispose();
+  });
+
+  test('skips drawing when nothing changed', () => {
+    const renderer = new WebGLRenderer(document.createElement('canvas'), { devicePixelRatio: 1 });
+    const buffer = createBuffer([[createCell('a'), createCell('b')]]);
+
+    renderer.render(buffer);
+    const drawsAfterFirstFrame = draws.length;
+    renderer.render(buffer);
+    expect(draws.length).toBe(drawsAfterFirstFrame);
+
+    buffer.markDirty();
+    renderer.render(buffer);
+    expect(draws.length).toBeGreaterThan(drawsAfterFirstFrame);
+    renderer.dispose();
+  });
+
+  test('draws selected cells with the selection colors', () => {
+    const renderer = new WebGLRenderer(document.createElement('canvas'), {
+      devicePixelRatio: 1,
+      theme: { selectionBackground: '#ff0000' },
+    });
+    renderer.setSelectionManager({
+      hasSelection: () => true,
+      getSelectionCoords: () => ({ startCol: 0, startRow: 0, endCol: 0, endRow: 0 }),
+      getDirtySelectionRows: () => new Set<number>(),
+      clearDirtySelectionRows: () => {},
+    } as any);
+    const buffer = createBuffer([[createCell('a'), createCell('b')]], {
+      x: 1,
+      y: 0,
+      visible: false,
+    });
+
+    renderer.render(buffer, true);
+
+    // One background instance: x, y, w, h, then the selection color
+    const backgrounds = draws[0];
+    expect(backgrounds.count).toBe(1);
+    expect(Array.from(backgrounds.data.slice(4, 8))).toEqual([1, 0, 0, 1]);
+    renderer.dispose();
+  });
+
+  test('anchors highlights to absolute rows that count pruned rows', () => {
+    const renderer = new WebGLRenderer(document.createElement('canvas'), { devicePixelRatio: 1 });
+    const buffer = createBuffer([[createCell('a'), createCell('b')]], {
+      x: 1,
+      y: 0,
+      visible: false,
+    });
+    buffer.getRowsPruned = () => 5;
+
+    // Row 0 was pruned: only the highlight on absolute row 5 is on screen
+    renderer.setHighlights([
+      { row: 0, startCol: 0, endCol: 2, color: '#00ff00' },
+      { row: 5, startCol: 0, endCol: 1, color: '#ff0000' },
+    ]);
+    renderer.render(buffer, true);
+
+    const backgrounds = draws[0];
+    expect(backgrounds.count).toBe(1);
+    expect(Array.from(backgrounds.data.slice(4, 8))).toEqual([1, 0, 0, 1]);
+    renderer.dispose();
+  });
+
+  test('draws the cursor in the color set by the application', () => {
+    const renderer = new WebGLRenderer(document.createElement('canvas'), {
+      devicePixelRatio: 1,
+      cursorStyle: 'bar',
+    });
+    const buffer = Object.assign(createBuffer([[createCell(' ')]]), {
+      getColors: () => ({
+        foreground: { r: 255, g: 255, b: 255 },
+        background: { r: 0, g: 0, b: 0 },
+        cursor: { r: 0, g: 255, b: 0 },
+      }),
+    });
+
+    renderer.render(buffer, true);
+
+    // Only the bar cursor is drawn: x, y, w, h, then its color
+    expect(draws.map((d) => d.count)).toEqual([1]);
+    expect(Array.from(draws[0].data.slice(4, 8))).toEqual([0, 1, 0, 1]);
+    renderer.dispose();
+  });
+
+  test('underlines the hovered hyperlink', () => {
+    const renderer = new WebGLRenderer(document.createElement('canvas'), { devicePixelRatio: 1 });
+    const buffer = createBuffer([[createCell('a', { hyperlink_id: 7 }), createCell('b')]], {
+      x: 0,
+      y: 0,
+      visible: false,
+    });
+
+    renderer.render(buffer, true);
+    expect(draws.map((d) => d.count)).toEqual([2]);
+
+    draws.length = 0;
+    renderer.setHoveredHyperlinkId(7);
+    renderer.render(buffer);
+    expect(draws.map((d) => d.count)).toEqual([2, 1]);
+    renderer.dispose();
+  });
+
+  test('draws images below and above text by z-index', () => {
+    const renderer = new WebGLRenderer(document.createElement('canvas'), { devicePixelRatio: 1 });
+    const storage = new ImageStorage();
+    storage.addImage({
+      id: 1,
+      width: 4,
+      height: 4,
+      source: document.createElement('canvas'),
+      byteLength: 64,
+    });
+    const placement = { imageId: 1, col: 0, row: 0, cols: 1, rows: 1, offsetX: 0, offsetY: 0 };
+    const source = { sx: 0, sy: 0, sw: 4, sh: 4, width: 4, height: 4 };
+    storage.addPlacement({ ...placement, ...source, placementId: 1, z: -1 }, false);
+    storage.addPlacement({ ...placement, ...source, placementId: 2, z: 0 }, false);
+    renderer.setImageStorage(storage);
+    const buffer = createBuffer(
+      [[createCell('a', { bg_r: 200 }), createCell('b', { bg_r: 200 })]],
+      {
+        x: 0,
+        y: 0,
+        visible: false,
+      }
+    );
+
+    renderer.render(buffer, true);
+
+    // backgrounds, image below text, glyphs, image above text
+    expect(draws.map((d) => d.count)).toEqual([2, 1, 2, 1]);
+
+    // Deleting the image redraws without it
+    draws.length = 0;
+    storage.deleteImage(1);
+    renderer.render(buffer);
+    expect(draws.map((d) => d.count)).toEqual([2, 2]);
+    renderer.dispose();
+  });
+});
+
+// ============================================================================
+// GlyphAtlas
+// ============================================================================
+
+describe('GlyphAtlas', () => {
+  const draw = () => {};
+
+  test('packs glyphs into separate slots', () => {
+    const atlas = new GlyphAtlas(64, 64);
+    const a = atlas.getGlyph('a', 20, 20, draw);
+    const b = atlas.getGlyph('b', 20, 20, draw);
+
+    expect(atlas.getGlyph('a', 20, 20, draw)).toBe(a);
+    expect(b.x).toBeGreaterThanOrEqual(a.x + a.width);
+  });
+
+  test('grows when full and invalidates existing glyphs', () => {
+    const atlas = new GlyphAtlas(64, 128);
+    for (let i = 0; i < 10; i++) {
+      atlas.getGlyph(`g${i}`, 20, 20, draw);
+    }
+
+    expect(atlas.size).toBe(128);
+    expect(atlas.version).toBe(1);
+  });
+});
+
+// ============================================================================
+// Terminal integration
+// ============================================================================
+
+describe('Terminal renderer option', () => {
+  test('falls back to the canvas renderer without WebGL2', async () => {
+    const term = await createIsolatedTerminal({ renderer: 'webgl' });
+    const container = document.createElement('div');
+    term.open(container);
+
+    expect(term.renderer).toBeInstanceOf(CanvasRenderer);
+    expect(container.querySelector('canvas')).toBe(term.renderer!.getCanvas());
+
+    term.dispose();
+  });
+});
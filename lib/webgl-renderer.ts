@@ -0,0 +1,1676 @@
+/**
+ * WebGL2 Renderer for Terminal Display
+ *
+ * GPU renderer implementing the same IRenderer contract as CanvasRenderer.
+ * Features:
+ * - Glyph texture atlas (each glyph is rasterized once, then reused)
+ * - Instanced quads for cell backgrounds, glyphs and decorations
+ * - Per-row instance caching (only dirty rows are rebuilt)
+ * - Selection, link hover, cursor and scrollbar rendering
+ *
+ * - Inline images (one texture per image, drawn below or above text by z-index)
+ *
+ * Draw order per frame: backgrounds -> images below text -> glyphs ->
+ * images above text -> decorations/cursor -> cursor glyph
+ */
+
+import { BELL_FLASH_DURATION, BELL_FLASH_OPACITY } from './bell';
+import { drawCustomGlyph, isCustomGlyph } from './custom-glyphs';
+import { buildFont } from './fonts';
+import {
+  type ImageSource,
+  type ImageStorage,
+  type VisibleImage,
+  getVisibleImages,
+} from './image-storage';
+import type { FontWeight, ITheme } from './interfaces';
+import { type LigatureRun, fillTextRun, findLigatureRuns } from './ligatures';
+import {
+  type CellHighlight,
+  type FontMetrics,
+  type IRenderSelection,
+  type IRenderable,
+  type IRenderer,
+  type IScrollbackProvider,
+  type LinkRange,
+  type RendererOptions,
+  getHighlightColor,
+  groupHighlightsByRow,
+  measureFont,
+} from './renderer';
+import { DEFAULT_THEME } from './theme';
+import type { GhosttyCell } from './types';
+import { CellFlags, UnderlineStyle } from './types';
+import { underlineRects } from './underline';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** RGBA color with components in 0-1 */
+type Color = [number, number, number, number];
+
+/**
+ * Location of a rasterized glyph in the atlas (device pixels)
+ */
+export interface GlyphInfo {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** True for glyphs with their own colors (emoji), which are not tinted */
+  colored: boolean;
+}
+
+/** Floats per rect instance: x, y, w, h, r, g, b, a */
+const RECT_STRIDE = 8;
+/** Floats per glyph instance: x, y, w, h, u, v, uw, vh, r, g, b, a, colored */
+const GLYPH_STRIDE = 13;
+
+const WHITE: Color = [1, 1, 1, 1];
+
+const LINK_COLOR: Color = [0x4a / 255, 0x90 / 255, 0xe2 / 255, 1];
+
+// ============================================================================
+// Shaders
+// ============================================================================
+
+const RECT_VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_unit;
+layout(location = 1) in vec4 a_rect;
+layout(location = 2) in vec4 a_color;
+uniform vec2 u_resolution;
+out vec4 v_color;
+void main() {
+  vec2 pos = a_rect.xy + a_unit * a_rect.zw;
+  vec2 clip = pos / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_color = a_color;
+}`;
+
+const RECT_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec4 v_color;
+out vec4 outColor;
+void main() {
+  outColor = v_color;
+}`;
+
+const GLYPH_VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_unit;
+layout(location = 1) in vec4 a_rect;
+layout(location = 2) in vec4 a_tex;
+layout(location = 3) in vec4 a_color;
+layout(location = 4) in float a_colored;
+uniform vec2 u_resolution;
+uniform vec2 u_atlasSize;
+out vec2 v_texCoord;
+out vec4 v_color;
+out float v_colored;
+void main() {
+  vec2 pos = a_rect.xy + a_unit * a_rect.zw;
+  vec2 clip = pos / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_texCoord = (a_tex.xy + a_unit * a_tex.zw) / u_atlasSize;
+  v_color = a_color;
+  v_colored = a_colored;
+}`;
+
+const GLYPH_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+uniform sampler2D u_atlas;
+in vec2 v_texCoord;
+in vec4 v_color;
+in float v_colored;
+out vec4 outColor;
+void main() {
+  vec4 texel = texture(u_atlas, v_texCoord);
+  if (v_colored > 0.5) {
+    outColor = vec4(texel.rgb, texel.a * v_color.a);
+  } else {
+    outColor = vec4(v_color.rgb, texel.a * v_color.a);
+  }
+}`;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Parse a CSS color (#rgb, #rrggbb, #rrggbbaa, rgb(), rgba()) to RGBA floats.
+ * Unrecognized colors become opaque black.
+ */
+function parseColor(color: string): Color {
+  if (color.startsWith('#')) {
+    let hex = color.slice(1);
+    if (hex.length === 3) {
+      hex = hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2];
+    }
+    const value = Number.parseInt(hex.slice(0, 6), 16);
+    const alpha = hex.length === 8 ? Number.parseInt(hex.slice(6, 8), 16) / 255 : 1;
+    if (Number.isNaN(value)) return [0, 0, 0, 1];
+    return [((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255, alpha];
+  }
+
+  const match = color.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)/);
+  if (match) {
+    const alpha = match[4] !== undefined ? Number.parseFloat(match[4]) : 1;
+    return [
+      Number.parseInt(match[1], 10) / 255,
+      Number.parseInt(match[2], 10) / 255,
+      Number.parseInt(match[3], 10) / 255,
+      alpha,
+    ];
+  }
+
+  return [0, 0, 0, 1];
+}
+
+/**
+ * Growable Float32Array of fixed-stride instances
+ */
+class InstanceBuffer {
+  public data: Float32Array;
+  public count = 0;
+
+  constructor(
+    private readonly stride: number,
+    capacity: number = 64
+  ) {
+    this.data = new Float32Array(capacity * stride);
+  }
+
+  /** Number of floats in use */
+  get length(): number {
+    return this.count * this.stride;
+  }
+
+  clear(): void {
+    this.count = 0;
+  }
+
+  /** Reserve space for one instance and return its float offset */
+  private reserve(): number {
+    const offset = this.count * this.stride;
+    if (offset + this.stride > this.data.length) {
+      const grown = new Float32Array(this.data.length * 2);
+      grown.set(this.data);
+      this.data = grown;
+    }
+    this.count++;
+    return offset;
+  }
+
+  pushRect(x: number, y: number, w: number, h: number, color: Color, alpha = color[3]): void {
+    const o = this.reserve();
+    const d = this.data;
+    d[o] = x;
+    d[o + 1] = y;
+    d[o + 2] = w;
+    d[o + 3] = h;
+    d[o + 4] = color[0];
+    d[o + 5] = color[1];
+    d[o + 6] = color[2];
+    d[o + 7] = alpha;
+  }
+
+  pushGlyph(x: number, y: number, glyph: GlyphInfo, color: Color, alpha = color[3]): void {
+    const o = this.reserve();
+    const d = this.data;
+    d[o] = x;
+    d[o + 1] = y;
+    d[o + 2] = glyph.width;
+    d[o + 3] = glyph.height;
+    d[o + 4] = glyph.x;
+    d[o + 5] = glyph.y;
+    d[o + 6] = glyph.width;
+    d[o + 7] = glyph.height;
+    d[o + 8] = color[0];
+    d[o + 9] = color[1];
+    d[o + 10] = color[2];
+    d[o + 11] = alpha;
+    d[o + 12] = glyph.colored ? 1 : 0;
+  }
+
+  /** Push an untinted textured quad (destination and source rects may differ in size) */
+  pushTexture(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number
+  ): void {
+    const o = this.reserve();
+    const d = this.data;
+    d[o] = x;
+    d[o + 1] = y;
+    d[o + 2] = w;
+    d[o + 3] = h;
+    d[o + 4] = sx;
+    d[o + 5] = sy;
+    d[o + 6] = sw;
+    d[o + 7] = sh;
+    d[o + 8] = WHITE[0];
+    d[o + 9] = WHITE[1];
+    d[o + 10] = WHITE[2];
+    d[o + 11] = WHITE[3];
+    d[o + 12] = 1;
+  }
+
+  /** Append all instances of another buffer with the same stride */
+  append(other: InstanceBuffer): void {
+    if (other.count === 0) return;
+    const needed = this.length + other.length;
+    if (needed > this.data.length) {
+      let size = this.data.length * 2;
+      while (size < needed) size *= 2;
+      const grown = new Float32Array(size);
+      grown.set(this.data.subarray(0, this.length));
+      this.data = grown;
+    }
+    this.data.set(other.data.subarray(0, other.length), this.length);
+    this.count += other.count;
+  }
+}
+
+/** Cached instances for one viewport row */
+interface RowInstances {
+  backgrounds: InstanceBuffer;
+  glyphs: InstanceBuffer;
+  decorations: InstanceBuffer;
+}
+
+// ============================================================================
+// GlyphAtlas Class
+// ============================================================================
+
+/**
+ * Texture atlas of rasterized glyphs
+ *
+ * Glyphs are drawn in white into a 2D canvas using shelf packing and tinted
+ * with the cell color in the shader. When the atlas is full it grows (up to
+ * maxSize) or starts over; `version` changes whenever existing entries are
+ * invalidated so callers can rebuild their instance data.
+ */
+export class GlyphAtlas {
+  public readonly canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private glyphs = new Map<string, GlyphInfo>();
+
+  // Shelf packing state
+  private shelfX = 0;
+  private shelfY = 0;
+  private shelfHeight = 0;
+
+  /** True when the canvas has changed since the last texture upload */
+  public dirty = true;
+  /** Incremented whenever existing glyph locations become invalid */
+  public version = 0;
+
+  /** Gap between glyphs to avoid sampling neighbours */
+  private static readonly GAP = 1;
+
+  constructor(
+    private _size: number = 1024,
+    private readonly maxSize: number = 4096
+  ) {
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = _size;
+    this.canvas.height = _size;
+    const ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('Failed to get 2D context for glyph atlas');
+    }
+    this.ctx = ctx;
+  }
+
+  /** Atlas width and height in pixels */
+  get size(): number {
+    return this._size;
+  }
+
+  /** Number of cached glyphs */
+  get glyphCount(): number {
+    return this.glyphs.size;
+  }
+
+  /**
+   * Get a cached glyph or rasterize it.
+   * @param key - Cache key (text plus style)
+   * @param width - Slot width in pixels
+   * @param height - Slot height in pixels
+   * @param draw - Draws the glyph in white with its slot origin at (x, y)
+   */
+  getGlyph(
+    key: string,
+    width: number,
+    height: number,
+    draw: (ctx: CanvasRenderingContext2D, x: number, y: number) => void
+  ): GlyphInfo {
+    const cached = this.glyphs.get(key);
+    if (cached) return cached;
+
+    const slot = this.allocate(width, height);
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(slot.x, slot.y, width, height);
+    ctx.clip();
+    ctx.fillStyle = '#ffffff';
+    draw(ctx, slot.x, slot.y);
+    ctx.restore();
+
+    const glyph: GlyphInfo = {
+      ...slot,
+      width,
+      height,
+      colored: this.isColored(slot.x, slot.y, width, height),
+    };
+    this.glyphs.set(key, glyph);
+    this.dirty = true;
+    return glyph;
+  }
+
+  /**
+   * Drop all glyphs (e.g. after a font change)
+   */
+  clear(): void {
+    this.glyphs.clear();
+    this.ctx.clearRect(0, 0, this._size, this._size);
+    this.shelfX = 0;
+    this.shelfY = 0;
+    this.shelfHeight = 0;
+    this.dirty = true;
+    this.version++;
+  }
+
+  /**
+   * Find space for a glyph, growing or resetting the atlas when full
+   */
+  private allocate(width: number, height: number): { x: number; y: number } {
+    const gap = GlyphAtlas.GAP;
+    if (this.shelfX + width > this._size) {
+      // Start a new shelf
+      this.shelfY += this.shelfHeight + gap;
+      this.shelfX = 0;
+      this.shelfHeight = 0;
+    }
+    if (this.shelfY + height > this._size) {
+      // Full: grow if possible, otherwise start over
+      if (this._size < this.maxSize) {
+        this._size *= 2;
+        this.canvas.width = this._size;
+        this.canvas.height = this._size;
+      }
+      this.clear();
+    }
+
+    const slot = { x: this.shelfX, y: this.shelfY };
+    this.shelfX += width + gap;
+    this.shelfHeight = Math.max(this.shelfHeight, height);
+    return slot;
+  }
+
+  /**
+   * Check whether a rasterized glyph has colors of its own (emoji)
+   */
+  private isColored(x: number, y: number, width: number, height: number): boolean {
+    const { data } = this.ctx.getImageData(x, y, width, height);
+    for (let i = 0; i < data.length; i += 4) {
+      // Ignore faint edge pixels, whose unpremultiplied colors are imprecise
+      if (data[i + 3] < 64) continue;
+      const r = data[i];
+      const g = data[i + 1];
+      const b = data[i + 2];
+      if (Math.abs(r - g) > 16 || Math.abs(g - b) > 16 || r < 200) return true;
+    }
+    return false;
+  }
+}
+
+// ============================================================================
+// WebGLRenderer Class
+// ============================================================================
+
+export class WebGLRenderer implements IRenderer {
+  private canvas: HTMLCanvasElement;
+  private gl: WebGL2RenderingContext;
+  private fontSize: number;
+  private fontFamily: string;
+  private fontWeight: FontWeight;
+  private fontWeightBold: FontWeight;
+  private cursorStyle: 'block' | 'underline' | 'bar';
+  private cursorBlink: boolean;
+  private fontLigatures: boolean;
+  private customGlyphs: boolean;
+  private theme: Required<ITheme>;
+  private devicePixelRatio: number;
+  private metrics: FontMetrics;
+
+  // Parsed theme colors
+  private colors!: {
+    background: Color;
+    foreground: Color;
+    cursor: Color;
+    cursorAccent: Color;
+    selectionBackground: Color;
+    selectionForeground: Color;
+  };
+
+  // GL resources (recreated after context loss)
+  private rectProgram!: WebGLProgram;
+  private glyphProgram!: WebGLProgram;
+  private rectVao!: WebGLVertexArrayObject;
+  private glyphVao!: WebGLVertexArrayObject;
+  private rectBuffer!: WebGLBuffer;
+  private glyphBuffer!: WebGLBuffer;
+  private unitQuadBuffer!: WebGLBuffer;
+  private atlasTexture!: WebGLTexture;
+  private uniforms!: {
+    rectResolution: WebGLUniformLocation | null;
+    glyphResolution: WebGLUniformLocation | null;
+    atlasSize: WebGLUniformLocation | null;
+    atlas: WebGLUniformLocation | null;
+  };
+  private contextLost = false;
+
+  private atlas: GlyphAtlas;
+  private atlasVersion = 0;
+
+  // Per-row instance cache and per-frame assembly buffers
+  private rows: RowInstances[] = [];
+  private frameBackgrounds = new InstanceBuffer(RECT_STRIDE, 1024);
+  private frameGlyphs = new InstanceBuffer(GLYPH_STRIDE, 1024);
+  private frameOverlays = new InstanceBuffer(RECT_STRIDE, 256);
+  private cursorGlyph = new InstanceBuffer(GLYPH_STRIDE, 1);
+
+  // Inline images: textures are cached per image id and dropped when the image changes
+  private imageStorage?: ImageStorage;
+  private lastImageVersion = -1;
+  private imageTextures = new Map<number, { source: ImageSource; texture: WebGLTexture }>();
+  private imageInstance = new InstanceBuffer(GLYPH_STRIDE, 1);
+
+  // Cursor blinking state
+  private cursorVisible: boolean = true;
+  private cursorBlinkInterval?: number;
+
+  // State of the last drawn frame (to skip frames where nothing changed)
+  private forceNextFrame = true;
+  private lastViewportY: number = 0;
+  private lastCursor = { x: -1, y: -1, visible: false };
+  // Cursor position that ligatures break at (null when scrolled: no cursor is drawn)
+  private ligatureCursor: { x: number; y: number } | null = null;
+  private lastScrollbarOpacity = -1;
+  private lastSelectionKey = '';
+
+  // Visual bell: shown until bellFlashEnd (performance.now() time)
+  private bellFlashEnd = 0;
+  private bellFlashing = false;
+
+  // Current buffer being rendered (for grapheme lookups)
+  private currentBuffer: IRenderable | null = null;
+
+  // Selection manager (for rendering selection)
+  private selectionManager?: IRenderSelection;
+  private currentSelectionCoords: {
+    startCol: number;
+    startRow: number;
+    endCol: number;
+    endRow: number;
+  } | null = null;
+
+  // Link rendering state
+  private hoveredHyperlinkId: number = 0;
+  private previousHoveredHyperlinkId: number = 0;
+  private hoveredLinkRange: LinkRange | null = null;
+  private previousHoveredLinkRange: LinkRange | null = null;
+
+  // Cell highlights (e.g. search matches), grouped by absolute row
+  private highlights = new Map<number, CellHighlight[]>();
+  private highlightColors = new Map<string, Color>();
+  private highlightsChanged = false;
+
+  constructor(canvas: HTMLCanvasElement, options: RendererOptions = {}) {
+    this.canvas = canvas;
+    const gl = canvas.getContext('webgl2', {
+      alpha: true,
+      antialias: false,
+      premultipliedAlpha: false,
+    }) as WebGL2RenderingContext | null;
+    if (!gl) {
+      throw new Error('WebGL2 is not available');
+    }
+    this.gl = gl;
+
+    // Apply options
+    this.fontSize = options.fontSize ?? 15;
+    this.fontFamily = options.fontFamily ?? 'monospace';
+    this.fontWeight = options.fontWeight ?? 'normal';
+    this.fontWeightBold = options.fontWeightBold ?? 'bold';
+    this.cursorStyle = options.cursorStyle ?? 'block';
+    this.cursorBlink = options.cursorBlink ?? false;
+    this.fontLigatures = options.fontLigatures ?? false;
+    this.customGlyphs = options.customGlyphs ?? true;
+    this.theme = { ...DEFAULT_THEME, ...options.theme };
+    this.devicePixelRatio = options.devicePixelRatio ?? window.devicePixelRatio ?? 1;
+    this.updateColors();
+
+    // Measure font metrics
+    this.metrics = measureFont(this.fontSize, this.fontFamily, this.fontWeight);
+
+    this.atlas = new GlyphAtlas(1024, Math.min(gl.getParameter(gl.MAX_TEXTURE_SIZE) || 4096, 4096));
+    this.initResources();
+
+    canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
+
+    // Setup cursor blinking if enabled
+    if (this.cursorBlink) {
+      this.startCursorBlink();
+    }
+  }
+
+  // ==========================================================================
+  // GL Setup
+  // ==========================================================================
+
+  /**
+   * Create programs, buffers, vertex arrays and the atlas texture
+   */
+  private initResources(): void {
+    const gl = this.gl;
+
+    this.rectProgram = this.createProgram(RECT_VERTEX_SHADER, RECT_FRAGMENT_SHADER);
+    this.glyphProgram = this.createProgram(GLYPH_VERTEX_SHADER, GLYPH_FRAGMENT_SHADER);
+    this.uniforms = {
+      rectResolution: gl.getUniformLocation(this.rectProgram, 'u_resolution'),
+      glyphResolution: gl.getUniformLocation(this.glyphProgram, 'u_resolution'),
+      atlasSize: gl.getUniformLocation(this.glyphProgram, 'u_atlasSize'),
+      atlas: gl.getUniformLocation(this.glyphProgram, 'u_atlas'),
+    };
+
+    // Unit quad as a triangle strip, shared by all instances
+    this.unitQuadBuffer = this.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.unitQuadBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+
+    // Rect instances: rect (vec4), color (vec4)
+    this.rectBuffer = this.createBuffer();
+    this.rectVao = this.createVertexArray(
+      [
+        { location: 1, size: 4, offset: 0 },
+        { location: 2, size: 4, offset: 4 },
+      ],
+      this.rectBuffer,
+      RECT_STRIDE
+    );
+
+    // Glyph instances: rect (vec4), tex (vec4), color (vec4), colored (float)
+    this.glyphBuffer = this.createBuffer();
+    this.glyphVao = this.createVertexArray(
+      [
+        { location: 1, size: 4, offset: 0 },
+        { location: 2, size: 4, offset: 4 },
+        { location: 3, size: 4, offset: 8 },
+        { location: 4, size: 1, offset: 12 },
+      ],
+      this.glyphBuffer,
+      GLYPH_STRIDE
+    );
+
+    const texture = gl.createTexture();
+    if (!texture) throw new Error('Failed to create atlas texture');
+    this.atlasTexture = texture;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    this.atlas.dirty = true;
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  private createBuffer(): WebGLBuffer {
+    const buffer = this.gl.createBuffer();
+    if (!buffer) throw new Error('Failed to create WebGL buffer');
+    return buffer;
+  }
+
+  private createShader(type: number, source: string): WebGLShader {
+    const gl = this.gl;
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('Failed to create shader');
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader);
+      gl.deleteShader(shader);
+      throw new Error(`Failed to compile shader: ${log}`);
+    }
+    return shader;
+  }
+
+  private createProgram(vertexSource: string, fragmentSource: string): WebGLProgram {
+    const gl = this.gl;
+    const vertex = this.createShader(gl.VERTEX_SHADER, vertexSource);
+    const fragment = this.createShader(gl.FRAGMENT_SHADER, fragmentSource);
+    const program = gl.createProgram();
+    if (!program) throw new Error('Failed to create program');
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, fragment);
+    gl.linkProgram(program);
+    // Shaders are no longer needed once linked
+    gl.deleteShader(vertex);
+    gl.deleteShader(fragment);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(`Failed to link program: ${log}`);
+    }
+    return program;
+  }
+
+  /**
+   * Create a vertex array with the unit quad at location 0 and per-instance
+   * float attributes read from instanceBuffer
+   */
+  private createVertexArray(
+    attributes: { location: number; size: number; offset: number }[],
+    instanceBuffer: WebGLBuffer,
+    stride: number
+  ): WebGLVertexArrayObject {
+    const gl = this.gl;
+    const vao = gl.createVertexArray();
+    if (!vao) throw new Error('Failed to create vertex array');
+    gl.bindVertexArray(vao);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.unitQuadBuffer);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+    for (const { location, size, offset } of attributes) {
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride * 4, offset * 4);
+      gl.vertexAttribDivisor(location, 1);
+    }
+
+    gl.bindVertexArray(null);
+    return vao;
+  }
+
+  private handleContextLost = (e: Event): void => {
+    // Allow the browser to restore the context
+    e.preventDefault();
+    this.contextLost = true;
+  };
+
+  private handleContextRestored = (): void => {
+    this.contextLost = false;
+    // Textures from the lost context are gone
+    this.imageTextures.clear();
+    this.initResources();
+    this.forceNextFrame = true;
+  };
+
+  // ==========================================================================
+  // Canvas Sizing
+  // ==========================================================================
+
+  /**
+   * Resize canvas to fit terminal dimensions
+   */
+  public resize(cols: number, rows: number): void {
+    const cssWidth = cols * this.metrics.width;
+    const cssHeight = rows * this.metrics.height;
+
+    // Set CSS size (what user sees)
+    this.canvas.style.width = `${cssWidth}px`;
+    this.canvas.style.height = `${cssHeight}px`;
+
+    // Set actual canvas size (scaled for DPI)
+    this.canvas.width = cssWidth * this.devicePixelRatio;
+    this.canvas.height = cssHeight * this.devicePixelRatio;
+
+    this.forceNextFrame = true;
+  }
+
+  // ==========================================================================
+  // Main Rendering
+  // ==========================================================================
+
+  /**
+   * Render the terminal buffer
+   */
+  public render(
+    buffer: IRenderable,
+    forceAll: boolean = false,
+    viewportY: number = 0,
+    scrollbackProvider?: IScrollbackProvider,
+    scrollbarOpacity: number = 1
+  ): void {
+    // Store buffer reference for grapheme lookups
+    this.currentBuffer = buffer;
+
+    const cursor = buffer.getCursor();
+    const dims = buffer.getDimensions();
+    const scrollbackLength = scrollbackProvider ? scrollbackProvider.getScrollbackLength() : 0;
+
+    if (this.contextLost) {
+      buffer.clearDirty();
+      return;
+    }
+
+    // Atlas resets invalidate the glyph locations cached in every row
+    if (
+      buffer.needsFullRedraw?.() ||
+      this.forceNextFrame ||
+      this.atlas.version !== this.atlasVersion
+    ) {
+      forceAll = true;
+    }
+
+    // Resize canvas if dimensions changed
+    const needsResize =
+      this.canvas.width !== dims.cols * this.metrics.width * this.devicePixelRatio ||
+      this.canvas.height !== dims.rows * this.metrics.height * this.devicePixelRatio;
+    if (needsResize) {
+      this.resize(dims.cols, dims.rows);
+      forceAll = true;
+    }
+
+    if (this.rows.length !== dims.rows) {
+      this.rows = Array.from({ length: dims.rows }, () => ({
+        backgrounds: new InstanceBuffer(RECT_STRIDE),
+        glyphs: new InstanceBuffer(GLYPH_STRIDE),
+        decorations: new InstanceBuffer(RECT_STRIDE),
+      }));
+      forceAll = true;
+    }
+
+    // Force re-render when viewport changes (scrolling)
+    if (viewportY !== this.lastViewportY) {
+      forceAll = true;
+      this.lastViewportY = viewportY;
+    }
+
+    // Images were added, removed or decoded
+    if (this.imageStorage && this.imageStorage.version !== this.lastImageVersion) {
+      forceAll = true;
+      this.lastImageVersion = this.imageStorage.version;
+      this.pruneImageTextures();
+    }
+
+    // Hover changes affect underlines on any row
+    const linkRangeChanged =
+      JSON.stringify(this.hoveredLinkRange) !== JSON.stringify(this.previousHoveredLinkRange);
+    if (this.hoveredHyperlinkId !== this.previousHoveredHyperlinkId || linkRangeChanged) {
+      forceAll = true;
+      this.previousHoveredHyperlinkId = this.hoveredHyperlinkId;
+      this.previousHoveredLinkRange = this.hoveredLinkRange;
+    }
+
+    if (this.highlightsChanged) {
+      forceAll = true;
+      this.highlightsChanged = false;
+    }
+
+    // Selection rows (current selection plus rows whose selection was cleared)
+    const selectionRows = new Set<number>();
+    const hasSelection = this.selectionManager && this.selectionManager.hasSelection();
+    this.currentSelectionCoords = hasSelection ? this.selectionManager!.getSelectionCoords() : null;
+    const selectionKey = JSON.stringify(this.currentSelectionCoords);
+    if (selectionKey !== this.lastSelectionKey && this.currentSelectionCoords) {
+      const coords = this.currentSelectionCoords;
+      for (let row = coords.startRow; row <= coords.endRow; row++) {
+        selectionRows.add(row);
+      }
+    }
+    this.lastSelectionKey = selectionKey;
+    if (this.selectionManager) {
+      const dirtyRows = this.selectionManager.getDirtySelectionRows();
+      if (dirtyRows.size > 0) {
+        for (const row of dirtyRows) {
+          selectionRows.add(row);
+        }
+        this.selectionManager.clearDirtySelectionRows();
+      }
+    }
+
+    // Ligature runs break at the cursor: rebuild the rows it moved between
+    this.ligatureCursor = viewportY === 0 ? { x: cursor.x, y: cursor.y } : null;
+    const cursorRows = new Set<number>();
+    if (this.fontLigatures && (cursor.x !== this.lastCursor.x || cursor.y !== this.lastCursor.y)) {
+      cursorRows.add(cursor.y);
+      cursorRows.add(this.lastCursor.y);
+    }
+
+    // Rebuild instance data for changed rows
+    let needsDraw = forceAll;
+    this.atlasVersion = this.atlas.version;
+    for (let y = 0; y < dims.rows; y++) {
+      const needsRender =
+        viewportY > 0 ||
+        forceAll ||
+        buffer.isRowDirty(y) ||
+        selectionRows.has(y) ||
+        cursorRows.has(y);
+      if (!needsRender) continue;
+      this.buildRow(buffer, y, viewportY, scrollbackProvider, scrollbackLength);
+      needsDraw = true;
+    }
+
+    // The atlas was reset while building: cached rows point at stale glyphs
+    if (this.atlas.version !== this.atlasVersion) {
+      this.atlasVersion = this.atlas.version;
+      for (let y = 0; y < dims.rows; y++) {
+        this.buildRow(buffer, y, viewportY, scrollbackProvider, scrollbackLength);
+      }
+    }
+
+    // Cursor, scrollbar and visual bell are drawn as overlays every frame
+    const showCursor = viewportY === 0 && cursor.visible && this.cursorVisible;
+    const bellFlashing = performance.now() < this.bellFlashEnd;
+    if (
+      cursor.x !== this.lastCursor.x ||
+      cursor.y !== this.lastCursor.y ||
+      showCursor !== this.lastCursor.visible ||
+      scrollbarOpacity !== this.lastScrollbarOpacity ||
+      bellFlashing !== this.bellFlashing
+    ) {
+      needsDraw = true;
+    }
+    this.bellFlashing = bellFlashing;
+
+    if (needsDraw) {
+      this.drawFrame(
+        buffer,
+        cursor,
+        showCursor,
+        viewportY,
+        scrollbackLength,
+        dims,
+        scrollbackProvider ? scrollbarOpacity : 0
+      );
+    }
+
+    this.lastCursor = { x: cursor.x, y: cursor.y, visible: showCursor };
+    this.lastScrollbarOpacity = scrollbarOpacity;
+    this.forceNextFrame = false;
+
+    // ALWAYS clear dirty flags after rendering
+    buffer.clearDirty();
+  }
+
+  /**
+   * Fetch a viewport row from scrollback or the visible screen
+   */
+  private getViewportLine(
+    buffer: IRenderable,
+    y: number,
+    viewportY: number,
+    scrollbackProvider: IScrollbackProvider | undefined,
+    scrollbackLength: number
+  ): { line: GhosttyCell[] | null; screenRow: number | null } {
+    if (viewportY > 0 && y < viewportY && scrollbackProvider) {
+      // Floor viewportY for array access (handles fractional values during smooth scroll)
+      const scrollbackOffset = scrollbackLength - Math.floor(viewportY) + y;
+      return { line: scrollbackProvider.getScrollbackLine(scrollbackOffset), screenRow: null };
+    }
+    const screenRow = viewportY > 0 ? y - Math.floor(viewportY) : y;
+    return { line: buffer.getLine(screenRow), screenRow };
+  }
+
+  /**
+   * Build cached background, glyph and decoration instances for a row
+   */
+  private buildRow(
+    buffer: IRenderable,
+    y: number,
+    viewportY: number,
+    scrollbackProvider: IScrollbackProvider | undefined,
+    scrollbackLength: number
+  ): void {
+    const row = this.rows[y];
+    row.backgrounds.clear();
+    row.glyphs.clear();
+    row.decorations.clear();
+
+    const { line, screenRow } = this.getViewportLine(
+      buffer,
+      y,
+      viewportY,
+      scrollbackProvider,
+      scrollbackLength
+    );
+    if (!line) return;
+
+    const dpr = this.devicePixelRatio;
+    const cellWidth = this.metrics.width * dpr;
+    const cellHeight = this.metrics.height * dpr;
+    const cellY = y * cellHeight;
+    const lineThickness = Math.max(1, Math.round(dpr));
+    const underlineY = (y * this.metrics.height + this.metrics.baseline + 2) * dpr;
+    const highlights = this.highlights.get(
+      (buffer.getRowsPruned?.() ?? 0) + scrollbackLength - Math.floor(viewportY) + y
+    );
+    const runs = this.fontLigatures ? this.findLigatureRuns(line, y) : [];
+    let nextRun = 0;
+
+    for (let x = 0; x < line.length; x++) {
+      const cell = line[x];
+      if (cell.width === 0) continue; // Skip spacer cells for wide characters
+      while (nextRun < runs.length && runs[nextRun].end <= x) nextRun++;
+      const run = nextRun < runs.length && runs[nextRun].start <= x ? runs[nextRun] : undefined;
+
+      const cellX = x * cellWidth;
+      const width = cellWidth * cell.width;
+      const isSelected = this.isInSelection(x, y);
+
+      // Extract colors and handle inverse
+      let fg: Color = [cell.fg_r / 255, cell.fg_g / 255, cell.fg_b / 255, 1];
+      let bg: Color = [cell.bg_r / 255, cell.bg_g / 255, cell.bg_b / 255, 1];
+      let isDefaultBg = cell.bg_r === 0 && cell.bg_g === 0 && cell.bg_b === 0;
+      if (cell.flags & CellFlags.INVERSE) {
+        [fg, bg] = [bg, fg];
+        isDefaultBg = cell.fg_r === 0 && cell.fg_g === 0 && cell.fg_b === 0;
+      }
+
+      // Background (default backgrounds show the clear color)
+      const highlight = isSelected ? undefined : getHighlightColor(highlights, x);
+      if (isSelected) {
+        row.backgrounds.pushRect(cellX, cellY, width, cellHeight, this.colors.selectionBackground);
+      } else if (highlight) {
+        row.backgrounds.pushRect(
+          cellX,
+          cellY,
+          width,
+          cellHeight,
+          this.parseHighlightColor(highlight)
+        );
+      } else if (!isDefaultBg) {
+        row.backgrounds.pushRect(cellX, cellY, width, cellHeight, bg);
+      }
+
+      if (cell.flags & CellFlags.INVISIBLE) continue;
+
+      const color = isSelected ? this.colors.selectionForeground : fg;
+
+      // Glyph (a ligature run is drawn as one glyph from its first cell)
+      let glyph: GlyphInfo | null = null;
+      if (!run) {
+        glyph = this.getCellGlyph(cell, x, screenRow);
+      } else if (run.start === x) {
+        glyph = this.getRunGlyph(run, cell);
+      }
+      if (glyph) {
+        const padding = this.getGlyphPadding();
+        const alpha = cell.flags & CellFlags.FAINT ? 0.5 : color[3];
+        row.glyphs.pushGlyph(cellX - padding, cellY, glyph, color, alpha);
+      }
+
+      // Decorations (the underline uses the SGR 58 color if one is set)
+      if (cell.flags & CellFlags.UNDERLINE) {
+        const underlineColor: Color =
+          cell.has_ul_color && !isSelected
+            ? [cell.ul_r / 255, cell.ul_g / 255, cell.ul_b / 255, 1]
+            : color;
+        const rects = underlineRects(
+          cell.underline_style || UnderlineStyle.SINGLE,
+          cellX,
+          underlineY,
+          width,
+          lineThickness,
+          cellWidth,
+          1
+        );
+        for (const [rectX, rectY, rectWidth, rectHeight] of rects) {
+          row.decorations.pushRect(rectX, rectY, rectWidth, rectHeight, underlineColor);
+        }
+      }
+      if (cell.flags & CellFlags.STRIKETHROUGH) {
+        const strikeY = cellY + cellHeight / 2;
+        row.decorations.pushRect(cellX, strikeY, width, lineThickness, color);
+      }
+      if (
+        (cell.hyperlink_id > 0 && cell.hyperlink_id === this.hoveredHyperlinkId) ||
+        this.isInHoveredLinkRange(x, y)
+      ) {
+        row.decorations.pushRect(cellX, underlineY, width, lineThickness, LINK_COLOR);
+      }
+    }
+  }
+
+  /**
+   * Runs of a line to draw as one glyph. Runs break at selection boundaries
+   * and around the cursor, so the cursor always covers a single character.
+   */
+  private findLigatureRuns(line: GhosttyCell[], y: number): LigatureRun[] {
+    const cursor = this.ligatureCursor;
+    return findLigatureRuns(line, (x) => {
+      if (cursor && cursor.y === y && (cursor.x === x || cursor.x === x - 1)) return false;
+      return this.isInSelection(x, y) === this.isInSelection(x - 1, y);
+    });
+  }
+
+  /** Horizontal padding around glyph slots so overhanging glyphs aren't clipped */
+  private getGlyphPadding(): number {
+    return Math.ceil((this.metrics.width * this.devicePixelRatio) / 2);
+  }
+
+  /**
+   * Get (rasterizing if needed) the atlas glyph for a cell.
+   * Returns null for empty cells.
+   */
+  private getCellGlyph(cell: GhosttyCell, x: number, screenRow: number | null): GlyphInfo | null {
+    // Get the character to render - use grapheme lookup for complex scripts
+    let char: string;
+    if (cell.grapheme_len > 0 && screenRow !== null && this.currentBuffer?.getGraphemeString) {
+      char = this.currentBuffer.getGraphemeString(screenRow, x);
+    } else {
+      if (cell.codepoint === 0 || cell.codepoint === 32) return null;
+      char = String.fromCodePoint(cell.codepoint);
+    }
+
+    const dpr = this.devicePixelRatio;
+    const padding = this.getGlyphPadding();
+    const width = Math.ceil(this.metrics.width * dpr * cell.width) + padding * 2;
+    const height = Math.ceil(this.metrics.height * dpr);
+
+    // Box drawing, blocks, braille and Powerline symbols fill the whole cell
+    if (this.customGlyphs && cell.grapheme_len === 0 && isCustomGlyph(cell.codepoint)) {
+      const cellWidth = width - padding * 2;
+      return this.atlas.getGlyph(`C${cell.width}:${char}`, width, height, (ctx, slotX, slotY) => {
+        drawCustomGlyph(ctx, cell.codepoint, slotX + padding, slotY, cellWidth, height, dpr);
+      });
+    }
+
+    const bold = (cell.flags & CellFlags.BOLD) !== 0;
+    const italic = (cell.flags & CellFlags.ITALIC) !== 0;
+    const key = `${bold ? 'b' : ''}${italic ? 'i' : ''}${cell.width}:${char}`;
+
+    const weight = bold ? this.fontWeightBold : this.fontWeight;
+    const font = buildFont(this.fontSize * dpr, this.fontFamily, weight, italic);
+    const baseline = this.metrics.baseline * dpr;
+
+    return this.atlas.getGlyph(key, width, height, (ctx, slotX, slotY) => {
+      ctx.font = font;
+      ctx.textBaseline = 'alphabetic';
+      ctx.textAlign = 'left';
+      ctx.fillText(char, slotX + padding, slotY + baseline);
+    });
+  }
+
+  /**
+   * Get (rasterizing if needed) the atlas glyph for a ligature run, shaped as
+   * one string and spanning exactly its cells. The run's first cell gives the
+   * font style.
+   */
+  private getRunGlyph(run: LigatureRun, cell: GhosttyCell): GlyphInfo {
+    const bold = (cell.flags & CellFlags.BOLD) !== 0;
+    const italic = (cell.flags & CellFlags.ITALIC) !== 0;
+    const key = `${bold ? 'b' : ''}${italic ? 'i' : ''}L:${run.text}`;
+
+    const dpr = this.devicePixelRatio;
+    const padding = this.getGlyphPadding();
+    const runWidth = this.metrics.width * dpr * (run.end - run.start);
+    const width = Math.ceil(runWidth) + padding * 2;
+    const height = Math.ceil(this.metrics.height * dpr);
+
+    const weight = bold ? this.fontWeightBold : this.fontWeight;
+    const font = buildFont(this.fontSize * dpr, this.fontFamily, weight, italic);
+    const baseline = this.metrics.baseline * dpr;
+
+    return this.atlas.getGlyph(key, width, height, (ctx, slotX, slotY) => {
+      ctx.font = font;
+      ctx.textBaseline = 'alphabetic';
+      ctx.textAlign = 'left';
+      fillTextRun(ctx, run.text, slotX + padding, slotY + baseline, runWidth);
+    });
+  }
+
+  /**
+   * Assemble cached rows and overlays and draw them
+   */
+  private drawFrame(
+    buffer: IRenderable,
+    cursor: { x: number; y: number },
+    showCursor: boolean,
+    viewportY: number,
+    scrollbackLength: number,
+    dims: { cols: number; rows: number },
+    scrollbarOpacity: number
+  ): void {
+    const gl = this.gl;
+
+    this.frameBackgrounds.clear();
+    this.frameGlyphs.clear();
+    this.frameOverlays.clear();
+    this.cursorGlyph.clear();
+    for (const row of this.rows) {
+      this.frameBackgrounds.append(row.backgrounds);
+      this.frameGlyphs.append(row.glyphs);
+      this.frameOverlays.append(row.decorations);
+    }
+
+    if (showCursor) {
+      this.buildCursor(buffer, cursor.x, cursor.y);
+    }
+    if (scrollbarOpacity > 0) {
+      this.buildScrollbar(viewportY, scrollbackLength, dims.rows, scrollbarOpacity);
+    }
+    if (this.bellFlashing) {
+      this.frameOverlays.pushRect(
+        0,
+        0,
+        this.canvas.width,
+        this.canvas.height,
+        this.colors.foreground,
+        BELL_FLASH_OPACITY
+      );
+    }
+
+    // Upload atlas changes
+    if (this.atlas.dirty) {
+      gl.bindTexture(gl.TEXTURE_2D, this.atlasTexture);
+      gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, this.atlas.canvas);
+      this.atlas.dirty = false;
+    }
+
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+    const bg = this.colors.background;
+    gl.clearColor(bg[0], bg[1], bg[2], bg[3]);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    // Absolute row at the top of the viewport, counting pruned rows (image
+    // placements are anchored to absolute rows, like highlights)
+    const viewportTop = (buffer.getRowsPruned?.() ?? 0) + scrollbackLength - Math.floor(viewportY);
+    const images = this.imageStorage
+      ? getVisibleImages(
+          this.imageStorage,
+          buffer.isAlternateScreen?.() ?? false,
+          viewportTop,
+          dims.rows
+        )
+      : [];
+
+    this.drawRects(this.frameBackgrounds);
+    this.drawImages(images, viewportTop, true);
+    this.drawGlyphs(this.frameGlyphs);
+    this.drawImages(images, viewportTop, false);
+    this.drawRects(this.frameOverlays);
+    this.drawGlyphs(this.cursorGlyph);
+  }
+
+  private drawRects(instances: InstanceBuffer): void {
+    if (instances.count === 0) return;
+    const gl = this.gl;
+    gl.useProgram(this.rectProgram);
+    gl.uniform2f(this.uniforms.rectResolution, this.canvas.width, this.canvas.height);
+    gl.bindVertexArray(this.rectVao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.rectBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, instances.data.subarray(0, instances.length), gl.DYNAMIC_DRAW);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, instances.count);
+    gl.bindVertexArray(null);
+  }
+
+  /**
+   * Draw textured instances (atlas glyphs by default, or an image texture)
+   */
+  private drawGlyphs(
+    instances: InstanceBuffer,
+    texture: WebGLTexture = this.atlasTexture,
+    textureWidth: number = this.atlas.size,
+    textureHeight: number = this.atlas.size
+  ): void {
+    if (instances.count === 0) return;
+    const gl = this.gl;
+    gl.useProgram(this.glyphProgram);
+    gl.uniform2f(this.uniforms.glyphResolution, this.canvas.width, this.canvas.height);
+    gl.uniform2f(this.uniforms.atlasSize, textureWidth, textureHeight);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.uniform1i(this.uniforms.atlas, 0);
+    gl.bindVertexArray(this.glyphVao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.glyphBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, instances.data.subarray(0, instances.length), gl.DYNAMIC_DRAW);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, instances.count);
+    gl.bindVertexArray(null);
+  }
+
+  // ==========================================================================
+  // Images
+  // ==========================================================================
+
+  /**
+   * Draw visible image placements on one side of the text layer
+   */
+  private drawImages(images: VisibleImage[], viewportTop: number, belowText: boolean): void {
+    const dpr = this.devicePixelRatio;
+    for (const { placement, image, source } of images) {
+      if (placement.z < 0 !== belowText) continue;
+      const texture = this.getImageTexture(image.id, source);
+      if (!texture) continue;
+
+      this.imageInstance.clear();
+      this.imageInstance.pushTexture(
+        (placement.col * this.metrics.width + placement.offsetX) * dpr,
+        ((placement.row - viewportTop) * this.metrics.height + placement.offsetY) * dpr,
+        placement.width * dpr,
+        placement.height * dpr,
+        placement.sx,
+        placement.sy,
+        placement.sw,
+        placement.sh
+      );
+      this.drawGlyphs(this.imageInstance, texture, image.width, image.height);
+    }
+  }
+
+  /**
+   * Get the texture for an image, uploading it on first use
+   */
+  private getImageTexture(id: number, source: ImageSource): WebGLTexture | null {
+    const cached = this.imageTextures.get(id);
+    if (cached && cached.source === source) return cached.texture;
+
+    const gl = this.gl;
+    const texture = cached?.texture ?? gl.createTexture();
+    if (!texture) return null;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    this.imageTextures.set(id, { source, texture });
+    return texture;
+  }
+
+  /**
+   * Delete textures of images that were removed or replaced
+   */
+  private pruneImageTextures(): void {
+    for (const [id, { source, texture }] of this.imageTextures) {
+      if (this.imageStorage?.getImage(id)?.source !== source) {
+        if (!this.contextLost) this.gl.deleteTexture(texture);
+        this.imageTextures.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Add cursor instances (block cursors redraw the glyph in cursorAccent)
+   */
+  private buildCursor(buffer: IRenderable, x: number, y: number): void {
+    const dpr = this.devicePixelRatio;
+    const cursorX = x * this.metrics.width * dpr;
+    const cursorY = y * this.metrics.height * dpr;
+    const width = this.metrics.width * dpr;
+    const height = this.metrics.height * dpr;
+    const rgb = buffer.getColors?.().cursor;
+    const color: Color = rgb ? [rgb.r / 255, rgb.g / 255, rgb.b / 255, 1] : this.colors.cursor;
+
+    switch (this.cursorStyle) {
+      case 'block': {
+        this.frameOverlays.pushRect(cursorX, cursorY, width, height, color);
+        const cell = buffer.getLine(y)?.[x];
+        const glyph =
+          cell && !(cell.flags & CellFlags.INVISIBLE) ? this.getCellGlyph(cell, x, y) : null;
+        if (glyph) {
+          this.cursorGlyph.pushGlyph(
+            cursorX - this.getGlyphPadding(),
+            cursorY,
+            glyph,
+            this.colors.cursorAccent
+          );
+        }
+        break;
+      }
+
+      case 'underline': {
+        // Underline at bottom of cell
+        const underlineHeight = Math.max(2, Math.floor(this.metrics.height * 0.15)) * dpr;
+        this.frameOverlays.pushRect(
+          cursorX,
+          cursorY + height - underlineHeight,
+          width,
+          underlineHeight,
+          color
+        );
+        break;
+      }
+
+      case 'bar': {
+        // Vertical bar at left of cell
+        const barWidth = Math.max(2, Math.floor(this.metrics.width * 0.15)) * dpr;
+        this.frameOverlays.pushRect(cursorX, cursorY, barWidth, height, color);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Add scrollbar instances (same geometry as CanvasRenderer)
+   */
+  private buildScrollbar(
+    viewportY: number,
+    scrollbackLength: number,
+    visibleRows: number,
+    opacity: number
+  ): void {
+    if (scrollbackLength === 0) return;
+
+    const dpr = this.devicePixelRatio;
+    const canvasHeight = this.canvas.height / dpr;
+    const canvasWidth = this.canvas.width / dpr;
+
+    // Scrollbar dimensions
+    const scrollbarWidth = 8;
+    const scrollbarX = canvasWidth - scrollbarWidth - 4;
+    const scrollbarPadding = 4;
+    const scrollbarTrackHeight = canvasHeight - scrollbarPadding * 2;
+
+    // Calculate scrollbar thumb size and position
+    const totalLines = scrollbackLength + visibleRows;
+    const thumbHeight = Math.max(20, (visibleRows / totalLines) * scrollbarTrackHeight);
+    const scrollPosition = viewportY / scrollbackLength; // 0 to 1
+    const thumbY = scrollbarPadding + (scrollbarTrackHeight - thumbHeight) * (1 - scrollPosition);
+
+    const gray: Color = [128 / 255, 128 / 255, 128 / 255, 1];
+    const baseOpacity = viewportY > 0 ? 0.5 : 0.3;
+    this.frameOverlays.pushRect(
+      scrollbarX * dpr,
+      scrollbarPadding * dpr,
+      scrollbarWidth * dpr,
+      scrollbarTrackHeight * dpr,
+      gray,
+      0.1 * opacity
+    );
+    this.frameOverlays.pushRect(
+      scrollbarX * dpr,
+      thumbY * dpr,
+      scrollbarWidth * dpr,
+      thumbHeight * dpr,
+      gray,
+      baseOpacity * opacity
+    );
+  }
+
+  /**
+   * Check if a cell at (x, y) is within the current selection
+   */
+  private isInSelection(x: number, y: number): boolean {
+    const sel = this.currentSelectionCoords;
+    if (!sel) return false;
+
+    const { startCol, startRow, endCol, endRow } = sel;
+    if (startRow === endRow) {
+      return y === startRow && x >= startCol && x <= endCol;
+    }
+    if (y === startRow) return x >= startCol;
+    if (y === endRow) return x <= endCol;
+    return y > startRow && y < endRow;
+  }
+
+  /**
+   * Check if a cell at (x, y) is within the hovered regex link range
+   */
+  private isInHoveredLinkRange(x: number, y: number): boolean {
+    const range = this.hoveredLinkRange;
+    if (!range) return false;
+    return (
+      (y === range.startY && x >= range.startX && (y < range.endY || x <= range.endX)) ||
+      (y > range.startY && y < range.endY) ||
+      (y === range.endY && x <= range.endX && (y > range.startY || x >= range.startX))
+    );
+  }
+
+  // ==========================================================================
+  // Cursor Blinking
+  // ==========================================================================
+
+  private startCursorBlink(): void {
+    // xterm.js uses ~530ms blink interval
+    this.cursorBlinkInterval = window.setInterval(() => {
+      this.cursorVisible = !this.cursorVisible;
+    }, 530);
+  }
+
+  private stopCursorBlink(): void {
+    if (this.cursorBlinkInterval !== undefined) {
+      clearInterval(this.cursorBlinkInterval);
+      this.cursorBlinkInterval = undefined;
+    }
+    this.cursorVisible = true;
+  }
+
+  // ==========================================================================
+  // Public API
+  // ==========================================================================
+
+  /**
+   * Update theme colors
+   */
+  public setTheme(theme: ITheme): void {
+    this.theme = { ...DEFAULT_THEME, ...theme };
+    this.updateColors();
+    this.forceNextFrame = true;
+  }
+
+  private updateColors(): void {
+    this.colors = {
+      background: parseColor(this.theme.background),
+      foreground: parseColor(this.theme.foreground),
+      cursor: parseColor(this.theme.cursor),
+      cursorAccent: parseColor(this.theme.cursorAccent),
+      selectionBackground: parseColor(this.theme.selectionBackground),
+      selectionForeground: parseColor(this.theme.selectionForeground),
+    };
+  }
+
+  /**
+   * Enable/disable procedural custom glyphs
+   */
+  public setCustomGlyphs(enabled: boolean): void {
+    this.customGlyphs = enabled;
+    this.forceNextFrame = true;
+  }
+
+  /**
+   * Enable/disable ligature runs
+   */
+  public setFontLigatures(enabled: boolean): void {
+    this.fontLigatures = enabled;
+    this.forceNextFrame = true;
+  }
+
+  /**
+   * Update font size
+   */
+  public setFontSize(size: number): void {
+    this.fontSize = size;
+    this.remeasureFont();
+  }
+
+  /**
+   * Update font family
+   */
+  public setFontFamily(family: string): void {
+    this.fontFamily = family;
+    this.remeasureFont();
+  }
+
+  /**
+   * Update the weights of normal and bold text
+   */
+  public setFontWeight(weight: FontWeight, boldWeight: FontWeight): void {
+    this.fontWeight = weight;
+    this.fontWeightBold = boldWeight;
+    this.remeasureFont();
+  }
+
+  /**
+   * Remeasure font metrics (call after font loads or changes)
+   */
+  public remeasureFont(): void {
+    this.metrics = measureFont(this.fontSize, this.fontFamily, this.fontWeight);
+    this.atlas.clear();
+    this.forceNextFrame = true;
+  }
+
+  /**
+   * Update cursor style
+   */
+  public setCursorStyle(style: 'block' | 'underline' | 'bar'): void {
+    this.cursorStyle = style;
+    this.forceNextFrame = true;
+  }
+
+  /**
+   * Enable/disable cursor blinking
+   */
+  public setCursorBlink(enabled: boolean): void {
+    if (enabled && !this.cursorBlink) {
+      this.cursorBlink = true;
+      this.startCursorBlink();
+    } else if (!enabled && this.cursorBlink) {
+      this.cursorBlink = false;
+      this.stopCursorBlink();
+    }
+  }
+
+  /**
+   * Get current font metrics
+   */
+  public getMetrics(): FontMetrics {
+    return { ...this.metrics };
+  }
+
+  /**
+   * Get canvas element (needed by SelectionManager)
+   */
+  public getCanvas(): HTMLCanvasElement {
+    return this.canvas;
+  }
+
+  /**
+   * Get the glyph atlas (for diagnostics)
+   */
+  public getAtlas(): GlyphAtlas {
+    return this.atlas;
+  }
+
+  /**
+   * Set selection manager (for rendering selection)
+   */
+  public setSelectionManager(manager: IRenderSelection): void {
+    this.selectionManager = manager;
+  }
+
+  /**
+   * Set the currently hovered hyperlink ID for rendering underlines
+   */
+  public setHoveredHyperlinkId(hyperlinkId: number): void {
+    this.hoveredHyperlinkId = hyperlinkId;
+  }
+
+  /**
+   * Set the currently hovered link range for rendering underlines (for regex-detected URLs)
+   * Pass null to clear the hover state
+   */
+  public setHoveredLinkRange(range: LinkRange | null): void {
+    this.hoveredLinkRange = range;
+  }
+
+  /**
+   * Get character cell width (for coordinate conversion)
+   */
+  public get charWidth(): number {
+    return this.metrics.width;
+  }
+
+  /**
+   * Get character cell height (for coordinate conversion)
+   */
+  public get charHeight(): number {
+    return this.metrics.height;
+  }
+
+  /**
+   * Set the image storage to draw inline images from
+   */
+  public setImageStorage(storage: ImageStorage): void {
+    this.imageStorage = storage;
+    this.lastImageVersion = -1;
+  }
+
+  /**
+   * Set the cell highlights drawn under the text
+   */
+  public setHighlights(highlights: CellHighlight[]): void {
+    this.highlights = groupHighlightsByRow(highlights);
+    this.highlightsChanged = true;
+  }
+
+  /** Parse a highlight color, caching the result (highlights use a handful of colors) */
+  private parseHighlightColor(color: string): Color {
+    let parsed = this.highlightColors.get(color);
+    if (!parsed) {
+      parsed = parseColor(color);
+      this.highlightColors.set(color, parsed);
+    }
+    return parsed;
+  }
+
+  /**
+   * Flash the canvas for BELL_FLASH_DURATION (visual bell)
+   */
+  public flashBell(): void {
+    this.bellFlashEnd = performance.now() + BELL_FLASH_DURATION;
+  }
+
+  /**
+   * Clear the canvas to the theme background
+   */
+  public clear(): void {
+    const gl = this.gl;
+    const bg = this.colors.background;
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+    gl.clearColor(bg[0], bg[1], bg[2], bg[3]);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    this.forceNextFrame = true;
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    this.stopCursorBlink();
+    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.removeEventListener('webglcontextrestored', this.handleContextRestored);
+
+    const gl = this.gl;
+    if (!this.contextLost) {
+      gl.deleteProgram(this.rectProgram);
+      gl.deleteProgram(this.glyphProgram);
+      gl.deleteVertexArray(this.rectVao);
+      gl.deleteVertexArray(this.glyphVao);
+      gl.deleteBuffer(this.rectBuffer);
+      gl.deleteBuffer(this.glyphBuffer);
+      gl.deleteBuffer(this.unitQuadBuffer);
+      gl.deleteTexture(this.atlasTexture);
+      for (const { texture } of this.imageTextures.values()) {
+        gl.deleteTexture(texture);
+      }
+    }
+    this.imageTextures.clear();
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Tests for OSC 7 working directory reports
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { IWorkingDirectory } from './interfaces';
+import { createIsolatedTerminal } from './test-helpers';
+import { parseWorkingDirectorySequence } from './working-directory';
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+describe('parseWorkingDirectorySequence', () => {
+  test('parses file URLs with percent-encoded paths', () => {
+    expect(parseWorkingDirectorySequence('7;file://devbox/home/me/my%20project')).toEqual({
+      host: 'devbox',
+      path: '/home/me/my project',
+      uri: 'file://devbox/home/me/my%20project',
+    });
+  });
+
+  test('accepts an empty host', () => {
+    expect(parseWorkingDirectorySequence('7;file:///tmp')).toMatchObject({
+      host: '',
+      path: '/tmp',
+    });
+  });
+
+  test('accepts kitty-shell-cwd URLs without decoding', () => {
+    expect(parseWorkingDirectorySequence('7;kitty-shell-cwd://devbox/tmp/50%')).toMatchObject({
+      host: 'devbox',
+      path: '/tmp/50%',
+    });
+  });
+
+  test('rejects malformed sequences', () => {
+    expect(parseWorkingDirectorySequence('7;/home/me')).toBeNull();
+    expect(parseWorkingDirectorySequence('7;http://devbox/home')).toBeNull();
+    expect(parseWorkingDirectorySequence('7;file://devbox')).toBeNull();
+    expect(parseWorkingDirectorySequence('7;file://devbox/%E0%A4%A')).toBeNull();
+  });
+});
+
+// ============================================================================
+// Terminal integration
+// ============================================================================
+
+describe('Terminal OSC 7', () => {
+  test('exposes the working directory and fires onCwdChange on changes', async () => {
+    const term = await createIsolatedTerminal();
+    term.open(document.createElement('div'));
+    const changes: IWorkingDirectory[] = [];
+    term.onCwdChange((cwd) => changes.push(cwd));
+
+    term.write('\x1b]7;file://devbox/home/me\x07');
+    term.write('\x1b]7;file://devbox/home/me\x1b\\');
+    term.write('\x1b]7;file://devbox/tmp\x07');
+
+    expect(changes.map((cwd) => cwd.path)).toEqual(['/home/me', '/tmp']);
+    expect(term.cwd).toMatchObject({ host: 'devbox', path: '/tmp' });
+
+    term.reset();
+    expect(term.cwd).toBeUndefined();
+    term.dispose();
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * OSC 7 working directory reports
+ *
+ * Shells report their working directory with `OSC 7 ; file://<host>/<path> ST`
+ * (usually on every prompt). The path is percent-encoded. kitty's
+ * `kitty-shell-cwd://<host>/<path>` form, which sends the path unencoded, is
+ * also accepted.
+ */
+
+import type { IWorkingDirectory } from './interfaces';
+
+/**
+ * Parse the body of an OSC 7 sequence (starting with '7;').
+ * Returns null for malformed sequences and unsupported URL schemes.
+ */
+export function parseWorkingDirectorySequence(body: string): IWorkingDirectory | null {
+  if (!body.startsWith('7;')) return null;
+  const uri = body.slice(2);
+
+  const match = /^(file|kitty-shell-cwd):\/\/([^/]*)(\/.*)$/i.exec(uri);
+  if (!match) return null;
+  const [, scheme, host, path] = match;
+
+  if (scheme.toLowerCase() === 'kitty-shell-cwd') {
+    return { host, path, uri };
+  }
+
+  try {
+    return { host, path: decodeURIComponent(path), uri };
+  } catch {
+    // Invalid percent-encoding
+    return null;
+  }
+}
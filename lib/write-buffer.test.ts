@@ -0,0 +1,118 @@
+/**
+ * Tests for the write queue and its flow control events
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { WriteBuffer } from './write-buffer';
+
+/**
+ * Write buffer whose parser completes when parse() is called, like a parser worker
+ */
+function createAsyncBuffer() {
+  const written: (string | Uint8Array)[] = [];
+  const waiting: (() => void)[] = [];
+  const buffer = new WriteBuffer({
+    write: (data) => written.push(data),
+    whenParsed: (callback) => waiting.push(callback),
+  });
+  const parse = () => {
+    for (const callback of waiting.splice(0)) callback();
+  };
+  return { buffer, written, parse };
+}
+
+describe('WriteBuffer', () => {
+  test('parses writes to an idle buffer synchronously and calls back afterwards', async () => {
+    const written: (string | Uint8Array)[] = [];
+    const calls: string[] = [];
+    const buffer = new WriteBuffer({
+      write: (data) => written.push(data),
+      whenParsed: (callback) => callback(),
+    });
+
+    buffer.write('hello', () => calls.push('hello'));
+    buffer.write(new Uint8Array([0x21]), () => calls.push('!'));
+
+    expect(written).toEqual(['hello', new Uint8Array([0x21])]);
+    expect(buffer.pendingLength).toBe(0);
+    expect(calls).toEqual([]);
+
+    await Promise.resolve();
+    expect(calls).toEqual(['hello', '!']);
+  });
+
+  test('waits for each slice to be parsed before sending the next', async () => {
+    const { buffer, written, parse } = createAsyncBuffer();
+    const calls: string[] = [];
+
+    buffer.write('a', () => calls.push('a'));
+    buffer.write('b', () => calls.push('b'));
+    expect(written).toEqual(['a']);
+    expect(buffer.pendingLength).toBe(2);
+
+    parse();
+    expect(buffer.pendingLength).toBe(1);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(written).toEqual(['a', 'b']);
+    expect(calls).toEqual(['a']);
+
+    parse();
+    await Promise.resolve();
+    expect(buffer.pendingLength).toBe(0);
+    expect(calls).toEqual(['a', 'b']);
+  });
+
+  test('fires high and low watermark events once per crossing', async () => {
+    const { buffer, parse } = createAsyncBuffer();
+    const events: string[] = [];
+    buffer.setWatermarks(10, 4);
+    buffer.onHigh(() => events.push('high'));
+    buffer.onLow(() => events.push('low'));
+    buffer.onParsed(() => events.push('parsed'));
+
+    buffer.write('12345');
+    buffer.write('67890');
+    buffer.write('abc');
+    expect(events).toEqual(['high']);
+
+    // Parsing '12345' leaves 8 pending: still above the low watermark
+    parse();
+    expect(events).toEqual(['high', 'parsed']);
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    parse();
+    expect(events).toEqual(['high', 'parsed', 'parsed', 'low']);
+  });
+
+  test('splits long writes without breaking surrogate pairs', () => {
+    const written: (string | Uint8Array)[] = [];
+    const buffer = new WriteBuffer({
+      write: (data) => written.push(data),
+      whenParsed: (callback) => callback(),
+    });
+
+    const text = `${'a'.repeat(64 * 1024 - 1)}\u{1F600}b`;
+    buffer.write(text);
+
+    expect(written).toHaveLength(2);
+    expect((written[0] as string).length).toBe(64 * 1024 - 1);
+    expect(written[1]).toBe('\u{1F600}b');
+    expect(written.join('')).toBe(text);
+  });
+
+  test('drops queued data when disposed', async () => {
+    const { buffer, written, parse } = createAsyncBuffer();
+    let called = false;
+
+    buffer.write('a');
+    buffer.write('b', () => {
+      called = true;
+    });
+    buffer.dispose();
+    parse();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(written).toEqual(['a']);
+    expect(called).toBe(false);
+  });
+});
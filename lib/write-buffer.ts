@@ -0,0 +1,191 @@
+/**
+ * WriteBuffer - queue for terminal output with flow control
+ *
+ * Terminal.write() appends to this queue instead of parsing everything at
+ * once. Data is handed to the parser in time slices: when the queue is empty a
+ * write is parsed right away (so small writes are visible synchronously, as
+ * before), and whatever doesn't fit in a slice is parsed in later slices
+ * scheduled with setTimeout, leaving the main thread free to render and
+ * handle input in between.
+ *
+ * Data counts as pending until the parser has processed it. With a parser
+ * worker that is after the worker has replied, so the next slice is only sent
+ * once the previous one was parsed. onHigh/onLow fire when the pending length
+ * crosses the watermarks, so a transport can pause and resume the PTY:
+ *
+ * ```typescript
+ * term.onWriteBufferHigh(() => socket.send(PAUSE));
+ * term.onWriteBufferLow(() => socket.send(RESUME));
+ * ```
+ *
+ * Lengths are in string characters or bytes, whichever was written.
+ */
+
+import { EventEmitter } from './event-emitter';
+import type { IEvent } from './interfaces';
+
+/** Time budget of a slice, in ms (leaves room for rendering in a 60 Hz frame) */
+const SLICE_BUDGET = 12;
+
+/** Maximum length handed to the parser at once, so long writes are sliced too */
+const CHUNK_LENGTH = 64 * 1024;
+
+/** Maximum length of a slice (bounds the data sent to a parser worker per round trip) */
+const SLICE_LENGTH = 16 * CHUNK_LENGTH;
+
+/** Default pending length at which onHigh fires */
+export const DEFAULT_HIGH_WATERMARK = 128 * 1024;
+
+/** Default pending length at which onLow fires after onHigh */
+export const DEFAULT_LOW_WATERMARK = 16 * 1024;
+
+export interface WriteBufferOptions {
+  /** Hand data to the parser */
+  write: (data: string | Uint8Array) => void;
+  /** Call back once everything handed to write() has been parsed */
+  whenParsed: (callback: () => void) => void;
+}
+
+interface WriteEntry {
+  data: string | Uint8Array;
+  /** Length of data already handed to the parser */
+  offset: number;
+  callback?: () => void;
+}
+
+export class WriteBuffer {
+  private options: WriteBufferOptions;
+  private queue: WriteEntry[] = [];
+  private pending = 0;
+  private highWatermark = DEFAULT_HIGH_WATERMARK;
+  private lowWatermark = DEFAULT_LOW_WATERMARK;
+  private aboveHighWatermark = false;
+  private processing = false;
+  private timeout?: ReturnType<typeof setTimeout>;
+  private disposed = false;
+
+  private highEmitter = new EventEmitter<void>();
+  private lowEmitter = new EventEmitter<void>();
+  private parsedEmitter = new EventEmitter<void>();
+
+  /** Fires when the pending length reaches the high watermark */
+  public readonly onHigh: IEvent<void> = this.highEmitter.event;
+  /** Fires when the pending length drops to the low watermark after onHigh */
+  public readonly onLow: IEvent<void> = this.lowEmitter.event;
+  /** Fires after each slice of data has been parsed */
+  public readonly onParsed: IEvent<void> = this.parsedEmitter.event;
+
+  constructor(options: WriteBufferOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Length of the data written but not parsed yet
+   */
+  get pendingLength(): number {
+    return this.pending;
+  }
+
+  /**
+   * Queue data. The callback runs (asynchronously) once the data has been parsed.
+   */
+  write(data: string | Uint8Array, callback?: () => void): void {
+    if (this.disposed) return;
+
+    this.queue.push({ data, offset: 0, callback });
+    this.pending += data.length;
+    if (!this.aboveHighWatermark && this.pending >= this.highWatermark) {
+      this.aboveHighWatermark = true;
+      this.highEmitter.fire();
+    }
+
+    if (!this.processing && this.timeout === undefined) {
+      this.processSlice();
+    }
+  }
+
+  /**
+   * Change the watermarks (takes effect on the next write or parsed slice)
+   */
+  setWatermarks(highWatermark: number, lowWatermark: number): void {
+    this.highWatermark = highWatermark;
+    this.lowWatermark = lowWatermark;
+  }
+
+  /**
+   * Drop queued data and stop processing. Callbacks of dropped writes don't run.
+   */
+  dispose(): void {
+    this.disposed = true;
+    if (this.timeout !== undefined) clearTimeout(this.timeout);
+    this.timeout = undefined;
+    this.queue = [];
+    this.highEmitter.dispose();
+    this.lowEmitter.dispose();
+    this.parsedEmitter.dispose();
+  }
+
+  /**
+   * Hand queued data to the parser until the slice's time or length budget is
+   * used up, then wait for it to be parsed before scheduling the next slice
+   */
+  private processSlice(): void {
+    this.timeout = undefined;
+    this.processing = true;
+
+    const start = performance.now();
+    const callbacks: (() => void)[] = [];
+    let length = 0;
+    while (
+      this.queue.length > 0 &&
+      length < SLICE_LENGTH &&
+      performance.now() - start < SLICE_BUDGET
+    ) {
+      const entry = this.queue[0];
+      const chunk = nextChunk(entry);
+      entry.offset += chunk.length;
+      length += chunk.length;
+      this.options.write(chunk);
+
+      if (entry.offset >= entry.data.length) {
+        this.queue.shift();
+        if (entry.callback) callbacks.push(entry.callback);
+      }
+    }
+
+    this.options.whenParsed(() => {
+      if (this.disposed) return;
+      this.processing = false;
+      this.pending -= length;
+
+      for (const callback of callbacks) queueMicrotask(callback);
+      this.parsedEmitter.fire();
+
+      if (this.aboveHighWatermark && this.pending <= this.lowWatermark) {
+        this.aboveHighWatermark = false;
+        this.lowEmitter.fire();
+      }
+
+      // Continue with the next slice, unless a listener above already started it
+      if (this.queue.length > 0 && !this.processing && this.timeout === undefined) {
+        this.timeout = setTimeout(() => this.processSlice(), 0);
+      }
+    });
+  }
+}
+
+/**
+ * Take the next chunk of at most CHUNK_LENGTH from an entry. Strings are not
+ * split inside a surrogate pair (bytes can be split anywhere: the parser
+ * decodes UTF-8 across writes).
+ */
+function nextChunk(entry: WriteEntry): string | Uint8Array {
+  const { data, offset } = entry;
+  let end = Math.min(offset + CHUNK_LENGTH, data.length);
+  if (typeof data === 'string') {
+    const code = data.charCodeAt(end - 1);
+    if (end < data.length && code >= 0xd800 && code <= 0xdbff) end--;
+    return offset === 0 && end === data.length ? data : data.slice(offset, end);
+  }
+  return offset === 0 && end === data.length ? data : data.subarray(offset, end);
+}